@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decideApproval } from '@/lib/langchain/agent';
+import { ApprovalError } from '@/lib/langchain/approvals';
+import { claimConversation } from '@/lib/langchain/memory';
+import { requireRole } from '@/lib/auth';
+import { isDatabaseConfigured } from '@/lib/db';
+
+// Approving runs the stored import, which can take a while
+export const maxDuration = 60;
+
+/**
+ * POST /api/approvals/{id}/approve or /api/approvals/{id}/reject
+ * Body: { sessionId } - only the session that requested the approval can decide it, and only its owner
+ * Approving also needs a role allowed to run the stored tool call (403 otherwise)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; decision: string }> }
+) {
+  const { id, decision } = await params;
+
+  if (decision !== 'approve' && decision !== 'reject') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const principal = requireRole(req, 'viewer');
+    if (principal instanceof NextResponse) return principal;
+
+    const body = await req.json().catch(() => ({}));
+    const sessionId = typeof body.sessionId === 'string' ? body.sessionId : '';
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+    }
+
+    if (!(await claimConversation(sessionId, principal.subject))) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const result = await decideApproval(sessionId, id, decision, principal.role);
+
+    return NextResponse.json({
+      approval: result.approval,
+      response: result.response,
+      sessionId,
+      toolsUsed: result.toolsUsed,
+    });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Approval API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { getRepository, isDatabaseConfigured } from '@/lib/db';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/audit
+ * Recorded changes to stored game data, newest first
+ * Requires the analyst role
+ *
+ * Query parameters (all optional):
+ * - source: e.g. route:/api/seed, tool:fetch_nhl_games, script:backfill-period-results
+ * - action: insert | update | derive | reconcile
+ * - gameId, sessionId
+ * - since: ISO timestamp
+ * - limit (default 50, max 200), offset
+ */
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT);
+  const offset = Number(searchParams.get('offset') || 0);
+
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json(
+      { error: 'Database not configured', events: [] },
+      { status: 503 }
+    );
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_LIMIT} and offset must be 0 or more` },
+      { status: 400 }
+    );
+  }
+
+  const since = searchParams.get('since');
+  if (since && isNaN(new Date(since).getTime())) {
+    return NextResponse.json(
+      { error: 'since must be an ISO timestamp' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const principal = requireRole(req, 'analyst');
+    if (principal instanceof NextResponse) return principal;
+
+    // One extra row tells the panel whether there is another page
+    const events = await getRepository().auditEvents.list({
+      source: searchParams.get('source') || undefined,
+      action: searchParams.get('action') || undefined,
+      gameId: searchParams.get('gameId') || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      since: since ? new Date(since).toISOString() : undefined,
+      limit: limit + 1,
+      offset,
+    });
+
+    return NextResponse.json({
+      events: events.slice(0, limit),
+      has_more: events.length > limit,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit events', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
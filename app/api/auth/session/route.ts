@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  apiKeySubject,
+  authenticate,
+  createSessionToken,
+  roleForApiKey,
+  setVisitorCookie,
+} from '@/lib/auth';
+
+/**
+ * GET /api/auth/session
+ * The caller's role and how it was established (api_key, session or default)
+ * Anonymous callers also get a visitor cookie that owns their chat conversations
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const principal = authenticate(req);
+    if (!principal) {
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    }
+
+    return setVisitorCookie(NextResponse.json({ role: principal.role, method: principal.method }), principal);
+  } catch (error) {
+    console.error('Auth session error:', error);
+    return NextResponse.json(
+      { error: 'Auth is misconfigured', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/session
+ * Sign the browser in with an API key; the role is kept in a signed, HTTP-only cookie
+ *
+ * Body parameters:
+ * - apiKey: string - One of the keys in AUTH_API_KEYS
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const apiKey = typeof body.apiKey === 'string' ? body.apiKey.trim() : '';
+
+    if (!apiKey) {
+      return NextResponse.json({ error: 'apiKey is required' }, { status: 400 });
+    }
+
+    const role = roleForApiKey(apiKey);
+    if (!role) {
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ role, method: 'session' });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(role, apiKeySubject(apiKey)), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    console.error('Auth session error:', error);
+    return NextResponse.json(
+      { error: 'Sign-in failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/session
+ * Sign out (the caller falls back to AUTH_DEFAULT_ROLE)
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
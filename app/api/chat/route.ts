@@ -1,11 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processMessage, getConversationHistory, clearMemory } from '@/lib/langchain/agent';
+import { processMessage, getConversationHistory, clearMemory, type AgentStreamEvent } from '@/lib/langchain/agent';
+import { claimConversation } from '@/lib/langchain/memory';
+import { requireRole, setVisitorCookie, type Principal, type Role } from '@/lib/auth';
+import { getRepository, isDatabaseConfigured } from '@/lib/db';
 
 // Allow responses up to 60 seconds for ReAct agent processing
 export const maxDuration = 60;
 
+/**
+ * Stream agent progress as Server-Sent Events
+ * Events: token, tool_start, tool_progress, tool_end, then done (same body as the JSON response) or error
+ */
+function streamResponse(session: string, userMessage: string, role: Role): NextResponse {
+  const encoder = new TextEncoder();
+  // Set when the client disconnects; the agent keeps running, but nothing more is written
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const result = await processMessage(session, userMessage, role, (event: AgentStreamEvent) => {
+          const { type, ...data } = event;
+          send(type, data);
+        });
+
+        send('done', {
+          response: result.response,
+          sessionId: session,
+          approvalRequired: result.approvalRequired,
+          approvalId: result.approvalId,
+          approvals: result.approvals || [],
+          toolsUsed: result.toolsUsed || [],
+        });
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Someone else's conversation looks the same as a missing one
+ */
+function conversationNotFound(principal: Principal): NextResponse {
+  return setVisitorCookie(NextResponse.json({ error: 'Conversation not found' }, { status: 404 }), principal);
+}
+
 export async function POST(req: NextRequest) {
+  // Conversation memory is stored in the database
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
   try {
+    // Every role can chat; the role decides which tools the agent gets
+    const principal = requireRole(req, 'viewer');
+    if (principal instanceof NextResponse) return principal;
+
     const body = await req.json();
     const { messages, sessionId } = body;
 
@@ -23,30 +96,41 @@ export async function POST(req: NextRequest) {
 
     const userMessage = lastMessage.content;
 
+    // A conversation belongs to whoever started it
+    if (!(await claimConversation(session, principal.subject))) {
+      return conversationNotFound(principal);
+    }
+
     // Check for special commands
     if (userMessage.toLowerCase() === '/clear' || userMessage.toLowerCase() === '/reset') {
-      clearMemory(session);
-      return NextResponse.json({
+      await clearMemory(session);
+      return setVisitorCookie(NextResponse.json({
         response: 'Conversation history cleared. How can I help you with NHL analytics?',
         sessionId: session,
-      });
+      }), principal);
+    }
+
+    // Clients that accept SSE get tokens and tool activity as they happen
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      return setVisitorCookie(streamResponse(session, userMessage, principal.role), principal);
     }
 
     // Process the message with the LangChain ReAct agent
-    const result = await processMessage(session, userMessage);
+    const result = await processMessage(session, userMessage, principal.role);
 
     // Return the response
-    return NextResponse.json({
+    return setVisitorCookie(NextResponse.json({
       response: result.response,
       sessionId: session,
       approvalRequired: result.approvalRequired,
       approvalId: result.approvalId,
+      approvals: result.approvals || [],
       toolsUsed: result.toolsUsed || [],
       // Include intermediate steps in development mode
       ...(process.env.NODE_ENV === 'development' && {
         intermediateSteps: result.intermediateSteps,
       }),
-    });
+    }), principal);
   } catch (error) {
     console.error('Chat API error:', error);
 
@@ -75,7 +159,14 @@ export async function POST(req: NextRequest) {
 
 // GET endpoint to retrieve conversation history
 export async function GET(req: NextRequest) {
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
   try {
+    const principal = requireRole(req, 'viewer');
+    if (principal instanceof NextResponse) return principal;
+
     const sessionId = req.nextUrl.searchParams.get('sessionId');
 
     if (!sessionId) {
@@ -85,12 +176,18 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // Only the owner can read a conversation; claiming one nobody owns needs it to exist
+    const conversation = await getRepository().conversations.get(sessionId);
+    if (conversation && !(await claimConversation(sessionId, principal.subject))) {
+      return conversationNotFound(principal);
+    }
+
     const history = await getConversationHistory(sessionId);
 
-    return NextResponse.json({
+    return setVisitorCookie(NextResponse.json({
       sessionId,
       history,
-    });
+    }), principal);
   } catch (error) {
     console.error('Chat history error:', error);
     return NextResponse.json(
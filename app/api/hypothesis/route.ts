@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isDatabaseConfigured } from '@/lib/db';
+import { testPeriodHypothesis } from '@/lib/analytics/hypothesis';
+import { DEFAULT_RULE_SET, getRuleSet } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, type TeamGroupBy } from '@/lib/analytics/franchises';
+
+const MAX_PERMUTATIONS = 20000;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  // seasons=2022-2023,2023-2024 limits the test; default is every season with playoff games
+  const seasons = searchParams.get('seasons')?.split(',').map(s => s.trim()).filter(Boolean);
+  const ruleSet = searchParams.get('ruleSet') || DEFAULT_RULE_SET;
+  const permutations = Math.min(Number(searchParams.get('permutations') ?? 5000), MAX_PERMUTATIONS);
+  const seed = Number(searchParams.get('seed') ?? 1);
+  const groupBy = (searchParams.get('groupBy') || 'team_code') as TeamGroupBy;
+
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  if (!Number.isInteger(permutations) || permutations < 0 || !Number.isInteger(seed)) {
+    return NextResponse.json(
+      { error: 'permutations and seed must be non-negative integers' },
+      { status: 400 }
+    );
+  }
+
+  if (!TEAM_GROUP_BY.includes(groupBy)) {
+    return NextResponse.json(
+      { error: `groupBy must be one of: ${TEAM_GROUP_BY.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    getRuleSet(ruleSet);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown rule set' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await testPeriodHypothesis({ seasons, ruleSet, permutations, seed, groupBy });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error testing hypothesis:', error);
+    return NextResponse.json(
+      { error: 'Failed to test hypothesis', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isDatabaseConfigured } from '@/lib/db';
+import { retryFailedGames } from '@/lib/jobs/import-jobs';
+
+/**
+ * POST /api/jobs/{id}/retry
+ * Requeue a finished job's failed games for the import worker
+ * Requires the analyst role, the same as starting an import from chat
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const principal = requireRole(req, 'analyst');
+    if (principal instanceof NextResponse) return principal;
+
+    const { id } = await params;
+    const progress = await retryFailedGames(id);
+
+    if (!progress) {
+      return NextResponse.json({ error: `Import job ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json(progress, { status: 202 });
+  } catch (error) {
+    console.error('Error retrying import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry import job', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getImportJobProgress } from '@/lib/jobs/import-jobs';
+
+/**
+ * GET /api/jobs/{id}
+ * Progress of an import job: per-status game counts and failures
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const principal = requireRole(req, 'viewer');
+    if (principal instanceof NextResponse) return principal;
+
+    const { id } = await params;
+    const progress = await getImportJobProgress(id);
+
+    if (!progress) {
+      return NextResponse.json({ error: `Import job ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch import job', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
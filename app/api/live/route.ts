@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasRole, requireRole } from '@/lib/auth';
+import { isDatabaseConfigured } from '@/lib/db';
+import { getLiveDate, getLiveSnapshot, pollShared, subscribeLiveUpdates, type LiveUpdate } from '@/lib/jobs/live-tracker';
+
+// Streams stay open for as long as the dashboard is
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * GET /api/live
+ * Games in progress tonight as Server-Sent Events: a snapshot of every tracked game on connect,
+ * then an update whenever a game changes (goal, period end, final). ?date=YYYY-MM-DD returns
+ * that day's tracked games as JSON instead.
+ * Any role can watch; polling the NHL (which stores live games and imports final ones) needs analyst,
+ * so viewers see what analysts' connections have polled.
+ */
+export async function GET(req: NextRequest) {
+  if (!isDatabaseConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const principal = requireRole(req, 'viewer');
+  if (principal instanceof NextResponse) return principal;
+  const canPoll = hasRole(principal.role, 'analyst');
+
+  const date = req.nextUrl.searchParams.get('date');
+  if (date) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'Invalid date format. Use YYYY-MM-DD' }, { status: 400 });
+    }
+    return NextResponse.json(await getLiveSnapshot(date));
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (cancelled?: boolean) => void = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const unsubscribe = subscribeLiveUpdates((update: LiveUpdate) => send('update', update), { poll: canPoll });
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_MS);
+
+      cleanup = (cancelled = false) => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        // A cancelled stream is already closed, and closing it again throws
+        if (!cancelled) controller.close();
+      };
+      req.signal.addEventListener('abort', () => cleanup(), { once: true });
+
+      try {
+        // Poll now rather than waiting out the first interval, then send everything tracked today
+        if (canPoll) await pollShared();
+        send('snapshot', await getLiveSnapshot(await getLiveDate(canPoll)));
+      } catch (error) {
+        console.error('Live stream error:', error);
+        send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    },
+    cancel() {
+      cleanup(true);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
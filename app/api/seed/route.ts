@@ -1,33 +1,31 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { isDatabaseConfigured } from '@/lib/db';
+import { UPSERT_POLICIES, type UpsertPolicy } from '@/lib/ingestion';
+import { createImportJob, runImportJob } from '@/lib/jobs/import-jobs';
 import { nhlApi } from '@/lib/nhl-api/client';
-import { transformGameLanding, validateGameData } from '@/lib/nhl-api/transformers';
-import { gameQueries, periodResultQueries, teamQueries } from '@/lib/supabase/queries';
-import { isSupabaseConfigured } from '@/lib/supabase/client';
-import type { NewNHLLandingResponse } from '@/lib/nhl-api/types';
+import { getRateLimiterConfig } from '@/lib/nhl-api/rate-limiter';
 
-// Allow up to 5 minutes for large seed operations
+// The job starts after the response is sent and keeps going for up to 5 minutes;
+// whatever is left is picked up by the import worker (npm run jobs:worker)
 export const maxDuration = 300;
-
-interface SeedResult {
-  games_processed: number;
-  games_inserted: number;
-  games_skipped: number;
-  games_failed: number;
-  failures: Array<{ game_id: string; error: string }>;
-}
+const SEED_BUDGET_MS = 280 * 1000;
 
 /**
  * POST /api/seed
- * Bulk import NHL games for seeding the database
+ * Queue a bulk import of NHL games for seeding the database
+ * Responds 202 with the job ID; poll GET /api/jobs/{id} for progress
+ * Requires the admin role (API key or signed-in session)
  *
  * Body parameters:
  * - startDate: string (YYYY-MM-DD) - Start of date range
  * - endDate: string (YYYY-MM-DD) - End of date range
- * - batchSize: number (optional, default 10) - Games to process concurrently
+ * - batchSize: number (optional, default NHL_API_CONCURRENCY) - Games to process concurrently
+ * - policy: 'skip' | 'overwrite' | 'merge' (optional, default 'skip') - What to do with games already stored
  */
 export async function POST(req: NextRequest) {
-  // Check if Supabase is configured
-  if (!isSupabaseConfigured()) {
+  // Check if the database is configured
+  if (!isDatabaseConfigured()) {
     return NextResponse.json(
       { error: 'Database not configured' },
       { status: 503 }
@@ -35,8 +33,11 @@ export async function POST(req: NextRequest) {
   }
 
   try {
+    const principal = requireRole(req, 'admin');
+    if (principal instanceof NextResponse) return principal;
+
     const body = await req.json();
-    const { startDate, endDate, batchSize = 10 } = body;
+    const { startDate, endDate, batchSize = getRateLimiterConfig().concurrency, policy = 'skip' } = body;
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -63,82 +64,39 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const results: SeedResult = {
-      games_processed: 0,
-      games_inserted: 0,
-      games_skipped: 0,
-      games_failed: 0,
-      failures: [],
-    };
-
-    // Fetch schedule for the date range
-    console.log(`[Seed] Fetching schedule from ${startDate} to ${endDate}`);
-    let scheduleResponse;
-    try {
-      scheduleResponse = await nhlApi.getSchedule(startDate, endDate);
-      console.log(`[Seed] Schedule fetch successful, found ${scheduleResponse.totalGames} total games`);
-    } catch (scheduleError) {
-      console.error(`[Seed] Schedule fetch failed:`, scheduleError);
-      return NextResponse.json({
-        error: 'Failed to fetch schedule',
-        message: scheduleError instanceof Error ? scheduleError.message : 'Unknown error',
-        stage: 'schedule_fetch'
-      }, { status: 500 });
-    }
-
-    const gameIds: string[] = [];
-    for (const date of scheduleResponse.dates) {
-      for (const game of date.games) {
-        gameIds.push(game.gamePk.toString());
-      }
-    }
-
-    console.log(`[Seed] Found ${gameIds.length} games to process`);
-
-    if (gameIds.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: 'No games found in the specified date range',
-        results,
-      });
-    }
-
-    // Process games in batches
-    for (let i = 0; i < gameIds.length; i += batchSize) {
-      const batch = gameIds.slice(i, i + batchSize);
-      console.log(`[Seed] Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(gameIds.length / batchSize)}`);
-
-      const batchResults = await Promise.all(
-        batch.map(gameId => fetchAndStoreGame(gameId))
+    if (!UPSERT_POLICIES.includes(policy)) {
+      return NextResponse.json(
+        { error: `Invalid policy. Use one of: ${UPSERT_POLICIES.join(', ')}` },
+        { status: 400 }
       );
-
-      for (let j = 0; j < batchResults.length; j++) {
-        results.games_processed++;
-        const result = batchResults[j];
-
-        if (result.success) {
-          if (result.skipped) {
-            results.games_skipped++;
-          } else {
-            results.games_inserted++;
-          }
-        } else {
-          results.games_failed++;
-          results.failures.push({
-            game_id: batch[j],
-            error: result.error || 'Unknown error',
-          });
-        }
-      }
     }
 
-    console.log(`[Seed] Complete: ${results.games_inserted} inserted, ${results.games_skipped} skipped, ${results.games_failed} failed`);
+    const job = await createImportJob({
+      startDate,
+      endDate,
+      skipExisting: policy === 'skip',
+      policy: policy as UpsertPolicy,
+      audit: { source: 'route:/api/seed' },
+    });
+    console.log(`[Seed] Queued import job ${job.id} for ${startDate} to ${endDate}`);
 
-    return NextResponse.json({
-      success: true,
-      message: `Processed ${results.games_processed} games`,
-      results,
+    after(async () => {
+      try {
+        await runImportJob(job.id, { deadline: Date.now() + SEED_BUDGET_MS, concurrency: batchSize });
+      } catch (error) {
+        console.error(`[Seed] Import job ${job.id} stopped:`, error);
+      }
     });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Import queued for ${startDate} to ${endDate}`,
+        job_id: job.id,
+        status_url: `/api/jobs/${job.id}`,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('[Seed] Error:', error);
     return NextResponse.json(
@@ -160,15 +118,20 @@ export async function GET() {
   const today = new Date().toISOString().split('T')[0];
 
   return NextResponse.json({
-    info: 'POST to this endpoint to seed NHL game data',
+    info: 'POST to this endpoint to queue an import of NHL game data, then poll the returned status_url',
     usage: {
       method: 'POST',
+      auth: 'admin role: Authorization: Bearer <key> or a signed-in session',
       body: {
         startDate: 'YYYY-MM-DD (required)',
         endDate: 'YYYY-MM-DD (required)',
-        batchSize: 'number (optional, default 10)',
+        batchSize: `number (optional, default ${getRateLimiterConfig().concurrency})`,
+        policy: `${UPSERT_POLICIES.join(' | ')} (optional, default skip)`,
       },
     },
+    // Requests made by this server process so far
+    rate_limiter: nhlApi.getMetrics(),
+    cache: nhlApi.getCacheStats(),
     suggestions: {
       full_2024_season: {
         startDate: season2024Start,
@@ -191,67 +154,6 @@ export async function GET() {
         description: 'Import last 7 days of games',
       },
     },
-    example_curl: `curl -X POST http://localhost:3000/api/seed -H "Content-Type: application/json" -d '{"startDate":"2024-10-04","endDate":"2024-10-31"}'`,
+    example_curl: `curl -X POST http://localhost:3000/api/seed -H "Authorization: Bearer $ADMIN_API_KEY" -H "Content-Type: application/json" -d '{"startDate":"2024-10-04","endDate":"2024-10-31"}'`,
   });
 }
-
-/**
- * Helper function to fetch and store a single game
- */
-async function fetchAndStoreGame(
-  gameId: string
-): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
-  try {
-    // Check if game already exists
-    const exists = await gameQueries.exists(gameId);
-    if (exists) {
-      return { success: true, skipped: true };
-    }
-
-    console.log(`[Seed] Fetching game ${gameId}...`);
-    // Fetch game from NHL API
-    const landingData: NewNHLLandingResponse = await nhlApi.getGameLanding(gameId);
-    console.log(`[Seed] Game ${gameId} fetched, state: ${landingData.gameState}`);
-
-    // Check if game is final
-    if (landingData.gameState !== 'OFF') {
-      return { success: true, skipped: true }; // Skip non-final games
-    }
-
-    // Transform data
-    const { game, periodResults } = transformGameLanding(landingData);
-
-    // Validate team codes exist
-    const homeExists = await teamQueries.exists(game.home_team_code);
-    const awayExists = await teamQueries.exists(game.away_team_code);
-
-    if (!homeExists || !awayExists) {
-      return {
-        success: false,
-        error: `Team not found: ${!homeExists ? game.home_team_code : game.away_team_code}`,
-      };
-    }
-
-    // Validate game data
-    const validation = validateGameData(game, periodResults);
-    if (!validation.valid) {
-      return {
-        success: false,
-        error: `Validation failed: ${validation.errors.join('; ')}`,
-      };
-    }
-
-    // Insert game
-    await gameQueries.insert(game);
-
-    // Insert period results
-    await periodResultQueries.insertMany(periodResults);
-
-    return { success: true, skipped: false };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
@@ -1,168 +1,105 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase/client';
+import { getRepository, isDatabaseConfigured } from '@/lib/db';
+import { DEFAULT_RULE_SET, getRuleSet, listTeamSeasonSummaries } from '@/lib/analytics/period-rules';
+import { getSeasonAlignment, getTeamAlignment, listConferenceDivisions } from '@/lib/analytics/alignment';
+import { TEAM_GROUP_BY, getTeamGrouping, groupTeamSeasonSummaries, type TeamGroupBy } from '@/lib/analytics/franchises';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const seasonFilter = searchParams.get('season');
-  if (!isSupabaseConfigured()) {
+  // strength=5v5 decides periods (and therefore good/bad wins) by 5-on-5 goals only
+  const strength = searchParams.get('strength') === '5v5' ? '5v5' : 'all';
+  // ruleSet=name[@version] recomputes period outcomes from stored goals (see lib/analytics/period-rules.ts)
+  const ruleSetParam = searchParams.get('ruleSet') || DEFAULT_RULE_SET;
+  // groupBy=franchise folds relocated teams' codes into the current team (ARI and PHX into UTA)
+  const groupBy = (searchParams.get('groupBy') || 'team_code') as TeamGroupBy;
+  if (!isDatabaseConfigured()) {
     return NextResponse.json(
       { error: 'Database not configured', teamStats: [], seasons: [] },
       { status: 503 }
     );
   }
 
-  try {
-    // Fetch all teams
-    const { data: teams, error: teamsError } = await supabase
-      .from('teams')
-      .select('*')
-      .order('team_name', { ascending: true });
+  if (!TEAM_GROUP_BY.includes(groupBy)) {
+    return NextResponse.json(
+      { error: `groupBy must be one of: ${TEAM_GROUP_BY.join(', ')}` },
+      { status: 400 }
+    );
+  }
 
-    if (teamsError) {
-      throw teamsError;
-    }
+  try {
+    getRuleSet(ruleSetParam);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown rule set' },
+      { status: 400 }
+    );
+  }
 
-    // Get all unique seasons for the filter dropdown (most recent first)
-    const { data: allGames, error: allGamesError } = await supabase
-      .from('games')
-      .select('season');
+  try {
+    const repo = getRepository();
+    const grouping = await getTeamGrouping(groupBy);
 
-    if (allGamesError) {
-      throw allGamesError;
-    }
+    // Fetch all teams (one per franchise when grouping by franchise)
+    const teams = (await repo.teams.list({ orderBy: 'team_name' }))
+      .filter((team) => grouping.keyOf(team.team_code) === team.team_code);
 
-    const seasons = [...new Set(allGames?.map(g => g.season) || [])].sort().reverse();
+    // Get all unique seasons for the filter dropdown (most recent first)
+    const seasons = await repo.games.getSeasons();
 
     // Default to most recent season if no filter provided
     const activeSeason = seasonFilter || seasons[0] || null;
 
-    // Fetch games filtered by season
-    let gamesQuery = supabase.from('games').select('*');
-    if (activeSeason) {
-      gamesQuery = gamesQuery.eq('season', activeSeason);
-    }
-    const { data: games, error: gamesError } = await gamesQuery;
-
-    if (gamesError) {
-      throw gamesError;
-    }
-
-    // Get game IDs for the filtered games
-    const filteredGameIds = new Set(games?.map(g => g.game_id) || []);
-
-    // Fetch period results only for filtered games
-    const { data: allPeriodResults, error: periodError } = await supabase
-      .from('period_results')
-      .select('*');
-
-    if (periodError) {
-      throw periodError;
-    }
-
-    // Filter period results to only include games in our filtered set
-    const periodResults = allPeriodResults?.filter(pr => filteredGameIds.has(pr.game_id)) || [];
-
-    // Calculate stats for each team
-    const teamStats = teams?.map((team) => {
-      const teamCode = team.team_code;
-
-      // Get all period results for this team
-      const teamPeriodResults = periodResults?.filter(
-        (pr) => pr.team_code === teamCode
-      ) || [];
-
-      // Count period outcomes (only regulation periods 1-3)
-      const regulationPeriods = teamPeriodResults.filter(
-        (pr) => pr.period_number <= 3
-      );
-
-      const periodsWon = regulationPeriods.filter(
-        (pr) => pr.period_outcome === 'WIN'
-      ).length;
-
-      const periodsLost = regulationPeriods.filter(
-        (pr) => pr.period_outcome === 'LOSS'
-      ).length;
-
-      const periodsTied = regulationPeriods.filter(
-        (pr) => pr.period_outcome === 'TIE'
-      ).length;
-
-      // Get unique game IDs for this team
-      const teamGameIds = [...new Set(teamPeriodResults.map((pr) => pr.game_id))];
-
-      // Calculate wins, losses, and OT losses
-      let wins = 0;
-      let losses = 0;
-      let otLosses = 0;
-      let goodWins = 0;
-      let badWins = 0;
-
-      for (const gameId of teamGameIds) {
-        const game = games?.find((g) => g.game_id === gameId);
-        if (!game) continue;
-
-        const isHome = game.home_team_code === teamCode;
-        const gamePeriodResults = teamPeriodResults.filter(
-          (pr) => pr.game_id === gameId
-        );
-
-        // Determine if team won 2+ regulation periods
-        const wonTwoPlusRegPeriods = gamePeriodResults.some(
-          (pr) => pr.won_two_plus_reg_periods === true
-        );
-
-        // Calculate total goals for each team in this game
-        const homeGoals = periodResults
-          ?.filter((pr) => pr.game_id === gameId && pr.team_code === game.home_team_code)
-          .reduce((sum, pr) => sum + (pr.goals_for || 0), 0) || 0;
-
-        const awayGoals = periodResults
-          ?.filter((pr) => pr.game_id === gameId && pr.team_code === game.away_team_code)
-          .reduce((sum, pr) => sum + (pr.goals_for || 0), 0) || 0;
-
-        const teamGoals = isHome ? homeGoals : awayGoals;
-        const opponentGoals = isHome ? awayGoals : homeGoals;
-
-        // Check if game went to OT/SO
-        const hasOT = gamePeriodResults.some((pr) => pr.period_number > 3);
-
-        if (teamGoals > opponentGoals) {
-          wins++;
-          if (wonTwoPlusRegPeriods) {
-            goodWins++;
-          } else {
-            badWins++;
-          }
-        } else if (teamGoals < opponentGoals) {
-          if (hasOT) {
-            otLosses++;
-          } else {
-            losses++;
-          }
-        }
-      }
-
-      const points = wins * 2 + otLosses;
-
-      return {
-        teamCode: team.team_code,
-        teamName: team.team_name,
-        conference: team.conference,
-        division: team.division,
-        record: { wins, losses, otLosses },
-        points,
-        periodsWon,
-        periodsLost,
-        periodsTied,
-        goodWins,
-        badWins,
-        difference: goodWins - badWins,
-        gamesPlayed: teamGameIds.length,
-        rank: 0,
-        rankScore: 0,
-      };
-    }) || [];
+    // Aggregated per-team records for the season (computed by the database for the standard rule set)
+    const { ruleSet, summaries, missingGoalData } = activeSeason
+      ? await listTeamSeasonSummaries({ season: activeSeason }, ruleSetParam)
+      : { ruleSet: ruleSetParam, summaries: [], missingGoalData: [] };
+    const summaryByTeam = new Map(
+      groupTeamSeasonSummaries(summaries, grouping).map((summary) => [summary.team_code, summary])
+    );
+
+    // Conferences and divisions as they were in the season (today's when the season isn't synced)
+    const alignment = await getSeasonAlignment(activeSeason);
+    const alignmentOf = (teamCode: string) => {
+      // A franchise takes the alignment of whichever of its codes played that season
+      const code = grouping.codesFor(teamCode).find((c) => getTeamAlignment(alignment, c).division !== null);
+      return getTeamAlignment(alignment, code ?? teamCode);
+    };
+
+    // Teams without games in the season still appear with zeroed stats,
+    // except teams with no division that season (e.g. relocated codes), which only appear if they played
+    const teamStats = teams
+      .filter((team) => alignmentOf(team.team_code).division !== null || summaryByTeam.has(team.team_code))
+      .map((team) => {
+        const summary = summaryByTeam.get(team.team_code);
+        const { conference, division } = alignmentOf(team.team_code);
+        const fiveOnFive = strength === '5v5';
+        const goodWins = (fiveOnFive ? summary?.good_wins_5v5 : summary?.good_wins) ?? 0;
+        const badWins = (fiveOnFive ? summary?.bad_wins_5v5 : summary?.bad_wins) ?? 0;
+
+        return {
+          teamCode: team.team_code,
+          teamName: team.team_name,
+          teamCodes: grouping.codesFor(team.team_code),
+          conference,
+          division,
+          record: {
+            wins: summary?.wins ?? 0,
+            losses: summary?.losses ?? 0,
+            otLosses: summary?.ot_losses ?? 0,
+          },
+          points: summary?.points ?? 0,
+          periodsWon: (fiveOnFive ? summary?.periods_won_5v5 : summary?.periods_won) ?? 0,
+          periodsLost: (fiveOnFive ? summary?.periods_lost_5v5 : summary?.periods_lost) ?? 0,
+          periodsTied: (fiveOnFive ? summary?.periods_tied_5v5 : summary?.periods_tied) ?? 0,
+          goodWins,
+          badWins,
+          difference: goodWins - badWins,
+          gamesPlayed: summary?.games_played ?? 0,
+          rank: 0,
+          rankScore: 0,
+        };
+      });
 
     // Calculate rank score: combines points and win difference
     // Formula: (points * 2) + (difference * 3)
@@ -189,7 +126,19 @@ export async function GET(request: NextRequest) {
       team.rank = index + 1;
     });
 
-    return NextResponse.json({ teamStats, seasons, activeSeason });
+    return NextResponse.json({
+      teamStats,
+      seasons,
+      activeSeason,
+      strength,
+      ruleSet,
+      groupBy,
+      alignment: {
+        source: alignment.source,
+        conferences: listConferenceDivisions(alignment),
+      },
+      gamesMissingGoalData: missingGoalData.length,
+    });
   } catch (error) {
     console.error('Error calculating team stats:', error);
     return NextResponse.json(
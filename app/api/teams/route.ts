@@ -1,13 +1,13 @@
 import { NextResponse } from 'next/server';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase/client';
+import { getRepository, isDatabaseConfigured } from '@/lib/db';
 
 export async function GET() {
-  // Check if Supabase is configured
-  if (!isSupabaseConfigured()) {
+  // Check if the database is configured
+  if (!isDatabaseConfigured()) {
     return NextResponse.json(
       {
         error: 'Database not configured',
-        message: 'Supabase environment variables are not set. Please configure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.',
+        message: 'Supabase environment variables are not set. Please configure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY, or set DATA_BACKEND=local.',
         teams: []
       },
       { status: 503 }
@@ -15,24 +15,13 @@ export async function GET() {
   }
 
   try {
-    const { data: teams, error } = await supabase
-      .from('teams')
-      .select('*')
-      .order('team_name', { ascending: true });
+    const teams = await getRepository().teams.list({ orderBy: 'team_name' });
 
-    if (error) {
-      console.error('Error fetching teams:', error);
-      return NextResponse.json(
-        { error: 'Failed to fetch teams', message: error.message },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({ teams: teams || [] });
+    return NextResponse.json({ teams });
   } catch (error) {
     console.error('Error fetching teams:', error);
     return NextResponse.json(
-      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { error: 'Failed to fetch teams', message: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
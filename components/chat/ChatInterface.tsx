@@ -1,22 +1,67 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { MessageList } from './MessageList';
+import { MessageList, type Message, type ToolCall } from './MessageList';
 import { InputBox } from './InputBox';
 import type { ChatSize } from '../dashboard/Dashboard';
-
-interface Message {
-	id: string;
-	role: 'user' | 'assistant';
-	content: string;
-	toolsUsed?: string[];
-}
+import type { Approval } from '@/lib/db/types';
 
 interface ChatInterfaceProps {
 	chatSize?: ChatSize;
 	onChatSizeChange?: (size: ChatSize) => void;
 }
 
+/**
+ * Body of a chat response (the JSON response, or the done event when streaming)
+ */
+interface ChatResponse {
+	response: string;
+	sessionId?: string;
+	toolsUsed?: string[];
+	approvals?: Approval[];
+}
+
+/**
+ * Events sent by /api/chat when streaming
+ */
+type ChatStreamEvent =
+	| { event: 'token'; data: { content: string } }
+	| { event: 'tool_start'; data: { id: string; name: string; args: unknown } }
+	| { event: 'tool_progress'; data: { id: string; message: string } }
+	| { event: 'tool_end'; data: { id: string; name: string; result: string } }
+	| { event: 'done'; data: ChatResponse }
+	| { event: 'error'; data: { message: string } };
+
+/**
+ * Parse Server-Sent Events from a streamed response body
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		buffer += decoder.decode(value, { stream: true });
+
+		let boundary = buffer.indexOf('\n\n');
+		while (boundary !== -1) {
+			const raw = buffer.slice(0, boundary);
+			buffer = buffer.slice(boundary + 2);
+			boundary = buffer.indexOf('\n\n');
+
+			let event = 'message';
+			let data = '';
+			for (const line of raw.split('\n')) {
+				if (line.startsWith('event: ')) event = line.slice(7);
+				else if (line.startsWith('data: ')) data += line.slice(6);
+			}
+			if (data) yield { event, data: JSON.parse(data) } as ChatStreamEvent;
+		}
+	}
+}
+
 const quickPrompts = [
 	'What teams have the most good wins this season?',
 	'Show me period statistics for the Carolina Hurricanes',
@@ -44,14 +89,23 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 		}
 	}, []);
 
-	const handleSubmit = useCallback(async (e?: React.FormEvent) => {
-		e?.preventDefault();
-		if (!input.trim() || isLoading) return;
-
+	const sendMessage = useCallback(async (content: string) => {
 		const userMessage: Message = {
 			id: `user_${Date.now()}`,
 			role: 'user',
-			content: input.trim(),
+			content,
+		};
+		const assistantId = `assistant_${Date.now()}`;
+
+		// Update the streaming assistant message in place
+		const updateAssistant = (update: (message: Message) => Message) => {
+			setMessages(prev => prev.map(m => (m.id === assistantId ? update(m) : m)));
+		};
+		const updateToolCall = (id: string, update: (call: ToolCall) => ToolCall) => {
+			updateAssistant(m => ({
+				...m,
+				toolCalls: m.toolCalls?.map(call => (call.id === id ? update(call) : call)),
+			}));
 		};
 
 		setMessages(prev => [...prev, userMessage]);
@@ -64,6 +118,7 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
+					Accept: 'text/event-stream',
 				},
 				body: JSON.stringify({
 					messages: [...messages, userMessage].map(m => ({
@@ -76,10 +131,47 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 
 			if (!response.ok) {
 				const errorData = await response.json();
-				throw new Error(errorData.message || 'Failed to get response');
+				throw new Error(errorData.message || errorData.error || 'Failed to get response');
 			}
 
-			const data = await response.json();
+			// Commands like /clear answer with plain JSON
+			let data: ChatResponse | null = null;
+			if (response.headers.get('content-type')?.includes('text/event-stream') && response.body) {
+				setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '', toolCalls: [], isStreaming: true }]);
+
+				for await (const { event, data: payload } of readEvents(response.body)) {
+					switch (event) {
+						case 'token':
+							updateAssistant(m => ({ ...m, content: m.content + payload.content }));
+							break;
+						case 'tool_start':
+							updateAssistant(m => ({
+								...m,
+								// Text before a tool call is the agent's reasoning, not the answer
+								content: '',
+								toolCalls: [...(m.toolCalls || []), { id: payload.id, name: payload.name, args: payload.args, status: 'running' }],
+							}));
+							break;
+						case 'tool_progress':
+							updateToolCall(payload.id, call => ({ ...call, progress: payload.message }));
+							break;
+						case 'tool_end':
+							updateToolCall(payload.id, call => ({ ...call, status: 'done', result: payload.result, progress: undefined }));
+							break;
+						case 'done':
+							data = payload;
+							break;
+						case 'error':
+							throw new Error(payload.message);
+					}
+				}
+			} else {
+				data = await response.json();
+			}
+
+			if (!data) {
+				throw new Error('The response ended before the agent finished');
+			}
 
 			// Update session ID if returned
 			if (data.sessionId && data.sessionId !== sessionId) {
@@ -88,28 +180,87 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 			}
 
 			const assistantMessage: Message = {
-				id: `assistant_${Date.now()}`,
+				id: assistantId,
 				role: 'assistant',
 				content: data.response,
 				toolsUsed: data.toolsUsed || [],
+				approvals: data.approvals || [],
 			};
 
-			setMessages(prev => [...prev, assistantMessage]);
+			setMessages(prev =>
+				prev.some(m => m.id === assistantId)
+					? prev.map(m => (m.id === assistantId ? { ...m, ...assistantMessage, isStreaming: false } : m))
+					: [...prev, assistantMessage]
+			);
 		} catch (err) {
 			console.error('Chat error:', err);
 			setError(err instanceof Error ? err : new Error('Unknown error'));
 
-			// Add error message to chat
+			// Replace the partial answer with an error message
 			const errorMessage: Message = {
 				id: `error_${Date.now()}`,
 				role: 'assistant',
 				content: `I encountered an error: ${err instanceof Error ? err.message : 'Unknown error'}. Please try again.`,
 			};
-			setMessages(prev => [...prev, errorMessage]);
+			setMessages(prev => [...prev.filter(m => m.id !== assistantId), errorMessage]);
 		} finally {
 			setIsLoading(false);
 		}
-	}, [input, isLoading, messages, sessionId]);
+	}, [messages, sessionId]);
+
+	const handleApprovalDecision = useCallback(async (approvalId: string, decision: 'approve' | 'reject') => {
+		if (!sessionId || isLoading) return;
+
+		const updateApproval = (update: Partial<Approval>) => {
+			setMessages(prev => prev.map(m => ({
+				...m,
+				approvals: m.approvals?.map(a => (a.id === approvalId ? { ...a, ...update } : a)),
+			})));
+		};
+
+		setIsLoading(true);
+		setError(null);
+		if (decision === 'approve') updateApproval({ status: 'approved' });
+
+		try {
+			const response = await fetch(`/api/approvals/${encodeURIComponent(approvalId)}/${decision}`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ sessionId }),
+			});
+			const data = await response.json();
+
+			if (!response.ok) {
+				// An expired approval can no longer be decided; anything else can be retried
+				updateApproval(response.status === 410
+					? { status: 'pending', expires_at: new Date().toISOString() }
+					: { status: 'pending' });
+				throw new Error(data.message || data.error || 'Failed to record your decision');
+			}
+
+			updateApproval(data.approval);
+			setMessages(prev => [
+				...prev,
+				{
+					id: `assistant_${Date.now()}`,
+					role: 'assistant',
+					content: data.response,
+					toolsUsed: data.toolsUsed || [],
+				},
+			]);
+		} catch (err) {
+			console.error('Approval error:', err);
+			setError(err instanceof Error ? err : new Error('Unknown error'));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [isLoading, sessionId]);
+
+	const handleSubmit = useCallback(async (e?: React.FormEvent) => {
+		e?.preventDefault();
+		if (!input.trim() || isLoading) return;
+		await sendMessage(input.trim());
+	}, [input, isLoading, sendMessage]);
 
 	const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
 		setInput(e.target.value);
@@ -119,59 +270,9 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 		setInput(prompt);
 		// Auto-submit after a brief delay to show the selected prompt
 		setTimeout(() => {
-			const userMessage: Message = {
-				id: `user_${Date.now()}`,
-				role: 'user',
-				content: prompt,
-			};
-
-			setMessages(prev => [...prev, userMessage]);
-			setIsLoading(true);
-			setError(null);
-
-			fetch('/api/chat', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					messages: [...messages, userMessage].map(m => ({
-						role: m.role,
-						content: m.content,
-					})),
-					sessionId,
-				}),
-			})
-				.then(response => {
-					if (!response.ok) {
-						throw new Error('Failed to get response');
-					}
-					return response.json();
-				})
-				.then(data => {
-					if (data.sessionId && data.sessionId !== sessionId) {
-						setSessionId(data.sessionId);
-						sessionStorage.setItem('nhl_chat_session', data.sessionId);
-					}
-
-					const assistantMessage: Message = {
-						id: `assistant_${Date.now()}`,
-						role: 'assistant',
-						content: data.response,
-						toolsUsed: data.toolsUsed || [],
-					};
-					setMessages(prev => [...prev, assistantMessage]);
-				})
-				.catch(err => {
-					console.error('Chat error:', err);
-					setError(err instanceof Error ? err : new Error('Unknown error'));
-				})
-				.finally(() => {
-					setIsLoading(false);
-					setInput('');
-				});
+			sendMessage(prompt);
 		}, 100);
-	}, [messages, sessionId]);
+	}, [sendMessage]);
 
 	const clearChat = useCallback(() => {
 		setMessages([]);
@@ -263,6 +364,7 @@ export function ChatInterface({ chatSize = 'default', onChatSizeChange }: ChatIn
 					error={error}
 					quickPrompts={quickPrompts}
 					onQuickPrompt={handleQuickPrompt}
+					onApprovalDecision={handleApprovalDecision}
 					isLoading={isLoading}
 				/>
 			</div>
@@ -1,7 +1,23 @@
 'use client';
 
+/** Union of the columns the three result types use */
+interface DataTableRow {
+  game_date?: string;
+  home_team_code?: string;
+  away_team_code?: string;
+  period_number?: number;
+  goals_for?: number;
+  goals_against?: number;
+  empty_net_goals?: number;
+  period_outcome?: string;
+  team_code?: string;
+  team_name?: string;
+  periods_won?: number;
+  regulation_periods_won?: number;
+}
+
 interface DataTableProps {
-  data: any[];
+  data: DataTableRow[];
   type: 'team_period_performance' | 'period_win_rankings' | 'two_plus_reg_periods';
 }
 
@@ -45,7 +61,7 @@ export function DataTable({ data, type }: DataTableProps) {
             {data.map((row, idx) => (
               <tr key={idx} className="hover:bg-gray-50">
                 <td className="px-3 py-2 whitespace-nowrap text-gray-900">
-                  {new Date(row.game_date).toLocaleDateString('en-US', {
+                  {new Date(row.game_date!).toLocaleDateString('en-US', {
                     month: 'short',
                     day: 'numeric',
                     year: 'numeric',
@@ -159,7 +175,7 @@ export function DataTable({ data, type }: DataTableProps) {
             {data.map((row, idx) => (
               <tr key={idx} className="hover:bg-gray-50">
                 <td className="px-3 py-2 whitespace-nowrap text-gray-900">
-                  {new Date(row.game_date).toLocaleDateString('en-US', {
+                  {new Date(row.game_date!).toLocaleDateString('en-US', {
                     month: 'short',
                     day: 'numeric',
                     year: 'numeric',
@@ -0,0 +1,113 @@
+'use client';
+
+import type { HypothesisTestResult } from '@/lib/analytics/hypothesis';
+
+interface HypothesisResultProps {
+  result: HypothesisTestResult;
+}
+
+function formatInterval(interval: [number, number] | null): string {
+  return interval ? `[${interval[0].toFixed(3)}, ${interval[1].toFixed(3)}]` : 'n/a';
+}
+
+export function HypothesisResult({ result }: HypothesisResultProps) {
+  const { correlation, logistic_regression: logistic } = result;
+  const significant = correlation?.p_value_permutation != null && correlation.p_value_permutation < 0.05;
+
+  return (
+    <div className="space-y-4">
+      {/* Overview Cards */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+          <div className="text-xs font-medium text-blue-600 uppercase tracking-wide">
+            Playoff Teams
+          </div>
+          <div className="text-2xl font-bold text-blue-900 mt-1">
+            {result.sample_size}
+          </div>
+          <div className="text-xs text-blue-700 mt-1">
+            {result.seasons.length} season(s), {result.rule_set}
+          </div>
+        </div>
+
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+          <div className="text-xs font-medium text-green-600 uppercase tracking-wide">
+            Correlation (r)
+          </div>
+          <div className="text-2xl font-bold text-green-900 mt-1">
+            {correlation ? correlation.r.toFixed(3) : 'n/a'}
+          </div>
+          <div className="text-xs text-green-700 mt-1">
+            95% CI {formatInterval(correlation?.ci95 ?? null)}
+          </div>
+        </div>
+
+        <div className={`${significant ? 'bg-purple-50 border-purple-200' : 'bg-gray-50 border-gray-200'} border rounded-lg p-3`}>
+          <div className="text-xs font-medium text-purple-600 uppercase tracking-wide">
+            Permutation p
+          </div>
+          <div className="text-2xl font-bold text-purple-900 mt-1">
+            {correlation?.p_value_permutation != null ? correlation.p_value_permutation.toFixed(3) : 'n/a'}
+          </div>
+          <div className="text-xs text-purple-700 mt-1">
+            {correlation ? `${correlation.permutations} shuffles` : 'not run'}
+          </div>
+        </div>
+      </div>
+
+      {/* Logistic Regression */}
+      {logistic && (
+        <div className="overflow-x-auto">
+          <div className="text-sm font-semibold text-gray-700 mb-2">
+            Logistic Regression: won at least one series
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Term
+                </th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estimate
+                </th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Std Error
+                </th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  95% CI
+                </th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Odds Ratio
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              <tr className="hover:bg-gray-50">
+                <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-900">
+                  Good - bad win differential
+                </td>
+                <td className="px-3 py-2 text-center whitespace-nowrap text-gray-900">
+                  {logistic.coefficient.toFixed(3)}
+                </td>
+                <td className="px-3 py-2 text-center whitespace-nowrap text-gray-900">
+                  {logistic.std_error != null ? logistic.std_error.toFixed(3) : 'n/a'}
+                </td>
+                <td className="px-3 py-2 text-center whitespace-nowrap text-gray-700">
+                  {formatInterval(logistic.ci95)}
+                </td>
+                <td className="px-3 py-2 text-center whitespace-nowrap text-gray-900">
+                  {logistic.odds_ratio.toFixed(3)} {formatInterval(logistic.odds_ratio_ci95)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Interpretation */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+        {result.interpretation}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import type { ImportJobProgress } from '@/lib/jobs/import-jobs';
+
+const POLL_INTERVAL_MS = 2000;
+
 interface ImportSummaryProps {
-  data: {
+  data?: {
     games_processed: number;
     games_inserted: number;
-    games_updated: number;
+    games_updated?: number;
     games_skipped: number;
     games_failed: number;
     date_range: {
@@ -18,16 +23,79 @@ interface ImportSummaryProps {
       error: string;
     }>;
   };
+  /** Background import job to poll (GET /api/jobs/{id}) until it finishes */
+  jobId?: string;
 }
 
-export function ImportSummary({ data }: ImportSummaryProps) {
+export function ImportSummary({ data: initialData, jobId }: ImportSummaryProps) {
+  const [job, setJob] = useState<ImportJobProgress | null>(null);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+        if (response.ok) {
+          const progress: ImportJobProgress = await response.json();
+          if (cancelled) return;
+          setJob(progress);
+          if (progress.status === 'completed' || progress.status === 'failed') return;
+        }
+      } catch (error) {
+        console.error('Import job poll failed:', error);
+      }
+      if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const data = job ?? initialData;
+  if (!data) {
+    return <div className="text-xs text-gray-600">Loading import progress...</div>;
+  }
+
   const successRate =
     data.games_processed > 0
       ? ((data.games_inserted + data.games_skipped) / data.games_processed) * 100
       : 0;
 
+  const isActive = job !== null && (job.status === 'queued' || job.status === 'running');
+  const percentDone = job?.games_total ? (job.games_processed / job.games_total) * 100 : 0;
+
   return (
     <div className="space-y-3">
+      {/* Job Progress */}
+      {job && (
+        <div className="bg-white border border-gray-200 rounded p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-700">
+              {isActive ? 'Importing...' : job.status === 'completed' ? 'Import complete' : 'Import failed'}
+            </span>
+            <span className="text-sm font-bold text-gray-900">
+              {job.games_processed} / {job.games_total ?? '?'}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${job.status === 'failed' ? 'bg-red-600' : 'bg-blue-600'}`}
+              style={{ width: `${percentDone}%` }}
+            ></div>
+          </div>
+          {job.error && (
+            <div className="text-xs text-red-700 mt-2">{job.error}</div>
+          )}
+        </div>
+      )}
+
       {/* Summary Stats */}
       <div className="grid grid-cols-2 gap-2">
         <div className="bg-blue-50 border border-blue-200 rounded p-2">
@@ -1,12 +1,32 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import type { Approval } from '@/lib/db/types';
 
-interface Message {
+/**
+ * A tool invocation streamed from /api/chat while the agent runs
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: unknown;
+  status: 'running' | 'done';
+  /** Latest progress message reported by the tool */
+  progress?: string;
+  /** Preview of the tool's output */
+  result?: string;
+}
+
+export interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   toolsUsed?: string[];
+  toolCalls?: ToolCall[];
+  /** Operations waiting for the user to approve or reject */
+  approvals?: Approval[];
+  /** Set while tokens are still arriving */
+  isStreaming?: boolean;
 }
 
 interface MessageListProps {
@@ -14,6 +34,7 @@ interface MessageListProps {
   error: Error | null;
   quickPrompts?: string[];
   onQuickPrompt?: (prompt: string) => void;
+  onApprovalDecision?: (approvalId: string, decision: 'approve' | 'reject') => void;
   isLoading?: boolean;
 }
 
@@ -41,7 +62,7 @@ const toolDisplayNames: Record<string, { name: string; icon: string; color: stri
   },
 };
 
-export function MessageList({ messages, error, quickPrompts, onQuickPrompt, isLoading }: MessageListProps) {
+export function MessageList({ messages, error, quickPrompts, onQuickPrompt, onApprovalDecision, isLoading }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -60,13 +81,13 @@ export function MessageList({ messages, error, quickPrompts, onQuickPrompt, isLo
       <div className="flex flex-col h-full p-5">
         <div className="mb-5">
           <p className="text-sm text-[#ccc] mb-3">
-            Hello! I'm your NHL Analytics Agent powered by the ReAct pattern. I can help you:
+            Hello! I&apos;m your NHL Analytics Agent powered by the ReAct pattern. I can help you:
           </p>
           <ul className="text-sm text-[#888] list-disc list-inside mb-3 space-y-1.5">
             <li>Query period-by-period game data</li>
             <li>Import games from the NHL API</li>
             <li>Calculate team statistics and rankings</li>
-            <li>Analyze "good wins" vs "bad wins" patterns</li>
+            <li>Analyze &ldquo;good wins&rdquo; vs &ldquo;bad wins&rdquo; patterns</li>
           </ul>
           <p className="text-xs text-[#666]">{currentTime}</p>
         </div>
@@ -147,6 +168,102 @@ export function MessageList({ messages, error, quickPrompts, onQuickPrompt, isLo
     );
   };
 
+  // Short summary of tool arguments, e.g. "startDate: 2024-10-08, endDate: 2024-10-15"
+  const formatArgs = (args: unknown) => {
+    if (!args || typeof args !== 'object') return '';
+    return Object.entries(args as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`)
+      .join(', ');
+  };
+
+  // Render live tool activity for a streaming message
+  const renderToolCalls = (message: Message) => {
+    if (!message.isStreaming || !message.toolCalls || message.toolCalls.length === 0) return null;
+
+    return (
+      <div className="space-y-1.5 mb-2">
+        {message.toolCalls.map((call) => (
+          <div key={call.id} className="flex items-start gap-2 text-xs text-[#888]">
+            {call.status === 'running' ? (
+              <svg className="w-3 h-3 mt-0.5 flex-shrink-0 animate-spin text-[#3ecf8e]" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+              </svg>
+            ) : (
+              <svg className="w-3 h-3 mt-0.5 flex-shrink-0 text-[#3ecf8e]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+            <div className="min-w-0">
+              <span className="text-[#ccc]">{toolDisplayNames[call.name]?.name || call.name.replace(/_/g, ' ')}</span>
+              {formatArgs(call.args) && (
+                <span className="ml-1 text-[#666] break-all">({formatArgs(call.args)})</span>
+              )}
+              {call.progress && <div className="text-[#3ecf8e]">{call.progress}</div>}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const approvalStatusLabels: Record<Approval['status'], { label: string; color: string }> = {
+    pending: { label: 'Awaiting approval', color: 'text-amber-400' },
+    approved: { label: 'Running...', color: 'text-[#3ecf8e]' },
+    rejected: { label: 'Rejected', color: 'text-[#888]' },
+    executed: { label: 'Approved and completed', color: 'text-[#3ecf8e]' },
+    failed: { label: 'Approved, but failed', color: 'text-red-400' },
+  };
+
+  // Render approval requests with approve/reject buttons
+  const renderApprovals = (message: Message) => {
+    if (!message.approvals || message.approvals.length === 0) return null;
+
+    return (
+      <div className="space-y-2 mt-2">
+        {message.approvals.map((approval) => {
+          const status = approvalStatusLabels[approval.status];
+          const expired = approval.status === 'pending' && new Date(approval.expires_at) <= new Date();
+
+          return (
+            <div key={approval.id} className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 text-xs">
+              <div className="text-[#ccc] font-medium">{approval.description}</div>
+              <div className="text-[#888] mt-1">{approval.estimated_impact}</div>
+              <div className="text-[#666] mt-1 break-all">
+                {approval.tool_name} ({formatArgs(approval.tool_args)})
+              </div>
+              {approval.status === 'pending' && !expired ? (
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => onApprovalDecision?.(approval.id, 'approve')}
+                    disabled={isLoading}
+                    className="px-3 py-1 rounded bg-[#3ecf8e] text-[#171717] font-medium hover:bg-[#2ba56e] disabled:opacity-50 transition-colors"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => onApprovalDecision?.(approval.id, 'reject')}
+                    disabled={isLoading}
+                    className="px-3 py-1 rounded border border-[#444] text-[#ccc] hover:bg-[#2e2e2e] disabled:opacity-50 transition-colors"
+                  >
+                    Reject
+                  </button>
+                </div>
+              ) : (
+                <div className={`mt-2 ${expired ? 'text-[#888]' : status.color}`}>
+                  {expired ? 'Expired' : status.label}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const isStreaming = messages.some(m => m.isStreaming);
+
   return (
     <div className="p-5 space-y-4">
       {error && (
@@ -203,9 +320,13 @@ export function MessageList({ messages, error, quickPrompts, onQuickPrompt, isLo
                 )}
               </div>
               <div className="flex-1 min-w-0">
+                {renderToolCalls(message)}
                 <div className="break-words">
-                  {formatContent(message.content)}
+                  {message.content
+                    ? formatContent(message.content)
+                    : message.isStreaming && <span className="text-[#888]">Thinking and reasoning...</span>}
                 </div>
+                {renderApprovals(message)}
                 {message.role === 'assistant' && renderToolBadges(message.toolsUsed)}
               </div>
             </div>
@@ -213,8 +334,8 @@ export function MessageList({ messages, error, quickPrompts, onQuickPrompt, isLo
         </div>
       ))}
 
-      {/* Loading indicator */}
-      {isLoading && (
+      {/* Loading indicator (until the first streamed event arrives) */}
+      {isLoading && !isStreaming && (
         <div className="flex justify-start mb-3">
           <div className="max-w-[90%] rounded-lg px-3 py-2.5 text-sm bg-[#232323] border border-[#2e2e2e]">
             <div className="flex items-center space-x-2">
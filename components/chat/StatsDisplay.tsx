@@ -32,7 +32,7 @@ interface StatsDisplayProps {
   teamCode?: string;
 }
 
-export function StatsDisplay({ stats, teamCode }: StatsDisplayProps) {
+export function StatsDisplay({ stats }: StatsDisplayProps) {
   return (
     <div className="space-y-4">
       {/* Overview Cards */}
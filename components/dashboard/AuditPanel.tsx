@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AuditEvent } from '@/lib/db/types';
+
+const PAGE_SIZE = 25;
+
+const SOURCE_FILTERS = [
+  { value: '', label: 'All sources' },
+  { value: 'route:/api/seed', label: 'Seed route' },
+  { value: 'tool:fetch_nhl_games', label: 'Chat: fetch_nhl_games' },
+  { value: 'tool:sync_recent_games', label: 'Chat: sync_recent_games' },
+  { value: 'tool:reconcile_games', label: 'Chat: reconcile_games' },
+  { value: 'script:backfill-period-results', label: 'Backfill script' },
+  { value: 'script:reconcile', label: 'Reconcile script' },
+  { value: 'job:live-tracker', label: 'Live tracker' },
+];
+
+const actionStyles: Record<string, string> = {
+  insert: 'bg-[#3ecf8e]/15 text-[#3ecf8e]',
+  update: 'bg-amber-500/15 text-amber-400',
+  reconcile: 'bg-[#f87171]/15 text-[#f87171]',
+};
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+}
+
+function formatRowCounts(rowCounts: Record<string, number>): string {
+  return Object.entries(rowCounts)
+    .filter(([, count]) => count > 0)
+    .map(([table, count]) => `${count} ${table.replace(/_/g, ' ')}`)
+    .join(', ');
+}
+
+function EventDetail({ event }: { event: AuditEvent }) {
+  return (
+    <div className="grid grid-cols-2 gap-3 px-4 pb-3">
+      {(['before', 'after'] as const).map(side => (
+        <div key={side}>
+          <div className="text-[11px] uppercase tracking-wide text-[#888] mb-1">{side}</div>
+          <pre className="text-[11px] text-[#ccc] bg-[#171717] border border-[#2e2e2e] rounded p-2 max-h-64 overflow-auto">
+            {event[side] === null ? '(nothing stored)' : JSON.stringify(event[side], null, 2)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Recorded changes to stored game data from /api/audit, newest first
+ */
+export function AuditPanel() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [source, setSource] = useState('');
+  const [hasMore, setHasMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (source) params.set('source', source);
+
+      const response = await fetch(`/api/audit?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || data.error || 'Failed to load audit log');
+
+      setEvents(current => (offset === 0 ? data.events : [...current, ...data.events]));
+      setHasMore(data.has_more);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [source]);
+
+  useEffect(() => {
+    if (isOpen) loadEvents(0);
+  }, [isOpen, loadEvents]);
+
+  return (
+    <div className="mt-6 bg-[#1c1c1c] rounded-lg border border-[#2e2e2e] overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3">
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          className="flex items-center gap-2 text-sm font-semibold text-white"
+        >
+          <svg className={`w-4 h-4 text-[#888] transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Data changes
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-2">
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="bg-[#171717] border border-[#2e2e2e] rounded px-2 py-1 text-xs text-white"
+            >
+              {SOURCE_FILTERS.map(filter => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => loadEvents(0)}
+              disabled={isLoading}
+              className="text-xs text-[#888] hover:text-white disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-[#2e2e2e]">
+          {error && <div className="px-4 py-3 text-xs text-[#f87171]">{error}</div>}
+          {!error && events.length === 0 && !isLoading && (
+            <div className="px-4 py-3 text-xs text-[#888]">No changes recorded</div>
+          )}
+
+          {events.map(event => (
+            <div key={event.id} className="border-b border-[#2e2e2e] last:border-b-0">
+              <button
+                onClick={() => setExpanded(current => (current === event.id ? null : event.id))}
+                className="w-full grid grid-cols-[140px_80px_110px_1fr_1fr] gap-3 items-center px-4 py-2 text-left text-xs hover:bg-[#232323]"
+              >
+                <span className="text-[#888] font-mono">{formatTime(event.created_at)}</span>
+                <span className={`px-1.5 py-0.5 rounded text-center font-medium ${actionStyles[event.action] ?? 'bg-[#2e2e2e] text-[#888]'}`}>
+                  {event.action}
+                </span>
+                <span className="text-white font-mono">{event.game_id ?? '-'}</span>
+                <span className="text-[#ccc] truncate" title={event.source}>
+                  {event.source}
+                  {event.approval_id && <span className="text-[#888]"> (approved)</span>}
+                </span>
+                <span className="text-[#888] truncate">{formatRowCounts(event.row_counts)}</span>
+              </button>
+              {expanded === event.id && <EventDetail event={event} />}
+            </div>
+          ))}
+
+          {hasMore && (
+            <button
+              onClick={() => loadEvents(events.length)}
+              disabled={isLoading}
+              className="w-full px-4 py-2 text-xs text-[#3ecf8e] hover:bg-[#232323] disabled:opacity-50"
+            >
+              {isLoading ? 'Loading…' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
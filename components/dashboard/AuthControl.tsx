@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import type { Role } from '@/lib/auth/roles';
+
+export interface AuthState {
+  role: Role;
+  method: 'api_key' | 'session' | 'default';
+}
+
+const roleStyles: Record<Role, string> = {
+  viewer: 'bg-[#2e2e2e] text-[#888]',
+  analyst: 'bg-blue-500/15 text-blue-400',
+  admin: 'bg-amber-500/15 text-amber-400',
+};
+
+interface AuthControlProps {
+  auth: AuthState | null;
+  onAuthChange: (auth: AuthState) => void;
+}
+
+/**
+ * Current role with sign-in (by API key) and sign-out; signing in sets a session cookie
+ */
+export function AuthControl({ auth, onAuthChange }: AuthControlProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Sign-in failed');
+
+      onAuthChange(data);
+      setApiKey('');
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    }
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    const response = await fetch('/api/auth/session');
+    if (response.ok) onAuthChange(await response.json());
+  };
+
+  if (!auth) {
+    return null;
+  }
+
+  if (isEditing) {
+    return (
+      <form onSubmit={signIn} className="flex items-center gap-2">
+        {error && <span className="text-xs text-[#f87171]">{error}</span>}
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          autoFocus
+          className="bg-[#171717] border border-[#2e2e2e] rounded px-2 py-1 text-xs text-white w-48"
+        />
+        <button type="submit" disabled={!apiKey} className="text-xs text-[#3ecf8e] disabled:opacity-50">
+          Sign in
+        </button>
+        <button type="button" onClick={() => setIsEditing(false)} className="text-xs text-[#888] hover:text-white">
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={`text-xs font-medium px-2 py-0.5 rounded ${roleStyles[auth.role]}`}>{auth.role}</span>
+      {auth.method === 'session' ? (
+        <button onClick={signOut} className="text-xs text-[#888] hover:text-white">Sign out</button>
+      ) : auth.method === 'default' ? (
+        <button onClick={() => setIsEditing(true)} className="text-xs text-[#888] hover:text-white">Sign in</button>
+      ) : null}
+    </div>
+  );
+}
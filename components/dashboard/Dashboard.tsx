@@ -1,9 +1,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { TeamStatsTable } from './TeamStatsTable';
+import { TeamStatsTable, type TeamData } from './TeamStatsTable';
 import { DashboardControls } from './DashboardControls';
+import { TonightPanel } from './TonightPanel';
+import { AuditPanel } from './AuditPanel';
+import { AuthControl, type AuthState } from './AuthControl';
 import { ChatInterface } from '../chat/ChatInterface';
+import type { ConferenceDivisions } from '@/lib/analytics/alignment';
+import { hasRole } from '@/lib/auth/roles';
 
 export type ChatSize = 'default' | 'expanded' | 'maximized';
 
@@ -14,13 +19,23 @@ const chatWidths: Record<ChatSize, string> = {
 };
 
 export function Dashboard() {
-	const [conferenceFilter, setConferenceFilter] = useState<'all' | 'eastern' | 'western'>('all');
-	const [divisionFilter, setDivisionFilter] = useState<'all' | 'metropolitan' | 'atlantic' | 'central' | 'pacific'>('all');
+	const [conferenceFilter, setConferenceFilter] = useState<string>('all');
+	const [divisionFilter, setDivisionFilter] = useState<string>('all');
+	const [conferences, setConferences] = useState<ConferenceDivisions[]>([]);
 	const [seasonFilter, setSeasonFilter] = useState<string>('');
 	const [availableSeasons, setAvailableSeasons] = useState<string[]>([]);
-	const [teamData, setTeamData] = useState<any[]>([]);
+	const [teamData, setTeamData] = useState<TeamData[]>([]);
 	const [isLoading, setIsLoading] = useState(true);
 	const [chatSize, setChatSize] = useState<ChatSize>('default');
+	const [auth, setAuth] = useState<AuthState | null>(null);
+
+	// The caller's role decides which panels are shown (the API enforces it either way)
+	useEffect(() => {
+		fetch('/api/auth/session')
+			.then((response) => (response.ok ? response.json() : null))
+			.then(setAuth)
+			.catch((error) => console.error('Error fetching session:', error));
+	}, []);
 
 	// Fetch team stats from the database
 	useEffect(() => {
@@ -41,6 +56,17 @@ export function Dashboard() {
 				if (data.seasons) {
 					setAvailableSeasons(data.seasons);
 				}
+				// Divisions differ between seasons (realignments), so drop filters the new season doesn't have
+				if (data.alignment) {
+					const seasonConferences: ConferenceDivisions[] = data.alignment.conferences;
+					setConferences(seasonConferences);
+					setConferenceFilter((current) =>
+						seasonConferences.some((c) => c.conference?.toLowerCase() === current) ? current : 'all'
+					);
+					setDivisionFilter((current) =>
+						seasonConferences.some((c) => c.divisions.some((d) => d.toLowerCase() === current)) ? current : 'all'
+					);
+				}
 				// Use the active season from API (defaults to most recent)
 				if (data.activeSeason && !seasonFilter) {
 					setSeasonFilter(data.activeSeason);
@@ -95,6 +121,7 @@ export function Dashboard() {
 										</div>
 									</div>
 								</div>
+								<AuthControl auth={auth} onAuthChange={setAuth} />
 							</div>
 
 							<DashboardControls
@@ -102,6 +129,7 @@ export function Dashboard() {
 								setConferenceFilter={setConferenceFilter}
 								divisionFilter={divisionFilter}
 								setDivisionFilter={setDivisionFilter}
+								conferences={conferences}
 								seasonFilter={seasonFilter}
 								setSeasonFilter={setSeasonFilter}
 								availableSeasons={availableSeasons}
@@ -111,9 +139,11 @@ export function Dashboard() {
 
 						{/* Data Table */}
 						<div className="flex-1 overflow-auto bg-[#171717] p-6">
+							<TonightPanel />
 							<div className="bg-[#1c1c1c] rounded-lg border border-[#2e2e2e] overflow-hidden">
 								<TeamStatsTable data={filteredData} isLoading={isLoading} />
 							</div>
+							{auth && hasRole(auth.role, 'analyst') && <AuditPanel />}
 						</div>
 					</div>
 				)}
@@ -1,10 +1,16 @@
 'use client';
 
+import type { ConferenceDivisions } from '@/lib/analytics/alignment';
+
 interface DashboardControlsProps {
-  conferenceFilter: 'all' | 'eastern' | 'western';
-  setConferenceFilter: (filter: 'all' | 'eastern' | 'western') => void;
-  divisionFilter: 'all' | 'metropolitan' | 'atlantic' | 'central' | 'pacific';
-  setDivisionFilter: (filter: 'all' | 'metropolitan' | 'atlantic' | 'central' | 'pacific') => void;
+  /** 'all' or a conference name, lowercased */
+  conferenceFilter: string;
+  setConferenceFilter: (filter: string) => void;
+  /** 'all' or a division name, lowercased */
+  divisionFilter: string;
+  setDivisionFilter: (filter: string) => void;
+  /** Conferences and divisions of the season being viewed */
+  conferences: ConferenceDivisions[];
   seasonFilter: string;
   setSeasonFilter: (season: string) => void;
   availableSeasons: string[];
@@ -20,30 +26,20 @@ function formatSeasonLabel(season: string): string {
   return season;
 }
 
-// Conference to divisions mapping
-const conferenceDivisions: Record<string, { value: string; label: string }[]> = {
-  eastern: [
-    { value: 'metropolitan', label: 'Metropolitan' },
-    { value: 'atlantic', label: 'Atlantic' },
-  ],
-  western: [
-    { value: 'central', label: 'Central' },
-    { value: 'pacific', label: 'Pacific' },
-  ],
-};
-
-const allDivisions = [
-  { value: 'metropolitan', label: 'Metropolitan' },
-  { value: 'atlantic', label: 'Atlantic' },
-  { value: 'central', label: 'Central' },
-  { value: 'pacific', label: 'Pacific' },
-];
+// Division options for a conference filter ('all' lists every division of the season)
+function divisionOptions(conferences: ConferenceDivisions[], conferenceFilter: string): { value: string; label: string }[] {
+  return conferences
+    .filter((c) => conferenceFilter === 'all' || c.conference?.toLowerCase() === conferenceFilter)
+    .flatMap((c) => c.divisions)
+    .map((division) => ({ value: division.toLowerCase(), label: division }));
+}
 
 export function DashboardControls({
   conferenceFilter,
   setConferenceFilter,
   divisionFilter,
   setDivisionFilter,
+  conferences,
   seasonFilter,
   setSeasonFilter,
   availableSeasons,
@@ -81,11 +77,11 @@ export function DashboardControls({
           <select
             value={conferenceFilter}
             onChange={(e) => {
-              const newConference = e.target.value as 'all' | 'eastern' | 'western';
+              const newConference = e.target.value;
               setConferenceFilter(newConference);
               // Reset division if it's not valid for the new conference
               if (newConference !== 'all' && divisionFilter !== 'all') {
-                const validDivisions = conferenceDivisions[newConference].map(d => d.value);
+                const validDivisions = divisionOptions(conferences, newConference).map(d => d.value);
                 if (!validDivisions.includes(divisionFilter)) {
                   setDivisionFilter('all');
                 }
@@ -94,8 +90,11 @@ export function DashboardControls({
             className="appearance-none bg-[#232323] border border-[#2e2e2e] rounded-lg px-3 py-1.5 pr-8 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#3ecf8e] focus:border-[#3ecf8e]"
           >
             <option value="all">All</option>
-            <option value="eastern">Eastern</option>
-            <option value="western">Western</option>
+            {conferences.filter((c) => c.conference).map((c) => (
+              <option key={c.conference} value={c.conference!.toLowerCase()}>
+                {c.conference}
+              </option>
+            ))}
           </select>
           <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
             <svg className="w-4 h-4 text-[#888]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -111,11 +110,11 @@ export function DashboardControls({
         <div className="relative">
           <select
             value={divisionFilter}
-            onChange={(e) => setDivisionFilter(e.target.value as any)}
+            onChange={(e) => setDivisionFilter(e.target.value)}
             className="appearance-none bg-[#232323] border border-[#2e2e2e] rounded-lg px-3 py-1.5 pr-8 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#3ecf8e] focus:border-[#3ecf8e]"
           >
             <option value="all">All</option>
-            {(conferenceFilter === 'all' ? allDivisions : conferenceDivisions[conferenceFilter]).map((division) => (
+            {divisionOptions(conferences, conferenceFilter).map((division) => (
               <option key={division.value} value={division.value}>
                 {division.label}
               </option>
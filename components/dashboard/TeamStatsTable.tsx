@@ -12,7 +12,7 @@ interface TeamRecord {
   otLosses: number;
 }
 
-interface TeamData {
+export interface TeamData {
   teamCode: string;
   teamName: string;
   conference?: string;
@@ -90,8 +90,8 @@ export function TeamStatsTable({ data, isLoading }: TeamStatsTableProps) {
 
   const sortedData = useMemo(() => {
     const sorted = [...data].sort((a, b) => {
-      let aVal: any;
-      let bVal: any;
+      let aVal: string | number;
+      let bVal: string | number;
 
       switch (sortField) {
         case 'rank':
@@ -146,8 +146,10 @@ export function TeamStatsTable({ data, isLoading }: TeamStatsTableProps) {
           return 0;
       }
 
-      if (typeof aVal === 'string') {
-        return sortDirection === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
+      if (typeof aVal === 'string' || typeof bVal === 'string') {
+        return sortDirection === 'asc'
+          ? String(aVal).localeCompare(String(bVal))
+          : String(bVal).localeCompare(String(aVal));
       }
       return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
     });
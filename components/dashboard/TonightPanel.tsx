@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { LiveGameSnapshot, LiveUpdate } from '@/lib/jobs/live-tracker';
+import type { PeriodOutcome } from '@/lib/db/types';
+
+const outcomeStyles: Record<PeriodOutcome, string> = {
+  WIN: 'bg-[#3ecf8e]/15 text-[#3ecf8e]',
+  LOSS: 'bg-[#f87171]/15 text-[#f87171]',
+  TIE: 'bg-[#2e2e2e] text-[#888]',
+};
+
+function periodLabel(periodNumber: number): string {
+  return periodNumber <= 3 ? `P${periodNumber}` : periodNumber === 4 ? 'OT' : `OT${periodNumber - 3}`;
+}
+
+function gameStatusLabel(game: LiveGameSnapshot): string {
+  if (game.status === 'final') return 'Final';
+  if (game.game_state === 'FINAL' || game.game_state === 'OFF') return 'Final (provisional)';
+  if (game.period_number === null) return 'Starting';
+  const period = game.period_type === 'SO' ? 'SO' : periodLabel(game.period_number);
+  return game.in_intermission ? `${period} intermission` : `${period} ${game.clock ?? ''}`.trim();
+}
+
+function TeamLine({ game, teamCode, score }: { game: LiveGameSnapshot; teamCode: string; score: number }) {
+  const periods = game.periods.filter(p => p.team_code === teamCode);
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-sm font-semibold text-white w-10">{teamCode}</span>
+      <div className="flex gap-1 flex-1">
+        {periods.map(p => (
+          <span
+            key={p.period_number}
+            title={`${periodLabel(p.period_number)}: ${p.goals_for}-${p.goals_against}`}
+            className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${outcomeStyles[p.period_outcome]}`}
+          >
+            {periodLabel(p.period_number)}
+          </span>
+        ))}
+      </div>
+      <span className="text-sm font-bold text-white font-mono">{score}</span>
+    </div>
+  );
+}
+
+/**
+ * Tonight's games with provisional period outcomes, updated live over SSE from /api/live
+ */
+export function TonightPanel() {
+  const [games, setGames] = useState<LiveGameSnapshot[]>([]);
+  const [date, setDate] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource('/api/live');
+
+    source.addEventListener('snapshot', (event) => {
+      const snapshot: LiveUpdate = JSON.parse((event as MessageEvent).data);
+      setDate(snapshot.date);
+      setGames(snapshot.games);
+      setConnected(true);
+    });
+
+    source.addEventListener('update', (event) => {
+      const update: LiveUpdate = JSON.parse((event as MessageEvent).data);
+      setDate(update.date);
+      setGames((current) => {
+        const byId = new Map(current.map(g => [g.game_id, g]));
+        for (const game of update.games) byId.set(game.game_id, game);
+        return [...byId.values()].sort((a, b) => a.game_id.localeCompare(b.game_id));
+      });
+    });
+
+    // EventSource reconnects on its own; just reflect the state
+    source.onerror = () => setConnected(false);
+    source.onopen = () => setConnected(true);
+
+    return () => source.close();
+  }, []);
+
+  if (games.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <h2 className="text-sm font-semibold text-white">Tonight</h2>
+        {date && <span className="text-xs text-[#888]">{date}</span>}
+        <span
+          className={`w-2 h-2 rounded-full ${connected ? 'bg-[#3ecf8e] animate-pulse' : 'bg-[#555]'}`}
+          title={connected ? 'Live' : 'Reconnecting'}
+        />
+        <span className="text-xs text-[#888]">Period outcomes are provisional until each game is final</span>
+      </div>
+      <div className="grid grid-cols-[repeat(auto-fill,minmax(220px,1fr))] gap-3">
+        {games.map(game => (
+          <div key={game.game_id} className="bg-[#1c1c1c] border border-[#2e2e2e] rounded-lg p-3 space-y-1.5">
+            <TeamLine game={game} teamCode={game.away_team_code} score={game.away_score} />
+            <TeamLine game={game} teamCode={game.home_team_code} score={game.home_score} />
+            <div className={`text-[11px] ${game.status === 'final' ? 'text-[#888]' : 'text-[#3ecf8e]'}`}>
+              {gameStatusLabel(game)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
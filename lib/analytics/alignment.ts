@@ -0,0 +1,76 @@
+// Season-aware conferences and divisions
+// Teams carry only their current alignment; seasons synced into team_season_alignment
+// (npm run sync:alignment) use the divisions that were in place that season instead
+
+import { getRepository } from '../db';
+
+export interface TeamAlignment {
+  conference: string | null;
+  division: string | null;
+}
+
+export interface SeasonAlignment {
+  season: string | null;
+  /** 'season' when the season's alignment is stored, 'current' when falling back to today's divisions */
+  source: 'season' | 'current';
+  teams: Map<string, TeamAlignment>;
+}
+
+export interface ConferenceDivisions {
+  /** Null for divisions that belonged to no conference (2020-21) */
+  conference: string | null;
+  divisions: string[];
+}
+
+/**
+ * Season a date falls in (seasons start in the fall), e.g. 2025-03-01 -> "2024-2025"
+ */
+export function seasonForDate(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  return month >= 9 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+}
+
+/**
+ * Every team's conference and division in a season
+ * Teams missing from a stored season (e.g. a relocated code) get null for both
+ */
+export async function getSeasonAlignment(season?: string | null): Promise<SeasonAlignment> {
+  const repo = getRepository();
+  const rows = season ? await repo.teamSeasonAlignment.list({ season }) : [];
+
+  if (rows.length > 0) {
+    return {
+      season: season!,
+      source: 'season',
+      teams: new Map(rows.map(row => [row.team_code, { conference: row.conference, division: row.division }])),
+    };
+  }
+
+  const teams = await repo.teams.list();
+  return {
+    season: season ?? null,
+    source: 'current',
+    teams: new Map(teams.map(team => [team.team_code, { conference: team.conference, division: team.division }])),
+  };
+}
+
+export function getTeamAlignment(alignment: SeasonAlignment, teamCode: string): TeamAlignment {
+  return alignment.teams.get(teamCode) ?? { conference: null, division: null };
+}
+
+/**
+ * Conferences with their divisions, sorted by name (for filter controls)
+ */
+export function listConferenceDivisions(alignment: SeasonAlignment): ConferenceDivisions[] {
+  const byConference = new Map<string | null, Set<string>>();
+  for (const { conference, division } of alignment.teams.values()) {
+    if (!division) continue;
+    if (!byConference.has(conference)) byConference.set(conference, new Set());
+    byConference.get(conference)!.add(division);
+  }
+
+  return [...byConference.entries()]
+    .map(([conference, divisions]) => ({ conference, divisions: [...divisions].sort() }))
+    .sort((a, b) => (a.conference ?? '').localeCompare(b.conference ?? ''));
+}
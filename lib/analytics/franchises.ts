@@ -0,0 +1,102 @@
+// Franchise grouping
+// Analytics group by team code by default; grouping by franchise counts a relocated club
+// (ATL -> WPG, PHX -> ARI -> UTA) as one team across seasons
+
+import { getRepository } from '../db';
+import type { FranchiseTeam, TeamSeasonSummary } from '../db/types';
+
+export const TEAM_GROUP_BY = ['team_code', 'franchise'] as const;
+
+export type TeamGroupBy = (typeof TEAM_GROUP_BY)[number];
+
+export interface TeamGrouping {
+  groupBy: TeamGroupBy;
+  /**
+   * Group a team code belongs to: the code itself, or its franchise ID
+   * Pass the game date to pick the right era when a code has been used by more than one franchise
+   */
+  keyOf(teamCode: string, date?: string): string;
+  /** Every team code in the same group as this one, oldest first */
+  codesFor(teamCode: string): string[];
+}
+
+/**
+ * Rough first day of a season, for placing season-level rows in a franchise era
+ */
+export function seasonStartDate(season: string): string {
+  return `${season.slice(0, 4)}-09-01`;
+}
+
+function isActiveOn(row: FranchiseTeam, date: string): boolean {
+  return (!row.active_from || row.active_from <= date) && (!row.active_to || date < row.active_to);
+}
+
+export function createTeamGrouping(groupBy: TeamGroupBy, franchises: FranchiseTeam[]): TeamGrouping {
+  if (groupBy === 'team_code') {
+    return { groupBy, keyOf: code => code, codesFor: code => [code] };
+  }
+
+  const rowsByCode = new Map<string, FranchiseTeam[]>();
+  for (const row of franchises) {
+    if (!rowsByCode.has(row.team_code)) rowsByCode.set(row.team_code, []);
+    rowsByCode.get(row.team_code)!.push(row);
+  }
+
+  const keyOf = (teamCode: string, date?: string): string => {
+    const rows = rowsByCode.get(teamCode);
+    if (!rows) return teamCode;
+
+    // Without a date, the code's most recent era wins
+    const row = (date && rows.find(r => isActiveOn(r, date))) ||
+      [...rows].sort((a, b) => (b.active_from ?? '').localeCompare(a.active_from ?? ''))[0];
+    return row.franchise_id;
+  };
+
+  return {
+    groupBy,
+    keyOf,
+    codesFor(teamCode: string): string[] {
+      const franchiseId = keyOf(teamCode);
+      const codes = franchises
+        .filter(r => r.franchise_id === franchiseId)
+        .sort((a, b) => (a.active_from ?? '').localeCompare(b.active_from ?? ''))
+        .map(r => r.team_code);
+      return codes.length > 0 ? [...new Set(codes)] : [teamCode];
+    },
+  };
+}
+
+/**
+ * Load the grouping (grouping by team code needs no franchise data)
+ */
+export async function getTeamGrouping(groupBy: TeamGroupBy = 'team_code'): Promise<TeamGrouping> {
+  const franchises = groupBy === 'franchise' ? await getRepository().franchises.list() : [];
+  return createTeamGrouping(groupBy, franchises);
+}
+
+/**
+ * Merge season summaries into one row per group and season
+ * team_code on the merged rows holds the group key (the franchise ID when grouping by franchise)
+ */
+export function groupTeamSeasonSummaries(summaries: TeamSeasonSummary[], grouping: TeamGrouping): TeamSeasonSummary[] {
+  if (grouping.groupBy === 'team_code') return summaries;
+
+  const grouped = new Map<string, TeamSeasonSummary>();
+  for (const summary of summaries) {
+    const teamCode = grouping.keyOf(summary.team_code, seasonStartDate(summary.season));
+    const key = `${teamCode}:${summary.season}`;
+    const existing = grouped.get(key);
+
+    if (!existing) {
+      grouped.set(key, { ...summary, team_code: teamCode });
+      continue;
+    }
+    for (const field of Object.keys(summary) as Array<keyof TeamSeasonSummary>) {
+      if (field !== 'team_code' && field !== 'season') {
+        existing[field] += summary[field];
+      }
+    }
+  }
+
+  return [...grouped.values()];
+}
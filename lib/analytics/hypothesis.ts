@@ -0,0 +1,217 @@
+// Core hypothesis test
+// Do regular-season good-win/bad-win differentials predict playoff series success?
+
+import { getRepository } from '../db';
+import { summarizeTeamSeasons } from '../db/summaries';
+import { getTeamGrouping, seasonStartDate, type TeamGroupBy } from './franchises';
+import { DEFAULT_RULE_SET, applyRuleSet, getRuleSet, requiresGoalData, ruleSetKey } from './period-rules';
+import { buildPlayoffSeries, type PlayoffSeries } from './playoff-series';
+import {
+  correlationConfidenceInterval,
+  logisticRegression,
+  mean,
+  pearson,
+  permutationTest,
+  type LogisticRegressionResult,
+} from './statistics';
+
+const MIN_OBSERVATIONS = 8;
+
+export interface HypothesisTestOptions {
+  /** Seasons to include (default: every season with playoff games) */
+  seasons?: string[];
+  ruleSet?: string;
+  permutations?: number;
+  seed?: number;
+  /** Label observations by team code (default) or by franchise */
+  groupBy?: TeamGroupBy;
+}
+
+/**
+ * One playoff team in one season
+ */
+export interface HypothesisObservation {
+  season: string;
+  /** Franchise ID when grouping by franchise */
+  team_code: string;
+  good_wins: number;
+  bad_wins: number;
+  differential: number;
+  playoff_series_wins: number;
+}
+
+export interface HypothesisTestResult {
+  hypothesis: string;
+  rule_set: string;
+  group_by: TeamGroupBy;
+  seasons: string[];
+  sample_size: number;
+  /** Set when there are too few playoff teams to test */
+  insufficient_data: boolean;
+  correlation: {
+    metric: 'pearson';
+    x: 'regular_season_differential';
+    y: 'playoff_series_wins';
+    r: number;
+    ci95: [number, number] | null;
+    p_value_permutation: number | null;
+    permutations: number;
+  } | null;
+  logistic_regression: (LogisticRegressionResult & {
+    outcome: 'won_at_least_one_series';
+    predictor: 'regular_season_differential';
+  }) | null;
+  group_means: {
+    series_winners_differential: number;
+    first_round_exits_differential: number;
+  } | null;
+  observations: HypothesisObservation[];
+  games_missing_goal_data: number;
+  interpretation: string;
+}
+
+/**
+ * Count completed series wins per team (every team in the playoffs gets an entry)
+ */
+function countSeriesWins(series: PlayoffSeries[]): Map<string, number> {
+  const seriesWins = new Map<string, number>();
+  for (const s of series) {
+    for (const side of [s.top_seed, s.bottom_seed]) {
+      if (!seriesWins.has(side.team_code)) seriesWins.set(side.team_code, 0);
+    }
+    if (s.winner_code) seriesWins.set(s.winner_code, seriesWins.get(s.winner_code)! + 1);
+  }
+  return seriesWins;
+}
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function roundPair(pair: [number, number] | null, digits: number = 4): [number, number] | null {
+  return pair ? [round(pair[0], digits), round(pair[1], digits)] : null;
+}
+
+/**
+ * Test whether regular-season good-win/bad-win differential predicts playoff series wins
+ */
+export async function testPeriodHypothesis(options: HypothesisTestOptions = {}): Promise<HypothesisTestResult> {
+  const repo = getRepository();
+  const ruleSet = options.ruleSet || DEFAULT_RULE_SET;
+  const permutations = options.permutations ?? 5000;
+  const groupBy = options.groupBy ?? 'team_code';
+  const grouping = await getTeamGrouping(groupBy);
+
+  // Seasons with playoff data
+  const playoffGames = await repo.games.list({ gameType: 'Playoffs' });
+  const seasons = [...new Set(playoffGames.map(g => g.season))]
+    .filter(season => !options.seasons || options.seasons.includes(season))
+    .sort();
+
+  const observations: HypothesisObservation[] = [];
+  // Resolved up front so an unknown rule set fails even when there is nothing to test
+  let appliedRuleSet = ruleSetKey(getRuleSet(ruleSet));
+  let missingGoalData = 0;
+
+  for (const season of seasons) {
+    const [regularGames, results, goals] = await Promise.all([
+      repo.games.list({ season, gameType: 'Regular Season' }),
+      repo.gameTeamResults.list({ season }),
+      requiresGoalData(ruleSet) ? repo.goals.list({ season, gameType: 'Regular Season' }) : Promise.resolve(undefined),
+    ]);
+    // Series winners come from game results, so the rule set doesn't affect them
+    const seriesWins = countSeriesWins(
+      buildPlayoffSeries(playoffGames.filter(g => g.season === season), results)
+    );
+
+    const gamesById = new Map(regularGames.map(g => [g.game_id, g]));
+    const applied = await applyRuleSet(results.filter(r => gamesById.has(r.game_id)), ruleSet, goals);
+    appliedRuleSet = applied.ruleSet;
+    missingGoalData += applied.missingGoalData.length;
+
+    for (const summary of summarizeTeamSeasons(applied.results, gamesById)) {
+      if (!seriesWins.has(summary.team_code)) continue; // Missed the playoffs
+      observations.push({
+        season,
+        team_code: grouping.keyOf(summary.team_code, seasonStartDate(season)),
+        good_wins: summary.good_wins,
+        bad_wins: summary.bad_wins,
+        differential: summary.good_wins - summary.bad_wins,
+        playoff_series_wins: seriesWins.get(summary.team_code)!,
+      });
+    }
+  }
+
+  const base = {
+    hypothesis: 'Teams with a higher regular-season good-win minus bad-win differential win more playoff series',
+    rule_set: appliedRuleSet,
+    group_by: groupBy,
+    seasons,
+    sample_size: observations.length,
+    observations,
+    games_missing_goal_data: missingGoalData,
+  };
+
+  if (observations.length < MIN_OBSERVATIONS) {
+    return {
+      ...base,
+      insufficient_data: true,
+      correlation: null,
+      logistic_regression: null,
+      group_means: null,
+      interpretation: `Need at least ${MIN_OBSERVATIONS} playoff team-seasons with regular-season data; found ${observations.length}. Import playoff games (game type 03) and their regular seasons first.`,
+    };
+  }
+
+  const x = observations.map(o => o.differential);
+  const y = observations.map(o => o.playoff_series_wins);
+  const advanced = observations.map(o => (o.playoff_series_wins >= 1 ? 1 : 0));
+
+  const r = pearson(x, y);
+  const pValue = permutations > 0 ? permutationTest(x, y, permutations, options.seed ?? 1) : null;
+  const logistic = logisticRegression(x, advanced);
+
+  const winners = observations.filter(o => o.playoff_series_wins >= 1).map(o => o.differential);
+  const exits = observations.filter(o => o.playoff_series_wins === 0).map(o => o.differential);
+
+  const significant = pValue !== null && pValue < 0.05;
+  const direction = r > 0 ? 'positive' : r < 0 ? 'negative' : 'no';
+
+  return {
+    ...base,
+    insufficient_data: false,
+    correlation: {
+      metric: 'pearson',
+      x: 'regular_season_differential',
+      y: 'playoff_series_wins',
+      r: round(r),
+      ci95: roundPair(correlationConfidenceInterval(r, observations.length)),
+      p_value_permutation: pValue !== null ? round(pValue) : null,
+      permutations,
+    },
+    logistic_regression: {
+      outcome: 'won_at_least_one_series',
+      predictor: 'regular_season_differential',
+      ...logistic,
+      intercept: round(logistic.intercept),
+      coefficient: round(logistic.coefficient),
+      std_error: logistic.std_error !== null ? round(logistic.std_error) : null,
+      ci95: roundPair(logistic.ci95),
+      odds_ratio: round(logistic.odds_ratio),
+      odds_ratio_ci95: roundPair(logistic.odds_ratio_ci95),
+    },
+    group_means: {
+      series_winners_differential: round(mean(winners), 2),
+      first_round_exits_differential: round(mean(exits), 2),
+    },
+    interpretation:
+      `${direction === 'no' ? 'No' : `A ${direction}`} correlation (r = ${round(r, 3)}) between regular-season differential and playoff series wins ` +
+      `across ${observations.length} playoff teams in ${seasons.length} season(s); ` +
+      (pValue === null
+        ? 'no permutation test was run.'
+        : significant
+          ? `statistically significant at the 5% level (permutation p = ${round(pValue, 3)}).`
+          : `not statistically significant at the 5% level (permutation p = ${round(pValue, 3)}).`),
+  };
+}
@@ -0,0 +1,265 @@
+// Period outcome rule sets
+// Named, versioned rules for deciding regulation periods, recomputed from the stored goals table
+// so the core hypothesis can be checked for sensitivity to how a "period win" is defined
+
+import { getRepository } from '../db';
+import { summarizeTeamSeasons } from '../db/summaries';
+import type { GameTeamResult, Goal, PeriodOutcome, TeamSeasonSummary, TeamSeasonSummaryFilter } from '../db/types';
+
+const REGULATION_PERIOD_SECONDS = 20 * 60;
+const FIVE_ON_FIVE = '1551';
+
+export interface PeriodOutcomeRuleSet {
+  name: string;
+  version: number;
+  description: string;
+  /** Which empty-net goals are ignored: none, period 3 only, or every period */
+  emptyNet: 'keep' | 'period3' | 'all';
+  /** Count only goals scored 5-on-5 with both goalies in net */
+  fiveOnFiveOnly: boolean;
+  /** Ignore goals in the final N seconds of period 3 scored by a team already leading the game (0 = off) */
+  lateLeadingGoalSeconds: number;
+  /** Period-win credit for a tied period when deciding 2+ regulation period wins */
+  tieCredit: number;
+}
+
+export const DEFAULT_RULE_SET = 'standard';
+
+export const RULE_SETS: PeriodOutcomeRuleSet[] = [
+  {
+    name: 'standard',
+    version: 1,
+    description: 'Stored outcomes: empty-net goals excluded from period 3 only',
+    emptyNet: 'period3',
+    fiveOnFiveOnly: false,
+    lateLeadingGoalSeconds: 0,
+    tieCredit: 0,
+  },
+  {
+    name: 'no-empty-net',
+    version: 1,
+    description: 'Empty-net goals excluded in every period',
+    emptyNet: 'all',
+    fiveOnFiveOnly: false,
+    lateLeadingGoalSeconds: 0,
+    tieCredit: 0,
+  },
+  {
+    name: 'no-late-insurance',
+    version: 1,
+    description: 'Standard, plus goals in the final 2 minutes of period 3 by the leading team are ignored',
+    emptyNet: 'period3',
+    fiveOnFiveOnly: false,
+    lateLeadingGoalSeconds: 120,
+    tieCredit: 0,
+  },
+  {
+    name: 'five-on-five',
+    version: 1,
+    description: 'Only 5-on-5 goals decide a period',
+    emptyNet: 'all',
+    fiveOnFiveOnly: true,
+    lateLeadingGoalSeconds: 0,
+    tieCredit: 0,
+  },
+  {
+    name: 'ties-half-win',
+    version: 1,
+    description: 'Standard outcomes, with each tied period counted as half a win toward 2+ period wins',
+    emptyNet: 'period3',
+    fiveOnFiveOnly: false,
+    lateLeadingGoalSeconds: 0,
+    tieCredit: 0.5,
+  },
+];
+
+export function ruleSetKey(ruleSet: PeriodOutcomeRuleSet): string {
+  return `${ruleSet.name}@${ruleSet.version}`;
+}
+
+/**
+ * Look up a rule set by "name" (latest version) or "name@version"
+ */
+export function getRuleSet(key: string = DEFAULT_RULE_SET): PeriodOutcomeRuleSet {
+  const [name, version] = key.split('@');
+  const candidates = RULE_SETS
+    .filter(r => r.name === name && (!version || r.version === Number(version)))
+    .sort((a, b) => b.version - a.version);
+
+  if (candidates.length === 0) {
+    throw new Error(
+      `Unknown rule set "${key}". Available: ${RULE_SETS.map(ruleSetKey).join(', ')}`
+    );
+  }
+  return candidates[0];
+}
+
+/**
+ * Stored period_outcome already follows these goal rules, so no goal data is needed
+ */
+function usesStoredOutcomes(ruleSet: PeriodOutcomeRuleSet): boolean {
+  return ruleSet.emptyNet === 'period3' && !ruleSet.fiveOnFiveOnly && ruleSet.lateLeadingGoalSeconds === 0;
+}
+
+/**
+ * Check if applying a rule set reads the goals table (callers can preload goals in bulk)
+ */
+export function requiresGoalData(key: string = DEFAULT_RULE_SET): boolean {
+  return !usesStoredOutcomes(getRuleSet(key));
+}
+
+/**
+ * Check if a goal counts toward its period's outcome under a rule set
+ */
+export function countsGoal(goal: Goal, homeTeamCode: string, ruleSet: PeriodOutcomeRuleSet): boolean {
+  if (goal.is_empty_net) {
+    if (ruleSet.emptyNet === 'all') return false;
+    if (ruleSet.emptyNet === 'period3' && goal.period_number === 3) return false;
+  }
+
+  if (ruleSet.fiveOnFiveOnly && goal.situation_code !== FIVE_ON_FIVE) return false;
+
+  if (
+    ruleSet.lateLeadingGoalSeconds > 0 &&
+    goal.period_number === 3 &&
+    goal.seconds_in_period >= REGULATION_PERIOD_SECONDS - ruleSet.lateLeadingGoalSeconds
+  ) {
+    // Score before this goal, from the scoring team's side
+    const isHome = goal.team_code === homeTeamCode;
+    const scoredBefore = (isHome ? goal.home_score : goal.away_score) - 1;
+    const concededBefore = isHome ? goal.away_score : goal.home_score;
+    if (scoredBefore > concededBefore) return false;
+  }
+
+  return true;
+}
+
+function classify(result: GameTeamResult, won: number, lost: number, tied: number, ruleSet: PeriodOutcomeRuleSet): GameTeamResult {
+  const wonTwoPlus = won + tied * ruleSet.tieCredit >= 2;
+  return {
+    ...result,
+    regulation_periods_won: won,
+    regulation_periods_lost: lost,
+    regulation_periods_tied: tied,
+    won_two_plus_reg_periods: wonTwoPlus,
+    win_quality: result.result === 'WIN' ? (wonTwoPlus ? 'GOOD' : 'BAD') : null,
+  };
+}
+
+export interface AppliedRuleSet {
+  /** Resolved "name@version" */
+  ruleSet: string;
+  results: GameTeamResult[];
+  /** Recomputed regulation period outcomes keyed "game_id:team_code:period_number" (empty when stored outcomes apply) */
+  periodOutcomes: Map<string, PeriodOutcome>;
+  missingGoalData: string[];
+}
+
+/**
+ * Reclassify game results under a rule set
+ * Games whose stored goals don't add up to the final score keep their stored classification
+ * and are reported in missingGoalData (run the backfill with --force to fill them)
+ * @param goals Preloaded goals for the games (fetched by game ID when omitted)
+ */
+export async function applyRuleSet(
+  results: GameTeamResult[],
+  key: string = DEFAULT_RULE_SET,
+  goals?: Goal[]
+): Promise<AppliedRuleSet> {
+  const ruleSet = getRuleSet(key);
+  const periodOutcomes = new Map<string, PeriodOutcome>();
+
+  if (usesStoredOutcomes(ruleSet)) {
+    return {
+      ruleSet: ruleSetKey(ruleSet),
+      results: ruleSet.tieCredit === 0
+        ? results
+        : results.map(r => classify(r, r.regulation_periods_won, r.regulation_periods_lost, r.regulation_periods_tied, ruleSet)),
+      periodOutcomes,
+      missingGoalData: [],
+    };
+  }
+
+  if (!goals) {
+    const gameIds = [...new Set(results.map(r => r.game_id))];
+    goals = gameIds.length > 0 ? await getRepository().goals.list({ gameIds }) : [];
+  }
+
+  const goalsByGame = new Map<string, Goal[]>();
+  for (const goal of goals) {
+    if (!goalsByGame.has(goal.game_id)) goalsByGame.set(goal.game_id, []);
+    goalsByGame.get(goal.game_id)!.push(goal);
+  }
+
+  const missingGoalData = new Set<string>();
+
+  const rescored = results.map(result => {
+    const gameGoals = goalsByGame.get(result.game_id) || [];
+    // The shootout winner is credited one goal that has no goal row
+    const expectedGoals = result.goals_for + result.goals_against - (result.result_type === 'SO' ? 1 : 0);
+    if (gameGoals.length !== expectedGoals) {
+      missingGoalData.add(result.game_id);
+      return result;
+    }
+
+    const homeTeamCode = result.is_home ? result.team_code : result.opponent_code;
+    let won = 0;
+    let lost = 0;
+    let tied = 0;
+
+    for (let period = 1; period <= 3; period++) {
+      const counted = gameGoals.filter(g => g.period_number === period && countsGoal(g, homeTeamCode, ruleSet));
+      const goalsFor = counted.filter(g => g.team_code === result.team_code).length;
+      const goalsAgainst = counted.length - goalsFor;
+
+      const outcome: PeriodOutcome = goalsFor > goalsAgainst ? 'WIN' : goalsFor < goalsAgainst ? 'LOSS' : 'TIE';
+      periodOutcomes.set(`${result.game_id}:${result.team_code}:${period}`, outcome);
+
+      if (outcome === 'WIN') won++;
+      else if (outcome === 'LOSS') lost++;
+      else tied++;
+    }
+
+    return classify(result, won, lost, tied, ruleSet);
+  });
+
+  return {
+    ruleSet: ruleSetKey(ruleSet),
+    results: rescored,
+    periodOutcomes,
+    missingGoalData: [...missingGoalData],
+  };
+}
+
+/**
+ * Team season summaries under a rule set
+ * The standard rule set reads the team_season_summary view; others are rebuilt from game results
+ */
+export async function listTeamSeasonSummaries(
+  filter: TeamSeasonSummaryFilter = {},
+  key: string = DEFAULT_RULE_SET
+): Promise<{ ruleSet: string; summaries: TeamSeasonSummary[]; missingGoalData: string[] }> {
+  const ruleSet = getRuleSet(key);
+  const repo = getRepository();
+
+  if (ruleSetKey(ruleSet) === ruleSetKey(getRuleSet(DEFAULT_RULE_SET))) {
+    return { ruleSet: ruleSetKey(ruleSet), summaries: await repo.teamSeasonSummaries.list(filter), missingGoalData: [] };
+  }
+
+  const [games, results, goals] = await Promise.all([
+    repo.games.list({ season: filter.season }),
+    repo.gameTeamResults.list({ season: filter.season }),
+    repo.goals.list({ season: filter.season }),
+  ]);
+  const teamResults = filter.teamCodes
+    ? results.filter(r => filter.teamCodes!.includes(r.team_code))
+    : results;
+
+  const applied = await applyRuleSet(teamResults, key, goals);
+
+  return {
+    ruleSet: applied.ruleSet,
+    summaries: summarizeTeamSeasons(applied.results, new Map(games.map(g => [g.game_id, g]))),
+    missingGoalData: applied.missingGoalData,
+  };
+}
@@ -0,0 +1,211 @@
+// Playoff series model
+// Groups playoff games into best-of-seven series from the game ID digits and measures how each
+// team controlled regulation periods against the same opponent across the series
+
+import { getRepository } from '../db';
+import { DEFAULT_RULE_SET, applyRuleSet, getRuleSet, requiresGoalData, ruleSetKey } from './period-rules';
+import type { Game, GameResultType, GameTeamResult } from '../db/types';
+
+const WINS_TO_CLINCH = 4;
+
+/**
+ * Position of a game within the playoff bracket
+ * Playoff game IDs are YYYY03 + 0 + round + series + game, e.g. 2023030412 is
+ * round 4 (the Final), series 1, game 2 of the 2023-2024 playoffs
+ */
+export interface PlayoffGameKey {
+  round: number;
+  series_number: number;
+  game_number: number;
+}
+
+/**
+ * Decode round/series/game from a playoff game ID (null for any other game)
+ */
+export function parsePlayoffGameId(gameId: string): PlayoffGameKey | null {
+  const match = /^\d{4}030(\d)(\d)(\d)$/.exec(gameId);
+  if (!match) return null;
+
+  const [round, seriesNumber, gameNumber] = match.slice(1).map(Number);
+  if (round < 1 || seriesNumber < 1 || gameNumber < 1) return null;
+
+  return { round, series_number: seriesNumber, game_number: gameNumber };
+}
+
+/**
+ * One team's side of a series
+ */
+export interface PlayoffSeriesTeam {
+  team_code: string;
+  wins: number;
+  periods_won: number;
+  periods_lost: number;
+  periods_tied: number;
+  /** Share of regulation periods won (0-1) */
+  period_win_share: number;
+  good_wins: number;
+  bad_wins: number;
+}
+
+export interface PlayoffSeriesGame {
+  game_id: string;
+  game_number: number;
+  game_date: string;
+  home_team_code: string;
+  winner_code: string | null;
+  result_type: GameResultType | null;
+}
+
+export interface PlayoffSeries {
+  /** Stable series identifier: season year, game type, round and series digits (e.g. 202303041) */
+  series_id: string;
+  season: string;
+  round: number;
+  series_number: number;
+  /** Home team in the lowest-numbered game, i.e. the team with home-ice advantage */
+  top_seed: PlayoffSeriesTeam;
+  bottom_seed: PlayoffSeriesTeam;
+  winner_code: string | null;
+  /** Games with a stored result */
+  length: number;
+  status: 'complete' | 'in_progress';
+  games: PlayoffSeriesGame[];
+}
+
+export interface PlayoffSeriesFilter {
+  season?: string;
+  teamCode?: string;
+  round?: number;
+}
+
+function emptySide(teamCode: string): PlayoffSeriesTeam {
+  return {
+    team_code: teamCode,
+    wins: 0,
+    periods_won: 0,
+    periods_lost: 0,
+    periods_tied: 0,
+    period_win_share: 0,
+    good_wins: 0,
+    bad_wins: 0,
+  };
+}
+
+/**
+ * Build series from playoff games and their (rule-set applied) team results
+ * Games whose IDs don't follow the playoff numbering are ignored
+ */
+export function buildPlayoffSeries(games: Game[], results: GameTeamResult[]): PlayoffSeries[] {
+  const resultsByGame = new Map<string, GameTeamResult[]>();
+  for (const r of results) {
+    if (!resultsByGame.has(r.game_id)) resultsByGame.set(r.game_id, []);
+    resultsByGame.get(r.game_id)!.push(r);
+  }
+
+  const grouped = new Map<string, { key: PlayoffGameKey; game: Game }[]>();
+  for (const game of games) {
+    const key = parsePlayoffGameId(game.game_id);
+    if (!key) continue;
+
+    const seriesId = game.game_id.slice(0, 9);
+    if (!grouped.has(seriesId)) grouped.set(seriesId, []);
+    grouped.get(seriesId)!.push({ key, game });
+  }
+
+  const series: PlayoffSeries[] = [];
+
+  for (const [seriesId, entries] of grouped) {
+    entries.sort((a, b) => a.key.game_number - b.key.game_number);
+    const first = entries[0].game;
+
+    const sides = new Map<string, PlayoffSeriesTeam>([
+      [first.home_team_code, emptySide(first.home_team_code)],
+      [first.away_team_code, emptySide(first.away_team_code)],
+    ]);
+    const seriesGames: PlayoffSeriesGame[] = [];
+
+    for (const { key, game } of entries) {
+      const gameResults = resultsByGame.get(game.game_id) || [];
+      const winner = gameResults.find(r => r.result === 'WIN');
+
+      for (const r of gameResults) {
+        const side = sides.get(r.team_code);
+        if (!side) continue;
+
+        side.periods_won += r.regulation_periods_won;
+        side.periods_lost += r.regulation_periods_lost;
+        side.periods_tied += r.regulation_periods_tied;
+        if (r.result === 'WIN') {
+          side.wins++;
+          if (r.win_quality === 'GOOD') side.good_wins++;
+          else side.bad_wins++;
+        }
+      }
+
+      seriesGames.push({
+        game_id: game.game_id,
+        game_number: key.game_number,
+        game_date: game.game_date,
+        home_team_code: game.home_team_code,
+        winner_code: winner?.team_code ?? null,
+        result_type: winner?.result_type ?? null,
+      });
+    }
+
+    for (const side of sides.values()) {
+      const periods = side.periods_won + side.periods_lost + side.periods_tied;
+      side.period_win_share = periods > 0 ? Math.round((side.periods_won / periods) * 1000) / 1000 : 0;
+    }
+
+    const [topSeed, bottomSeed] = [...sides.values()];
+    const winner = [topSeed, bottomSeed].find(side => side.wins >= WINS_TO_CLINCH);
+
+    series.push({
+      series_id: seriesId,
+      season: first.season,
+      round: entries[0].key.round,
+      series_number: entries[0].key.series_number,
+      top_seed: topSeed,
+      bottom_seed: bottomSeed,
+      winner_code: winner?.team_code ?? null,
+      length: seriesGames.filter(g => g.winner_code !== null).length,
+      status: winner ? 'complete' : 'in_progress',
+      games: seriesGames,
+    });
+  }
+
+  return series.sort((a, b) =>
+    b.season.localeCompare(a.season) || a.round - b.round || a.series_number - b.series_number
+  );
+}
+
+/**
+ * List playoff series, with period outcomes decided by a rule set
+ */
+export async function listPlayoffSeries(
+  filter: PlayoffSeriesFilter = {},
+  ruleSet: string = DEFAULT_RULE_SET
+): Promise<{ ruleSet: string; series: PlayoffSeries[]; missingGoalData: string[] }> {
+  const repo = getRepository();
+
+  const games = await repo.games.list({ season: filter.season, gameType: 'Playoffs', ascending: true });
+  const gameIds = games.map(g => g.game_id);
+  if (gameIds.length === 0) {
+    return { ruleSet: ruleSetKey(getRuleSet(ruleSet)), series: [], missingGoalData: [] };
+  }
+
+  const [results, goals] = await Promise.all([
+    repo.gameTeamResults.list({ gameIds }),
+    requiresGoalData(ruleSet)
+      ? repo.goals.list({ season: filter.season, gameType: 'Playoffs' })
+      : Promise.resolve(undefined),
+  ]);
+  const applied = await applyRuleSet(results, ruleSet, goals);
+
+  const series = buildPlayoffSeries(games, applied.results).filter(s =>
+    (!filter.teamCode || s.top_seed.team_code === filter.teamCode || s.bottom_seed.team_code === filter.teamCode) &&
+    (!filter.round || s.round === filter.round)
+  );
+
+  return { ruleSet: applied.ruleSet, series, missingGoalData: applied.missingGoalData };
+}
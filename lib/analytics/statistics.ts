@@ -0,0 +1,154 @@
+// Statistics helpers for hypothesis testing
+// Small, dependency-free implementations; sample sizes here are a few hundred team-seasons at most
+
+const Z_95 = 1.959963984540054;
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) so permutation tests are reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Pearson correlation coefficient (0 when either series has no variance)
+ */
+export function pearson(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/**
+ * 95% confidence interval for a correlation via the Fisher z-transform
+ */
+export function correlationConfidenceInterval(r: number, n: number): [number, number] | null {
+  if (n <= 3 || Math.abs(r) >= 1) return null;
+  const z = Math.atanh(r);
+  const se = 1 / Math.sqrt(n - 3);
+  return [Math.tanh(z - Z_95 * se), Math.tanh(z + Z_95 * se)];
+}
+
+/**
+ * Two-sided permutation test for a correlation: share of shuffles with |r| at least as large
+ * Uses the (count + 1) / (permutations + 1) estimator so the p-value is never exactly zero
+ */
+export function permutationTest(
+  x: number[],
+  y: number[],
+  permutations: number,
+  seed: number = 1
+): number {
+  const observed = Math.abs(pearson(x, y));
+  const random = createRandom(seed);
+  const shuffled = [...y];
+  let extreme = 0;
+
+  for (let p = 0; p < permutations; p++) {
+    // Fisher-Yates shuffle
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    if (Math.abs(pearson(x, shuffled)) >= observed - 1e-12) extreme++;
+  }
+
+  return (extreme + 1) / (permutations + 1);
+}
+
+export interface LogisticRegressionResult {
+  intercept: number;
+  coefficient: number;
+  std_error: number | null;
+  ci95: [number, number] | null;
+  odds_ratio: number;
+  odds_ratio_ci95: [number, number] | null;
+  converged: boolean;
+  iterations: number;
+}
+
+/**
+ * Single-predictor logistic regression fitted by Newton-Raphson
+ * Standard errors come from the inverse Fisher information; they are null when it is singular
+ * (e.g. perfect separation, where the coefficient also fails to converge)
+ */
+export function logisticRegression(
+  x: number[],
+  y: number[],
+  maxIterations: number = 50
+): LogisticRegressionResult {
+  let b0 = 0;
+  let b1 = 0;
+  let converged = false;
+  let iterations = 0;
+  let information: [number, number, number] = [0, 0, 0];
+
+  for (iterations = 1; iterations <= maxIterations; iterations++) {
+    let g0 = 0;
+    let g1 = 0;
+    let h00 = 0;
+    let h01 = 0;
+    let h11 = 0;
+
+    for (let i = 0; i < x.length; i++) {
+      const p = 1 / (1 + Math.exp(-(b0 + b1 * x[i])));
+      const w = p * (1 - p);
+      g0 += y[i] - p;
+      g1 += (y[i] - p) * x[i];
+      h00 += w;
+      h01 += w * x[i];
+      h11 += w * x[i] * x[i];
+    }
+
+    information = [h00, h01, h11];
+    const det = h00 * h11 - h01 * h01;
+    if (det <= 1e-12) break;
+
+    const step0 = (h11 * g0 - h01 * g1) / det;
+    const step1 = (h00 * g1 - h01 * g0) / det;
+    b0 += step0;
+    b1 += step1;
+
+    if (Math.abs(step0) < 1e-8 && Math.abs(step1) < 1e-8) {
+      converged = true;
+      break;
+    }
+  }
+
+  const [h00, h01, h11] = information;
+  const det = h00 * h11 - h01 * h01;
+  const stdError = converged && det > 1e-12 ? Math.sqrt(h00 / det) : null;
+  const ci95: [number, number] | null = stdError !== null
+    ? [b1 - Z_95 * stdError, b1 + Z_95 * stdError]
+    : null;
+
+  return {
+    intercept: b0,
+    coefficient: b1,
+    std_error: stdError,
+    ci95,
+    odds_ratio: Math.exp(b1),
+    odds_ratio_ci95: ci95 ? [Math.exp(ci95[0]), Math.exp(ci95[1])] : null,
+    converged,
+    iterations: Math.min(iterations, maxIterations),
+  };
+}
@@ -0,0 +1,229 @@
+// Authentication for API routes
+// Callers identify with an API key (Authorization: Bearer <key> or X-API-Key) or with a browser
+// session created by signing in with a key at /api/auth/session. Requests with neither get
+// AUTH_DEFAULT_ROLE, so the read-only dashboard and chat keep working without credentials.
+// Every caller also has a subject that owns their chat conversations: a fingerprint of their key
+// (the same with or without a session) or, for anonymous callers, a signed visitor cookie.
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasRole, isRole, ROLES, type Role } from './roles';
+
+export type { Role } from './roles';
+export { ROLES, hasRole, isRole } from './roles';
+
+export const SESSION_COOKIE = 'nhl_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const VISITOR_COOKIE = 'nhl_visitor';
+export const VISITOR_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const MIN_SECRET_LENGTH = 32;
+
+export interface AuthConfig {
+  /** SHA-256 of each configured key, with its role */
+  keys: Array<{ hash: Buffer; role: Role }>;
+  defaultRole: Role;
+  /** Signs session cookies */
+  secret: string;
+}
+
+/**
+ * Who is making a request
+ */
+export interface Principal {
+  role: Role;
+  /** How the role was established */
+  method: 'api_key' | 'session' | 'default';
+  /** Owner of the caller's chat conversations (key:<fingerprint> or visitor:<id>) */
+  subject: string;
+}
+
+/**
+ * What a valid session cookie carries
+ */
+export interface SessionClaims {
+  role: Role;
+  subject: string;
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Auth settings from the environment
+ * AUTH_API_KEYS ("role:key,role:key"), AUTH_DEFAULT_ROLE (viewer), AUTH_SECRET (required)
+ */
+export function getAuthConfig(): AuthConfig {
+  const rawKeys = process.env.AUTH_API_KEYS || '';
+  const keys = rawKeys
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const role = entry.slice(0, separator);
+      const key = entry.slice(separator + 1);
+      if (separator === -1 || !isRole(role) || !key) {
+        throw new Error(`Invalid AUTH_API_KEYS entry. Use role:key with a role of ${ROLES.join(', ')}`);
+      }
+      return { hash: sha256(key), role };
+    });
+
+  const defaultRole = (process.env.AUTH_DEFAULT_ROLE || 'viewer').toLowerCase();
+  if (!isRole(defaultRole)) {
+    throw new Error(`Unknown AUTH_DEFAULT_ROLE "${defaultRole}". Use one of: ${ROLES.join(', ')}`);
+  }
+
+  // Anything derived from the config could be recomputed by a caller and used to sign an admin session
+  const secret = process.env.AUTH_SECRET || '';
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `AUTH_SECRET must be set to at least ${MIN_SECRET_LENGTH} random characters (e.g. openssl rand -hex 32)`
+    );
+  }
+
+  return { keys, defaultRole, secret };
+}
+
+/**
+ * Role for an API key, or null when the key isn't configured
+ */
+export function roleForApiKey(apiKey: string): Role | null {
+  const hash = sha256(apiKey);
+  const match = getAuthConfig().keys.find(k => timingSafeEqual(k.hash, hash));
+  return match?.role ?? null;
+}
+
+/**
+ * Subject for an API key; sessions signed in with the key share it
+ */
+export function apiKeySubject(apiKey: string): string {
+  return `key:${sha256(apiKey).toString('hex').slice(0, 16)}`;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function hasValidSignature(payload: string, signature: string): boolean {
+  const expected = Buffer.from(sign(payload, getAuthConfig().secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Signed session cookie value for a role and subject
+ */
+export function createSessionToken(role: Role, subject: string, now = Date.now()): string {
+  const payload = Buffer.from(JSON.stringify({ role, sub: subject, exp: now + SESSION_TTL_MS })).toString('base64url');
+  return `${payload}.${sign(payload, getAuthConfig().secret)}`;
+}
+
+/**
+ * Claims in a session cookie, or null when it is missing, tampered with or expired
+ */
+export function verifySessionToken(token: string, now = Date.now()): SessionClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !hasValidSignature(payload, signature)) return null;
+
+  try {
+    const { role, sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return isRole(role) && typeof sub === 'string' && typeof exp === 'number' && exp > now
+      ? { role, subject: sub }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signed visitor cookie value for a visitor subject
+ */
+export function createVisitorToken(subject: string): string {
+  return `${subject.slice('visitor:'.length)}.${sign(subject, getAuthConfig().secret)}`;
+}
+
+/**
+ * Subject in a visitor cookie, or null when it is missing or tampered with
+ */
+export function verifyVisitorToken(token: string): string | null {
+  const [id, signature] = token.split('.');
+  if (!id || !signature || !hasValidSignature(`visitor:${id}`, signature)) return null;
+  return `visitor:${id}`;
+}
+
+function apiKeyOf(req: NextRequest): string | null {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim();
+  }
+  return req.headers.get('x-api-key');
+}
+
+/**
+ * Identify the caller
+ * An API key that isn't configured is rejected rather than treated as anonymous
+ * Anonymous callers without a valid visitor cookie get a new subject; send it back with setVisitorCookie
+ * @returns Null for an invalid API key
+ */
+export function authenticate(req: NextRequest): Principal | null {
+  const apiKey = apiKeyOf(req);
+  if (apiKey) {
+    const role = roleForApiKey(apiKey);
+    return role ? { role, method: 'api_key', subject: apiKeySubject(apiKey) } : null;
+  }
+
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  const session = token ? verifySessionToken(token) : null;
+  if (session) {
+    return { role: session.role, method: 'session', subject: session.subject };
+  }
+
+  const visitorToken = req.cookies.get(VISITOR_COOKIE)?.value;
+  const visitor = visitorToken ? verifyVisitorToken(visitorToken) : null;
+  if (visitor) {
+    return { role: getAuthConfig().defaultRole, method: 'default', subject: visitor };
+  }
+
+  const subject = `visitor:${randomBytes(16).toString('base64url')}`;
+  return { role: getAuthConfig().defaultRole, method: 'default', subject };
+}
+
+/**
+ * Keep an anonymous caller's subject in a cookie so their conversations stay theirs
+ * Does nothing for callers with a key or session
+ */
+export function setVisitorCookie(response: NextResponse, principal: Principal): NextResponse {
+  if (principal.method === 'default') {
+    response.cookies.set(VISITOR_COOKIE, createVisitorToken(principal.subject), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: VISITOR_TTL_MS / 1000,
+    });
+  }
+  return response;
+}
+
+/**
+ * Authenticate a route request and check its role
+ * @returns The caller, or the 401/403 response to send
+ */
+export function requireRole(req: NextRequest, required: Role): Principal | NextResponse {
+  const principal = authenticate(req);
+  if (!principal) {
+    return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+  }
+
+  if (!hasRole(principal.role, required)) {
+    // Anonymous callers may have a key that would work; signed-in callers don't have the role
+    const status = principal.method === 'default' ? 401 : 403;
+    return NextResponse.json(
+      { error: `This requires the ${required} role`, role: principal.role },
+      { status }
+    );
+  }
+
+  return principal;
+}
@@ -0,0 +1,22 @@
+// Roles
+// Shared by the server-side auth checks and the dashboard, so this module must stay free of Node APIs
+
+/**
+ * viewer: read-only stats and chat; analyst: chat with the import and sync tools;
+ * admin: seeding, backfills and reconciliation
+ */
+export type Role = 'viewer' | 'analyst' | 'admin';
+
+/** Least to most privileged */
+export const ROLES: Role[] = ['viewer', 'analyst', 'admin'];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a role includes the permissions of another (admin includes analyst includes viewer)
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
@@ -0,0 +1,209 @@
+import { getRepository } from './index';
+import type { GoalWithGame } from './types';
+
+/**
+ * Goal-level query builders for the analyze_goals tool
+ * A period's deciding goal is the winner's goal that put it ahead for good in that period,
+ * counted with the same rule as period_outcome (empty-net goals excluded in period 3)
+ */
+
+const PERIOD_SECONDS = 20 * 60;
+
+export interface GoalQueryFilter {
+  teamCode?: string;
+  /** Any of these teams, e.g. every code of a franchise (takes precedence over teamCode) */
+  teamCodes?: string[];
+  season?: string;
+  gameType?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Restrict to one period; defaults to regulation periods 1-3 */
+  periodNumber?: number;
+}
+
+export interface PeriodDecidingGoalRow {
+  game_id: string;
+  game_date: string;
+  period_number: number;
+  team_code: string;
+  opponent_code: string;
+  scorer_id: number;
+  scorer_name: string;
+  time_in_period: string;
+  seconds_in_period: number;
+  strength: string | null;
+  shot_type: string | null;
+  /** Period score for the winner vs opponent */
+  period_score: string;
+}
+
+export interface ScorerCountRow {
+  scorer_id: number;
+  scorer_name: string;
+  team_code: string;
+  deciding_goals: number;
+}
+
+export interface LatePeriodLeadRow {
+  period_number: number;
+  periods_won: number;
+  decided_late: number;
+  late_share: number;
+}
+
+function filterTeamCodes(filter: GoalQueryFilter): string[] | undefined {
+  return filter.teamCodes ?? (filter.teamCode ? [filter.teamCode] : undefined);
+}
+
+/**
+ * Load goals matching the filter, with both teams' goals for every game
+ */
+async function loadGoals(filter: GoalQueryFilter): Promise<GoalWithGame[]> {
+  const repo = getRepository();
+
+  // A team filter has to keep the opponent's goals too, so narrow by game rather than scoring team
+  let gameIds: string[] | undefined;
+  const teamCodes = filterTeamCodes(filter);
+  if (teamCodes) {
+    const games = (await Promise.all(teamCodes.map(teamCode => repo.games.list({
+      teamCode,
+      season: filter.season,
+      gameType: filter.gameType,
+      startDate: filter.startDate,
+      endDate: filter.endDate,
+    })))).flat();
+    if (games.length === 0) return [];
+    gameIds = [...new Set(games.map(g => g.game_id))];
+  }
+
+  const goals = await repo.goals.listWithGames({
+    gameIds,
+    season: filter.season,
+    gameType: filter.gameType,
+    startDate: filter.startDate,
+    endDate: filter.endDate,
+    periodNumber: filter.periodNumber,
+  });
+
+  return filter.periodNumber ? goals : goals.filter(g => g.period_number <= 3);
+}
+
+/**
+ * Find the deciding goal of every period that was not tied
+ */
+function findPeriodDecidingGoals(goals: GoalWithGame[], teamCodes?: string[]): PeriodDecidingGoalRow[] {
+  const periods = new Map<string, GoalWithGame[]>();
+  for (const goal of goals) {
+    const key = `${goal.game_id}:${goal.period_number}`;
+    if (!periods.has(key)) periods.set(key, []);
+    periods.get(key)!.push(goal);
+  }
+
+  const rows: PeriodDecidingGoalRow[] = [];
+
+  for (const periodGoals of periods.values()) {
+    const { game, period_number: periodNumber } = periodGoals[0];
+    periodGoals.sort((a, b) => a.goal_number - b.goal_number);
+
+    // A team's own empty-net goals don't count toward winning period 3, but still count against the opponent
+    const countedFor = (code: string) => periodGoals.filter(g =>
+      g.team_code === code && !(periodNumber === 3 && g.is_empty_net)
+    );
+    const allFor = (code: string) => periodGoals.filter(g => g.team_code === code);
+
+    const winner = [game.home_team_code, game.away_team_code].find(code => {
+      const opponent = code === game.home_team_code ? game.away_team_code : game.home_team_code;
+      return countedFor(code).length > allFor(opponent).length;
+    });
+    if (!winner || (teamCodes && !teamCodes.includes(winner))) continue;
+
+    const opponentCode = winner === game.home_team_code ? game.away_team_code : game.home_team_code;
+    const winnerGoals = countedFor(winner);
+    const loserGoals = allFor(opponentCode);
+
+    // The goal that took the winner one past the loser's final period tally
+    const deciding = winnerGoals[loserGoals.length];
+
+    rows.push({
+      game_id: game.game_id,
+      game_date: game.game_date,
+      period_number: periodNumber,
+      team_code: winner,
+      opponent_code: opponentCode,
+      scorer_id: deciding.scorer_id,
+      scorer_name: deciding.scorer_name,
+      time_in_period: deciding.time_in_period,
+      seconds_in_period: deciding.seconds_in_period,
+      strength: deciding.strength,
+      shot_type: deciding.shot_type,
+      period_score: `${winnerGoals.length}-${loserGoals.length}`,
+    });
+  }
+
+  return rows.sort((a, b) =>
+    b.game_date.localeCompare(a.game_date) || a.period_number - b.period_number
+  );
+}
+
+/**
+ * Who scores the period-deciding goals
+ * Returns every deciding goal plus a per-scorer tally, most goals first
+ */
+export async function queryPeriodDecidingGoals(
+  filter: GoalQueryFilter
+): Promise<{ goals: PeriodDecidingGoalRow[]; scorers: ScorerCountRow[] }> {
+  const goals = findPeriodDecidingGoals(await loadGoals(filter), filterTeamCodes(filter));
+
+  const scorers = new Map<string, ScorerCountRow>();
+  for (const goal of goals) {
+    const key = `${goal.team_code}:${goal.scorer_id}`;
+    if (!scorers.has(key)) {
+      scorers.set(key, {
+        scorer_id: goal.scorer_id,
+        scorer_name: goal.scorer_name,
+        team_code: goal.team_code,
+        deciding_goals: 0,
+      });
+    }
+    scorers.get(key)!.deciding_goals++;
+  }
+
+  return {
+    goals,
+    scorers: [...scorers.values()].sort((a, b) =>
+      b.deciding_goals - a.deciding_goals || a.scorer_name.localeCompare(b.scorer_name)
+    ),
+  };
+}
+
+/**
+ * How often won periods were decided by a goal in the final minutes
+ * Overtime is skipped because a regular-season OT period ends with its only goal
+ */
+export async function queryLatePeriodLeads(
+  filter: GoalQueryFilter,
+  lateWindowMinutes: number = 5
+): Promise<LatePeriodLeadRow[]> {
+  const lateFrom = PERIOD_SECONDS - lateWindowMinutes * 60;
+  const goals = findPeriodDecidingGoals(await loadGoals(filter), filterTeamCodes(filter))
+    .filter(g => g.period_number <= 3);
+
+  const byPeriod = new Map<number, LatePeriodLeadRow>();
+  for (const goal of goals) {
+    if (!byPeriod.has(goal.period_number)) {
+      byPeriod.set(goal.period_number, {
+        period_number: goal.period_number,
+        periods_won: 0,
+        decided_late: 0,
+        late_share: 0,
+      });
+    }
+    const row = byPeriod.get(goal.period_number)!;
+    row.periods_won++;
+    if (goal.seconds_in_period >= lateFrom) row.decided_late++;
+  }
+
+  return [...byPeriod.values()]
+    .map(row => ({ ...row, late_share: Math.round((row.decided_late / row.periods_won) * 1000) / 10 }))
+    .sort((a, b) => a.period_number - b.period_number);
+}
@@ -0,0 +1,49 @@
+// Data access layer entry point
+// DATA_BACKEND selects the implementation: 'supabase' (default) or 'local'
+
+import { createLocalRepository } from './local';
+import { createSupabaseRepository } from '../supabase/repository';
+import { isSupabaseConfigured } from '../supabase/client';
+import type { DataBackend, DataRepository } from './types';
+
+export type * from './types';
+
+let repository: DataRepository | null = null;
+
+/**
+ * Get the configured backend
+ */
+export function getDataBackend(): DataBackend {
+  const backend = (process.env.DATA_BACKEND || 'supabase').toLowerCase();
+  if (backend !== 'supabase' && backend !== 'local') {
+    throw new Error(`Unknown DATA_BACKEND "${backend}". Use "supabase" or "local".`);
+  }
+  return backend;
+}
+
+/**
+ * Check if the configured backend can serve requests
+ * The local store is always available; Supabase needs its environment variables
+ */
+export function isDatabaseConfigured(): boolean {
+  return getDataBackend() === 'local' || isSupabaseConfigured();
+}
+
+/**
+ * Get the repository for the configured backend (created once per process)
+ */
+export function getRepository(): DataRepository {
+  if (!repository) {
+    repository = getDataBackend() === 'local'
+      ? createLocalRepository()
+      : createSupabaseRepository();
+  }
+  return repository;
+}
+
+/**
+ * Replace the active repository (e.g. with createLocalRepository(':memory:') in tests)
+ */
+export function setRepository(repo: DataRepository | null): void {
+  repository = repo;
+}
@@ -0,0 +1,1246 @@
+// Embedded local implementation of the data access layer
+// Keeps every table in memory and (unless LOCAL_DB_PATH=':memory:') persists them to a JSON file,
+// so analysts can work offline and tests get the same constraint semantics as Postgres
+
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type {
+  AgentCheckpoint,
+  AgentCheckpointFilter,
+  AgentCheckpointWrite,
+  Approval,
+  ApprovalStatus,
+  AuditEvent,
+  AuditEventFilter,
+  Conversation,
+  ConversationMessage,
+  ConversationMessageFilter,
+  DataRepository,
+  FranchiseTeam,
+  Game,
+  GameFilter,
+  GameTeamResult,
+  GameTeamResultFilter,
+  GameWithPeriods,
+  GameWriteAudit,
+  GameWriteStatus,
+  Goal,
+  GoalFilter,
+  GoalWithGame,
+  ImportJob,
+  ImportJobFilter,
+  ImportJobGame,
+  ImportJobUpdate,
+  LiveGame,
+  LiveGameFilter,
+  LivePeriodResult,
+  NewApproval,
+  NewAuditEvent,
+  NewConversationMessage,
+  NewGoal,
+  NewImportJob,
+  NewImportJobGame,
+  NewLiveGame,
+  NewPeriodResult,
+  NewTeamSeasonAlignment,
+  PeriodResult,
+  PeriodResultFilter,
+  PeriodResultWithGame,
+  PeriodPlayStats,
+  PeriodPlayStatsFilter,
+  Team,
+  TeamFilter,
+  TeamSeasonAlignment,
+  TeamSeasonAlignmentFilter,
+  TeamSeasonSummary,
+  TeamSeasonSummaryFilter,
+  UpsertPolicy,
+} from './types';
+import { summarizeTeamSeasons } from './summaries';
+
+export const IN_MEMORY = ':memory:';
+const DEFAULT_LOCAL_DB_PATH = '.data/local-db.json';
+const TEAM_SEED_PATH = 'lib/supabase/seeds/teams.sql';
+const FRANCHISE_SEED_PATH = 'lib/supabase/seeds/franchises.sql';
+/** Writes within this window are saved to the file together */
+const PERSIST_DELAY_MS = 200;
+
+interface LocalTables {
+  teams: Team[];
+  franchises: FranchiseTeam[];
+  team_season_alignment: TeamSeasonAlignment[];
+  games: Game[];
+  period_results: PeriodResult[];
+  game_team_results: GameTeamResult[];
+  goals: Goal[];
+  period_play_stats: PeriodPlayStats[];
+  conversations: Conversation[];
+  conversation_messages: ConversationMessage[];
+  agent_checkpoints: AgentCheckpoint[];
+  agent_checkpoint_writes: AgentCheckpointWrite[];
+  approvals: Approval[];
+  import_jobs: ImportJob[];
+  import_job_games: ImportJobGame[];
+  live_games: LiveGame[];
+  live_period_results: LivePeriodResult[];
+  audit_events: AuditEvent[];
+}
+
+/**
+ * Lookups kept up to date as rows are written, so constraint checks don't scan whole tables
+ */
+interface LocalIndexes {
+  /** Position of each game in tables.games (games are never deleted) */
+  games: Map<string, number>;
+  periodResults: Set<string>;
+  gameTeamResults: Set<string>;
+  goals: Set<string>;
+  periodPlayStats: Set<string>;
+}
+
+// Unique keys of the tables that belong to a game
+
+function periodResultKey(pr: Pick<PeriodResult, 'game_id' | 'team_code' | 'period_number'>): string {
+  return `${pr.game_id}:${pr.team_code}:${pr.period_number}`;
+}
+
+function gameTeamResultKey(r: Pick<GameTeamResult, 'game_id' | 'team_code'>): string {
+  return `${r.game_id}:${r.team_code}`;
+}
+
+function goalKey(goal: Pick<Goal, 'game_id' | 'goal_number'>): string {
+  return `${goal.game_id}:${goal.goal_number}`;
+}
+
+function periodPlayStatsKey(s: Pick<PeriodPlayStats, 'game_id' | 'team_code' | 'period_number'>): string {
+  return `${s.game_id}:${s.team_code}:${s.period_number}`;
+}
+
+function buildIndexes(tables: LocalTables): LocalIndexes {
+  return {
+    games: new Map(tables.games.map((g, index) => [g.game_id, index])),
+    periodResults: new Set(tables.period_results.map(periodResultKey)),
+    gameTeamResults: new Set(tables.game_team_results.map(gameTeamResultKey)),
+    goals: new Set(tables.goals.map(goalKey)),
+    periodPlayStats: new Set(tables.period_play_stats.map(periodPlayStatsKey)),
+  };
+}
+
+/**
+ * Error raised when a write violates a schema constraint
+ * Codes follow Postgres SQLSTATE so callers can handle both backends the same way
+ */
+export class LocalDatabaseError extends Error {
+  constructor(
+    message: string,
+    public code: '23503' | '23505' | '23514'
+  ) {
+    super(message);
+    this.name = 'LocalDatabaseError';
+  }
+}
+
+/**
+ * Parse team rows out of the Supabase seed file so both backends share one team list
+ */
+function loadTeamSeed(): Team[] {
+  const seedPath = resolve(process.cwd(), TEAM_SEED_PATH);
+  if (!existsSync(seedPath)) {
+    console.warn(`[LocalDB] Team seed not found at ${seedPath}; starting with no teams`);
+    return [];
+  }
+
+  const sql = readFileSync(seedPath, 'utf8');
+  const rowPattern = /\('([A-Z]{3})',\s*'((?:[^']|'')+)',\s*(NULL|'[^']*'),\s*(NULL|'[^']*')\)/g;
+  const teams: Team[] = [];
+
+  for (const match of sql.matchAll(rowPattern)) {
+    const unquote = (value: string) => (value === 'NULL' ? null : value.slice(1, -1));
+    teams.push({
+      team_code: match[1],
+      team_name: match[2].replace(/''/g, "'"),
+      division: unquote(match[3]),
+      conference: unquote(match[4]),
+    });
+  }
+
+  return teams;
+}
+
+/**
+ * Parse the franchise mapping out of the Supabase seed file
+ */
+function loadFranchiseSeed(): FranchiseTeam[] {
+  const seedPath = resolve(process.cwd(), FRANCHISE_SEED_PATH);
+  if (!existsSync(seedPath)) {
+    console.warn(`[LocalDB] Franchise seed not found at ${seedPath}; starting with no franchises`);
+    return [];
+  }
+
+  const sql = readFileSync(seedPath, 'utf8');
+  const rowPattern = /\('([A-Z]{3})',\s*'([A-Z]{3})',\s*(NULL|'[^']*'),\s*(NULL|'[^']*')\)/g;
+  const unquote = (value: string) => (value === 'NULL' ? null : value.slice(1, -1));
+
+  return [...sql.matchAll(rowPattern)].map(match => ({
+    franchise_id: match[1],
+    team_code: match[2],
+    active_from: unquote(match[3]),
+    active_to: unquote(match[4]),
+  }));
+}
+
+function emptyTables(): LocalTables {
+  return {
+    teams: loadTeamSeed(),
+    franchises: loadFranchiseSeed(),
+    team_season_alignment: [],
+    games: [],
+    period_results: [],
+    game_team_results: [],
+    goals: [],
+    period_play_stats: [],
+    conversations: [],
+    conversation_messages: [],
+    agent_checkpoints: [],
+    agent_checkpoint_writes: [],
+    approvals: [],
+    import_jobs: [],
+    import_job_games: [],
+    live_games: [],
+    live_period_results: [],
+    audit_events: [],
+  };
+}
+
+/**
+ * Table storage with lazy load and write-behind persistence
+ * Reloads from disk when another process (e.g. a script) has written the file since our last read,
+ * unless this process has changes it hasn't saved yet
+ */
+function createLocalStore(path: string) {
+  const filePath = path === IN_MEMORY ? null : resolve(process.cwd(), path);
+  let tables: LocalTables | null = null;
+  let indexes: LocalIndexes | null = null;
+  let loadedMtime = 0;
+  let dirty = false;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushOnExit = false;
+
+  function load(): LocalTables {
+    if (!filePath) {
+      if (!tables) tables = emptyTables();
+      return tables;
+    }
+
+    if (!existsSync(filePath)) {
+      if (!tables) {
+        tables = emptyTables();
+        persist();
+      }
+      return tables;
+    }
+
+    const mtime = statSync(filePath).mtimeMs;
+    if (!tables || (!dirty && mtime !== loadedMtime)) {
+      const seeded = emptyTables();
+      tables = { ...seeded, ...JSON.parse(readFileSync(filePath, 'utf8')) } as LocalTables;
+      // Files written before a team was added to the seed (e.g. relocated teams) still get it
+      const storedCodes = new Set(tables.teams.map(t => t.team_code));
+      tables.teams.push(...seeded.teams.filter(t => !storedCodes.has(t.team_code)));
+      loadedMtime = mtime;
+      indexes = null;
+    }
+    return tables;
+  }
+
+  /**
+   * Indexes of the current tables (built on first use after a load)
+   */
+  function getIndexes(): LocalIndexes {
+    const current = load();
+    if (!indexes) indexes = buildIndexes(current);
+    return indexes;
+  }
+
+  /**
+   * Write the tables to the file now if they have unsaved changes
+   */
+  function flush(): void {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (!filePath || !tables || !dirty) return;
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(tables));
+    loadedMtime = statSync(filePath).mtimeMs;
+    dirty = false;
+  }
+
+  /**
+   * Save the tables shortly, so a burst of writes (e.g. a backfill) rewrites the file once
+   * rather than once per write; anything pending is saved when the process exits
+   */
+  function persist(): void {
+    if (!filePath || !tables) return;
+    dirty = true;
+
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, PERSIST_DELAY_MS);
+      flushTimer.unref();
+    }
+    if (!flushOnExit) {
+      process.once('exit', flush);
+      flushOnExit = true;
+    }
+  }
+
+  /**
+   * Run synchronous writes as one transaction: persisted together on success, and on error
+   * every table is put back the way it was
+   * Writes may append rows or replace a table's array; rows already stored must not be changed
+   * in place before the last write that can fail
+   */
+  function transaction<T>(write: (tables: LocalTables, indexes: LocalIndexes) => T): T {
+    const current = load();
+    const currentIndexes = getIndexes();
+    // Each table's array and length, so rollback costs nothing up front
+    const snapshot = Object.entries(current).map(([name, rows]) => [name, rows, rows.length] as const);
+
+    try {
+      const result = write(current, currentIndexes);
+      persist();
+      return result;
+    } catch (error) {
+      for (const [name, rows, length] of snapshot) {
+        rows.length = length;
+        (current as unknown as Record<string, unknown[]>)[name] = rows;
+      }
+      indexes = null;
+      throw error;
+    }
+  }
+
+  return { load, indexes: getIndexes, persist, transaction };
+}
+
+type LocalStore = ReturnType<typeof createLocalStore>;
+
+function inDateRange(date: string, startDate?: string, endDate?: string): boolean {
+  if (startDate && date < startDate) return false;
+  if (endDate && date > endDate) return false;
+  return true;
+}
+
+function matchesGame(
+  game: Game,
+  filter: GameFilter | PeriodResultFilter | GoalFilter | PeriodPlayStatsFilter
+): boolean {
+  if ('gameIds' in filter && filter.gameIds && !filter.gameIds.includes(game.game_id)) return false;
+  if (filter.season && game.season !== filter.season) return false;
+  if (filter.gameType && game.game_type !== filter.gameType) return false;
+  return inDateRange(game.game_date, filter.startDate, filter.endDate);
+}
+
+function compareGames(a: Game, b: Game): number {
+  return a.game_date.localeCompare(b.game_date) || a.game_id.localeCompare(b.game_id);
+}
+
+// Row writes shared by the single-table methods and upsertWithPeriods; each checks the whole batch
+// before touching the table so a failure leaves no partial rows (like a single INSERT statement)
+
+function checkGameRow(tables: LocalTables, game: Game): void {
+  if (game.home_team_code === game.away_team_code) {
+    throw new LocalDatabaseError('new row for relation "games" violates check constraint "different_teams"', '23514');
+  }
+  for (const teamCode of [game.home_team_code, game.away_team_code]) {
+    if (!tables.teams.some(t => t.team_code === teamCode)) {
+      throw new LocalDatabaseError(
+        `insert or update on table "games" violates foreign key constraint (team_code=${teamCode})`,
+        '23503'
+      );
+    }
+  }
+}
+
+function insertGameRow(tables: LocalTables, indexes: LocalIndexes, game: Game): Game {
+  if (indexes.games.has(game.game_id)) {
+    throw new LocalDatabaseError(
+      `duplicate key value violates unique constraint "games_pkey" (game_id=${game.game_id})`,
+      '23505'
+    );
+  }
+  checkGameRow(tables, game);
+
+  const row = { ...game };
+  indexes.games.set(row.game_id, tables.games.push(row) - 1);
+  return row;
+}
+
+function checkGameExists(indexes: LocalIndexes, table: string, gameId: string): void {
+  if (!indexes.games.has(gameId)) {
+    throw new LocalDatabaseError(
+      `insert or update on table "${table}" violates foreign key constraint (game_id=${gameId})`,
+      '23503'
+    );
+  }
+}
+
+/**
+ * A table without one game's rows, with their keys dropped from its index
+ */
+function withoutGameRows<T extends { game_id: string }>(
+  rows: T[],
+  keys: Set<string>,
+  keyOf: (row: T) => string,
+  gameId: string
+): T[] {
+  return rows.filter(row => {
+    if (row.game_id !== gameId) return true;
+    keys.delete(keyOf(row));
+    return false;
+  });
+}
+
+function insertPeriodResultRows(
+  tables: LocalTables,
+  indexes: LocalIndexes,
+  periodResults: NewPeriodResult[]
+): PeriodResult[] {
+  const inserted: PeriodResult[] = [];
+
+  const keys = new Set<string>();
+  for (const pr of periodResults) {
+    const key = periodResultKey(pr);
+    if (indexes.periodResults.has(key) || keys.has(key)) {
+      throw new LocalDatabaseError(
+        `duplicate key value violates unique constraint "unique_team_period" (${key})`,
+        '23505'
+      );
+    }
+    checkGameExists(indexes, 'period_results', pr.game_id);
+    if (pr.empty_net_goals > pr.goals_for) {
+      throw new LocalDatabaseError('new row for relation "period_results" violates check constraint "en_goals_valid"', '23514');
+    }
+    if (pr.goals_for_ev + pr.goals_for_pp + pr.goals_for_sh > pr.goals_for || pr.goals_for_5v5 > pr.goals_for) {
+      throw new LocalDatabaseError('new row for relation "period_results" violates check constraint "strength_goals_valid"', '23514');
+    }
+    keys.add(key);
+    inserted.push({ ...pr, id: randomUUID() });
+  }
+
+  tables.period_results.push(...inserted);
+  for (const key of keys) indexes.periodResults.add(key);
+  return inserted;
+}
+
+function insertGameTeamResultRows(
+  tables: LocalTables,
+  indexes: LocalIndexes,
+  results: GameTeamResult[]
+): GameTeamResult[] {
+  const keys = new Set<string>();
+  for (const r of results) {
+    const key = gameTeamResultKey(r);
+    if (indexes.gameTeamResults.has(key) || keys.has(key)) {
+      throw new LocalDatabaseError(
+        `duplicate key value violates unique constraint "game_team_results_pkey" (${key})`,
+        '23505'
+      );
+    }
+    checkGameExists(indexes, 'game_team_results', r.game_id);
+    if ((r.result === 'WIN') !== (r.win_quality !== null)) {
+      throw new LocalDatabaseError('new row for relation "game_team_results" violates check constraint "win_quality_valid"', '23514');
+    }
+    if ((r.result === 'WIN') !== (r.win_quality_5v5 !== null)) {
+      throw new LocalDatabaseError('new row for relation "game_team_results" violates check constraint "win_quality_5v5_valid"', '23514');
+    }
+    keys.add(key);
+  }
+
+  const inserted = results.map(r => ({ ...r }));
+  tables.game_team_results.push(...inserted);
+  for (const key of keys) indexes.gameTeamResults.add(key);
+  return inserted;
+}
+
+function insertGoalRows(tables: LocalTables, indexes: LocalIndexes, goals: NewGoal[]): Goal[] {
+  const inserted: Goal[] = [];
+
+  const keys = new Set<string>();
+  for (const goal of goals) {
+    const key = goalKey(goal);
+    if (indexes.goals.has(key) || keys.has(key)) {
+      throw new LocalDatabaseError(
+        `duplicate key value violates unique constraint "unique_game_goal" (${key})`,
+        '23505'
+      );
+    }
+    checkGameExists(indexes, 'goals', goal.game_id);
+    keys.add(key);
+    inserted.push({ ...goal, id: randomUUID() });
+  }
+
+  tables.goals.push(...inserted);
+  for (const key of keys) indexes.goals.add(key);
+  return inserted;
+}
+
+function createRepository(store: LocalStore): DataRepository {
+  return {
+    backend: 'local',
+
+    teams: {
+      async list(filter: TeamFilter = {}): Promise<Team[]> {
+        const orderBy = filter.orderBy || 'team_code';
+        return store.load().teams
+          .filter(t => !filter.teamCodes || filter.teamCodes.includes(t.team_code))
+          .filter(t => !filter.conference || t.conference === filter.conference)
+          .filter(t => !filter.division || t.division === filter.division)
+          .sort((a, b) => a[orderBy].localeCompare(b[orderBy]))
+          .map(t => ({ ...t }));
+      },
+
+      async getByCode(teamCode: string): Promise<Team | null> {
+        const team = store.load().teams.find(t => t.team_code === teamCode);
+        return team ? { ...team } : null;
+      },
+
+      async exists(teamCode: string): Promise<boolean> {
+        return store.load().teams.some(t => t.team_code === teamCode);
+      },
+    },
+
+    franchises: {
+      async list(): Promise<FranchiseTeam[]> {
+        return [...store.load().franchises]
+          .sort((a, b) =>
+            a.franchise_id.localeCompare(b.franchise_id) ||
+            (a.active_from ?? '').localeCompare(b.active_from ?? '')
+          )
+          .map(f => ({ ...f }));
+      },
+    },
+
+    teamSeasonAlignment: {
+      async list(filter: TeamSeasonAlignmentFilter = {}): Promise<TeamSeasonAlignment[]> {
+        return store.load().team_season_alignment
+          .filter(a => !filter.season || a.season === filter.season)
+          .filter(a => !filter.teamCodes || filter.teamCodes.includes(a.team_code))
+          .sort((a, b) => a.season.localeCompare(b.season) || a.team_code.localeCompare(b.team_code))
+          .map(a => ({ ...a }));
+      },
+
+      async upsertMany(rows: NewTeamSeasonAlignment[]): Promise<void> {
+        const tables = store.load();
+        const unknown = rows.find(row => !tables.teams.some(t => t.team_code === row.team_code));
+        if (unknown) {
+          throw new LocalDatabaseError(
+            `insert or update on table "team_season_alignment" violates foreign key constraint (team_code=${unknown.team_code})`,
+            '23503'
+          );
+        }
+
+        const updatedAt = new Date().toISOString();
+        for (const row of rows) {
+          const stored = { ...row, updated_at: updatedAt };
+          const index = tables.team_season_alignment.findIndex(a =>
+            a.season === row.season && a.team_code === row.team_code
+          );
+          if (index >= 0) tables.team_season_alignment[index] = stored;
+          else tables.team_season_alignment.push(stored);
+        }
+        store.persist();
+      },
+    },
+
+    games: {
+      async list(filter: GameFilter = {}): Promise<Game[]> {
+        const { teamCode, opponentCode } = filter;
+        const rows = store.load().games
+          .filter(g => matchesGame(g, filter))
+          .filter(g => {
+            if (!teamCode) return true;
+            const teams = [g.home_team_code, g.away_team_code];
+            if (!teams.includes(teamCode)) return false;
+            return !opponentCode || teams.includes(opponentCode);
+          })
+          .sort(compareGames);
+
+        if (filter.ascending === false) rows.reverse();
+        return rows.slice(0, filter.limit).map(g => ({ ...g }));
+      },
+
+      async getById(gameId: string): Promise<Game | null> {
+        const index = store.indexes().games.get(gameId);
+        return index === undefined ? null : { ...store.load().games[index] };
+      },
+
+      async exists(gameId: string): Promise<boolean> {
+        return store.indexes().games.has(gameId);
+      },
+
+      async getSeasons(): Promise<string[]> {
+        return [...new Set(store.load().games.map(g => g.season))].sort().reverse();
+      },
+
+      async insert(game: Game): Promise<Game> {
+        const row = insertGameRow(store.load(), store.indexes(), game);
+        store.persist();
+        return { ...row };
+      },
+
+      async upsertWithPeriods(data: GameWithPeriods, policy: UpsertPolicy, audit?: GameWriteAudit): Promise<GameWriteStatus> {
+        // Synchronous, so no other write can interleave; any error rolls back every table
+        return store.transaction((tables, indexes) => {
+          const gameId = data.game.game_id;
+          const index = indexes.games.get(gameId) ?? -1;
+          if (index !== -1 && policy === 'skip') return 'skipped';
+
+          if (index === -1) {
+            insertGameRow(tables, indexes, data.game);
+          } else {
+            if (policy === 'overwrite') checkGameRow(tables, data.game);
+            // A new game has no rows in the other tables yet
+            tables.goals = withoutGameRows(tables.goals, indexes.goals, goalKey, gameId);
+            tables.game_team_results = withoutGameRows(tables.game_team_results, indexes.gameTeamResults, gameTeamResultKey, gameId);
+            tables.period_results = withoutGameRows(tables.period_results, indexes.periodResults, periodResultKey, gameId);
+          }
+
+          insertPeriodResultRows(tables, indexes, data.periodResults);
+          insertGameTeamResultRows(tables, indexes, data.gameTeamResults);
+          insertGoalRows(tables, indexes, data.goals);
+
+          // Last, since rollback can't undo a row changed in place
+          if (index !== -1 && policy === 'overwrite') {
+            tables.games[index] = { ...data.game };
+          }
+
+          if (audit) {
+            // Merging keeps the stored game row
+            const gameWritten = index === -1 || policy !== 'merge';
+            const { game: _game, ...afterWithoutGame } = (audit.after ?? {}) as Record<string, unknown>;
+            tables.audit_events.push({
+              id: randomUUID(),
+              source: audit.source,
+              session_id: audit.session_id ?? null,
+              approval_id: audit.approval_id ?? null,
+              action: audit.action ?? (index === -1 ? 'insert' : 'update'),
+              game_id: gameId,
+              row_counts: {
+                games: gameWritten ? 1 : 0,
+                period_results: data.periodResults.length,
+                game_team_results: data.gameTeamResults.length,
+                goals: data.goals.length,
+              },
+              before: index === -1 ? null : audit.before ?? null,
+              after: gameWritten ? audit.after ?? null : afterWithoutGame,
+              created_at: new Date().toISOString(),
+            });
+          }
+
+          return index === -1 ? 'inserted' : 'updated';
+        });
+      },
+    },
+
+    periodResults: {
+      async list(filter: PeriodResultFilter = {}): Promise<PeriodResult[]> {
+        const rows = await this.listWithGames(filter);
+        return rows.map(({ game: _game, ...periodResult }) => periodResult);
+      },
+
+      async listWithGames(filter: PeriodResultFilter = {}): Promise<PeriodResultWithGame[]> {
+        const tables = store.load();
+        const gamesById = new Map(tables.games.map(g => [g.game_id, g]));
+
+        const rows: PeriodResultWithGame[] = [];
+        for (const pr of tables.period_results) {
+          const game = gamesById.get(pr.game_id);
+          if (!game || !matchesGame(game, filter)) continue;
+          if (filter.teamCode && pr.team_code !== filter.teamCode) continue;
+          if (filter.periodNumber && pr.period_number !== filter.periodNumber) continue;
+          if (filter.maxPeriodNumber && pr.period_number > filter.maxPeriodNumber) continue;
+          if (filter.periodOutcome && pr.period_outcome !== filter.periodOutcome) continue;
+          if (filter.wonTwoPlusRegPeriods !== undefined && pr.won_two_plus_reg_periods !== filter.wonTwoPlusRegPeriods) continue;
+          rows.push({ ...pr, game: { ...game } });
+        }
+
+        const direction = filter.ascending === false ? -1 : 1;
+        rows.sort((a, b) =>
+          direction * compareGames(a.game, b.game) ||
+          a.period_number - b.period_number ||
+          a.team_code.localeCompare(b.team_code)
+        );
+
+        return rows.slice(0, filter.limit);
+      },
+
+      async countByGame(gameIds?: string[]): Promise<Map<string, number>> {
+        const counts = new Map<string, number>();
+        for (const pr of store.load().period_results) {
+          if (gameIds && !gameIds.includes(pr.game_id)) continue;
+          counts.set(pr.game_id, (counts.get(pr.game_id) || 0) + 1);
+        }
+        return counts;
+      },
+
+      async insertMany(periodResults: NewPeriodResult[]): Promise<PeriodResult[]> {
+        const inserted = insertPeriodResultRows(store.load(), store.indexes(), periodResults);
+        store.persist();
+        return inserted.map(pr => ({ ...pr }));
+      },
+
+      async deleteByGame(gameId: string): Promise<void> {
+        const tables = store.load();
+        tables.period_results = withoutGameRows(tables.period_results, store.indexes().periodResults, periodResultKey, gameId);
+        store.persist();
+      },
+    },
+
+    gameTeamResults: {
+      async list(filter: GameTeamResultFilter = {}): Promise<GameTeamResult[]> {
+        const tables = store.load();
+        const seasonGameIds = filter.season
+          ? new Set(tables.games.filter(g => g.season === filter.season).map(g => g.game_id))
+          : null;
+
+        return tables.game_team_results
+          .filter(r => !filter.gameIds || filter.gameIds.includes(r.game_id))
+          .filter(r => !filter.teamCode || r.team_code === filter.teamCode)
+          .filter(r => !seasonGameIds || seasonGameIds.has(r.game_id))
+          .map(r => ({ ...r }));
+      },
+
+      async insertMany(results: GameTeamResult[]): Promise<GameTeamResult[]> {
+        const inserted = insertGameTeamResultRows(store.load(), store.indexes(), results);
+        store.persist();
+        return inserted.map(r => ({ ...r }));
+      },
+
+      async deleteByGame(gameId: string): Promise<void> {
+        const tables = store.load();
+        tables.game_team_results = withoutGameRows(tables.game_team_results, store.indexes().gameTeamResults, gameTeamResultKey, gameId);
+        store.persist();
+      },
+    },
+
+    goals: {
+      async list(filter: GoalFilter = {}): Promise<Goal[]> {
+        const rows = await this.listWithGames(filter);
+        return rows.map(({ game: _game, ...goal }) => goal);
+      },
+
+      async listWithGames(filter: GoalFilter = {}): Promise<GoalWithGame[]> {
+        const tables = store.load();
+        const gamesById = new Map(tables.games.map(g => [g.game_id, g]));
+
+        const rows: GoalWithGame[] = [];
+        for (const goal of tables.goals) {
+          const game = gamesById.get(goal.game_id);
+          if (!game || !matchesGame(game, filter)) continue;
+          if (filter.teamCode && goal.team_code !== filter.teamCode) continue;
+          if (filter.periodNumber && goal.period_number !== filter.periodNumber) continue;
+          if (filter.scorerId && goal.scorer_id !== filter.scorerId) continue;
+          rows.push({ ...goal, game: { ...game } });
+        }
+
+        const direction = filter.ascending === false ? -1 : 1;
+        rows.sort((a, b) => direction * compareGames(a.game, b.game) || a.goal_number - b.goal_number);
+
+        return rows.slice(0, filter.limit);
+      },
+
+      async insertMany(goals: NewGoal[]): Promise<Goal[]> {
+        const inserted = insertGoalRows(store.load(), store.indexes(), goals);
+        store.persist();
+        return inserted.map(g => ({ ...g }));
+      },
+
+      async deleteByGame(gameId: string): Promise<void> {
+        const tables = store.load();
+        tables.goals = withoutGameRows(tables.goals, store.indexes().goals, goalKey, gameId);
+        store.persist();
+      },
+    },
+
+    periodPlayStats: {
+      async list(filter: PeriodPlayStatsFilter = {}): Promise<PeriodPlayStats[]> {
+        const tables = store.load();
+        const gamesById = new Map(tables.games.map(g => [g.game_id, g]));
+
+        const rows: Array<{ stats: PeriodPlayStats; game: Game }> = [];
+        for (const stats of tables.period_play_stats) {
+          const game = gamesById.get(stats.game_id);
+          if (!game || !matchesGame(game, filter)) continue;
+          if (filter.teamCode && stats.team_code !== filter.teamCode) continue;
+          rows.push({ stats, game });
+        }
+
+        return rows
+          .sort((a, b) => compareGames(a.game, b.game) || a.stats.period_number - b.stats.period_number)
+          .map(({ stats }) => ({ ...stats }));
+      },
+
+      async listGameIds(gameIds?: string[]): Promise<Set<string>> {
+        return new Set(store.load().period_play_stats
+          .filter(s => !gameIds || gameIds.includes(s.game_id))
+          .map(s => s.game_id));
+      },
+
+      async insertMany(stats: PeriodPlayStats[]): Promise<PeriodPlayStats[]> {
+        const tables = store.load();
+        const indexes = store.indexes();
+
+        const keys = new Set<string>();
+        for (const s of stats) {
+          const key = periodPlayStatsKey(s);
+          if (indexes.periodPlayStats.has(key) || keys.has(key)) {
+            throw new LocalDatabaseError(
+              `duplicate key value violates unique constraint "period_play_stats_pkey" (${key})`,
+              '23505'
+            );
+          }
+          checkGameExists(indexes, 'period_play_stats', s.game_id);
+          if (s.shots_on_goal > s.shot_attempts || s.shots_against > s.shot_attempts_against) {
+            throw new LocalDatabaseError('new row for relation "period_play_stats" violates check constraint "shots_within_attempts"', '23514');
+          }
+          keys.add(key);
+        }
+
+        const inserted = stats.map(s => ({ ...s }));
+        tables.period_play_stats.push(...inserted);
+        for (const key of keys) indexes.periodPlayStats.add(key);
+        store.persist();
+        return inserted.map(s => ({ ...s }));
+      },
+
+      async deleteByGame(gameId: string): Promise<void> {
+        const tables = store.load();
+        tables.period_play_stats = withoutGameRows(tables.period_play_stats, store.indexes().periodPlayStats, periodPlayStatsKey, gameId);
+        store.persist();
+      },
+    },
+
+    teamSeasonSummaries: {
+      async list(filter: TeamSeasonSummaryFilter = {}): Promise<TeamSeasonSummary[]> {
+        const tables = store.load();
+        const gamesById = new Map(tables.games.map(g => [g.game_id, g]));
+
+        const results = tables.game_team_results.filter(r => {
+          const game = gamesById.get(r.game_id);
+          if (!game) return false;
+          if (filter.season && game.season !== filter.season) return false;
+          return !filter.teamCodes || filter.teamCodes.includes(r.team_code);
+        });
+
+        return summarizeTeamSeasons(results, gamesById);
+      },
+    },
+
+    conversations: {
+      async get(sessionId: string): Promise<Conversation | null> {
+        const conversation = store.load().conversations.find(c => c.session_id === sessionId);
+        return conversation ? { ...conversation, owner: conversation.owner ?? null } : null;
+      },
+
+      async touch(sessionId: string, owner?: string): Promise<Conversation> {
+        const tables = store.load();
+        const now = new Date().toISOString();
+        let conversation = tables.conversations.find(c => c.session_id === sessionId);
+
+        if (conversation) {
+          conversation.updated_at = now;
+          // Stores from before owners were recorded have no owner field
+          conversation.owner = conversation.owner ?? owner ?? null;
+        } else {
+          conversation = {
+            session_id: sessionId,
+            owner: owner ?? null,
+            summary: null,
+            summarized_turns: 0,
+            created_at: now,
+            updated_at: now,
+          };
+          tables.conversations.push(conversation);
+        }
+
+        store.persist();
+        return { ...conversation };
+      },
+
+      async updateSummary(sessionId: string, summary: string, summarizedTurns: number): Promise<void> {
+        const conversation = store.load().conversations.find(c => c.session_id === sessionId);
+        if (!conversation) return;
+        conversation.summary = summary;
+        conversation.summarized_turns = summarizedTurns;
+        store.persist();
+      },
+
+      async delete(sessionId: string): Promise<void> {
+        const tables = store.load();
+        // ON DELETE CASCADE
+        tables.conversations = tables.conversations.filter(c => c.session_id !== sessionId);
+        tables.conversation_messages = tables.conversation_messages.filter(m => m.session_id !== sessionId);
+        tables.agent_checkpoints = tables.agent_checkpoints.filter(c => c.thread_id !== sessionId);
+        tables.agent_checkpoint_writes = tables.agent_checkpoint_writes.filter(w => w.thread_id !== sessionId);
+        tables.approvals = tables.approvals.filter(a => a.session_id !== sessionId);
+        store.persist();
+      },
+
+      async deleteInactiveSince(cutoff: string): Promise<string[]> {
+        const stale = store.load().conversations
+          .filter(c => c.updated_at < cutoff)
+          .map(c => c.session_id);
+        for (const sessionId of stale) {
+          await this.delete(sessionId);
+        }
+        return stale;
+      },
+    },
+
+    conversationMessages: {
+      async list(sessionId: string, filter: ConversationMessageFilter = {}): Promise<ConversationMessage[]> {
+        const rows = store.load().conversation_messages.filter(m => m.session_id === sessionId);
+        return (filter.limit ? rows.slice(-filter.limit) : rows).map(m => ({ ...m, tools_used: [...m.tools_used] }));
+      },
+
+      async insert(message: NewConversationMessage): Promise<ConversationMessage> {
+        const tables = store.load();
+        if (!tables.conversations.some(c => c.session_id === message.session_id)) {
+          throw new LocalDatabaseError(
+            `insert or update on table "conversation_messages" violates foreign key constraint (session_id=${message.session_id})`,
+            '23503'
+          );
+        }
+
+        const inserted: ConversationMessage = {
+          ...message,
+          tools_used: [...message.tools_used],
+          id: randomUUID(),
+          created_at: new Date().toISOString(),
+        };
+        tables.conversation_messages.push(inserted);
+        store.persist();
+        return { ...inserted };
+      },
+    },
+
+    checkpoints: {
+      async get(threadId: string, checkpointNs: string, checkpointId?: string): Promise<AgentCheckpoint | null> {
+        const rows = await this.list({ threadId, checkpointNs });
+        const checkpoint = checkpointId ? rows.find(c => c.checkpoint_id === checkpointId) : rows[0];
+        return checkpoint || null;
+      },
+
+      async list(filter: AgentCheckpointFilter = {}): Promise<AgentCheckpoint[]> {
+        return store.load().agent_checkpoints
+          .filter(c => !filter.threadId || c.thread_id === filter.threadId)
+          .filter(c => filter.checkpointNs === undefined || c.checkpoint_ns === filter.checkpointNs)
+          .filter(c => !filter.before || c.checkpoint_id < filter.before)
+          // Checkpoint IDs are time-ordered
+          .sort((a, b) => b.checkpoint_id.localeCompare(a.checkpoint_id))
+          .slice(0, filter.limit)
+          .map(c => ({ ...c }));
+      },
+
+      async put(checkpoint: AgentCheckpoint): Promise<void> {
+        const tables = store.load();
+        if (!tables.conversations.some(c => c.session_id === checkpoint.thread_id)) {
+          throw new LocalDatabaseError(
+            `insert or update on table "agent_checkpoints" violates foreign key constraint (thread_id=${checkpoint.thread_id})`,
+            '23503'
+          );
+        }
+
+        const row = { ...checkpoint, created_at: checkpoint.created_at || new Date().toISOString() };
+        const index = tables.agent_checkpoints.findIndex(c =>
+          c.thread_id === row.thread_id && c.checkpoint_ns === row.checkpoint_ns && c.checkpoint_id === row.checkpoint_id
+        );
+        if (index >= 0) tables.agent_checkpoints[index] = row;
+        else tables.agent_checkpoints.push(row);
+        store.persist();
+      },
+
+      async listWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<AgentCheckpointWrite[]> {
+        return store.load().agent_checkpoint_writes
+          .filter(w => w.thread_id === threadId && w.checkpoint_ns === checkpointNs && w.checkpoint_id === checkpointId)
+          .sort((a, b) => a.task_id.localeCompare(b.task_id) || a.idx - b.idx)
+          .map(w => ({ ...w }));
+      },
+
+      async putWrites(writes: AgentCheckpointWrite[]): Promise<void> {
+        const tables = store.load();
+        const keyOf = (w: AgentCheckpointWrite) => `${w.thread_id}:${w.checkpoint_ns}:${w.checkpoint_id}:${w.task_id}:${w.idx}`;
+        const existing = new Map(tables.agent_checkpoint_writes.map((w, index) => [keyOf(w), index]));
+
+        for (const write of writes) {
+          const index = existing.get(keyOf(write));
+          if (index === undefined) {
+            existing.set(keyOf(write), tables.agent_checkpoint_writes.push({ ...write }) - 1);
+          } else if (write.idx < 0) {
+            tables.agent_checkpoint_writes[index] = { ...write };
+          }
+        }
+        store.persist();
+      },
+
+      async deleteThread(threadId: string): Promise<void> {
+        const tables = store.load();
+        tables.agent_checkpoints = tables.agent_checkpoints.filter(c => c.thread_id !== threadId);
+        tables.agent_checkpoint_writes = tables.agent_checkpoint_writes.filter(w => w.thread_id !== threadId);
+        store.persist();
+      },
+    },
+
+    approvals: {
+      async get(id: string): Promise<Approval | null> {
+        const approval = store.load().approvals.find(a => a.id === id);
+        return approval ? { ...approval, tool_args: { ...approval.tool_args } } : null;
+      },
+
+      async listPending(sessionId: string): Promise<Approval[]> {
+        const now = new Date().toISOString();
+        return store.load().approvals
+          .filter(a => a.session_id === sessionId && a.status === 'pending' && a.expires_at > now)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(a => ({ ...a, tool_args: { ...a.tool_args } }));
+      },
+
+      async insert(approval: NewApproval): Promise<Approval> {
+        const tables = store.load();
+        if (tables.approvals.some(a => a.id === approval.id)) {
+          throw new LocalDatabaseError(`duplicate key value violates unique constraint "approvals_pkey" (${approval.id})`, '23505');
+        }
+        if (!tables.conversations.some(c => c.session_id === approval.session_id)) {
+          throw new LocalDatabaseError(
+            `insert or update on table "approvals" violates foreign key constraint (session_id=${approval.session_id})`,
+            '23503'
+          );
+        }
+
+        const inserted: Approval = {
+          ...approval,
+          tool_args: { ...approval.tool_args },
+          status: 'pending',
+          result: null,
+          created_at: new Date().toISOString(),
+          decided_at: null,
+        };
+        tables.approvals.push(inserted);
+        store.persist();
+        return { ...inserted };
+      },
+
+      async transition(
+        id: string,
+        from: ApprovalStatus,
+        update: { status: ApprovalStatus; result?: string | null; decided_at?: string }
+      ): Promise<Approval | null> {
+        const approval = store.load().approvals.find(a => a.id === id && a.status === from);
+        if (!approval) return null;
+
+        Object.assign(approval, update);
+        store.persist();
+        return { ...approval, tool_args: { ...approval.tool_args } };
+      },
+    },
+
+    importJobs: {
+      async get(id: string): Promise<ImportJob | null> {
+        const job = store.load().import_jobs.find(j => j.id === id);
+        return job ? { ...job, params: { ...job.params } } : null;
+      },
+
+      async list(filter: ImportJobFilter = {}): Promise<ImportJob[]> {
+        const jobs = store.load().import_jobs
+          .filter(j => !filter.status || filter.status.includes(j.status))
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(j => ({ ...j, params: { ...j.params } }));
+        return filter.limit ? jobs.slice(0, filter.limit) : jobs;
+      },
+
+      async insert(job: NewImportJob): Promise<ImportJob> {
+        const now = new Date().toISOString();
+        const inserted: ImportJob = {
+          id: randomUUID(),
+          status: 'queued',
+          params: { ...job.params },
+          total_games: null,
+          attempts: 0,
+          locked_by: null,
+          locked_until: null,
+          error: null,
+          created_at: now,
+          updated_at: now,
+          started_at: null,
+          finished_at: null,
+        };
+        store.load().import_jobs.push(inserted);
+        store.persist();
+        return { ...inserted, params: { ...inserted.params } };
+      },
+
+      async update(id: string, update: ImportJobUpdate): Promise<ImportJob> {
+        const job = store.load().import_jobs.find(j => j.id === id);
+        if (!job) throw new Error(`Import job ${id} not found`);
+
+        Object.assign(job, update, { updated_at: new Date().toISOString() });
+        store.persist();
+        return { ...job, params: { ...job.params } };
+      },
+
+      async claim(id: string, workerId: string, lockedUntil: string): Promise<ImportJob | null> {
+        const now = new Date().toISOString();
+        const job = store.load().import_jobs.find(j =>
+          j.id === id &&
+          (j.status === 'queued' || j.status === 'running') &&
+          (!j.locked_until || j.locked_until < now)
+        );
+        if (!job) return null;
+
+        Object.assign(job, { status: 'running', locked_by: workerId, locked_until: lockedUntil, updated_at: now });
+        store.persist();
+        return { ...job, params: { ...job.params } };
+      },
+    },
+
+    importJobGames: {
+      async list(jobId: string): Promise<ImportJobGame[]> {
+        return store.load().import_job_games
+          .filter(g => g.job_id === jobId)
+          .map(g => ({ ...g }));
+      },
+
+      async insertMany(games: NewImportJobGame[]): Promise<void> {
+        const tables = store.load();
+        const now = new Date().toISOString();
+
+        for (const game of games) {
+          if (!tables.import_jobs.some(j => j.id === game.job_id)) {
+            throw new LocalDatabaseError(
+              `insert or update on table "import_job_games" violates foreign key constraint (job_id=${game.job_id})`,
+              '23503'
+            );
+          }
+          if (tables.import_job_games.some(g => g.job_id === game.job_id && g.game_id === game.game_id)) continue;
+
+          tables.import_job_games.push({ ...game, status: 'pending', attempts: 0, error: null, updated_at: now });
+        }
+        store.persist();
+      },
+
+      async update(
+        jobId: string,
+        gameId: string,
+        update: Partial<Pick<ImportJobGame, 'status' | 'attempts' | 'error'>>
+      ): Promise<void> {
+        const game = store.load().import_job_games.find(g => g.job_id === jobId && g.game_id === gameId);
+        if (!game) return;
+
+        Object.assign(game, update, { updated_at: new Date().toISOString() });
+        store.persist();
+      },
+    },
+
+    liveGames: {
+      async get(gameId: string): Promise<LiveGame | null> {
+        const game = store.load().live_games.find(g => g.game_id === gameId);
+        return game ? { ...game } : null;
+      },
+
+      async list(filter: LiveGameFilter = {}): Promise<LiveGame[]> {
+        return store.load().live_games
+          .filter(g => !filter.gameDate || g.game_date === filter.gameDate)
+          .filter(g => !filter.gameIds || filter.gameIds.includes(g.game_id))
+          .filter(g => !filter.status || filter.status.includes(g.status))
+          .sort((a, b) => a.game_date.localeCompare(b.game_date) || a.game_id.localeCompare(b.game_id))
+          .map(g => ({ ...g }));
+      },
+
+      async upsert(game: NewLiveGame): Promise<LiveGame> {
+        const tables = store.load();
+        for (const teamCode of [game.home_team_code, game.away_team_code]) {
+          if (!tables.teams.some(t => t.team_code === teamCode)) {
+            throw new LocalDatabaseError(
+              `insert or update on table "live_games" violates foreign key constraint (team_code=${teamCode})`,
+              '23503'
+            );
+          }
+        }
+
+        const row: LiveGame = { ...game, updated_at: new Date().toISOString() };
+        const index = tables.live_games.findIndex(g => g.game_id === game.game_id);
+        if (index >= 0) tables.live_games[index] = row;
+        else tables.live_games.push(row);
+        store.persist();
+        return { ...row };
+      },
+    },
+
+    livePeriodResults: {
+      async list(gameIds: string[]): Promise<LivePeriodResult[]> {
+        return store.load().live_period_results
+          .filter(p => gameIds.includes(p.game_id))
+          .sort((a, b) =>
+            a.game_id.localeCompare(b.game_id) ||
+            a.period_number - b.period_number ||
+            a.team_code.localeCompare(b.team_code)
+          )
+          .map(p => ({ ...p }));
+      },
+
+      async replace(gameId: string, periods: LivePeriodResult[]): Promise<void> {
+        const tables = store.load();
+        if (!tables.live_games.some(g => g.game_id === gameId)) {
+          throw new LocalDatabaseError(
+            `insert or update on table "live_period_results" violates foreign key constraint (game_id=${gameId})`,
+            '23503'
+          );
+        }
+
+        tables.live_period_results = [
+          ...tables.live_period_results.filter(p => p.game_id !== gameId),
+          ...periods.map(p => ({ ...p })),
+        ];
+        store.persist();
+      },
+    },
+
+    auditEvents: {
+      async list(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+        const offset = filter.offset ?? 0;
+        // Reversed first so events created in the same millisecond stay newest first
+        const events = [...store.load().audit_events]
+          .reverse()
+          .filter(e => !filter.source || e.source === filter.source)
+          .filter(e => !filter.action || e.action === filter.action)
+          .filter(e => !filter.gameId || e.game_id === filter.gameId)
+          .filter(e => !filter.sessionId || e.session_id === filter.sessionId)
+          .filter(e => !filter.since || e.created_at >= filter.since)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(e => ({ ...e }));
+        return filter.limit ? events.slice(offset, offset + filter.limit) : events.slice(offset);
+      },
+
+      async insert(event: NewAuditEvent): Promise<AuditEvent> {
+        const row: AuditEvent = { ...event, id: randomUUID(), created_at: new Date().toISOString() };
+        store.load().audit_events.push(row);
+        store.persist();
+        return { ...row };
+      },
+    },
+  };
+}
+
+/**
+ * Create the local repository
+ * @param path JSON file to persist to, or ':memory:' for a throwaway store (defaults to LOCAL_DB_PATH)
+ */
+export function createLocalRepository(
+  path: string = process.env.LOCAL_DB_PATH || DEFAULT_LOCAL_DB_PATH
+): DataRepository {
+  return createRepository(createLocalStore(path));
+}
@@ -0,0 +1,159 @@
+import { getRepository } from './index';
+
+/**
+ * Advanced Query Builders for query_linescore_data tool
+ * Pattern implementations from contracts/query-tool.md
+ */
+
+export interface TeamPeriodPerformanceRow {
+  game_date: string;
+  home_team_code: string;
+  away_team_code: string;
+  period_number: number;
+  goals_for: number;
+  goals_against: number;
+  empty_net_goals: number;
+  period_outcome: string;
+}
+
+export interface PeriodWinRankingRow {
+  team_code: string;
+  team_name: string;
+  periods_won: number;
+}
+
+export interface TwoPlusRegPeriodsRow {
+  game_date: string;
+  team_code: string;
+  home_team_code: string;
+  away_team_code: string;
+  regulation_periods_won: number;
+}
+
+/**
+ * Pattern 1: Team Period Performance (User Story 1)
+ * Get period-by-period results for a team in a date range
+ */
+export async function queryTeamPeriodPerformance(
+  teamCode: string,
+  startDate: string,
+  endDate: string,
+  limit: number = 100
+): Promise<TeamPeriodPerformanceRow[]> {
+  const rows = await getRepository().periodResults.listWithGames({
+    teamCode,
+    startDate,
+    endDate,
+    ascending: true,
+    limit,
+  });
+
+  return rows.map(row => ({
+    game_date: row.game.game_date,
+    home_team_code: row.game.home_team_code,
+    away_team_code: row.game.away_team_code,
+    period_number: row.period_number,
+    goals_for: row.goals_for,
+    goals_against: row.goals_against,
+    empty_net_goals: row.empty_net_goals,
+    period_outcome: row.period_outcome,
+  }));
+}
+
+/**
+ * Pattern 2: Period Win Rankings (User Story 2)
+ * Get teams ranked by period wins in a date range
+ */
+export async function queryPeriodWinRankings(
+  periodOutcome: 'WIN' | 'LOSS' | 'TIE',
+  startDate: string,
+  endDate: string,
+  limit: number = 100
+): Promise<PeriodWinRankingRow[]> {
+  const repo = getRepository();
+  const [rows, teams] = await Promise.all([
+    repo.periodResults.list({ periodOutcome, startDate, endDate }),
+    repo.teams.list(),
+  ]);
+
+  const teamNames = new Map(teams.map(t => [t.team_code, t.team_name]));
+
+  // Aggregate by team_code
+  const aggregated = new Map<string, number>();
+  for (const row of rows) {
+    aggregated.set(row.team_code, (aggregated.get(row.team_code) || 0) + 1);
+  }
+
+  // Convert to array and sort
+  const results: PeriodWinRankingRow[] = Array.from(aggregated.entries())
+    .map(([team_code, count]) => ({
+      team_code,
+      team_name: teamNames.get(team_code) || team_code,
+      periods_won: count,
+    }))
+    .sort((a, b) => {
+      // Sort by periods_won descending, then by team_code ascending
+      if (b.periods_won !== a.periods_won) {
+        return b.periods_won - a.periods_won;
+      }
+      return a.team_code.localeCompare(b.team_code);
+    })
+    .slice(0, limit);
+
+  return results;
+}
+
+/**
+ * Pattern 3: Two Plus Regulation Periods (User Story 3)
+ * Get games where a team won 2+ regulation periods
+ */
+export async function queryTwoPlusRegPeriods(
+  teamCode: string,
+  limit: number = 100
+): Promise<TwoPlusRegPeriodsRow[]> {
+  const rows = await getRepository().periodResults.listWithGames({
+    teamCode,
+    wonTwoPlusRegPeriods: true,
+    maxPeriodNumber: 3, // Regulation periods only
+    ascending: false,
+  });
+
+  // Group by game_id and count wins
+  const gameMap = new Map<string, {
+    game_date: string;
+    home_team_code: string;
+    away_team_code: string;
+    wins: number;
+  }>();
+
+  for (const row of rows) {
+    const gameId = row.game_id;
+
+    if (!gameMap.has(gameId)) {
+      gameMap.set(gameId, {
+        game_date: row.game.game_date,
+        home_team_code: row.game.home_team_code,
+        away_team_code: row.game.away_team_code,
+        wins: 0,
+      });
+    }
+
+    if (row.period_outcome === 'WIN') {
+      gameMap.get(gameId)!.wins++;
+    }
+  }
+
+  // Convert to array, filter for 2+ wins, and limit
+  const results: TwoPlusRegPeriodsRow[] = Array.from(gameMap.entries())
+    .filter(([_, game]) => game.wins >= 2)
+    .map(([_, game]) => ({
+      game_date: game.game_date,
+      team_code: teamCode,
+      home_team_code: game.home_team_code,
+      away_team_code: game.away_team_code,
+      regulation_periods_won: game.wins,
+    }))
+    .slice(0, limit);
+
+  return results;
+}
@@ -0,0 +1,73 @@
+// Per-team, per-season aggregation of game_team_results
+// Same rules as the team_season_summary view in lib/supabase/schema.sql
+
+import type { Game, GameTeamResult, TeamSeasonSummary } from './types';
+
+/**
+ * Aggregate game results into season summaries, most recent season first
+ * Results whose game is not in gamesById are ignored
+ */
+export function summarizeTeamSeasons(
+  results: GameTeamResult[],
+  gamesById: Map<string, Game>
+): TeamSeasonSummary[] {
+  const summaries = new Map<string, TeamSeasonSummary>();
+
+  for (const r of results) {
+    const game = gamesById.get(r.game_id);
+    if (!game) continue;
+
+    const key = `${r.team_code}:${game.season}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = {
+        team_code: r.team_code,
+        season: game.season,
+        games_played: 0,
+        wins: 0,
+        losses: 0,
+        ot_losses: 0,
+        points: 0,
+        periods_won: 0,
+        periods_lost: 0,
+        periods_tied: 0,
+        good_wins: 0,
+        bad_wins: 0,
+        periods_won_5v5: 0,
+        periods_lost_5v5: 0,
+        periods_tied_5v5: 0,
+        good_wins_5v5: 0,
+        bad_wins_5v5: 0,
+      };
+      summaries.set(key, summary);
+    }
+
+    summary.games_played++;
+    summary.periods_won += r.regulation_periods_won;
+    summary.periods_lost += r.regulation_periods_lost;
+    summary.periods_tied += r.regulation_periods_tied;
+    summary.periods_won_5v5 += r.regulation_periods_won_5v5;
+    summary.periods_lost_5v5 += r.regulation_periods_lost_5v5;
+    summary.periods_tied_5v5 += r.regulation_periods_tied_5v5;
+
+    if (r.result === 'WIN') {
+      summary.wins++;
+      summary.points += 2;
+      if (r.win_quality === 'GOOD') summary.good_wins++;
+      else summary.bad_wins++;
+      if (r.win_quality_5v5 === 'GOOD') summary.good_wins_5v5++;
+      else summary.bad_wins_5v5++;
+    } else if (r.result === 'LOSS') {
+      if (r.result_type === 'REG') {
+        summary.losses++;
+      } else {
+        summary.ot_losses++;
+        summary.points++;
+      }
+    }
+  }
+
+  return [...summaries.values()].sort((a, b) =>
+    b.season.localeCompare(a.season) || a.team_code.localeCompare(b.team_code)
+  );
+}
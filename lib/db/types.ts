@@ -0,0 +1,756 @@
+// Data access layer types
+// Entity shapes mirror lib/supabase/schema.sql; repositories hide which backend stores them
+
+// Database types
+export interface Team {
+  team_code: string;
+  team_name: string;
+  division: string | null;
+  conference: string | null;
+}
+
+/**
+ * One team code's era within a franchise
+ * Relocations and renames (ATL -> WPG, PHX -> ARI -> UTA) keep the franchise_id
+ */
+export interface FranchiseTeam {
+  /** Team code the franchise plays under today */
+  franchise_id: string;
+  team_code: string;
+  /** First day the franchise played under this code (null: since the franchise began) */
+  active_from: string | null;
+  /** Day the franchise stopped using this code (null: still in use) */
+  active_to: string | null;
+}
+
+/**
+ * A team's conference and division in one season (Team holds only the current alignment)
+ */
+export interface TeamSeasonAlignment {
+  season: string;
+  team_code: string;
+  /** Null in seasons played without conferences (2020-21) */
+  conference: string | null;
+  division: string | null;
+  updated_at: string;
+}
+
+export type NewTeamSeasonAlignment = Omit<TeamSeasonAlignment, 'updated_at'>;
+
+export interface Game {
+  game_id: string;
+  game_date: string;
+  season: string;
+  home_team_code: string;
+  away_team_code: string;
+  game_type: string;
+  home_team_standing: number | null;
+  away_team_standing: number | null;
+}
+
+export type PeriodOutcome = 'WIN' | 'LOSS' | 'TIE';
+
+export interface PeriodResult {
+  id: string;
+  game_id: string;
+  team_code: string;
+  period_number: number;
+  period_type: 'REGULATION' | 'OT' | 'SO';
+  goals_for: number;
+  goals_against: number;
+  empty_net_goals: number;
+  period_outcome: PeriodOutcome;
+  won_two_plus_reg_periods: boolean;
+  // Goals by strength state of the scoring team (ev = even strength, pp = power play, sh = shorthanded)
+  goals_for_ev: number;
+  goals_for_pp: number;
+  goals_for_sh: number;
+  goals_against_ev: number;
+  goals_against_pp: number;
+  goals_against_sh: number;
+  // Goals with five skaters and a goalie on each side
+  goals_for_5v5: number;
+  goals_against_5v5: number;
+  /** Period outcome counting 5v5 goals only */
+  period_outcome_5v5: PeriodOutcome;
+}
+
+/**
+ * Which goals decide a period: all of them, or 5v5 only (special-teams and empty-net goals stripped)
+ */
+export type StrengthFilter = 'all' | '5v5';
+
+export type NewPeriodResult = Omit<PeriodResult, 'id'>;
+
+/**
+ * Period result joined with its game (equivalent of `games!inner(*)` in PostgREST)
+ */
+export interface PeriodResultWithGame extends PeriodResult {
+  game: Game;
+}
+
+export type GameResultType = 'REG' | 'OT' | 'SO';
+
+/**
+ * Final result of a game from one team's perspective (two rows per game)
+ * Derived once at ingest so every consumer agrees on wins, OT losses and good/bad wins
+ */
+export interface GameTeamResult {
+  game_id: string;
+  team_code: string;
+  opponent_code: string;
+  is_home: boolean;
+  /** Final score, with the shootout winner credited one goal */
+  goals_for: number;
+  goals_against: number;
+  result: PeriodOutcome;
+  /** How the game was decided: regulation, overtime or shootout */
+  result_type: GameResultType;
+  regulation_periods_won: number;
+  regulation_periods_lost: number;
+  regulation_periods_tied: number;
+  won_two_plus_reg_periods: boolean;
+  /** GOOD = won the game and 2+ regulation periods, BAD = won without; null unless result is WIN */
+  win_quality: 'GOOD' | 'BAD' | null;
+  // Same classification with periods decided at 5v5 (the game result itself is unchanged)
+  regulation_periods_won_5v5: number;
+  regulation_periods_lost_5v5: number;
+  regulation_periods_tied_5v5: number;
+  won_two_plus_reg_periods_5v5: boolean;
+  win_quality_5v5: 'GOOD' | 'BAD' | null;
+}
+
+export type GoalStrength = 'ev' | 'pp' | 'sh';
+
+/**
+ * A single goal from the landing summary (shootout attempts are not stored)
+ */
+export interface Goal {
+  id: string;
+  game_id: string;
+  period_number: number;
+  /** Order of the goal within the game, starting at 1 */
+  goal_number: number;
+  team_code: string;
+  scorer_id: number;
+  scorer_name: string;
+  assist1_id: number | null;
+  assist1_name: string | null;
+  assist2_id: number | null;
+  assist2_name: string | null;
+  /** Elapsed time in the period, MM:SS */
+  time_in_period: string;
+  seconds_in_period: number;
+  shot_type: string | null;
+  strength: GoalStrength | null;
+  situation_code: string | null;
+  is_empty_net: boolean;
+  /** Game score after this goal */
+  home_score: number;
+  away_score: number;
+}
+
+export type NewGoal = Omit<Goal, 'id'>;
+
+export interface GoalWithGame extends Goal {
+  game: Game;
+}
+
+/**
+ * Play-by-play totals for one team in one period (two rows per period)
+ * Shot attempts are Corsi: shots on goal (goals included), missed shots and blocked shots
+ */
+export interface PeriodPlayStats {
+  game_id: string;
+  team_code: string;
+  period_number: number;
+  shots_on_goal: number;
+  shots_against: number;
+  shot_attempts: number;
+  shot_attempts_against: number;
+  faceoffs_won: number;
+  faceoffs_lost: number;
+  hits: number;
+  penalty_minutes: number;
+}
+
+/**
+ * Aggregated record for one team in one season (team_season_summary view)
+ * Only teams with stored games in that season have a row
+ */
+export interface TeamSeasonSummary {
+  team_code: string;
+  season: string;
+  games_played: number;
+  wins: number;
+  losses: number;
+  ot_losses: number;
+  points: number;
+  periods_won: number;
+  periods_lost: number;
+  periods_tied: number;
+  good_wins: number;
+  bad_wins: number;
+  periods_won_5v5: number;
+  periods_lost_5v5: number;
+  periods_tied_5v5: number;
+  good_wins_5v5: number;
+  bad_wins_5v5: number;
+}
+
+/**
+ * Chat conversation, keyed by the client's session ID
+ */
+export interface Conversation {
+  session_id: string;
+  /** Subject of the caller who started it (null until claimed) */
+  owner: string | null;
+  /** Rolling summary of turns older than the recent window sent to the model */
+  summary: string | null;
+  /** Number of user turns folded into the summary */
+  summarized_turns: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ConversationRole = 'user' | 'assistant';
+
+/**
+ * User-visible chat message (tool calls live in the agent checkpoints)
+ */
+export interface ConversationMessage {
+  id: string;
+  session_id: string;
+  role: ConversationRole;
+  content: string;
+  tools_used: string[];
+  created_at: string;
+}
+
+export type NewConversationMessage = Omit<ConversationMessage, 'id' | 'created_at'>;
+
+/**
+ * Serialized LangGraph checkpoint (full agent state, including tool-call transcripts)
+ * Payloads come from the checkpointer's serializer: UTF-8 JSON when type is "json", base64 otherwise
+ */
+export interface AgentCheckpoint {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id: string | null;
+  type: string;
+  checkpoint: string;
+  metadata: string;
+  created_at?: string;
+}
+
+/**
+ * Pending write recorded against a checkpoint by one task
+ */
+export interface AgentCheckpointWrite {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  task_id: string;
+  /** Negative for special channels (errors, interrupts), which overwrite earlier writes */
+  idx: number;
+  channel: string;
+  type: string;
+  value: string;
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'executed' | 'failed';
+
+/**
+ * Operation the agent asked a human to approve, with the exact tool call to run once approved
+ */
+export interface Approval {
+  id: string;
+  session_id: string;
+  operation_type: string;
+  description: string;
+  estimated_impact: string;
+  tool_name: string;
+  tool_args: Record<string, unknown>;
+  status: ApprovalStatus;
+  /** Tool output once executed (or the error when it failed) */
+  result: string | null;
+  created_at: string;
+  expires_at: string;
+  decided_at: string | null;
+}
+
+export type NewApproval = Omit<Approval, 'status' | 'result' | 'created_at' | 'decided_at'>;
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * What to do with a game that is already stored
+ * - skip: leave it as it is
+ * - overwrite: replace the game row and everything derived from it
+ * - merge: keep the game row (e.g. the standings recorded at import time) and replace the
+ *   period results, game results and goals
+ */
+export type UpsertPolicy = 'skip' | 'overwrite' | 'merge';
+
+export type GameWriteStatus = 'inserted' | 'updated' | 'skipped';
+
+/**
+ * A game and every row derived from it, written together
+ */
+export interface GameWithPeriods {
+  game: Game;
+  periodResults: NewPeriodResult[];
+  gameTeamResults: GameTeamResult[];
+  goals: NewGoal[];
+}
+
+/**
+ * What an import job fetches: every game scheduled in a date range
+ */
+export interface ImportJobParams {
+  startDate: string;
+  endDate: string;
+  /** Only games in this season (e.g. "2024-2025") */
+  season?: string;
+  /** Only these game types ('R' regular season, 'P' playoffs, 'PR' preseason) */
+  gameTypes?: string[];
+  skipExisting: boolean;
+  /** What to do with games already stored (default: skip when skipExisting, else overwrite) */
+  policy?: UpsertPolicy;
+  /** Who queued the import, recorded on audit events for the games it writes */
+  audit?: AuditContext;
+}
+
+/**
+ * Bulk import processed in the background, game by game, so it can resume after a crash
+ */
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  params: ImportJobParams;
+  /** Games found in the schedule (null until the schedule has been fetched) */
+  total_games: number | null;
+  /** Times a worker has claimed the job */
+  attempts: number;
+  locked_by: string | null;
+  /** Lease expiry; another worker may resume the job after this */
+  locked_until: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export type NewImportJob = Pick<ImportJob, 'params'>;
+
+export type ImportJobUpdate = Partial<Omit<ImportJob, 'id' | 'params' | 'created_at' | 'updated_at'>>;
+
+export type ImportJobGameStatus = 'pending' | 'inserted' | 'updated' | 'skipped' | 'failed';
+
+export interface ImportJobGame {
+  job_id: string;
+  game_id: string;
+  game_date: string;
+  status: ImportJobGameStatus;
+  attempts: number;
+  error: string | null;
+  updated_at: string;
+}
+
+export type NewImportJobGame = Pick<ImportJobGame, 'job_id' | 'game_id' | 'game_date'>;
+
+export type LiveGameStatus = 'provisional' | 'final';
+
+/**
+ * A game tracked while it is in progress
+ * Kept apart from games/period_results so analytics only ever see final games
+ */
+export interface LiveGame {
+  game_id: string;
+  game_date: string;
+  season: string;
+  game_type: string;
+  home_team_code: string;
+  away_team_code: string;
+  /** NHL game state: LIVE, CRIT, FINAL or OFF */
+  game_state: string;
+  home_score: number;
+  away_score: number;
+  /** Current period, or the last one played once the game is over */
+  period_number: number | null;
+  period_type: string | null;
+  /** Time remaining in the period ("12:34"), null once the game is over */
+  clock: string | null;
+  in_intermission: boolean;
+  /** Becomes final once the finished game has been imported into games/period_results */
+  status: LiveGameStatus;
+  updated_at: string;
+  finalized_at: string | null;
+}
+
+export type NewLiveGame = Omit<LiveGame, 'updated_at'>;
+
+/**
+ * Provisional outcome of a period that has ended in a game still being tracked
+ */
+export interface LivePeriodResult {
+  game_id: string;
+  team_code: string;
+  period_number: number;
+  period_type: 'REGULATION' | 'OT' | 'SO';
+  goals_for: number;
+  goals_against: number;
+  empty_net_goals: number;
+  period_outcome: PeriodOutcome;
+}
+
+/**
+ * Who or what is changing stored game data, recorded on audit events
+ */
+export interface AuditContext {
+  /** e.g. "route:/api/seed", "tool:fetch_nhl_games" or "script:backfill-period-results" */
+  source: string;
+  /** Chat session the change was made from */
+  session_id?: string | null;
+  /** Approval the change ran under */
+  approval_id?: string | null;
+}
+
+/**
+ * Audit event written by upsertWithPeriods in the same transaction as the game
+ * The write fills in game_id, row_counts and, unless one is given, the insert/update action.
+ * before is dropped when the game turns out to be new, and after.game when merging keeps the stored row
+ */
+export interface GameWriteAudit extends AuditContext {
+  action?: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A recorded change to stored game data
+ */
+export interface AuditEvent {
+  id: string;
+  /** What made the change, e.g. "script:reconcile" or "tool:reconcile_games" */
+  source: string;
+  session_id: string | null;
+  approval_id: string | null;
+  /** insert, update, derive or reconcile */
+  action: string;
+  game_id: string | null;
+  /** Rows written per table, e.g. { period_results: 6, goals: 5 } */
+  row_counts: Record<string, number>;
+  /** The affected rows before and after the change (null when there was nothing before) */
+  before: unknown;
+  after: unknown;
+  created_at: string;
+}
+
+export type NewAuditEvent = Omit<AuditEvent, 'id' | 'created_at'>;
+
+/**
+ * Filters
+ * Date bounds are inclusive and use YYYY-MM-DD strings
+ */
+export interface TeamFilter {
+  teamCodes?: string[];
+  conference?: string;
+  division?: string;
+  orderBy?: 'team_code' | 'team_name';
+}
+
+export interface GameFilter {
+  gameIds?: string[];
+  season?: string;
+  gameType?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Games where this team played home or away */
+  teamCode?: string;
+  /** Combined with teamCode, restricts to head-to-head games */
+  opponentCode?: string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface PeriodResultFilter {
+  gameIds?: string[];
+  teamCode?: string;
+  periodNumber?: number;
+  maxPeriodNumber?: number;
+  periodOutcome?: PeriodOutcome;
+  wonTwoPlusRegPeriods?: boolean;
+  // Game-level filters (applied through the games join)
+  season?: string;
+  gameType?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Ordering by game date, then period number */
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface GameTeamResultFilter {
+  gameIds?: string[];
+  teamCode?: string;
+  /** Applied through the games join */
+  season?: string;
+}
+
+export interface GoalFilter {
+  gameIds?: string[];
+  /** Scoring team */
+  teamCode?: string;
+  periodNumber?: number;
+  scorerId?: number;
+  // Game-level filters (applied through the games join)
+  season?: string;
+  gameType?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Ordering by game date, then goal number */
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface PeriodPlayStatsFilter {
+  gameIds?: string[];
+  teamCode?: string;
+  // Game-level filters (applied through the games join)
+  season?: string;
+  gameType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ConversationMessageFilter {
+  /** Most recent N messages (still returned oldest first) */
+  limit?: number;
+}
+
+export interface AgentCheckpointFilter {
+  threadId?: string;
+  checkpointNs?: string;
+  /** Only checkpoints older than this checkpoint ID */
+  before?: string;
+  limit?: number;
+}
+
+export interface ImportJobFilter {
+  status?: ImportJobStatus[];
+  limit?: number;
+}
+
+export interface LiveGameFilter {
+  gameDate?: string;
+  gameIds?: string[];
+  status?: LiveGameStatus[];
+}
+
+export interface AuditEventFilter {
+  source?: string;
+  action?: string;
+  gameId?: string;
+  sessionId?: string;
+  /** Only events at or after this time (ISO timestamp) */
+  since?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TeamSeasonSummaryFilter {
+  season?: string;
+  teamCodes?: string[];
+}
+
+export interface TeamSeasonAlignmentFilter {
+  season?: string;
+  teamCodes?: string[];
+}
+
+/**
+ * Repositories
+ */
+export interface TeamRepository {
+  list(filter?: TeamFilter): Promise<Team[]>;
+  getByCode(teamCode: string): Promise<Team | null>;
+  exists(teamCode: string): Promise<boolean>;
+}
+
+export interface FranchiseRepository {
+  list(): Promise<FranchiseTeam[]>;
+}
+
+export interface TeamSeasonAlignmentRepository {
+  /** Ordered by season, then team code */
+  list(filter?: TeamSeasonAlignmentFilter): Promise<TeamSeasonAlignment[]>;
+  /** Replaces the stored alignment of each season/team pair */
+  upsertMany(rows: NewTeamSeasonAlignment[]): Promise<void>;
+}
+
+export interface GameRepository {
+  list(filter?: GameFilter): Promise<Game[]>;
+  getById(gameId: string): Promise<Game | null>;
+  exists(gameId: string): Promise<boolean>;
+  /** Distinct seasons, most recent first */
+  getSeasons(): Promise<string[]>;
+  insert(game: Game): Promise<Game>;
+  /**
+   * Write a game with its period results, game results and goals in one transaction
+   * (the upsert_game_with_periods database function): any error leaves nothing written.
+   * A game already stored is left alone ('skipped') under the skip policy, so retries are safe.
+   * @param audit Recorded with the write, so a change is never stored without its audit event
+   */
+  upsertWithPeriods(data: GameWithPeriods, policy: UpsertPolicy, audit?: GameWriteAudit): Promise<GameWriteStatus>;
+}
+
+export interface PeriodResultRepository {
+  list(filter?: PeriodResultFilter): Promise<PeriodResult[]>;
+  listWithGames(filter?: PeriodResultFilter): Promise<PeriodResultWithGame[]>;
+  /** Number of stored period results per game (games without rows are omitted) */
+  countByGame(gameIds?: string[]): Promise<Map<string, number>>;
+  insertMany(periodResults: NewPeriodResult[]): Promise<PeriodResult[]>;
+  deleteByGame(gameId: string): Promise<void>;
+}
+
+export interface GameTeamResultRepository {
+  list(filter?: GameTeamResultFilter): Promise<GameTeamResult[]>;
+  insertMany(results: GameTeamResult[]): Promise<GameTeamResult[]>;
+  deleteByGame(gameId: string): Promise<void>;
+}
+
+export interface GoalRepository {
+  list(filter?: GoalFilter): Promise<Goal[]>;
+  listWithGames(filter?: GoalFilter): Promise<GoalWithGame[]>;
+  insertMany(goals: NewGoal[]): Promise<Goal[]>;
+  deleteByGame(gameId: string): Promise<void>;
+}
+
+export interface PeriodPlayStatsRepository {
+  list(filter?: PeriodPlayStatsFilter): Promise<PeriodPlayStats[]>;
+  /** Game IDs that already have play-by-play stats */
+  listGameIds(gameIds?: string[]): Promise<Set<string>>;
+  insertMany(stats: PeriodPlayStats[]): Promise<PeriodPlayStats[]>;
+  deleteByGame(gameId: string): Promise<void>;
+}
+
+export interface ConversationRepository {
+  get(sessionId: string): Promise<Conversation | null>;
+  /** Create the conversation if needed and mark it active now; an owner claims it if it has none */
+  touch(sessionId: string, owner?: string): Promise<Conversation>;
+  updateSummary(sessionId: string, summary: string, summarizedTurns: number): Promise<void>;
+  /** Delete a conversation with its messages and checkpoints */
+  delete(sessionId: string): Promise<void>;
+  /** Delete conversations with no activity since the cutoff (ISO timestamp); returns their session IDs */
+  deleteInactiveSince(cutoff: string): Promise<string[]>;
+}
+
+export interface ConversationMessageRepository {
+  /** Messages oldest first */
+  list(sessionId: string, filter?: ConversationMessageFilter): Promise<ConversationMessage[]>;
+  insert(message: NewConversationMessage): Promise<ConversationMessage>;
+}
+
+export interface AgentCheckpointRepository {
+  /** A specific checkpoint, or the latest in the namespace when checkpointId is omitted */
+  get(threadId: string, checkpointNs: string, checkpointId?: string): Promise<AgentCheckpoint | null>;
+  /** Newest first */
+  list(filter?: AgentCheckpointFilter): Promise<AgentCheckpoint[]>;
+  put(checkpoint: AgentCheckpoint): Promise<void>;
+  listWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<AgentCheckpointWrite[]>;
+  /** Existing writes for the same task and idx are kept, except for negative idx */
+  putWrites(writes: AgentCheckpointWrite[]): Promise<void>;
+  deleteThread(threadId: string): Promise<void>;
+}
+
+export interface ImportJobRepository {
+  get(id: string): Promise<ImportJob | null>;
+  /** Oldest first */
+  list(filter?: ImportJobFilter): Promise<ImportJob[]>;
+  insert(job: NewImportJob): Promise<ImportJob>;
+  update(id: string, update: ImportJobUpdate): Promise<ImportJob>;
+  /**
+   * Lease a queued job, or a running job whose lease has expired
+   * Returns null when the job is finished or another worker holds the lease
+   */
+  claim(id: string, workerId: string, lockedUntil: string): Promise<ImportJob | null>;
+}
+
+export interface ImportJobGameRepository {
+  /** In schedule order */
+  list(jobId: string): Promise<ImportJobGame[]>;
+  /** Games already in the job are left unchanged */
+  insertMany(games: NewImportJobGame[]): Promise<void>;
+  update(
+    jobId: string,
+    gameId: string,
+    update: Partial<Pick<ImportJobGame, 'status' | 'attempts' | 'error'>>
+  ): Promise<void>;
+}
+
+export interface LiveGameRepository {
+  get(gameId: string): Promise<LiveGame | null>;
+  /** Ordered by game date, then game ID */
+  list(filter?: LiveGameFilter): Promise<LiveGame[]>;
+  upsert(game: NewLiveGame): Promise<LiveGame>;
+}
+
+export interface LivePeriodResultRepository {
+  /** Ordered by game, period, then team */
+  list(gameIds: string[]): Promise<LivePeriodResult[]>;
+  /** Swap a game's provisional periods for a freshly computed set */
+  replace(gameId: string, periods: LivePeriodResult[]): Promise<void>;
+}
+
+export interface AuditEventRepository {
+  /** Newest first */
+  list(filter?: AuditEventFilter): Promise<AuditEvent[]>;
+  insert(event: NewAuditEvent): Promise<AuditEvent>;
+}
+
+export interface ApprovalRepository {
+  get(id: string): Promise<Approval | null>;
+  /** Pending, unexpired approvals for a session, newest first */
+  listPending(sessionId: string): Promise<Approval[]>;
+  insert(approval: NewApproval): Promise<Approval>;
+  /**
+   * Move an approval from one status to another
+   * Returns null when it is no longer in the expected status, so only one caller wins a decision
+   */
+  transition(
+    id: string,
+    from: ApprovalStatus,
+    update: { status: ApprovalStatus; result?: string | null; decided_at?: string }
+  ): Promise<Approval | null>;
+}
+
+export interface TeamSeasonSummaryRepository {
+  list(filter?: TeamSeasonSummaryFilter): Promise<TeamSeasonSummary[]>;
+}
+
+export interface DataRepository {
+  backend: DataBackend;
+  teams: TeamRepository;
+  franchises: FranchiseRepository;
+  teamSeasonAlignment: TeamSeasonAlignmentRepository;
+  games: GameRepository;
+  periodResults: PeriodResultRepository;
+  gameTeamResults: GameTeamResultRepository;
+  goals: GoalRepository;
+  periodPlayStats: PeriodPlayStatsRepository;
+  teamSeasonSummaries: TeamSeasonSummaryRepository;
+  conversations: ConversationRepository;
+  conversationMessages: ConversationMessageRepository;
+  checkpoints: AgentCheckpointRepository;
+  approvals: ApprovalRepository;
+  importJobs: ImportJobRepository;
+  importJobGames: ImportJobGameRepository;
+  liveGames: LiveGameRepository;
+  livePeriodResults: LivePeriodResultRepository;
+  auditEvents: AuditEventRepository;
+}
+
+export type DataBackend = 'supabase' | 'local';
@@ -0,0 +1,174 @@
+// Ingestion service
+// The one path from NHL landing data to stored games: fetch -> transform -> validate -> write.
+// Chat tools, import jobs (behind /api/seed and the sync tools), the live tracker and the backfill
+// scripts all go through here so they store games the same way and report the same counts.
+
+import { getRepository } from '../db';
+import type { Game, GameWriteAudit, PeriodResult } from '../db/types';
+import { getRateLimiterConfig, runConcurrently } from '../nhl-api/rate-limiter';
+import { transformGameLanding, validateGameData } from '../nhl-api/transformers';
+import { nhlApiSource } from './sources';
+import type {
+  IngestAudit,
+  IngestGameData,
+  IngestGameResult,
+  IngestGamesOptions,
+  IngestOptions,
+  IngestReport,
+  IngestValidator,
+  UpsertPolicy,
+} from './types';
+
+export type * from './types';
+export { landingSource, nhlApiSource, revalidatedNhlApiSource } from './sources';
+
+export const UPSERT_POLICIES: UpsertPolicy[] = ['skip', 'overwrite', 'merge'];
+
+/**
+ * Both teams must be stored (all-star and international games aren't)
+ */
+export const validateTeams: IngestValidator = async ({ game }) => {
+  const { teams } = getRepository();
+  const errors: string[] = [];
+  for (const teamCode of [game.home_team_code, game.away_team_code]) {
+    if (!(await teams.exists(teamCode))) errors.push(`Team not found: ${teamCode}`);
+  }
+  return errors;
+};
+
+export const validateGame: IngestValidator = ({ game, periodResults }) =>
+  validateGameData(game, periodResults).errors;
+
+const DEFAULT_VALIDATORS = [validateTeams, validateGame];
+
+/**
+ * The stored game and period results, for the before side of an audit event
+ */
+async function snapshotGame(gameId: string): Promise<{ game: Game; period_results: PeriodResult[] } | null> {
+  const repo = getRepository();
+  const [game, periodResults] = await Promise.all([
+    repo.games.getById(gameId),
+    repo.periodResults.list({ gameIds: [gameId] }),
+  ]);
+  return game ? { game, period_results: periodResults } : null;
+}
+
+/**
+ * The audit event for a game write (the write fills in the counts, and drops what it didn't change)
+ */
+function gameWriteAudit(audit: IngestAudit, data: IngestGameData, before: unknown): GameWriteAudit {
+  return {
+    source: audit.source,
+    session_id: audit.session_id ?? null,
+    approval_id: audit.approval_id ?? null,
+    action: audit.action,
+    before: audit.before ?? before,
+    after: { game: data.game, period_results: data.periodResults },
+  };
+}
+
+/**
+ * Fetch and store a single game
+ * Failures are returned rather than thrown so bulk imports can carry on with the next game
+ */
+export async function ingestGame(gameId: string, options: IngestOptions = {}): Promise<IngestGameResult> {
+  const { policy = 'skip', source = nhlApiSource, validators = [], dryRun = false, audit } = options;
+  const result: IngestGameResult = { game_id: gameId, game_date: null, status: 'skipped', period_results: 0, goals: 0 };
+  const fail = (reason: string): IngestGameResult => {
+    console.error(`[ingest] Game ${gameId} failed: ${reason}`);
+    return { ...result, status: 'failed', reason };
+  };
+
+  try {
+    const repo = getRepository();
+    const stored = await repo.games.exists(gameId);
+    if (stored && policy === 'skip') {
+      return { ...result, reason: 'already stored' };
+    }
+
+    const landing = await source.getGame(gameId);
+    if (!landing) {
+      return { ...result, reason: `not found in ${source.name}` };
+    }
+    result.game_date = landing.gameDate;
+
+    // Only final games are stored; the live tracker handles games in progress
+    if (landing.gameState !== 'OFF') {
+      return { ...result, reason: `not final (state: ${landing.gameState})` };
+    }
+
+    const data = transformGameLanding(landing);
+    result.period_results = data.periodResults.length;
+    result.goals = data.goals.length;
+
+    const errors: string[] = [];
+    for (const validate of [...DEFAULT_VALIDATORS, ...validators]) {
+      errors.push(...await validate(data));
+    }
+    if (errors.length > 0) {
+      return fail(`Validation failed: ${errors.join('; ')}`);
+    }
+
+    if (dryRun) {
+      return { ...result, status: stored ? 'updated' : 'inserted' };
+    }
+
+    const before = audit && stored && audit.before === undefined ? await snapshotGame(gameId) : null;
+
+    // One transaction for the game, its rows and its audit event; a game stored by another import
+    // since the check is skipped
+    const status = await repo.games.upsertWithPeriods(data, policy, audit && gameWriteAudit(audit, data, before));
+    if (status === 'skipped') {
+      return { ...result, reason: 'already stored' };
+    }
+
+    console.log(`[ingest] Game ${gameId} ${status}: ${result.period_results} period results, ${result.goals} goals`);
+    return { ...result, status };
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Count results into a report
+ */
+function buildIngestReport(
+  results: IngestGameResult[],
+  options: IngestOptions & { startTime: number }
+): IngestReport {
+  const count = (status: IngestGameResult['status']) => results.filter(r => r.status === status).length;
+
+  return {
+    source: (options.source ?? nhlApiSource).name,
+    policy: options.policy ?? 'skip',
+    dry_run: options.dryRun ?? false,
+    games_processed: results.length,
+    games_inserted: count('inserted'),
+    games_updated: count('updated'),
+    games_skipped: count('skipped'),
+    games_failed: count('failed'),
+    failures: results
+      .filter(r => r.status === 'failed')
+      .map(r => ({ game_id: r.game_id, date: r.game_date ?? 'unknown', error: r.reason || 'Unknown error' })),
+    results,
+    processing_time_ms: Date.now() - options.startTime,
+  };
+}
+
+/**
+ * Fetch and store many games, keeping the NHL API client's concurrency slots busy
+ */
+export async function ingestGames(gameIds: string[], options: IngestGamesOptions = {}): Promise<IngestReport> {
+  const startTime = Date.now();
+  const { concurrency = getRateLimiterConfig().concurrency, onResult, ...ingestOptions } = options;
+  const results: IngestGameResult[] = new Array(gameIds.length);
+
+  let completed = 0;
+  await runConcurrently(gameIds, concurrency, async (gameId, index) => {
+    results[index] = await ingestGame(gameId, ingestOptions);
+    completed++;
+    await onResult?.(results[index], completed);
+  });
+
+  return buildIngestReport(results, { ...ingestOptions, startTime });
+}
@@ -0,0 +1,47 @@
+// Game sources
+// Where the ingestion service gets landing data from
+
+import { nhlApi } from '../nhl-api/client';
+import type { NewNHLLandingResponse } from '../nhl-api/types';
+import type { GameSource } from './types';
+
+async function getLanding(gameId: string, revalidate: boolean): Promise<NewNHLLandingResponse | null> {
+  try {
+    return await nhlApi.getGameLanding(gameId, { revalidate });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) return null;
+    throw error;
+  }
+}
+
+/**
+ * The NHL API (or its recorded fixtures in replay mode), through the shared rate limiter and cache
+ */
+export const nhlApiSource: GameSource = {
+  name: 'nhl-api',
+  getGame: gameId => getLanding(gameId, false),
+};
+
+/**
+ * The NHL API, asking it about every cached landing instead of trusting the cache's TTL
+ * For checks against revisions, which a week-long cache of final games would hide
+ */
+export const revalidatedNhlApiSource: GameSource = {
+  name: 'nhl-api-revalidated',
+  getGame: gameId => getLanding(gameId, true),
+};
+
+/**
+ * Landing data already in hand (e.g. fetched by the live tracker), falling back to another source
+ * for games it doesn't have
+ */
+export function landingSource(landings: NewNHLLandingResponse[], fallback: GameSource | null = nhlApiSource): GameSource {
+  const byId = new Map(landings.map(landing => [landing.id.toString(), landing]));
+
+  return {
+    name: fallback ? `landing+${fallback.name}` : 'landing',
+    async getGame(gameId: string) {
+      return byId.get(gameId) ?? (fallback ? fallback.getGame(gameId) : null);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+// Ingestion types
+// Shared by every entry point that stores games: chat tools, import jobs, the live tracker and scripts
+
+import type { AuditContext, UpsertPolicy } from '../db/types';
+import type { transformGameLanding } from '../nhl-api/transformers';
+import type { NewNHLLandingResponse } from '../nhl-api/types';
+
+export type { UpsertPolicy };
+
+/**
+ * Where game data comes from
+ */
+export interface GameSource {
+  /** Shown in reports, e.g. "nhl-api" */
+  name: string;
+  /** Landing data for a game, or null when the source doesn't have it */
+  getGame(gameId: string): Promise<NewNHLLandingResponse | null>;
+}
+
+/**
+ * A game transformed into the rows that get stored
+ */
+export type IngestGameData = ReturnType<typeof transformGameLanding>;
+
+/**
+ * Check a transformed game before it is written
+ * @returns Problems found (empty when the game can be stored)
+ */
+export type IngestValidator = (data: IngestGameData) => string[] | Promise<string[]>;
+
+/**
+ * Who is writing, for the audit event of each game written
+ */
+export interface IngestAudit extends AuditContext {
+  /** Default: insert or update */
+  action?: string;
+  /** Default: the stored game and period results */
+  before?: unknown;
+}
+
+export interface IngestOptions {
+  /** Default: skip */
+  policy?: UpsertPolicy;
+  /** Default: the NHL API */
+  source?: GameSource;
+  /** Run after the built-in checks (teams exist, game data is valid) */
+  validators?: IngestValidator[];
+  /** Fetch and validate, but write nothing */
+  dryRun?: boolean;
+  /** Record each write in audit_events, in the same transaction as the game */
+  audit?: IngestAudit;
+}
+
+export interface IngestGamesOptions extends IngestOptions {
+  /** Games processed at once (default: the NHL API client's concurrency) */
+  concurrency?: number;
+  /** Called as each game finishes, in completion order */
+  onResult?: (result: IngestGameResult, completed: number) => void | Promise<void>;
+}
+
+/**
+ * inserted/updated report what was written (or would be, in a dry run)
+ */
+export type IngestStatus = 'inserted' | 'updated' | 'skipped' | 'failed';
+
+export interface IngestGameResult {
+  game_id: string;
+  /** Null when the game couldn't be fetched */
+  game_date: string | null;
+  status: IngestStatus;
+  /** Why the game was skipped or failed */
+  reason?: string;
+  period_results: number;
+  goals: number;
+}
+
+/**
+ * Outcome of ingesting a batch of games
+ */
+export interface IngestReport {
+  source: string;
+  policy: UpsertPolicy;
+  dry_run: boolean;
+  games_processed: number;
+  games_inserted: number;
+  games_updated: number;
+  games_skipped: number;
+  games_failed: number;
+  failures: Array<{
+    game_id: string;
+    date: string;
+    error: string;
+  }>;
+  /** In the order the game IDs were given */
+  results: IngestGameResult[];
+  processing_time_ms: number;
+}
@@ -0,0 +1,276 @@
+// Import jobs
+// Bulk imports run as background jobs: the schedule is expanded into per-game rows once, then
+// workers process pending games under a lease, so a crashed or timed-out run resumes where it stopped
+
+import { hostname } from 'os';
+import { getRepository } from '../db';
+import { nhlApi } from '../nhl-api/client';
+import { getRateLimiterConfig } from '../nhl-api/rate-limiter';
+import type { ImportJob, ImportJobGame, ImportJobParams, ImportJobStatus } from '../db/types';
+import { ingestGame } from '../ingestion';
+
+const LEASE_MS = 2 * 60 * 1000;
+const MAX_JOB_ATTEMPTS = 5;
+export const MAX_GAME_ATTEMPTS = 3;
+
+/**
+ * Time an API request spends importing before leaving the rest of the job to a worker
+ * (chat requests are capped at 60 seconds)
+ */
+export const INLINE_IMPORT_BUDGET_MS = 40 * 1000;
+
+/**
+ * Progress of an import job, in the shape ImportSummary renders
+ */
+export interface ImportJobProgress {
+  job_id: string;
+  status: ImportJobStatus;
+  /** Null until the schedule has been fetched */
+  games_total: number | null;
+  games_pending: number;
+  games_processed: number;
+  games_inserted: number;
+  games_updated: number;
+  games_skipped: number;
+  games_failed: number;
+  date_range: {
+    start: string;
+    end: string;
+  };
+  processing_time_ms: number;
+  failures: Array<{
+    game_id: string;
+    date: string;
+    error: string;
+  }>;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface RunImportJobOptions {
+  /** Lease owner (defaults to host:pid) */
+  workerId?: string;
+  /** Stop at this time (epoch ms) and leave the remaining games queued */
+  deadline?: number;
+  /** Games fetched at once (default: the NHL API client's concurrency) */
+  concurrency?: number;
+  /** Stop after the current batch and leave the remaining games queued */
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportJobProgress) => void | Promise<void>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+function summarize(job: ImportJob, games: ImportJobGame[]): ImportJobProgress {
+  const count = (status: ImportJobGame['status']) => games.filter(g => g.status === status).length;
+  const started = job.started_at ? new Date(job.started_at).getTime() : null;
+  const finished = job.finished_at ? new Date(job.finished_at).getTime() : Date.now();
+
+  return {
+    job_id: job.id,
+    status: job.status,
+    games_total: job.total_games,
+    games_pending: count('pending'),
+    games_processed: games.length - count('pending'),
+    games_inserted: count('inserted'),
+    games_updated: count('updated'),
+    games_skipped: count('skipped'),
+    games_failed: count('failed'),
+    date_range: {
+      start: job.params.startDate,
+      end: job.params.endDate,
+    },
+    processing_time_ms: started !== null ? finished - started : 0,
+    failures: games
+      .filter(g => g.status === 'failed')
+      .map(g => ({ game_id: g.game_id, date: g.game_date, error: g.error || 'Unknown error' })),
+    error: job.error,
+    created_at: job.created_at,
+    finished_at: job.finished_at,
+  };
+}
+
+/**
+ * Queue an import of every game scheduled between two dates
+ */
+export async function createImportJob(params: ImportJobParams): Promise<ImportJob> {
+  if (!DATE_PATTERN.test(params.startDate) || !DATE_PATTERN.test(params.endDate)) {
+    throw new Error('Invalid date format. Use YYYY-MM-DD');
+  }
+  if (params.endDate < params.startDate) {
+    throw new Error('endDate must be after startDate');
+  }
+
+  return getRepository().importJobs.insert({ params });
+}
+
+export async function getImportJobProgress(jobId: string): Promise<ImportJobProgress | null> {
+  const repo = getRepository();
+  const job = await repo.importJobs.get(jobId);
+  if (!job) return null;
+
+  return summarize(job, await repo.importJobGames.list(jobId));
+}
+
+/**
+ * Requeue a finished job's failed games with fresh attempts
+ * Returns null when the job doesn't exist; jobs still queued or running are returned unchanged
+ */
+export async function retryFailedGames(jobId: string): Promise<ImportJobProgress | null> {
+  const repo = getRepository();
+  const job = await repo.importJobs.get(jobId);
+  if (!job) return null;
+
+  const games = await repo.importJobGames.list(jobId);
+  if (job.status === 'queued' || job.status === 'running') {
+    return summarize(job, games);
+  }
+
+  for (const game of games.filter(g => g.status === 'failed')) {
+    await repo.importJobGames.update(jobId, game.game_id, { status: 'pending', attempts: 0, error: null });
+  }
+
+  const requeued = await repo.importJobs.update(jobId, {
+    status: 'queued',
+    attempts: 0,
+    error: null,
+    finished_at: null,
+  });
+  return summarize(requeued, await repo.importJobGames.list(jobId));
+}
+
+/**
+ * Expand the job's date range into per-game rows
+ */
+async function loadSchedule(job: ImportJob): Promise<void> {
+  const { startDate, endDate, season, gameTypes } = job.params;
+  const schedule = await nhlApi.getSchedule(startDate, endDate);
+
+  const games = [];
+  for (const date of schedule.dates) {
+    for (const game of date.games) {
+      if (season) {
+        const gameSeason = game.season.length === 8
+          ? `${game.season.slice(0, 4)}-${game.season.slice(4)}`
+          : game.season;
+        if (gameSeason !== season) continue;
+      }
+      if (gameTypes && !gameTypes.includes(game.gameType)) continue;
+      games.push({ job_id: job.id, game_id: game.gamePk.toString(), game_date: date.date });
+    }
+  }
+
+  const repo = getRepository();
+  await repo.importJobGames.insertMany(games);
+  await repo.importJobs.update(job.id, { total_games: games.length });
+}
+
+/**
+ * Work on a job until every game is done, the deadline passes or the signal aborts
+ * Failed games are retried up to MAX_GAME_ATTEMPTS times before the job completes
+ * @returns Progress when it ran, or null when the job is finished or leased by another worker
+ */
+export async function runImportJob(jobId: string, options: RunImportJobOptions = {}): Promise<ImportJobProgress | null> {
+  const repo = getRepository();
+  const workerId = options.workerId || defaultWorkerId();
+  const concurrency = Math.max(1, options.concurrency ?? getRateLimiterConfig().concurrency);
+  const leaseUntil = () => new Date(Date.now() + LEASE_MS).toISOString();
+
+  const claimed = await repo.importJobs.claim(jobId, workerId, leaseUntil());
+  if (!claimed) return null;
+
+  let job = await repo.importJobs.update(jobId, {
+    attempts: claimed.attempts + 1,
+    started_at: claimed.started_at ?? new Date().toISOString(),
+  });
+  console.log(`[ImportJob] ${workerId} running job ${jobId} (attempt ${job.attempts})`);
+
+  // Give the job back to the queue so another run can pick it up
+  const release = async (update: { error?: string | null } = {}) => {
+    job = await repo.importJobs.update(jobId, { status: 'queued', locked_by: null, locked_until: null, ...update });
+    return summarize(job, await repo.importJobGames.list(jobId));
+  };
+
+  if (job.total_games === null) {
+    try {
+      await loadSchedule(job);
+    } catch (error) {
+      const message = `Schedule fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(`[ImportJob] ${message}`);
+
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        job = await repo.importJobs.update(jobId, {
+          status: 'failed',
+          error: message,
+          locked_by: null,
+          locked_until: null,
+          finished_at: new Date().toISOString(),
+        });
+        return summarize(job, []);
+      }
+      return release({ error: message });
+    }
+  }
+
+  const games = await repo.importJobGames.list(jobId);
+  const next = () => [
+    ...games.filter(g => g.status === 'pending'),
+    ...games.filter(g => g.status === 'failed' && g.attempts < MAX_GAME_ATTEMPTS),
+  ].slice(0, concurrency);
+
+  const policy = job.params.policy ?? (job.params.skipExisting ? 'skip' : 'overwrite');
+  const audit = job.params.audit ?? { source: 'job:import' };
+  let batch = next();
+  while (batch.length > 0) {
+    if ((options.deadline && Date.now() >= options.deadline) || options.signal?.aborted) {
+      console.log(`[ImportJob] Pausing job ${jobId} with ${games.filter(g => g.status === 'pending').length} games pending`);
+      return release();
+    }
+
+    await Promise.all(batch.map(async (game) => {
+      const result = await ingestGame(game.game_id, { policy, audit });
+      game.status = result.status;
+      game.attempts++;
+      game.error = result.status === 'failed' ? result.reason || 'Unknown error' : null;
+      await repo.importJobGames.update(jobId, game.game_id, {
+        status: game.status,
+        attempts: game.attempts,
+        error: game.error,
+      });
+    }));
+
+    job = await repo.importJobs.update(jobId, { locked_until: leaseUntil() });
+    await options.onProgress?.(summarize(job, games));
+    batch = next();
+  }
+
+  job = await repo.importJobs.update(jobId, {
+    status: 'completed',
+    locked_by: null,
+    locked_until: null,
+    finished_at: new Date().toISOString(),
+  });
+
+  const progress = summarize(job, games);
+  console.log(`[ImportJob] Job ${jobId} complete: ${progress.games_inserted} inserted, ${progress.games_updated} updated, ${progress.games_skipped} skipped, ${progress.games_failed} failed`);
+  return progress;
+}
+
+/**
+ * Claim and run the oldest job that is queued or whose worker stopped renewing its lease
+ * @returns Null when there is nothing to do
+ */
+export async function runNextImportJob(options: RunImportJobOptions = {}): Promise<ImportJobProgress | null> {
+  const candidates = await getRepository().importJobs.list({ status: ['queued', 'running'] });
+
+  for (const job of candidates) {
+    const progress = await runImportJob(job.id, options);
+    if (progress) return progress;
+  }
+  return null;
+}
@@ -0,0 +1,258 @@
+// Live game tracker
+// Polls the NHL scoreboard for games in progress and stores provisional period outcomes as each
+// period ends. Final games are imported the usual way (ingestGame) once the NHL marks them OFF,
+// which upgrades the tracked game to final. One poller per process is shared by every subscriber
+// (e.g. each dashboard connected to /api/live). Polling writes to the database, so only subscribers
+// allowed to write start it; the rest receive its updates, and it stops when the last poller leaves.
+
+import { getRepository } from '../db';
+import { ingestGame, landingSource } from '../ingestion';
+import type { LiveGame, LivePeriodResult, NewLiveGame } from '../db/types';
+import { nhlApi } from '../nhl-api/client';
+import { formatSeasonString, transformGameLanding } from '../nhl-api/transformers';
+import type { NewNHLLandingResponse, NewNHLScoreGame } from '../nhl-api/types';
+
+/** Game states worth tracking: in progress, or over but not yet imported */
+const STARTED_STATES = ['LIVE', 'CRIT', 'FINAL', 'OFF'];
+const OVER_STATES = ['FINAL', 'OFF'];
+
+export function getLivePollInterval(): number {
+  return Number(process.env.LIVE_POLL_INTERVAL_SECONDS || 30) * 1000;
+}
+
+/**
+ * A tracked game with the provisional outcomes of its finished periods
+ */
+export interface LiveGameSnapshot extends LiveGame {
+  periods: LivePeriodResult[];
+}
+
+export interface LiveUpdate {
+  /** NHL day the games belong to (the scoreboard's current date) */
+  date: string;
+  polled_at: string;
+  /** Games that changed since the previous poll (every tracked game in a snapshot) */
+  games: LiveGameSnapshot[];
+}
+
+function toGameType(gameType: number): string {
+  return gameType === 2 ? 'Regular Season' : gameType === 3 ? 'Playoffs' : 'Preseason';
+}
+
+/**
+ * Periods that are over: all of them once the game ends, else those before the current one
+ * (and the current one during its intermission)
+ */
+function completedThrough(landing: NewNHLLandingResponse): number {
+  if (OVER_STATES.includes(landing.gameState)) return Infinity;
+  const current = landing.periodDescriptor?.number ?? 0;
+  return landing.clock?.inIntermission ? current : current - 1;
+}
+
+function buildLivePeriods(landing: NewNHLLandingResponse): LivePeriodResult[] {
+  const lastPeriod = completedThrough(landing);
+  const { periodResults } = transformGameLanding(landing);
+
+  return periodResults
+    .filter(pr => pr.period_number <= lastPeriod)
+    .map(pr => ({
+      game_id: pr.game_id,
+      team_code: pr.team_code,
+      period_number: pr.period_number,
+      period_type: pr.period_type,
+      goals_for: pr.goals_for,
+      goals_against: pr.goals_against,
+      empty_net_goals: pr.empty_net_goals,
+      period_outcome: pr.period_outcome,
+    }));
+}
+
+/**
+ * Whether the scoreboard shows something the stored game doesn't (a goal, a new period, an intermission)
+ */
+function hasProgressed(stored: LiveGame | null, game: NewNHLScoreGame): boolean {
+  return !stored ||
+    stored.game_state !== game.gameState ||
+    stored.home_score !== (game.homeTeam.score ?? 0) ||
+    stored.away_score !== (game.awayTeam.score ?? 0) ||
+    stored.period_number !== (game.periodDescriptor?.number ?? null) ||
+    stored.in_intermission !== (game.clock?.inIntermission ?? false);
+}
+
+async function toSnapshots(games: LiveGame[]): Promise<LiveGameSnapshot[]> {
+  const periods = await getRepository().livePeriodResults.list(games.map(g => g.game_id));
+  return games.map(game => ({ ...game, periods: periods.filter(p => p.game_id === game.game_id) }));
+}
+
+/**
+ * Update one scoreboard game; returns the stored row when anything changed
+ */
+async function trackGame(game: NewNHLScoreGame): Promise<LiveGame | null> {
+  const repo = getRepository();
+  const gameId = game.id.toString();
+  const stored = await repo.liveGames.get(gameId);
+  if (stored?.status === 'final') return null;
+
+  const homeCode = game.homeTeam.abbrev;
+  const awayCode = game.awayTeam.abbrev;
+  if (!stored && !((await repo.teams.exists(homeCode)) && (await repo.teams.exists(awayCode)))) {
+    return null; // All-star and international games
+  }
+
+  const over = OVER_STATES.includes(game.gameState);
+  const clock = over ? null : game.clock?.timeRemaining ?? null;
+  let row: NewLiveGame = {
+    game_id: gameId,
+    game_date: game.gameDate,
+    season: formatSeasonString(game.season.toString()),
+    game_type: toGameType(game.gameType),
+    home_team_code: homeCode,
+    away_team_code: awayCode,
+    game_state: game.gameState,
+    home_score: game.homeTeam.score ?? 0,
+    away_score: game.awayTeam.score ?? 0,
+    period_number: game.periodDescriptor?.number ?? null,
+    period_type: game.periodDescriptor?.periodType ?? null,
+    clock,
+    in_intermission: game.clock?.inIntermission ?? false,
+    status: 'provisional',
+    finalized_at: null,
+  };
+
+  const progressed = hasProgressed(stored, game);
+  const awaitingImport = game.gameState === 'OFF';
+  if (!progressed && !awaitingImport && stored?.clock === clock) return null;
+
+  // Recompute the periods only when the score or period changed; the landing is the slower endpoint
+  let periods: LivePeriodResult[] | null = null;
+  let landing: NewNHLLandingResponse | null = null;
+  if (progressed) {
+    landing = await nhlApi.getGameLanding(gameId);
+    periods = buildLivePeriods(landing);
+    // Keep what the landing reported, so a stale response is noticed and refetched next poll
+    row = {
+      ...row,
+      game_state: landing.gameState,
+      home_score: landing.homeTeam.score ?? 0,
+      away_score: landing.awayTeam.score ?? 0,
+      period_number: landing.periodDescriptor?.number ?? row.period_number,
+      period_type: landing.periodDescriptor?.periodType ?? row.period_type,
+      in_intermission: landing.clock?.inIntermission ?? false,
+    };
+  }
+
+  // The NHL marks a game OFF once its result is official; import it and retire the provisional rows
+  if (row.game_state === 'OFF') {
+    // Reuse the landing fetched above rather than requesting it again
+    const result = await ingestGame(gameId, {
+      audit: { source: 'job:live-tracker' },
+      ...(landing ? { source: landingSource([landing]) } : {}),
+    });
+    if (result.status !== 'failed' && await repo.games.exists(gameId)) {
+      row = { ...row, status: 'final', finalized_at: new Date().toISOString() };
+      console.log(`[LiveTracker] Game ${gameId} is final and imported`);
+    } else if (result.status === 'failed') {
+      console.error(`[LiveTracker] Importing final game ${gameId} failed: ${result.reason}`);
+    }
+  }
+
+  // Still waiting on the import with nothing new to show: retry next poll without reporting a change
+  if (!progressed && stored?.clock === clock && row.status === 'provisional') return null;
+
+  const saved = await repo.liveGames.upsert(row);
+  if (periods) await repo.livePeriodResults.replace(gameId, periods);
+  return saved;
+}
+
+/**
+ * Poll the scoreboard once and store what changed
+ * @param date NHL day to poll (default: the current one)
+ */
+export async function pollLiveGames(date?: string): Promise<LiveUpdate> {
+  const scoreboard = await nhlApi.getScoreboard(date);
+  const changed: LiveGame[] = [];
+
+  for (const game of scoreboard.games || []) {
+    if (!STARTED_STATES.includes(game.gameState)) continue;
+    try {
+      const saved = await trackGame(game);
+      if (saved) changed.push(saved);
+    } catch (error) {
+      console.error(`[LiveTracker] Failed to update game ${game.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    date: scoreboard.currentDate || date || new Date().toISOString().split('T')[0],
+    polled_at: new Date().toISOString(),
+    games: await toSnapshots(changed),
+  };
+}
+
+/**
+ * Every game tracked on a day, with its provisional (or final) periods
+ */
+export async function getLiveSnapshot(date: string): Promise<LiveUpdate> {
+  const games = await getRepository().liveGames.list({ gameDate: date });
+  return { date, polled_at: new Date().toISOString(), games: await toSnapshots(games) };
+}
+
+type LiveListener = (update: LiveUpdate) => void;
+
+const listeners = new Set<LiveListener>();
+let pollers = 0;
+let timer: ReturnType<typeof setInterval> | null = null;
+let polling: Promise<LiveUpdate | null> | null = null;
+let lastDate: string | null = null;
+
+/**
+ * Run one shared poll (concurrent callers wait for the poll already in flight)
+ */
+export function pollShared(): Promise<LiveUpdate | null> {
+  if (!polling) {
+    polling = pollLiveGames()
+      .then(update => {
+        lastDate = update.date;
+        if (update.games.length > 0) {
+          for (const listener of listeners) listener(update);
+        }
+        return update;
+      })
+      .catch(error => {
+        console.error('[LiveTracker] Poll failed:', error instanceof Error ? error.message : error);
+        return null;
+      })
+      .finally(() => {
+        polling = null;
+      });
+  }
+  return polling;
+}
+
+/**
+ * Current NHL day as of the latest poll
+ * With poll, polls once if nothing has been polled yet; otherwise falls back to today (UTC)
+ */
+export async function getLiveDate(poll = true): Promise<string> {
+  if (!lastDate && poll) await pollShared();
+  return lastDate || new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Receive updates while subscribed
+ * Subscribers with poll drive the poller: the first one starts it and the last one stops it
+ */
+export function subscribeLiveUpdates(listener: LiveListener, { poll = false } = {}): () => void {
+  listeners.add(listener);
+  if (poll && pollers++ === 0) {
+    timer = setInterval(() => void pollShared(), getLivePollInterval());
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (poll && --pollers === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
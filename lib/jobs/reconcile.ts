@@ -0,0 +1,204 @@
+// Linescore reconciliation
+// Re-fetches stored games from the NHL API and compares period goals, empty-net goals and outcomes
+// with period_results. The NHL sometimes revises scoring after the fact (a goal moved to another
+// period, an empty-net reclassification); corrections are rewritten through the ingestion service
+// and recorded in audit_events.
+
+import { getRepository } from '../db';
+import type { AuditContext, Game, NewPeriodResult, PeriodResult } from '../db/types';
+import { ingestGame, landingSource, revalidatedNhlApiSource } from '../ingestion';
+import { getRateLimiterConfig, runConcurrently } from '../nhl-api/rate-limiter';
+import { transformGameLanding } from '../nhl-api/transformers';
+
+/** Period result fields that are compared */
+const COMPARED_FIELDS = ['goals_for', 'goals_against', 'empty_net_goals', 'period_outcome'] as const;
+
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface PeriodDiscrepancy {
+  team_code: string;
+  period_number: number;
+  /** missing: the NHL has the period but it isn't stored; extra: stored but not in the NHL data (values are outcomes) */
+  field: ComparedField | 'missing' | 'extra';
+  stored: number | string | null;
+  api: number | string | null;
+}
+
+export interface GameReconciliation {
+  game_id: string;
+  game_date: string;
+  status: 'match' | 'mismatch' | 'skipped' | 'failed';
+  discrepancies: PeriodDiscrepancy[];
+  /** Stored rows were rewritten from the NHL data */
+  corrected: boolean;
+  /** Why the game was skipped or failed */
+  reason?: string;
+}
+
+export interface ReconcileOptions {
+  season?: string;
+  startDate?: string;
+  endDate?: string;
+  /** Rewrite mismatched games from the NHL data (default: report only) */
+  apply?: boolean;
+  /** Recorded on the audit event for each correction */
+  audit: AuditContext;
+  /** Games fetched at once (default: the NHL API client's concurrency) */
+  concurrency?: number;
+  /** Stop starting new games at this time (epoch ms); the rest are reported as remaining */
+  deadline?: number;
+  onProgress?: (checked: number, total: number) => void | Promise<void>;
+}
+
+export interface ReconcileReport {
+  range: { season: string | null; start: string | null; end: string | null };
+  applied: boolean;
+  games_total: number;
+  games_checked: number;
+  games_matching: number;
+  games_mismatched: number;
+  games_corrected: number;
+  games_skipped: number;
+  games_failed: number;
+  /** Not checked before the deadline */
+  games_remaining: number;
+  /** Every game that didn't match, was skipped or failed */
+  games: GameReconciliation[];
+  processing_time_ms: number;
+}
+
+type ComparedPeriod = Pick<NewPeriodResult, 'team_code' | 'period_number' | ComparedField>;
+
+function periodKey(pr: { team_code: string; period_number: number }): string {
+  return `${pr.team_code}:${pr.period_number}`;
+}
+
+/**
+ * Only the compared fields, for audit events
+ */
+function comparedPeriods(periods: ComparedPeriod[]): ComparedPeriod[] {
+  return periods.map(({ team_code, period_number, goals_for, goals_against, empty_net_goals, period_outcome }) => ({
+    team_code, period_number, goals_for, goals_against, empty_net_goals, period_outcome,
+  }));
+}
+
+/**
+ * Differences between stored period results and the ones computed from fresh NHL data
+ */
+function diffPeriodResults(stored: ComparedPeriod[], api: ComparedPeriod[]): PeriodDiscrepancy[] {
+  const storedByKey = new Map(stored.map(pr => [periodKey(pr), pr]));
+  const apiByKey = new Map(api.map(pr => [periodKey(pr), pr]));
+  const discrepancies: PeriodDiscrepancy[] = [];
+
+  for (const [key, fresh] of apiByKey) {
+    const existing = storedByKey.get(key);
+    if (!existing) {
+      discrepancies.push({ team_code: fresh.team_code, period_number: fresh.period_number, field: 'missing', stored: null, api: fresh.period_outcome });
+      continue;
+    }
+    for (const field of COMPARED_FIELDS) {
+      if (existing[field] !== fresh[field]) {
+        discrepancies.push({ team_code: fresh.team_code, period_number: fresh.period_number, field, stored: existing[field], api: fresh[field] });
+      }
+    }
+  }
+  for (const [key, existing] of storedByKey) {
+    if (!apiByKey.has(key)) {
+      discrepancies.push({ team_code: existing.team_code, period_number: existing.period_number, field: 'extra', stored: existing.period_outcome, api: null });
+    }
+  }
+
+  return discrepancies.sort((a, b) => a.period_number - b.period_number || a.team_code.localeCompare(b.team_code));
+}
+
+/**
+ * Compare one stored game with the NHL data, correcting it when asked
+ */
+async function reconcileGame(game: Game, options: ReconcileOptions): Promise<GameReconciliation> {
+  const repo = getRepository();
+  const result: GameReconciliation = {
+    game_id: game.game_id,
+    game_date: game.game_date,
+    status: 'match',
+    discrepancies: [],
+    corrected: false,
+  };
+
+  try {
+    // Cached final games stay fresh for days; revisions are exactly what this looks for
+    const landing = await revalidatedNhlApiSource.getGame(game.game_id);
+    if (!landing) return { ...result, status: 'skipped', reason: 'not found in the NHL API' };
+    if (landing.gameState !== 'OFF') return { ...result, status: 'skipped', reason: `not final (state: ${landing.gameState})` };
+
+    const fresh = transformGameLanding(landing);
+    const stored: PeriodResult[] = await repo.periodResults.list({ gameIds: [game.game_id] });
+    const discrepancies = diffPeriodResults(stored, fresh.periodResults);
+    if (discrepancies.length === 0) return result;
+
+    const mismatch: GameReconciliation = { ...result, status: 'mismatch', discrepancies };
+    if (!options.apply) return mismatch;
+
+    // Keep the game row; replace its period results, game results and goals with the revised data.
+    // The audit event is written in the same transaction and records the discrepancies found
+    const ingested = await ingestGame(game.game_id, {
+      policy: 'merge',
+      source: landingSource([landing], null),
+      audit: {
+        ...options.audit,
+        action: 'reconcile',
+        before: { period_results: comparedPeriods(stored), discrepancies },
+      },
+    });
+    if (ingested.status === 'failed') {
+      return { ...mismatch, reason: `Correction failed: ${ingested.reason}` };
+    }
+
+    console.log(`[reconcile] Corrected game ${game.game_id} (${discrepancies.length} discrepancies)`);
+    return { ...mismatch, corrected: true };
+  } catch (error) {
+    return { ...result, status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Reconcile every stored game in a season and/or date range
+ */
+export async function reconcileGames(options: ReconcileOptions): Promise<ReconcileReport> {
+  const startTime = Date.now();
+  const { season, startDate, endDate } = options;
+  if (!season && !(startDate && endDate)) {
+    throw new Error('Provide a season or both startDate and endDate');
+  }
+
+  const games = await getRepository().games.list({ season, startDate, endDate, ascending: true });
+  const results: GameReconciliation[] = [];
+  let remaining = 0;
+
+  await runConcurrently(games, options.concurrency ?? getRateLimiterConfig().concurrency, async (game) => {
+    if (options.deadline && Date.now() >= options.deadline) {
+      remaining++;
+      return;
+    }
+    results.push(await reconcileGame(game, options));
+    await options.onProgress?.(results.length, games.length);
+  });
+
+  const count = (status: GameReconciliation['status']) => results.filter(r => r.status === status).length;
+
+  return {
+    range: { season: season ?? null, start: startDate ?? null, end: endDate ?? null },
+    applied: options.apply ?? false,
+    games_total: games.length,
+    games_checked: results.length,
+    games_matching: count('match'),
+    games_mismatched: count('mismatch'),
+    games_corrected: results.filter(r => r.corrected).length,
+    games_skipped: count('skipped'),
+    games_failed: count('failed'),
+    games_remaining: remaining,
+    games: results
+      .filter(r => r.status !== 'match')
+      .sort((a, b) => a.game_date.localeCompare(b.game_date) || a.game_id.localeCompare(b.game_id)),
+    processing_time_ms: Date.now() - startTime,
+  };
+}
@@ -0,0 +1,67 @@
+// Team season alignment sync
+// Conferences and divisions change over time (the 2013 realignment, the 2020-21 temporary divisions),
+// so each season's alignment is read from the NHL standings as of the end of that regular season
+
+import { getRepository } from '../db';
+import type { NewTeamSeasonAlignment } from '../db/types';
+import { nhlApi } from '../nhl-api/client';
+
+export interface AlignmentSyncResult {
+  season: string;
+  /** Date of the standings the alignment was read from */
+  standings_date: string;
+  teams: number;
+  /** Team codes in the standings that aren't in the teams table */
+  unknown_teams: string[];
+}
+
+/**
+ * Date whose standings close out a season's regular season (today for a season in progress)
+ */
+export async function getSeasonStandingsDate(season: string): Promise<string> {
+  const dates = await nhlApi.getSeasonDates(season);
+  const regularStart = dates.regularSeasonStartDate.slice(0, 10);
+  const regularEnd = dates.regularSeasonEndDate.slice(0, 10);
+
+  const today = new Date().toISOString().split('T')[0];
+  if (regularStart > today) {
+    throw new Error(`Season ${season} has not started yet (regular season begins ${regularStart})`);
+  }
+  return regularEnd < today ? regularEnd : today;
+}
+
+/**
+ * Store a season's conference and division for every team in its standings
+ * A season in progress uses today's standings; running it again later refreshes the rows
+ */
+export async function syncSeasonAlignment(season: string): Promise<AlignmentSyncResult> {
+  const repo = getRepository();
+  const standingsDate = await getSeasonStandingsDate(season);
+
+  const { standings } = await nhlApi.getStandingsByDate(standingsDate);
+  const knownCodes = new Set((await repo.teams.list()).map(t => t.team_code));
+
+  const rows: NewTeamSeasonAlignment[] = [];
+  const unknownTeams: string[] = [];
+  for (const team of standings || []) {
+    const teamCode = team.teamAbbrev.default;
+    if (!knownCodes.has(teamCode)) {
+      unknownTeams.push(teamCode);
+      continue;
+    }
+    rows.push({
+      season,
+      team_code: teamCode,
+      // The 2020-21 standings have divisions but no conferences
+      conference: team.conferenceName || null,
+      division: team.divisionName || null,
+    });
+  }
+
+  if (unknownTeams.length > 0) {
+    console.warn(`[Alignment] ${season}: skipping teams not in the teams table: ${unknownTeams.join(', ')}`);
+  }
+  await repo.teamSeasonAlignment.upsertMany(rows);
+
+  return { season, standings_date: standingsDate, teams: rows.length, unknown_teams: unknownTeams };
+}
@@ -3,20 +3,29 @@
 
 import { ChatAnthropic } from '@langchain/anthropic';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
-import { HumanMessage, AIMessage, SystemMessage } from '@langchain/core/messages';
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import { TOOL_PROGRESS_EVENT } from './progress';
+import { RepositoryCheckpointSaver } from './checkpointer';
+import { executeApproval, listPendingApprovals, rejectApproval } from './approvals';
+import { TOOL_ROLES, canUseTool } from './tool-roles';
+import type { Role } from '@/lib/auth/roles';
+import type { Approval } from '@/lib/db';
+import {
+  addMessage,
+  deleteConversation,
+  ensureConversation,
+  getMemoryConfig,
+  getMessages,
+  recentTurns,
+  summarizeOlderTurns,
+} from './memory';
 
 // Import tools
 import { queryPeriodDataTool } from './tools/query-period-data';
 import { fetchNhlGamesTool } from './tools/fetch-nhl-games';
 import { calculateTeamStatsTool } from './tools/calculate-team-stats';
-import {
-  requestHumanApprovalTool,
-  findApprovalInMessage,
-  isRejectionMessage,
-  approveOperation,
-  rejectOperation,
-  getPendingApprovals,
-} from './tools/request-human-approval';
+import { requestHumanApprovalTool } from './tools/request-human-approval';
 
 // New tools
 import { syncRecentGamesTool } from './tools/sync-recent-games';
@@ -26,6 +35,11 @@ import { getStandingsTool } from './tools/get-standings';
 import { checkDataHealthTool } from './tools/check-data-health';
 import { getTeamScheduleTool } from './tools/get-team-schedule';
 import { analyzeTrendsTool } from './tools/analyze-trends';
+import { analyzeGoalsTool } from './tools/analyze-goals';
+import { analyzePeriodPlayTool } from './tools/analyze-period-play';
+import { testHypothesisTool } from './tools/test-hypothesis';
+import { getPlayoffSeriesTool } from './tools/get-playoff-series';
+import { reconcileGamesTool } from './tools/reconcile-games';
 
 // System prompt specific to the NHL Period Analyzer application
 const SYSTEM_PROMPT = `You are an expert NHL analytics assistant specializing in period-by-period game analysis. Your primary goal is to help users understand team performance through the lens of period outcomes.
@@ -53,11 +67,16 @@ Teams that win 2 or more individual periods in regulation (not including OT/SO)
 9. **Check Data Health**: Diagnose database issues (missing data, gaps, etc.)
 10. **Get Team Schedule**: View a team's recent/upcoming games with results
 11. **Analyze Trends**: Track team performance changes over time
+12. **Analyze Goals**: Goal-level detail (scorers, assists, timing) such as who scores period-winning goals
+13. **Analyze Period Play**: Shots, shot attempts, faceoffs and penalties per period vs the scoreboard
+14. **Test Hypothesis**: Correlation, logistic regression and permutation test of differential vs playoff series wins
+15. **Get Playoff Series**: Series winner, length and each team's period-win share and good wins within a series
+16. **Reconcile Games**: Compare stored period results with the NHL API and correct scoring revisions
 
 ## Guidelines
 - Always explain your reasoning before using tools
 - When analyzing data, highlight patterns related to the core hypothesis
-- For bulk imports (>7 days), ALWAYS use request_human_approval first
+- For bulk imports (>7 days), ALWAYS use request_human_approval with the exact fetch_nhl_games or sync_recent_games arguments instead of calling the tool; the user approves it with a button and it runs without you
 - Present statistics in a clear, organized manner
 - Compare teams using the good wins/bad wins framework
 
@@ -69,14 +88,20 @@ Teams that win 2 or more individual periods in regulation (not including OT/SO)
 - "Show me [team]'s last/recent games" → Use **get_team_schedule**
 - "Is [team] improving?" or "trends" → Use **analyze_trends**
 - "Why is data missing?" or "check database" → Use **check_data_health**
+- "Who scores the period-winning goals?" or "late goals" → Use **analyze_goals**
+- "Is [team] lucky?" or "won on shots" / Corsi → Use **analyze_period_play**
+- "Does the hypothesis hold?" or "is it significant?" → Use **test_hypothesis**
+- "Who won the series?" or "did they dominate periods against X?" → Use **get_playoff_series**
+- "Is our data still correct?" or "did the NHL change a score?" → Use **reconcile_games**; to correct discrepancies, ask with request_human_approval for reconcile_games with apply: true
 
 ## Data Notes
 - Game IDs follow format: YYYYTTGGGG (e.g., 2024020003)
   - YYYY = season start year
   - TT = 02 (regular season) or 03 (playoffs)
-  - GGGG = game number
+  - GGGG = game number (playoffs: 0 + round + series + game, e.g. 2023030412 = Final, game 2)
 - The 2024-2025 season has 1312 regular season games
 - Empty net goals are tracked separately and excluded from 3rd period outcome calculations
+- Tools that classify periods accept a **ruleSet** (standard, no-empty-net, no-late-insurance, five-on-five, ties-half-win) for sensitivity analysis; the default is standard
 
 Remember: You're helping users discover insights about which teams are genuinely dominant (winning periods) vs teams that may be winning games through luck or special circumstances.`;
 
@@ -95,95 +120,198 @@ const tools = [
   checkDataHealthTool,
   getTeamScheduleTool,
   analyzeTrendsTool,
+  analyzeGoalsTool,
+  analyzePeriodPlayTool,
+  testHypothesisTool,
+  getPlayoffSeriesTool,
+  reconcileGamesTool,
 ];
 
-// Store for conversation memories (keyed by session ID)
-// Format: { messages: Array<{role: string, content: string}> }
-const memoryStore = new Map<string, Array<{ role: 'user' | 'assistant'; content: string }>>();
+// Agent state (messages, tool calls and results) is checkpointed per conversation thread
+const checkpointer = new RepositoryCheckpointSaver();
 
 /**
- * Get conversation history for a session
+ * Clear memory for a session
  */
-function getHistory(sessionId: string): Array<{ role: 'user' | 'assistant'; content: string }> {
-  if (!memoryStore.has(sessionId)) {
-    memoryStore.set(sessionId, []);
-  }
-  return memoryStore.get(sessionId)!;
+export async function clearMemory(sessionId: string): Promise<void> {
+  await deleteConversation(sessionId);
+}
+
+function createModel(): ChatAnthropic {
+  return new ChatAnthropic({
+    model: 'claude-sonnet-4-20250514',
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+    temperature: 0.7,
+  });
 }
 
 /**
- * Add message to conversation history
+ * Incremental agent output streamed to the client while a message is processed
  */
-function addToHistory(sessionId: string, role: 'user' | 'assistant', content: string): void {
-  const history = getHistory(sessionId);
-  history.push({ role, content });
-  // Keep last 20 messages to prevent context overflow
-  if (history.length > 20) {
-    history.splice(0, history.length - 20);
+export type AgentStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; id: string; name: string; args: unknown }
+  | { type: 'tool_progress'; id: string; message: string }
+  | { type: 'tool_end'; id: string; name: string; result: string };
+
+export type AgentEventHandler = (event: AgentStreamEvent) => void;
+
+// Tool results can be large JSON payloads; the client only needs a preview
+const TOOL_RESULT_PREVIEW_LENGTH = 2000;
+
+type ContentBlock = { type?: string; text?: string };
+
+/**
+ * Text of a message or message chunk (Anthropic returns either a string or content blocks)
+ */
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((c: ContentBlock) => c.type === 'text' || c.type === 'text_delta')
+      .map((c: ContentBlock) => c.text)
+      .join('');
   }
+  return '';
 }
 
 /**
- * Clear memory for a session
+ * Tool call arguments from an on_tool_start event (LangGraph passes them as a JSON string under "input")
  */
-export function clearMemory(sessionId: string): void {
-  memoryStore.delete(sessionId);
+function toolArgsOf(input: unknown): unknown {
+  const raw = (input as { input?: unknown } | undefined)?.input ?? input;
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
 }
 
 /**
- * Create and run the NHL ReAct agent
+ * Run the agent with LangGraph event streaming, forwarding tokens and tool activity
+ * Returns the final graph state, same as agent.invoke
  */
-async function runAgent(sessionId: string, userMessage: string): Promise<{ response: string; toolsUsed: string[] }> {
-  // Initialize the Anthropic model
-  const model = new ChatAnthropic({
-    model: 'claude-sonnet-4-20250514',
-    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    temperature: 0.7,
-  });
-
-  // Get conversation history
-  const history = getHistory(sessionId);
+async function streamAgent(
+  agent: ReturnType<typeof createReactAgent>,
+  input: { messages: BaseMessage[] },
+  config: RunnableConfig,
+  onEvent: AgentEventHandler
+): Promise<{ messages: BaseMessage[] }> {
+  let finalState: { messages: BaseMessage[] } | null = null;
+
+  for await (const event of agent.streamEvents(input, { ...config, version: 'v2' })) {
+    switch (event.event) {
+      case 'on_chat_model_stream': {
+        const content = textOf(event.data.chunk?.content);
+        if (content) onEvent({ type: 'token', content });
+        break;
+      }
+      case 'on_tool_start':
+        onEvent({ type: 'tool_start', id: event.run_id, name: event.name, args: toolArgsOf(event.data.input) });
+        break;
+      case 'on_custom_event':
+        if (event.name === TOOL_PROGRESS_EVENT) {
+          onEvent({ type: 'tool_progress', id: event.run_id, message: event.data.message });
+        }
+        break;
+      case 'on_tool_end': {
+        const output = event.data.output;
+        const result = typeof output === 'string' ? output : textOf(output?.content);
+        onEvent({
+          type: 'tool_end',
+          id: event.run_id,
+          name: event.name,
+          result: result.slice(0, TOOL_RESULT_PREVIEW_LENGTH),
+        });
+        break;
+      }
+      case 'on_chain_end':
+        // The root run (no parents) ends with the final graph state
+        if (!event.parent_ids?.length) finalState = event.data.output;
+        break;
+    }
+  }
 
-  // Build messages array with history
-  const messages: (HumanMessage | AIMessage)[] = [];
+  return finalState ?? { messages: [] };
+}
 
-  // Add conversation history
-  for (const msg of history) {
-    if (msg.role === 'user') {
-      messages.push(new HumanMessage(msg.content));
-    } else {
-      messages.push(new AIMessage(msg.content));
-    }
+/**
+ * The tools a role may use, and the system prompt section telling the model about the rest
+ */
+function toolsForRole(role: Role): { allowed: typeof tools; accessPrompt: string } {
+  const allowed = tools.filter(tool => canUseTool(role, tool.name));
+  const withheld = tools.filter(tool => !canUseTool(role, tool.name));
+  if (withheld.length === 0) {
+    return { allowed, accessPrompt: '' };
   }
 
-  // Add the current user message
-  messages.push(new HumanMessage(userMessage));
+  const list = withheld.map(tool => `${tool.name} (${TOOL_ROLES[tool.name]})`).join(', ');
+  return {
+    allowed,
+    accessPrompt: `\n\n## Access\nThe user's role is ${role}. These tools need a higher role and are not available: ${list}. ` +
+      'If the user asks for something that needs one of them, tell them which role it requires instead of attempting it.',
+  };
+}
 
-  // Create the ReAct agent with LangGraph
-  const agent = createReactAgent({
+/**
+ * Create the ReAct agent with LangGraph, checkpointed per conversation thread
+ */
+function createAgent(model: ChatAnthropic, systemPrompt: string, turns: number, agentTools = tools) {
+  return createReactAgent({
     llm: model,
-    tools,
+    tools: agentTools,
+    checkpointer,
+    prompt: (state) => [new SystemMessage(systemPrompt), ...recentTurns(state.messages, turns)],
   });
+}
 
-  // Run the agent
-  const result = await agent.invoke({
-    messages: [
-      new SystemMessage(SYSTEM_PROMPT),
-      ...messages,
-    ],
-  });
+/**
+ * Create and run the NHL ReAct agent with the tools the user's role allows
+ */
+async function runAgent(
+  sessionId: string,
+  userMessage: string,
+  role: Role,
+  onEvent?: AgentEventHandler
+): Promise<{ response: string; toolsUsed: string[] }> {
+  const model = createModel();
+  const memory = getMemoryConfig();
+  const { summary } = await ensureConversation(sessionId);
+
+  // Earlier turns come from the checkpoint; only the recent window (plus a summary of
+  // older turns) is sent to the model
+  const { allowed, accessPrompt } = toolsForRole(role);
+  const basePrompt = SYSTEM_PROMPT + accessPrompt;
+  const systemPrompt = summary
+    ? `${basePrompt}\n\n## Earlier in This Conversation\n${summary}`
+    : basePrompt;
+
+  const agent = createAgent(model, systemPrompt, memory.recentTurns, allowed);
+
+  // Run the agent, streaming intermediate output when a handler is given.
+  // The role rides along in the config so request_human_approval can check it
+  const input = { messages: [new HumanMessage(userMessage)] };
+  const config: RunnableConfig = { configurable: { thread_id: sessionId, role } };
+  const result = onEvent
+    ? await streamAgent(agent, input, config, onEvent)
+    : await agent.invoke(input, config);
+
+  // The state holds the whole thread; this run's messages follow the last human message
+  const allMessages = result.messages || [];
+  const lastHumanIndex = allMessages.map(m => m._getType()).lastIndexOf('human');
+  const agentMessages = allMessages.slice(lastHumanIndex + 1);
 
   // Extract tools used from the agent's messages
   const toolsUsed: string[] = [];
-  const agentMessages = result.messages || [];
 
   for (const msg of agentMessages) {
     // Check for AI messages with tool calls
     if (msg._getType?.() === 'ai' || msg.constructor?.name === 'AIMessage') {
-      const toolCalls = (msg as any).tool_calls || (msg as any).additional_kwargs?.tool_calls;
+      const toolCalls = (msg as AIMessage).tool_calls || msg.additional_kwargs?.tool_calls;
       if (toolCalls && Array.isArray(toolCalls)) {
         for (const toolCall of toolCalls) {
-          const toolName = toolCall.name || toolCall.function?.name;
+          const toolName = 'function' in toolCall ? toolCall.function?.name : toolCall.name;
           if (toolName && !toolsUsed.includes(toolName)) {
             toolsUsed.push(toolName);
             console.log(`[Agent] Tool called: ${toolName}`);
@@ -194,7 +322,7 @@ async function runAgent(sessionId: string, userMessage: string): Promise<{ respo
 
     // Also check for ToolMessage to capture tool names
     if (msg._getType?.() === 'tool' || msg.constructor?.name === 'ToolMessage') {
-      const toolName = (msg as any).name;
+      const toolName = msg.name;
       if (toolName && !toolsUsed.includes(toolName)) {
         toolsUsed.push(toolName);
         console.log(`[Agent] Tool result from: ${toolName}`);
@@ -215,8 +343,8 @@ async function runAgent(sessionId: string, userMessage: string): Promise<{ respo
       } else if (Array.isArray(msg.content)) {
         // Handle structured content
         const textContent = msg.content
-          .filter((c: any) => c.type === 'text')
-          .map((c: any) => c.text)
+          .filter((c: ContentBlock) => c.type === 'text')
+          .map((c: ContentBlock) => c.text)
           .join('\n');
         if (textContent.trim()) {
           response = textContent;
@@ -244,91 +372,60 @@ async function runAgent(sessionId: string, userMessage: string): Promise<{ respo
   };
 }
 
+/**
+ * Store the assistant's answer, then fold turns outside the recent window into the summary
+ * A failed summary only costs memory detail, so it doesn't fail the response
+ */
+async function recordResponse(sessionId: string, response: string, toolsUsed: string[]): Promise<void> {
+  await addMessage(sessionId, 'assistant', response, toolsUsed);
+  try {
+    await summarizeOlderTurns(sessionId, createModel());
+  } catch (error) {
+    console.error('[Memory] Summarization failed:', error);
+  }
+}
+
 /**
  * Process a user message with the ReAct agent
+ * @param role The caller's role, which decides the tools the agent gets
+ * @param onEvent Receives tokens and tool activity as they happen (used by the streaming chat route)
  */
 export async function processMessage(
   sessionId: string,
-  userMessage: string
+  userMessage: string,
+  role: Role,
+  onEvent?: AgentEventHandler
 ): Promise<{
   response: string;
-  intermediateSteps?: any[];
+  intermediateSteps?: unknown[];
   approvalRequired?: boolean;
   approvalId?: string;
+  /** Approvals requested while answering this message */
+  approvals?: Approval[];
   toolsUsed?: string[];
 }> {
-  // Check if this is an approval/rejection response
-  const pendingApprovalsList = getPendingApprovals();
-  if (pendingApprovalsList.length > 0) {
-    const approvalId = findApprovalInMessage(userMessage);
-    const isRejection = isRejectionMessage(userMessage);
-
-    if (approvalId && !isRejection) {
-      // Get approval details before approving
-      const approvalDetails = pendingApprovalsList.find(a => a.id === approvalId);
-      approveOperation(approvalId);
-
-      // Add user approval to history
-      addToHistory(sessionId, 'user', userMessage);
-
-      // Now run the agent with a message that the approval was granted
-      // This allows the agent to continue with the actual operation
-      const continueMessage = `The user approved the operation (${approvalDetails?.description || 'bulk import'}). Please proceed with the import now.`;
-
-      try {
-        const { response, toolsUsed } = await runAgent(sessionId, continueMessage);
-        addToHistory(sessionId, 'assistant', response);
-        return {
-          response,
-          approvalRequired: false,
-          toolsUsed: ['request_human_approval', ...toolsUsed],
-        };
-      } catch (error) {
-        console.error('Error continuing after approval:', error);
-        const errorResponse = 'Operation approved, but I encountered an error while processing. Please try the request again.';
-        addToHistory(sessionId, 'assistant', errorResponse);
-        return {
-          response: errorResponse,
-          approvalRequired: false,
-          toolsUsed: ['request_human_approval'],
-        };
-      }
-    }
-
-    if (isRejection && pendingApprovalsList.length > 0) {
-      // Reject the most recent pending approval
-      const mostRecent = pendingApprovalsList[pendingApprovalsList.length - 1];
-      rejectOperation(mostRecent.id);
-      // Add to history
-      addToHistory(sessionId, 'user', userMessage);
-      const response = `Operation cancelled. The ${mostRecent.operationType} has been rejected. Is there anything else I can help you with?`;
-      addToHistory(sessionId, 'assistant', response);
-      return {
-        response,
-        approvalRequired: false,
-        toolsUsed: ['request_human_approval'],
-      };
-    }
-  }
+  const startedAt = new Date().toISOString();
 
   try {
     // Add user message to history
-    addToHistory(sessionId, 'user', userMessage);
+    await addMessage(sessionId, 'user', userMessage);
 
     // Run the agent
-    const { response, toolsUsed } = await runAgent(sessionId, userMessage);
+    const { response, toolsUsed } = await runAgent(sessionId, userMessage, role, onEvent);
 
     // Add response to history
-    addToHistory(sessionId, 'assistant', response);
+    await recordResponse(sessionId, response, toolsUsed);
 
-    // Check if approval is required (look for approval_id in response)
-    const approvalMatch = response.match(/approval_\d+_[a-z0-9]+/i);
-    const approvalRequired = approvalMatch !== null;
+    // Approvals requested during this run are decided through /api/approvals
+    const approvals = toolsUsed.includes('request_human_approval')
+      ? (await listPendingApprovals(sessionId)).filter(a => a.created_at >= startedAt)
+      : [];
 
     return {
       response,
-      approvalRequired,
-      approvalId: approvalMatch?.[0],
+      approvalRequired: approvals.length > 0,
+      approvalId: approvals[0]?.id,
+      approvals,
       toolsUsed,
     };
   } catch (error) {
@@ -354,12 +451,79 @@ export async function processMessage(
   }
 }
 
+/**
+ * Describe the outcome of a decided approval for the chat
+ */
+function describeApproval(approval: Approval): string {
+  if (approval.status === 'rejected') {
+    return `Operation cancelled: ${approval.description}. Is there anything else I can help you with?`;
+  }
+
+  let output: { message?: string; error?: string; results?: Record<string, unknown> } = {};
+  try {
+    output = JSON.parse(approval.result || '{}');
+  } catch {
+    output = { message: approval.result ?? undefined };
+  }
+
+  if (approval.status === 'failed') {
+    return `The approved operation (${approval.description}) failed: ${output.error || 'Unknown error'}`;
+  }
+
+  const lines = [`**Approved:** ${approval.description}`, '', output.message || 'The operation completed successfully.'];
+  if (output.results && typeof output.results === 'object') {
+    for (const [key, value] of Object.entries(output.results)) {
+      if (typeof value !== 'object') lines.push(`- ${key.replace(/_/g, ' ')}: ${value}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Approve (running the stored tool call exactly) or reject an approval from the chat UI
+ * The decision and its outcome are added to the history and the agent state, so later turns know about them
+ * @throws ApprovalError when the approval isn't pending in this session, has expired, or the role can't run it
+ */
+export async function decideApproval(
+  sessionId: string,
+  approvalId: string,
+  decision: 'approve' | 'reject',
+  role: Role
+): Promise<{ approval: Approval; response: string; toolsUsed: string[] }> {
+  const approval = decision === 'approve'
+    ? await executeApproval(sessionId, approvalId, role)
+    : await rejectApproval(sessionId, approvalId);
+
+  const userMessage = `${decision === 'approve' ? 'Approved' : 'Rejected'}: ${approval.description}`;
+  const response = describeApproval(approval);
+  const toolsUsed = decision === 'approve' ? [approval.tool_name] : [];
+
+  await addMessage(sessionId, 'user', userMessage);
+  await addMessage(sessionId, 'assistant', response, toolsUsed);
+
+  // The operation already ran, so a missing checkpoint entry only costs the model some context
+  try {
+    const agent = createAgent(createModel(), SYSTEM_PROMPT, getMemoryConfig().recentTurns);
+    await agent.updateState(
+      { configurable: { thread_id: sessionId } },
+      { messages: [new HumanMessage(userMessage), new AIMessage(response)] },
+      'agent'
+    );
+  } catch (error) {
+    console.error('[Agent] Failed to record approval outcome in agent state:', error);
+  }
+
+  return { approval, response, toolsUsed };
+}
+
 /**
  * Get conversation history for a session (public API)
  */
 export async function getConversationHistory(sessionId: string): Promise<Array<{
   role: 'user' | 'assistant';
   content: string;
+  toolsUsed: string[];
 }>> {
-  return getHistory(sessionId);
+  const messages = await getMessages(sessionId);
+  return messages.map(m => ({ role: m.role, content: m.content, toolsUsed: m.tools_used }));
 }
@@ -0,0 +1,154 @@
+// Human-in-the-loop approvals
+// Each approval belongs to one conversation and stores the exact tool call it guards, so
+// approving runs that call as-is instead of asking the model to repeat it
+
+import type { StructuredToolInterface } from '@langchain/core/tools';
+import type { AnyZodObject } from 'zod';
+import type { Role } from '@/lib/auth/roles';
+import { getRepository, type Approval } from '@/lib/db';
+import { fetchNhlGamesTool } from './tools/fetch-nhl-games';
+import { reconcileGamesTool } from './tools/reconcile-games';
+import { syncRecentGamesTool } from './tools/sync-recent-games';
+import { TOOL_ROLES, canUseTool } from './tool-roles';
+
+const APPROVAL_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Tools whose calls can be queued behind an approval
+ */
+export type ApprovableToolName = 'fetch_nhl_games' | 'sync_recent_games' | 'reconcile_games';
+
+/**
+ * What approving needs from a tool: an object schema to validate the stored arguments, and a string result
+ */
+type ApprovableTool = StructuredToolInterface<AnyZodObject, Record<string, unknown>, string>;
+
+export const APPROVABLE_TOOLS: Record<ApprovableToolName, ApprovableTool> = {
+  fetch_nhl_games: fetchNhlGamesTool,
+  sync_recent_games: syncRecentGamesTool,
+  reconcile_games: reconcileGamesTool,
+};
+
+export const APPROVABLE_TOOL_NAMES = Object.keys(APPROVABLE_TOOLS) as [ApprovableToolName, ...ApprovableToolName[]];
+
+/**
+ * Error raised when an approval can't be decided, with the HTTP status the API should return
+ */
+export class ApprovalError extends Error {
+  constructor(
+    message: string,
+    public status: 403 | 404 | 409 | 410
+  ) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+export interface NewApprovalRequest {
+  sessionId: string;
+  operationType: string;
+  description: string;
+  estimatedImpact: string;
+  toolName: ApprovableToolName;
+  toolArgs: Record<string, unknown>;
+}
+
+/**
+ * Store a pending approval for a conversation
+ * The tool arguments are validated against the tool's schema now, so approving can't fail on bad input
+ */
+export async function createApproval(request: NewApprovalRequest): Promise<Approval> {
+  const tool = APPROVABLE_TOOLS[request.toolName];
+  const toolArgs = await tool.schema.parseAsync(request.toolArgs);
+
+  return getRepository().approvals.insert({
+    id: `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    session_id: request.sessionId,
+    operation_type: request.operationType,
+    description: request.description,
+    estimated_impact: request.estimatedImpact,
+    tool_name: request.toolName,
+    tool_args: toolArgs,
+    expires_at: new Date(Date.now() + APPROVAL_TTL_MS).toISOString(),
+  });
+}
+
+export async function listPendingApprovals(sessionId: string): Promise<Approval[]> {
+  return getRepository().approvals.listPending(sessionId);
+}
+
+/**
+ * Load a pending approval owned by the session
+ * Approvals from other sessions are reported as not found
+ */
+async function getPendingApproval(sessionId: string, approvalId: string): Promise<Approval> {
+  const approval = await getRepository().approvals.get(approvalId);
+
+  if (!approval || approval.session_id !== sessionId) {
+    throw new ApprovalError(`Approval ${approvalId} not found`, 404);
+  }
+  if (approval.status !== 'pending') {
+    throw new ApprovalError(`Approval ${approvalId} was already ${approval.status}`, 409);
+  }
+  if (approval.expires_at <= new Date().toISOString()) {
+    throw new ApprovalError(`Approval ${approvalId} expired at ${approval.expires_at}`, 410);
+  }
+
+  return approval;
+}
+
+/**
+ * Claim a pending approval with a conditional status update, so a double-click can't run it twice
+ */
+async function decide(sessionId: string, approvalId: string, status: 'approved' | 'rejected'): Promise<Approval> {
+  await getPendingApproval(sessionId, approvalId);
+
+  const decided = await getRepository().approvals.transition(approvalId, 'pending', {
+    status,
+    decided_at: new Date().toISOString(),
+  });
+  if (!decided) {
+    throw new ApprovalError(`Approval ${approvalId} was already decided`, 409);
+  }
+
+  return decided;
+}
+
+/**
+ * Approve an operation and run its stored tool call
+ * The approval ends as executed, or failed when the tool reports an error
+ * @param role Role of the person approving; it must be allowed to use the tool
+ */
+export async function executeApproval(sessionId: string, approvalId: string, role: Role): Promise<Approval> {
+  const pending = await getPendingApproval(sessionId, approvalId);
+  if (!canUseTool(role, pending.tool_name)) {
+    throw new ApprovalError(`Approving ${pending.tool_name} requires the ${TOOL_ROLES[pending.tool_name]} role`, 403);
+  }
+
+  const approval = await decide(sessionId, approvalId, 'approved');
+  const tool = APPROVABLE_TOOLS[approval.tool_name as ApprovableToolName];
+
+  let result: string;
+  let succeeded: boolean;
+  try {
+    // The approval ID goes along so the tool's audit events show what authorized them
+    result = await tool.invoke(approval.tool_args, {
+      configurable: { thread_id: sessionId, approval_id: approval.id },
+    });
+    succeeded = JSON.parse(result).success !== false;
+  } catch (error) {
+    result = JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    succeeded = false;
+  }
+
+  const finished = await getRepository().approvals.transition(approvalId, 'approved', {
+    status: succeeded ? 'executed' : 'failed',
+    result,
+  });
+
+  return finished ?? { ...approval, status: succeeded ? 'executed' : 'failed', result };
+}
+
+export async function rejectApproval(sessionId: string, approvalId: string): Promise<Approval> {
+  return decide(sessionId, approvalId, 'rejected');
+}
@@ -0,0 +1,16 @@
+// Audit context for chat tools
+// Tools run with the chat session as thread_id; calls run from an approval also carry its ID
+
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { AuditContext } from '@/lib/db';
+
+/**
+ * Who is making a tool's changes, for audit events
+ */
+export function toolAuditContext(toolName: string, config?: RunnableConfig): AuditContext {
+  return {
+    source: `tool:${toolName}`,
+    session_id: config?.configurable?.thread_id ?? null,
+    approval_id: config?.configurable?.approval_id ?? null,
+  };
+}
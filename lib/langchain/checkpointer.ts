@@ -0,0 +1,166 @@
+// LangGraph checkpointer backed by the data access layer
+// Persists full agent state (messages, tool calls and tool results) per conversation thread,
+// so a conversation survives server restarts and serverless cold starts
+
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+  type ChannelVersions,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+} from '@langchain/langgraph-checkpoint';
+import { getRepository, type AgentCheckpoint } from '@/lib/db';
+
+/**
+ * Store serializer output as text: JSON stays readable, anything else is base64
+ */
+function encode(type: string, data: Uint8Array): string {
+  return type === 'json' ? new TextDecoder().decode(data) : Buffer.from(data).toString('base64');
+}
+
+function decode(type: string, value: string): Uint8Array | string {
+  return type === 'json' ? value : new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+export class RepositoryCheckpointSaver extends BaseCheckpointSaver {
+  private async toTuple(row: AgentCheckpoint): Promise<CheckpointTuple> {
+    const repo = getRepository();
+    const writes = await repo.checkpoints.listWrites(row.thread_id, row.checkpoint_ns, row.checkpoint_id);
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async w => [w.task_id, w.channel, await this.serde.loadsTyped(w.type, decode(w.type, w.value))] as CheckpointPendingWrite)
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, decode(row.type, row.checkpoint)),
+      metadata: await this.serde.loadsTyped(row.type, decode(row.type, row.metadata)),
+      pendingWrites,
+    };
+
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      };
+    }
+
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) return undefined;
+
+    const row = await getRepository().checkpoints.get(
+      threadId,
+      config.configurable?.checkpoint_ns ?? '',
+      getCheckpointId(config) || undefined
+    );
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options: CheckpointListOptions = {}): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options;
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    const rows = await getRepository().checkpoints.list({
+      threadId: config.configurable?.thread_id,
+      checkpointNs: config.configurable?.checkpoint_ns,
+      before: before?.configurable?.checkpoint_id,
+    });
+
+    let remaining = limit;
+    for (const row of rows) {
+      if (checkpointId && row.checkpoint_id !== checkpointId) continue;
+      if (remaining !== undefined && remaining <= 0) break;
+
+      const tuple = await this.toTuple(row);
+      const metadata = tuple.metadata as Record<string, unknown> | undefined;
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata?.[key] === value)) continue;
+
+      if (remaining !== undefined) remaining--;
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+    _newVersions: ChannelVersions
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) {
+      throw new Error('Failed to put checkpoint: the config is missing "configurable.thread_id".');
+    }
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    const [[type, serializedCheckpoint], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+
+    await getRepository().checkpoints.put({
+      thread_id: threadId,
+      checkpoint_ns: checkpointNs,
+      checkpoint_id: checkpoint.id,
+      parent_checkpoint_id: config.configurable?.checkpoint_id ?? null,
+      type,
+      checkpoint: encode(type, serializedCheckpoint),
+      metadata: encode(type, serializedMetadata),
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!threadId || !checkpointId) {
+      throw new Error('Failed to put writes: the config is missing "configurable.thread_id" or "configurable.checkpoint_id".');
+    }
+
+    const rows = await Promise.all(writes.map(async ([channel, value], idx) => {
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      return {
+        thread_id: threadId,
+        checkpoint_ns: config.configurable?.checkpoint_ns ?? '',
+        checkpoint_id: checkpointId,
+        task_id: taskId,
+        idx: WRITES_IDX_MAP[channel] ?? idx,
+        channel,
+        type,
+        value: encode(type, serialized),
+      };
+    }));
+
+    await getRepository().checkpoints.putWrites(rows);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await getRepository().checkpoints.deleteThread(threadId);
+  }
+}
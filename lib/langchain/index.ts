@@ -1,18 +1,13 @@
 // LangChain Agent exports for NHL Period Analyzer
 // ReAct pattern implementation with tools and memory management
 
-export { processMessage, getConversationHistory, clearMemory } from './agent';
+export { processMessage, getConversationHistory, clearMemory, decideApproval } from './agent';
+export type { AgentStreamEvent, AgentEventHandler } from './agent';
+export { reportToolProgress } from './progress';
 
 // Export individual tools for testing or direct use
 export { queryPeriodDataTool } from './tools/query-period-data';
 export { fetchNhlGamesTool } from './tools/fetch-nhl-games';
 export { calculateTeamStatsTool } from './tools/calculate-team-stats';
-export {
-  requestHumanApprovalTool,
-  checkApproval,
-  approveOperation,
-  rejectOperation,
-  getPendingApprovals,
-  findApprovalInMessage,
-  isRejectionMessage,
-} from './tools/request-human-approval';
+export { requestHumanApprovalTool } from './tools/request-human-approval';
+export { ApprovalError, createApproval, listPendingApprovals } from './approvals';
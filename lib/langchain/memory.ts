@@ -0,0 +1,160 @@
+// Conversation memory
+// Chat history and rolling summaries are stored in the database; the agent's full state
+// (including tool calls) is stored separately by the checkpointer
+
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { getRepository, type Conversation, type ConversationMessage, type ConversationRole } from '@/lib/db';
+
+export interface MemoryConfig {
+  /** User turns (with their tool calls and answers) sent to the model verbatim */
+  recentTurns: number;
+  /** Fold turns that leave the recent window into a summary instead of dropping them */
+  summarize: boolean;
+  /** Summarize once this many turns are waiting outside the window (batches model calls) */
+  summarizeBatch: number;
+  /** Delete conversations idle for this many days (0 = keep forever) */
+  retentionDays: number;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Memory settings from the environment
+ * CHAT_MEMORY_RECENT_TURNS (10), CHAT_MEMORY_SUMMARIZE (true), CHAT_MEMORY_SUMMARY_BATCH (5),
+ * CHAT_RETENTION_DAYS (30)
+ */
+export function getMemoryConfig(): MemoryConfig {
+  return {
+    recentTurns: Math.max(1, readInt('CHAT_MEMORY_RECENT_TURNS', 10)),
+    summarize: (process.env.CHAT_MEMORY_SUMMARIZE || 'true').toLowerCase() !== 'false',
+    summarizeBatch: Math.max(1, readInt('CHAT_MEMORY_SUMMARY_BATCH', 5)),
+    retentionDays: readInt('CHAT_RETENTION_DAYS', 30),
+  };
+}
+
+/**
+ * Get or create a conversation, sweeping expired ones when a new conversation starts
+ * With an owner, a conversation that has none yet is claimed for them
+ */
+export async function ensureConversation(sessionId: string, owner?: string): Promise<Conversation> {
+  const repo = getRepository();
+
+  if (!(await repo.conversations.get(sessionId))) {
+    const { retentionDays } = getMemoryConfig();
+    if (retentionDays > 0) {
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+      const deleted = await repo.conversations.deleteInactiveSince(cutoff);
+      if (deleted.length > 0) {
+        console.log(`[Memory] Deleted ${deleted.length} conversations idle for more than ${retentionDays} days`);
+      }
+    }
+  }
+
+  return repo.conversations.touch(sessionId, owner);
+}
+
+/**
+ * Whether a caller may use a conversation, claiming it if nobody owns it yet
+ * (new conversations, and those started before owners were recorded)
+ */
+export async function claimConversation(sessionId: string, owner: string): Promise<boolean> {
+  const conversation = await ensureConversation(sessionId, owner);
+  return conversation.owner === owner;
+}
+
+/**
+ * Append a user-visible message to the conversation history
+ */
+export async function addMessage(
+  sessionId: string,
+  role: ConversationRole,
+  content: string,
+  toolsUsed: string[] = []
+): Promise<void> {
+  await ensureConversation(sessionId);
+  await getRepository().conversationMessages.insert({ session_id: sessionId, role, content, tools_used: toolsUsed });
+}
+
+export async function getMessages(sessionId: string): Promise<ConversationMessage[]> {
+  return getRepository().conversationMessages.list(sessionId);
+}
+
+/**
+ * Delete a conversation with its history, summary and checkpoints
+ */
+export async function deleteConversation(sessionId: string): Promise<void> {
+  await getRepository().conversations.delete(sessionId);
+}
+
+/**
+ * The last N user turns of the agent state, starting at a human message so every
+ * tool call stays paired with its result
+ */
+export function recentTurns(messages: BaseMessage[], turns: number): BaseMessage[] {
+  let seen = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === 'human' && ++seen === turns) {
+      return messages.slice(i);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Group history into turns: a user message followed by the answers to it
+ */
+function groupTurns(messages: ConversationMessage[]): ConversationMessage[][] {
+  const turns: ConversationMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) turns.push([]);
+    turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+/**
+ * Fold turns that have left the recent window into the conversation summary
+ * Runs only once a full batch is waiting, so most messages cost no extra model call
+ */
+export async function summarizeOlderTurns(sessionId: string, model: BaseChatModel): Promise<void> {
+  const config = getMemoryConfig();
+  if (!config.summarize) return;
+
+  const repo = getRepository();
+  const conversation = await repo.conversations.get(sessionId);
+  if (!conversation) return;
+
+  const turns = groupTurns(await repo.conversationMessages.list(sessionId));
+  const summarizeThrough = turns.length - config.recentTurns;
+  if (summarizeThrough - conversation.summarized_turns < config.summarizeBatch) return;
+
+  const transcript = turns
+    .slice(conversation.summarized_turns, summarizeThrough)
+    .flat()
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n\n');
+
+  const response = await model.invoke([
+    new SystemMessage(
+      'Summarize this NHL analytics conversation for the assistant to use as memory. ' +
+      'Keep teams, seasons, date ranges, imported data, numeric findings and open questions. ' +
+      'Reply with the summary only, in at most 200 words.'
+    ),
+    new HumanMessage(
+      (conversation.summary ? `Summary so far:\n${conversation.summary}\n\n` : '') +
+      `New turns:\n${transcript}`
+    ),
+  ]);
+
+  const summary = typeof response.content === 'string'
+    ? response.content
+    : response.content.map(c => (c.type === 'text' ? c.text : '')).join('');
+
+  if (summary.trim()) {
+    await repo.conversations.updateSummary(sessionId, summary.trim(), summarizeThrough);
+  }
+}
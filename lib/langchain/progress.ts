@@ -0,0 +1,19 @@
+// Tool progress events
+// Long-running tools report progress as LangChain custom events; /api/chat forwards them over SSE
+
+import { dispatchCustomEvent } from '@langchain/core/callbacks/dispatch';
+import type { RunnableConfig } from '@langchain/core/runnables';
+
+export const TOOL_PROGRESS_EVENT = 'tool_progress';
+
+/**
+ * Report progress from inside a tool (e.g. "Fetching 42 games...")
+ * A no-op when the tool runs outside an agent run, such as from a script
+ */
+export async function reportToolProgress(message: string, config?: RunnableConfig): Promise<void> {
+  try {
+    await dispatchCustomEvent(TOOL_PROGRESS_EVENT, { message }, config);
+  } catch {
+    // No parent run to attach the event to
+  }
+}
@@ -0,0 +1,19 @@
+// Tool access by role
+// runAgent only gives the model the tools the caller's role allows; approvals check again before
+// running a stored call, since the person approving may not be the one who asked
+
+import { hasRole, type Role } from '@/lib/auth/roles';
+
+/**
+ * Least role that may use each tool (tools not listed are open to viewers)
+ */
+export const TOOL_ROLES: Record<string, Role> = {
+  fetch_nhl_games: 'analyst',
+  sync_recent_games: 'analyst',
+  request_human_approval: 'analyst',
+  reconcile_games: 'admin',
+};
+
+export function canUseTool(role: Role, toolName: string): boolean {
+  return hasRole(role, TOOL_ROLES[toolName] ?? 'viewer');
+}
@@ -0,0 +1,121 @@
+// Tool: Analyze Goals
+// Goal-level questions: who decides periods, and when periods get decided
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { getRepository } from '@/lib/db';
+import { queryLatePeriodLeads, queryPeriodDecidingGoals } from '@/lib/db/goal-queries';
+import { TEAM_GROUP_BY, getTeamGrouping } from '@/lib/analytics/franchises';
+
+export const analyzeGoalsTool = new DynamicStructuredTool({
+  name: 'analyze_goals',
+  description: `Analyze individual goals (scorer, assists, time in period, shot type, strength).
+    Use this tool to:
+    - Find who scores the period-winning goals for a team ("deciding_goals")
+    - Measure how often won periods were decided late ("late_leads")
+    - List a team's goals with scorers and assists ("goal_log")
+
+    A period's deciding goal is the one that put the period winner ahead for good in that period.
+    Great for answering questions like "Who scores the period-winning goals for CAR?" or
+    "How often do 2nd-period leads come from late goals?"`,
+  schema: z.object({
+    analysis: z.enum(['deciding_goals', 'late_leads', 'goal_log']).default('deciding_goals')
+      .describe('Which analysis to run'),
+    teamCode: z.string().optional().describe('3-letter team code (e.g., CAR); omit for the whole league'),
+    season: z.string().optional().describe('Season (e.g., "2024-2025")'),
+    gameType: z.enum(['Regular Season', 'Playoffs']).optional().describe('Restrict to regular season or playoff games'),
+    periodNumber: z.number().min(1).max(10).optional()
+      .describe('Restrict to one period (default: regulation periods 1-3)'),
+    lateWindowMinutes: z.number().min(1).max(20).default(5)
+      .describe('For late_leads: a goal counts as late in the final N minutes of the period'),
+    limit: z.number().min(1).max(100).default(20).describe('Maximum rows to return'),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('franchise includes goals scored under a relocated team\'s earlier codes (e.g. ARI for UTA)'),
+  }),
+  func: async ({ analysis = 'deciding_goals', teamCode, season, gameType, periodNumber, lateWindowMinutes = 5, limit = 20, groupBy = 'team_code' }) => {
+    try {
+      const code = teamCode?.toUpperCase();
+      const repo = getRepository();
+
+      if (code && !(await repo.teams.exists(code))) {
+        return JSON.stringify({
+          success: false,
+          error: `Team ${code} not found. Use lookup_team to find the correct code.`,
+        });
+      }
+
+      const teamCodes = code ? (await getTeamGrouping(groupBy)).codesFor(code) : undefined;
+      const filter = { teamCode: code, teamCodes, season, gameType, periodNumber };
+
+      if (analysis === 'deciding_goals') {
+        const { goals, scorers } = await queryPeriodDecidingGoals(filter);
+
+        return JSON.stringify({
+          success: true,
+          analysis,
+          filters: filter,
+          periods_decided: goals.length,
+          top_scorers: scorers.slice(0, limit),
+          recent_deciding_goals: goals.slice(0, limit),
+          message: goals.length === 0
+            ? 'No goal data found. Goals are stored for games ingested from the landing endpoint; run the backfill with --force for older games.'
+            : undefined,
+        });
+      }
+
+      if (analysis === 'late_leads') {
+        const periods = await queryLatePeriodLeads(filter, lateWindowMinutes);
+        const periodsWon = periods.reduce((sum, p) => sum + p.periods_won, 0);
+        const decidedLate = periods.reduce((sum, p) => sum + p.decided_late, 0);
+
+        return JSON.stringify({
+          success: true,
+          analysis,
+          filters: { ...filter, lateWindowMinutes },
+          summary: {
+            periods_won: periodsWon,
+            decided_late: decidedLate,
+            late_share: periodsWon > 0 ? Math.round((decidedLate / periodsWon) * 1000) / 10 : 0,
+          },
+          by_period: periods,
+        });
+      }
+
+      // Most recent first across every code of the franchise
+      const goals = (await Promise.all((teamCodes ?? [undefined]).map(c => repo.goals.list({
+        teamCode: c,
+        season,
+        gameType,
+        periodNumber,
+        ascending: false,
+        limit,
+      }))))
+        .flat()
+        .sort((a, b) => b.game_id.localeCompare(a.game_id) || b.goal_number - a.goal_number)
+        .slice(0, limit);
+
+      return JSON.stringify({
+        success: true,
+        analysis,
+        filters: filter,
+        goals: goals.map(g => ({
+          game_id: g.game_id,
+          period: g.period_number,
+          time: g.time_in_period,
+          team: g.team_code,
+          scorer: g.scorer_name,
+          assists: [g.assist1_name, g.assist2_name].filter(Boolean),
+          shot_type: g.shot_type,
+          strength: g.strength,
+          empty_net: g.is_empty_net,
+          score: `${g.away_score}-${g.home_score} (away-home)`,
+        })),
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+});
@@ -0,0 +1,162 @@
+// Tool: Analyze Period Play
+// Compare winning a period on the scoreboard with winning it on shots and shot attempts
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { getRepository, type PeriodPlayStats } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, applyRuleSet } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, getTeamGrouping } from '@/lib/analytics/franchises';
+
+interface TeamPlaySummary {
+  team_code: string;
+  periods: number;
+  periods_won: number;
+  periods_won_on_shots: number;
+  periods_won_on_attempts: number;
+  /** Won on the scoreboard while losing the shot-attempt battle */
+  periods_won_while_outshot: number;
+  shots_on_goal: number;
+  shots_against: number;
+  shot_attempts: number;
+  shot_attempts_against: number;
+  faceoffs_won: number;
+  faceoffs_lost: number;
+  hits: number;
+  penalty_minutes: number;
+}
+
+export const analyzePeriodPlayTool = new DynamicStructuredTool({
+  name: 'analyze_period_play',
+  description: `Compare period results on the scoreboard with play-by-play metrics (shots, shot attempts/Corsi, faceoffs, hits, penalty minutes).
+    Use this tool to:
+    - See whether a team wins periods on shots as well as on the scoreboard
+    - Spot "lucky" teams that win periods while being outshot
+    - Compare Corsi (shot attempt share), faceoff percentage and penalty minutes per period
+
+    Regulation periods only. Requires play-by-play stats (npm run ingest:play-stats).`,
+  schema: z.object({
+    teamCode: z.string().optional().describe('3-letter team code (e.g., CAR); omit to rank the league'),
+    season: z.string().optional().describe('Season (e.g., "2024-2025")'),
+    periodNumber: z.number().min(1).max(3).optional().describe('Restrict to one regulation period'),
+    sortBy: z.enum(['luck', 'corsi_pct', 'shot_pct_won']).default('luck')
+      .describe('League ranking order: luck = share of won periods where the team was out-attempted'),
+    limit: z.number().min(1).max(32).default(10).describe('Teams to return when ranking the league'),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('franchise combines a relocated team\'s codes under the current team (e.g. ATL into WPG)'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+  }),
+  func: async ({ teamCode, season, periodNumber, sortBy = 'luck', limit = 10, groupBy = 'team_code', ruleSet = DEFAULT_RULE_SET }) => {
+    try {
+      const code = teamCode?.toUpperCase();
+      const repo = getRepository();
+
+      if (code && !(await repo.teams.exists(code))) {
+        return JSON.stringify({
+          success: false,
+          error: `Team ${code} not found. Use lookup_team to find the correct code.`,
+        });
+      }
+
+      const grouping = await getTeamGrouping(groupBy);
+      const codes: Array<string | undefined> = code ? grouping.codesFor(code) : [undefined];
+      const [playStats, periodResults] = await Promise.all([
+        Promise.all(codes.map(c => repo.periodPlayStats.list({ teamCode: c, season }))).then(rows => rows.flat()),
+        Promise.all(codes.map(c => repo.periodResults.list({ teamCode: c, season, periodNumber, maxPeriodNumber: 3 })))
+          .then(rows => rows.flat()),
+      ]);
+
+      if (playStats.length === 0) {
+        return JSON.stringify({
+          success: true,
+          message: 'No play-by-play stats found. Run "npm run ingest:play-stats" to ingest them.',
+          teams: [],
+        });
+      }
+
+      const gameIds = [...new Set(periodResults.map(pr => pr.game_id))];
+      const applied = await applyRuleSet(gameIds.length > 0 ? await repo.gameTeamResults.list({ gameIds }) : [], ruleSet);
+      const outcomeOf = (pr: (typeof periodResults)[number]) =>
+        applied.periodOutcomes.get(`${pr.game_id}:${pr.team_code}:${pr.period_number}`) ?? pr.period_outcome;
+
+      const statsByPeriod = new Map<string, PeriodPlayStats>(
+        playStats.map(s => [`${s.game_id}:${s.team_code}:${s.period_number}`, s])
+      );
+      const summaries = new Map<string, TeamPlaySummary>();
+
+      for (const pr of periodResults) {
+        const stats = statsByPeriod.get(`${pr.game_id}:${pr.team_code}:${pr.period_number}`);
+        if (!stats) continue;
+
+        const key = grouping.keyOf(pr.team_code);
+        let summary = summaries.get(key);
+        if (!summary) {
+          summary = {
+            team_code: key,
+            periods: 0,
+            periods_won: 0,
+            periods_won_on_shots: 0,
+            periods_won_on_attempts: 0,
+            periods_won_while_outshot: 0,
+            shots_on_goal: 0,
+            shots_against: 0,
+            shot_attempts: 0,
+            shot_attempts_against: 0,
+            faceoffs_won: 0,
+            faceoffs_lost: 0,
+            hits: 0,
+            penalty_minutes: 0,
+          };
+          summaries.set(key, summary);
+        }
+
+        const outcome = outcomeOf(pr);
+        summary.periods++;
+        if (outcome === 'WIN') summary.periods_won++;
+        if (stats.shots_on_goal > stats.shots_against) summary.periods_won_on_shots++;
+        if (stats.shot_attempts > stats.shot_attempts_against) summary.periods_won_on_attempts++;
+        if (outcome === 'WIN' && stats.shot_attempts < stats.shot_attempts_against) {
+          summary.periods_won_while_outshot++;
+        }
+        summary.shots_on_goal += stats.shots_on_goal;
+        summary.shots_against += stats.shots_against;
+        summary.shot_attempts += stats.shot_attempts;
+        summary.shot_attempts_against += stats.shot_attempts_against;
+        summary.faceoffs_won += stats.faceoffs_won;
+        summary.faceoffs_lost += stats.faceoffs_lost;
+        summary.hits += stats.hits;
+        summary.penalty_minutes += stats.penalty_minutes;
+      }
+
+      const pct = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+      const teams = [...summaries.values()].map(s => ({
+        ...s,
+        period_win_pct: pct(s.periods_won, s.periods),
+        shot_pct_won: pct(s.periods_won_on_shots, s.periods),
+        corsi_pct: pct(s.shot_attempts, s.shot_attempts + s.shot_attempts_against),
+        faceoff_pct: pct(s.faceoffs_won, s.faceoffs_won + s.faceoffs_lost),
+        luck_pct: pct(s.periods_won_while_outshot, s.periods_won),
+      }));
+
+      const sortKey = sortBy === 'luck' ? 'luck_pct' : sortBy;
+      teams.sort((a, b) => b[sortKey] - a[sortKey] || a.team_code.localeCompare(b.team_code));
+
+      return JSON.stringify({
+        success: true,
+        filters: { teamCode: code, season, periodNumber, sortBy, groupBy },
+        rule_set: applied.ruleSet,
+        ...(applied.missingGoalData.length > 0 && { games_missing_goal_data: applied.missingGoalData.length }),
+        teams: code ? teams : teams.slice(0, limit),
+        insight: teams.length > 0
+          ? `${teams[0].team_code} won ${teams[0].luck_pct}% of its periods while losing the shot-attempt battle`
+          : 'No periods with both scoreboard and play-by-play data',
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+});
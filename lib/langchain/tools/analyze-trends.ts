@@ -3,7 +3,9 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository, type Game, type GameTeamResult } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, applyRuleSet } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, getTeamGrouping } from '@/lib/analytics/franchises';
 
 export const analyzeTrendsTool = new DynamicStructuredTool({
   name: 'analyze_trends',
@@ -24,17 +26,19 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
       .describe('Time window for grouping (default: monthly)'),
     season: z.string().optional()
       .describe('Season to analyze (e.g., "2024-2025")'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('franchise follows a relocated team through its earlier codes (e.g. ATL then WPG)'),
   }),
-  func: async ({ teamCode, metric = 'periods_won', window = 'monthly', season }) => {
+  func: async ({ teamCode, metric = 'periods_won', window = 'monthly', season, ruleSet = DEFAULT_RULE_SET, groupBy = 'team_code' }) => {
     try {
       const code = teamCode.toUpperCase();
 
+      const repo = getRepository();
+
       // Validate team exists
-      const { data: team } = await supabase
-        .from('teams')
-        .select('*')
-        .eq('team_code', code)
-        .single();
+      const team = await repo.teams.getByCode(code);
 
       if (!team) {
         return JSON.stringify({
@@ -43,35 +47,26 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
         });
       }
 
-      // Get all games for the team
-      let gamesQuery = supabase
-        .from('games')
-        .select('*')
-        .or(`home_team_code.eq.${code},away_team_code.eq.${code}`)
-        .order('game_date', { ascending: true });
-
-      if (season) {
-        gamesQuery = gamesQuery.eq('season', season);
-      }
+      // Get all games for the team (under every code of its franchise when grouping by franchise)
+      const codes = (await getTeamGrouping(groupBy)).codesFor(code);
+      const games = (await Promise.all(codes.map(c => repo.games.list({ teamCode: c, season, ascending: true }))))
+        .flat()
+        .sort((a, b) => a.game_date.localeCompare(b.game_date) || a.game_id.localeCompare(b.game_id));
 
-      const { data: games } = await gamesQuery;
-
-      if (!games || games.length === 0) {
+      if (games.length === 0) {
         return JSON.stringify({
           success: true,
-          team: { code: team.team_code, name: team.team_name },
+          team: { code: team.team_code, name: team.team_name, team_codes: codes },
           message: 'No games found for analysis',
           trend_data: [],
         });
       }
 
-      // Get period results
+      // Get this team's final results for those games
       const gameIds = games.map(g => g.game_id);
-      const { data: periodResults } = await supabase
-        .from('period_results')
-        .select('*')
-        .in('game_id', gameIds)
-        .eq('team_code', code);
+      const teamResults = (await repo.gameTeamResults.list({ gameIds })).filter(r => codes.includes(r.team_code));
+      const applied = await applyRuleSet(teamResults, ruleSet);
+      const gameResults = applied.results;
 
       // Group games by time window
       const gamesByWindow = new Map<string, typeof games>();
@@ -103,17 +98,14 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
         period: string;
         games: number;
         value: number;
-        details: any;
+        details: Record<string, unknown>;
       }> = [];
 
       if (window === 'rolling10') {
         // Calculate rolling 10-game averages
         for (let i = 9; i < games.length; i++) {
           const windowGames = games.slice(i - 9, i + 1);
-          const windowGameIds = windowGames.map(g => g.game_id);
-          const windowPeriods = periodResults?.filter(pr => windowGameIds.includes(pr.game_id)) || [];
-
-          const stats = calculateWindowStats(windowGames, windowPeriods, code);
+          const stats = calculateWindowStats(windowGames, gameResults);
           const value = getMetricValue(stats, metric);
 
           trendData.push({
@@ -125,10 +117,7 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
         }
       } else {
         for (const [windowKey, windowGames] of Array.from(gamesByWindow.entries()).sort()) {
-          const windowGameIds = windowGames.map(g => g.game_id);
-          const windowPeriods = periodResults?.filter(pr => windowGameIds.includes(pr.game_id)) || [];
-
-          const stats = calculateWindowStats(windowGames, windowPeriods, code);
+          const stats = calculateWindowStats(windowGames, gameResults);
           const value = getMetricValue(stats, metric);
 
           trendData.push({
@@ -163,10 +152,12 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
 
       return JSON.stringify({
         success: true,
-        team: { code: team.team_code, name: team.team_name },
+        team: { code: team.team_code, name: team.team_name, team_codes: codes },
+        group_by: groupBy,
         metric,
         window,
         season: season || 'all',
+        rule_set: applied.ruleSet,
         total_games: games.length,
         trend_direction: trendDirection,
         analysis: {
@@ -185,41 +176,20 @@ export const analyzeTrendsTool = new DynamicStructuredTool({
   },
 });
 
-function calculateWindowStats(games: any[], periodResults: any[], teamCode: string) {
-  const regulationPeriods = periodResults.filter(pr => pr.period_number <= 3);
-  const periodsWon = regulationPeriods.filter(pr => pr.period_outcome === 'WIN').length;
-  const totalPeriods = regulationPeriods.length;
-
-  let wins = 0;
-  let goodWins = 0;
-  let badWins = 0;
-  let totalGoals = 0;
-
+function calculateWindowStats(games: Game[], gameResults: GameTeamResult[]) {
   const gameIds = new Set(games.map(g => g.game_id));
-  const processedGames = new Set<string>();
-
-  for (const pr of periodResults) {
-    if (processedGames.has(pr.game_id)) continue;
-    if (!gameIds.has(pr.game_id)) continue;
-
-    const gamePeriods = periodResults.filter(p => p.game_id === pr.game_id);
-    const goalsFor = gamePeriods.reduce((sum, p) => sum + p.goals_for, 0);
-    const goalsAgainst = gamePeriods.reduce((sum, p) => sum + p.goals_against, 0);
-    const wonTwoPlus = gamePeriods.some(p => p.won_two_plus_reg_periods);
-
-    totalGoals += goalsFor;
-
-    if (goalsFor > goalsAgainst) {
-      wins++;
-      if (wonTwoPlus) {
-        goodWins++;
-      } else {
-        badWins++;
-      }
-    }
-
-    processedGames.add(pr.game_id);
-  }
+  const results = gameResults.filter(r => gameIds.has(r.game_id));
+
+  const periodsWon = results.reduce((sum, r) => sum + r.regulation_periods_won, 0);
+  const totalPeriods = results.reduce(
+    (sum, r) => sum + r.regulation_periods_won + r.regulation_periods_lost + r.regulation_periods_tied,
+    0
+  );
+  const totalGoals = results.reduce((sum, r) => sum + r.goals_for, 0);
+
+  const wins = results.filter(r => r.result === 'WIN').length;
+  const goodWins = results.filter(r => r.win_quality === 'GOOD').length;
+  const badWins = results.filter(r => r.win_quality === 'BAD').length;
 
   return {
     games: games.length,
@@ -3,7 +3,10 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository, type TeamSeasonSummary } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, listTeamSeasonSummaries } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, getTeamGrouping, groupTeamSeasonSummaries } from '@/lib/analytics/franchises';
+import { getSeasonAlignment, getTeamAlignment } from '@/lib/analytics/alignment';
 
 export const calculateTeamStatsTool = new DynamicStructuredTool({
   name: 'calculate_team_stats',
@@ -23,161 +26,79 @@ export const calculateTeamStatsTool = new DynamicStructuredTool({
     teamCode: z.string().optional().describe('3-letter NHL team code (e.g., CAR, TBL). Leave empty for all teams.'),
     season: z.string().optional().describe('Season in YYYY-YYYY format (e.g., 2024-2025)'),
     conference: z.enum(['Eastern', 'Western']).optional().describe('Filter by conference'),
-    division: z.enum(['Atlantic', 'Metropolitan', 'Central', 'Pacific']).optional().describe('Filter by division'),
+    division: z.string().optional()
+      .describe('Filter by division as named in that season (e.g., Metropolitan; Southeast or Northwest before 2013-2014)'),
     sortBy: z.enum(['points', 'good_wins', 'difference', 'periods_won']).default('points').describe('Sort results by this metric'),
+    strength: z.enum(['all', '5v5']).default('all').describe('Decide periods by all goals, or by 5-on-5 goals only (strips power-play, shorthanded and empty-net goals)'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set, "name" or "name@version": ${RULE_SETS.map(r => `${r.name} (${r.description})`).join('; ')}`),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('team_code keeps relocated teams separate (ARI, UTA); franchise combines them under the current team (UTA)'),
   }),
-  func: async ({ teamCode, season, conference, division, sortBy }) => {
+  func: async ({ teamCode, season, conference, division, sortBy, strength = 'all', ruleSet = DEFAULT_RULE_SET, groupBy = 'team_code' }) => {
     try {
-      // Step 1: Get teams with optional filters
-      let teamsQuery = supabase.from('teams').select('*');
-
-      if (teamCode) {
-        teamsQuery = teamsQuery.eq('team_code', teamCode.toUpperCase());
-      }
-      if (conference) {
-        teamsQuery = teamsQuery.eq('conference', conference);
-      }
-      if (division) {
-        teamsQuery = teamsQuery.eq('division', division);
-      }
-
-      const { data: teams, error: teamsError } = await teamsQuery;
-
-      if (teamsError) {
-        return JSON.stringify({
-          success: false,
-          error: teamsError.message,
-        });
-      }
-
-      if (!teams || teams.length === 0) {
+      const repo = getRepository();
+      const grouping = await getTeamGrouping(groupBy);
+
+      // Conferences and divisions as they were in the season (today's when no season is given or it isn't synced)
+      const alignment = await getSeasonAlignment(season);
+      const alignmentOf = (code: string) => getTeamAlignment(
+        alignment,
+        grouping.codesFor(code).find(c => getTeamAlignment(alignment, c).division !== null) ?? code
+      );
+
+      // Step 1: Get teams with optional filters (one row per franchise when grouping by franchise)
+      const teams = (await repo.teams.list({
+        teamCodes: teamCode ? grouping.codesFor(teamCode.toUpperCase()) : undefined,
+      }))
+        .filter(t => grouping.keyOf(t.team_code) === t.team_code)
+        .filter(t => !conference || alignmentOf(t.team_code).conference === conference)
+        .filter(t => !division || alignmentOf(t.team_code).division?.toLowerCase() === division.toLowerCase());
+
+      if (teams.length === 0) {
         return JSON.stringify({
           success: false,
           error: 'No teams found matching the criteria.',
         });
       }
 
-      // Step 2: Calculate statistics for each team
-      const teamStats = [];
-
-      for (const team of teams) {
-        // Get all period results for this team
-        let periodQuery = supabase
-          .from('period_results')
-          .select(`
-            *,
-            games (
-              game_id,
-              game_date,
-              season,
-              home_team_code,
-              away_team_code
-            )
-          `)
-          .eq('team_code', team.team_code);
-
-        const { data: periodResults, error: periodError } = await periodQuery;
-
-        if (periodError) {
-          console.error(`Error fetching period results for ${team.team_code}:`, periodError);
-          continue;
-        }
-
-        // Filter by season if provided
-        let filteredResults = periodResults || [];
-        if (season) {
-          filteredResults = filteredResults.filter((r: any) => r.games?.season === season);
-        }
-
-        // Calculate period statistics
-        const periodsWon = filteredResults.filter((r: any) => r.period_outcome === 'WIN').length;
-        const periodsLost = filteredResults.filter((r: any) => r.period_outcome === 'LOSS').length;
-        const periodsTied = filteredResults.filter((r: any) => r.period_outcome === 'TIE').length;
-
-        // Get unique games and calculate game-level stats
-        const gameMap = new Map<string, any>();
-        for (const result of filteredResults) {
-          if (result.games?.game_id) {
-            if (!gameMap.has(result.games.game_id)) {
-              gameMap.set(result.games.game_id, {
-                game_id: result.games.game_id,
-                game_date: result.games.game_date,
-                home_team_code: result.games.home_team_code,
-                away_team_code: result.games.away_team_code,
-                is_home: result.games.home_team_code === team.team_code,
-                won_two_plus: result.won_two_plus_reg_periods,
-                periods: [],
-              });
-            }
-            gameMap.get(result.games.game_id).periods.push(result);
-          }
-        }
-
-        // Calculate game outcomes
-        let wins = 0;
-        let losses = 0;
-        let otLosses = 0;
-        let goodWins = 0;
-        let badWins = 0;
-
-        for (const [, gameData] of gameMap) {
-          // Calculate total goals for this team in the game
-          const regulationPeriods = gameData.periods.filter((p: any) => p.period_number <= 3);
-          const totalGoalsFor = regulationPeriods.reduce((sum: number, p: any) => sum + p.goals_for, 0);
-          const totalGoalsAgainst = regulationPeriods.reduce((sum: number, p: any) => sum + p.goals_against, 0);
-
-          // Include OT if exists
-          const otPeriod = gameData.periods.find((p: any) => p.period_number === 4);
-          const soPeriod = gameData.periods.find((p: any) => p.period_number === 5);
-
-          let gameWon = false;
-          let gameInOT = false;
-
-          if (soPeriod) {
-            gameWon = soPeriod.goals_for > soPeriod.goals_against;
-            gameInOT = true;
-          } else if (otPeriod) {
-            gameWon = (totalGoalsFor + otPeriod.goals_for) > (totalGoalsAgainst + otPeriod.goals_against);
-            gameInOT = true;
-          } else {
-            gameWon = totalGoalsFor > totalGoalsAgainst;
-          }
-
-          if (gameWon) {
-            wins++;
-            if (gameData.won_two_plus) {
-              goodWins++;
-            } else {
-              badWins++;
-            }
-          } else {
-            if (gameInOT) {
-              otLosses++;
-            } else {
-              losses++;
-            }
-          }
-        }
-
-        // Calculate points (2 for win, 1 for OT loss)
-        const points = wins * 2 + otLosses;
-
-        teamStats.push({
+      // Step 2: Aggregate the per-season summaries for each team (all seasons unless one is given)
+      const { ruleSet: appliedRuleSet, summaries: codeSummaries, missingGoalData } = await listTeamSeasonSummaries(
+        { season, teamCodes: teams.flatMap(t => grouping.codesFor(t.team_code)) },
+        ruleSet
+      );
+      const summaries = groupTeamSeasonSummaries(codeSummaries, grouping);
+
+      // Teams with no division in the season (e.g. relocated codes) stay out of league tables unless they played
+      const teamStats = teams.filter(team =>
+        teamCode || alignmentOf(team.team_code).division !== null || summaries.some(s => s.team_code === team.team_code)
+      ).map(team => {
+        const teamSummaries = summaries.filter(s => s.team_code === team.team_code);
+        const total = (field: Exclude<keyof TeamSeasonSummary, 'team_code' | 'season'>) =>
+          teamSummaries.reduce((sum, s) => sum + s[field], 0);
+
+        const fiveOnFive = strength === '5v5';
+        const goodWins = total(fiveOnFive ? 'good_wins_5v5' : 'good_wins');
+        const badWins = total(fiveOnFive ? 'bad_wins_5v5' : 'bad_wins');
+        const { conference: teamConference, division: teamDivision } = alignmentOf(team.team_code);
+
+        return {
           team_code: team.team_code,
           team_name: team.team_name,
-          conference: team.conference,
-          division: team.division,
-          games_played: gameMap.size,
-          record: { wins, losses, otLosses },
-          points,
-          periods_won: periodsWon,
-          periods_lost: periodsLost,
-          periods_tied: periodsTied,
+          ...(groupBy === 'franchise' ? { franchise_team_codes: grouping.codesFor(team.team_code) } : {}),
+          conference: teamConference,
+          division: teamDivision,
+          games_played: total('games_played'),
+          record: { wins: total('wins'), losses: total('losses'), otLosses: total('ot_losses') },
+          points: total('points'),
+          periods_won: total(fiveOnFive ? 'periods_won_5v5' : 'periods_won'),
+          periods_lost: total(fiveOnFive ? 'periods_lost_5v5' : 'periods_lost'),
+          periods_tied: total(fiveOnFive ? 'periods_tied_5v5' : 'periods_tied'),
           good_wins: goodWins,
           bad_wins: badWins,
           difference: goodWins - badWins,
-        });
-      }
+        };
+      });
 
       // Sort results
       teamStats.sort((a, b) => {
@@ -197,7 +118,9 @@ export const calculateTeamStatsTool = new DynamicStructuredTool({
 
       return JSON.stringify({
         success: true,
-        filters: { teamCode, season, conference, division },
+        filters: { teamCode, season, conference, division, strength, groupBy },
+        rule_set: appliedRuleSet,
+        games_missing_goal_data: missingGoalData.length,
         sorted_by: sortBy,
         teams_count: teamStats.length,
         data: teamStats,
@@ -3,7 +3,7 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository } from '@/lib/db';
 
 export const checkDataHealthTool = new DynamicStructuredTool({
   name: 'check_data_health',
@@ -22,43 +22,26 @@ export const checkDataHealthTool = new DynamicStructuredTool({
   }),
   func: async ({ season, detailed = false }) => {
     try {
-      const issues: Array<{ type: string; severity: 'error' | 'warning' | 'info'; message: string; details?: any }> = [];
+      const issues: Array<{ type: string; severity: 'error' | 'warning' | 'info'; message: string; details?: unknown }> = [];
 
-      // Get all games
-      let gamesQuery = supabase.from('games').select('*');
-      if (season) {
-        gamesQuery = gamesQuery.eq('season', season);
-      }
-      const { data: games, error: gamesError } = await gamesQuery;
-
-      if (gamesError) {
-        throw new Error(`Failed to fetch games: ${gamesError.message}`);
-      }
+      const repo = getRepository();
 
-      // Get all period results
-      const { data: periodResults, error: periodError } = await supabase
-        .from('period_results')
-        .select('game_id, team_code, period_number');
+      // Get all games
+      const games = await repo.games.list({ season });
 
-      if (periodError) {
-        throw new Error(`Failed to fetch period results: ${periodError.message}`);
-      }
+      // Count period results per game
+      const periodCountByGame = await repo.periodResults.countByGame();
+      const totalPeriodResults = [...periodCountByGame.values()].reduce((sum, count) => sum + count, 0);
 
       // Get all teams
-      const { data: teams } = await supabase.from('teams').select('team_code');
-      const validTeamCodes = new Set(teams?.map(t => t.team_code) || []);
-
-      // Count period results per game
-      const periodCountByGame = new Map<string, number>();
-      for (const pr of periodResults || []) {
-        periodCountByGame.set(pr.game_id, (periodCountByGame.get(pr.game_id) || 0) + 1);
-      }
+      const teams = await repo.teams.list();
+      const validTeamCodes = new Set(teams.map(t => t.team_code));
 
       // Check 1: Games without period results
       const gamesWithoutPeriods: string[] = [];
       const gamesWithIncompletePeriods: Array<{ game_id: string; count: number }> = [];
 
-      for (const game of games || []) {
+      for (const game of games) {
         const periodCount = periodCountByGame.get(game.game_id) || 0;
         if (periodCount === 0) {
           gamesWithoutPeriods.push(game.game_id);
@@ -86,9 +69,25 @@ export const checkDataHealthTool = new DynamicStructuredTool({
         });
       }
 
+      // Check 1b: Games with period results but no derived game results
+      const gameResults = await repo.gameTeamResults.list({ gameIds: games.map(g => g.game_id) });
+      const gamesWithResults = new Set(gameResults.map(r => r.game_id));
+      const gamesWithoutResults = games
+        .filter(g => periodCountByGame.has(g.game_id) && !gamesWithResults.has(g.game_id))
+        .map(g => g.game_id);
+
+      if (gamesWithoutResults.length > 0) {
+        issues.push({
+          type: 'missing_game_results',
+          severity: 'warning',
+          message: `${gamesWithoutResults.length} games have period results but no game_team_results rows`,
+          details: detailed ? gamesWithoutResults.slice(0, 20) : undefined,
+        });
+      }
+
       // Check 2: Invalid team codes in games
       const invalidTeamGames: Array<{ game_id: string; invalid_team: string }> = [];
-      for (const game of games || []) {
+      for (const game of games) {
         if (!validTeamCodes.has(game.home_team_code)) {
           invalidTeamGames.push({ game_id: game.game_id, invalid_team: game.home_team_code });
         }
@@ -107,11 +106,11 @@ export const checkDataHealthTool = new DynamicStructuredTool({
       }
 
       // Check 3: Season coverage
-      const seasons = [...new Set((games || []).map(g => g.season))].sort();
+      const seasons = [...new Set(games.map(g => g.season))].sort();
       const seasonStats: Record<string, { games: number; dateRange: { first: string; last: string } }> = {};
 
       for (const s of seasons) {
-        const seasonGames = (games || []).filter(g => g.season === s);
+        const seasonGames = games.filter(g => g.season === s);
         const dates = seasonGames.map(g => g.game_date).sort();
         seasonStats[s] = {
           games: seasonGames.length,
@@ -126,7 +125,7 @@ export const checkDataHealthTool = new DynamicStructuredTool({
       const dateGaps: Array<{ season: string; gap_start: string; gap_end: string; days: number }> = [];
 
       for (const s of seasons) {
-        const seasonGames = (games || [])
+        const seasonGames = games
           .filter(g => g.season === s)
           .map(g => g.game_date)
           .sort();
@@ -157,12 +156,12 @@ export const checkDataHealthTool = new DynamicStructuredTool({
       }
 
       // Check 5: Orphaned period results (period results for games not in database)
-      const gameIdsInDb = new Set((games || []).map(g => g.game_id));
+      const gameIdsInDb = new Set(games.map(g => g.game_id));
       const orphanedPeriodGameIds = new Set<string>();
 
-      for (const pr of periodResults || []) {
-        if (!gameIdsInDb.has(pr.game_id)) {
-          orphanedPeriodGameIds.add(pr.game_id);
+      for (const gameId of periodCountByGame.keys()) {
+        if (!gameIdsInDb.has(gameId)) {
+          orphanedPeriodGameIds.add(gameId);
         }
       }
 
@@ -179,6 +178,7 @@ export const checkDataHealthTool = new DynamicStructuredTool({
       const healthScore = Math.max(0, 100 - (
         gamesWithoutPeriods.length * 2 +
         gamesWithIncompletePeriods.length +
+        gamesWithoutResults.length +
         invalidTeamGames.length * 5 +
         orphanedPeriodGameIds.size
       ));
@@ -187,8 +187,8 @@ export const checkDataHealthTool = new DynamicStructuredTool({
         success: true,
         health_score: Math.min(100, healthScore),
         summary: {
-          total_games: games?.length || 0,
-          total_period_results: periodResults?.length || 0,
+          total_games: games.length,
+          total_period_results: totalPeriodResults,
           total_teams: validTeamCodes.size,
           seasons_covered: seasons.length,
         },
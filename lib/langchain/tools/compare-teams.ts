@@ -3,7 +3,10 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, applyRuleSet } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, getTeamGrouping } from '@/lib/analytics/franchises';
+import { getSeasonAlignment, getTeamAlignment } from '@/lib/analytics/alignment';
 
 export const compareTeamsTool = new DynamicStructuredTool({
   name: 'compare_teams',
@@ -14,25 +17,29 @@ export const compareTeamsTool = new DynamicStructuredTool({
     - Analyze which team dominates which periods
     - See good wins vs bad wins in their matchups
     - Compare overall season statistics
+    - Check whether the teams shared a division or conference that season (realignments included)
 
     Great for rivalry analysis and playoff matchup predictions!`,
   schema: z.object({
     teamA: z.string().describe('First team code (e.g., CAR)'),
     teamB: z.string().describe('Second team code (e.g., TBL)'),
     season: z.string().optional().describe('Season to analyze (e.g., "2024-2025"). Defaults to current season.'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('franchise also counts games played under a relocated team\'s earlier codes (e.g. ARI for UTA)'),
   }),
-  func: async ({ teamA, teamB, season }) => {
+  func: async ({ teamA, teamB, season, ruleSet = DEFAULT_RULE_SET, groupBy = 'team_code' }) => {
     try {
       const teamACode = teamA.toUpperCase();
       const teamBCode = teamB.toUpperCase();
 
+      const repo = getRepository();
+
       // Validate teams exist
-      const { data: teams } = await supabase
-        .from('teams')
-        .select('*')
-        .in('team_code', [teamACode, teamBCode]);
+      const teams = await repo.teams.list({ teamCodes: [teamACode, teamBCode] });
 
-      if (!teams || teams.length !== 2) {
+      if (teams.length !== 2) {
         return JSON.stringify({
           success: false,
           error: 'One or both teams not found. Use lookup_team to find the correct team code.',
@@ -42,42 +49,72 @@ export const compareTeamsTool = new DynamicStructuredTool({
       const teamAData = teams.find(t => t.team_code === teamACode)!;
       const teamBData = teams.find(t => t.team_code === teamBCode)!;
 
-      // Find head-to-head games
-      let gamesQuery = supabase
-        .from('games')
-        .select('*')
-        .or(`and(home_team_code.eq.${teamACode},away_team_code.eq.${teamBCode}),and(home_team_code.eq.${teamBCode},away_team_code.eq.${teamACode})`);
+      const grouping = await getTeamGrouping(groupBy);
+      const teamACodes = grouping.codesFor(teamACode);
+      const teamBCodes = grouping.codesFor(teamBCode);
 
-      if (season) {
-        gamesQuery = gamesQuery.eq('season', season);
+      if (grouping.keyOf(teamACode) === grouping.keyOf(teamBCode)) {
+        return JSON.stringify({
+          success: false,
+          error: `${teamACode} and ${teamBCode} are the same franchise. Use groupBy "team_code" to compare them.`,
+        });
       }
 
-      const { data: h2hGames } = await gamesQuery.order('game_date', { ascending: true });
+      // Divisions as they were in the season (the latest season when none is given)
+      const alignmentSeason = season || (await repo.games.getSeasons())[0] || null;
+      const seasonAlignment = await getSeasonAlignment(alignmentSeason);
+      const alignmentOf = (codes: string[]) => getTeamAlignment(
+        seasonAlignment,
+        codes.find(c => getTeamAlignment(seasonAlignment, c).division !== null) ?? codes[codes.length - 1]
+      );
+      const teamAAlignment = alignmentOf(teamACodes);
+      const teamBAlignment = alignmentOf(teamBCodes);
+      const alignment = {
+        season: seasonAlignment.season,
+        source: seasonAlignment.source,
+        teamA: teamAAlignment,
+        teamB: teamBAlignment,
+        same_conference: teamAAlignment.conference !== null && teamAAlignment.conference === teamBAlignment.conference,
+        same_division: teamAAlignment.division !== null && teamAAlignment.division === teamBAlignment.division,
+      };
 
-      if (!h2hGames || h2hGames.length === 0) {
+      // Find head-to-head games (every pairing of the two franchises' codes when grouping by franchise)
+      const pairings = teamACodes.flatMap(a => teamBCodes.map(b => repo.games.list({
+        teamCode: a,
+        opponentCode: b,
+        season,
+        ascending: true,
+      })));
+      const h2hGames = (await Promise.all(pairings)).flat()
+        .sort((a, b) => a.game_date.localeCompare(b.game_date) || a.game_id.localeCompare(b.game_id));
+
+      if (h2hGames.length === 0) {
         return JSON.stringify({
           success: true,
           message: `No head-to-head games found between ${teamAData.team_name} and ${teamBData.team_name}${season ? ` in ${season}` : ''}`,
           teams: {
-            teamA: { code: teamACode, name: teamAData.team_name },
-            teamB: { code: teamBCode, name: teamBData.team_name },
+            teamA: { code: teamACode, name: teamAData.team_name, team_codes: teamACodes },
+            teamB: { code: teamBCode, name: teamBData.team_name, team_codes: teamBCodes },
           },
+          alignment,
           head_to_head: null,
         });
       }
 
-      // Get period results for all H2H games
+      // Get period results and final results for all H2H games
       const gameIds = h2hGames.map(g => g.game_id);
-      const { data: periodResults } = await supabase
-        .from('period_results')
-        .select('*')
-        .in('game_id', gameIds);
+      const periodResults = await repo.periodResults.list({ gameIds });
+      const applied = await applyRuleSet(await repo.gameTeamResults.list({ gameIds }), ruleSet);
+      const resultByGameTeam = new Map(applied.results.map(r => [`${r.game_id}:${r.team_code}`, r]));
+      const outcomeOf = (pr: (typeof periodResults)[number]) =>
+        applied.periodOutcomes.get(`${pr.game_id}:${pr.team_code}:${pr.period_number}`) ?? pr.period_outcome;
 
       // Analyze head-to-head
       const h2hStats = {
         teamA: {
           code: teamACode,
           name: teamAData.team_name,
+          team_codes: teamACodes,
           wins: 0,
           losses: 0,
           otLosses: 0,
@@ -91,6 +128,7 @@ export const compareTeamsTool = new DynamicStructuredTool({
         teamB: {
           code: teamBCode,
           name: teamBData.team_name,
+          team_codes: teamBCodes,
           wins: 0,
           losses: 0,
           otLosses: 0,
@@ -114,22 +152,31 @@ export const compareTeamsTool = new DynamicStructuredTool({
       }> = [];
 
       for (const game of h2hGames) {
-        const gamePeriodResults = periodResults?.filter(pr => pr.game_id === game.game_id) || [];
+        const gamePeriodResults = periodResults.filter(pr => pr.game_id === game.game_id);
+
+        // Codes the two sides played under in this game
+        const gameACode = teamACodes.includes(game.home_team_code) ? game.home_team_code : game.away_team_code;
+        const gameBCode = gameACode === game.home_team_code ? game.away_team_code : game.home_team_code;
 
-        const teamAPeriods = gamePeriodResults.filter(pr => pr.team_code === teamACode);
-        const teamBPeriods = gamePeriodResults.filter(pr => pr.team_code === teamBCode);
+        const teamAPeriods = gamePeriodResults.filter(pr => pr.team_code === gameACode);
+        const teamBPeriods = gamePeriodResults.filter(pr => pr.team_code === gameBCode);
 
         // Count period wins for each team
-        const teamAPeriodsWon = teamAPeriods.filter(pr => pr.period_number <= 3 && pr.period_outcome === 'WIN').length;
-        const teamBPeriodsWon = teamBPeriods.filter(pr => pr.period_number <= 3 && pr.period_outcome === 'WIN').length;
-        const wentToOT = gamePeriodResults.some(pr => pr.period_number > 3);
+        const teamAResult = resultByGameTeam.get(`${game.game_id}:${gameACode}`);
+        const teamBResult = resultByGameTeam.get(`${game.game_id}:${gameBCode}`);
+        if (!teamAResult || !teamBResult) continue;
+
+        const teamAPeriodsWon = teamAResult.regulation_periods_won;
+        const teamBPeriodsWon = teamBResult.regulation_periods_won;
+        const wentToOT = teamAResult.result_type !== 'REG';
 
         // Period-by-period wins
         for (const period of teamAPeriods.filter(pr => pr.period_number <= 3)) {
-          if (period.period_outcome === 'WIN') {
+          const outcome = outcomeOf(period);
+          if (outcome === 'WIN') {
             h2hStats.teamA.periodsWon++;
             h2hStats.teamA.periodWinsByPeriod[period.period_number as 1 | 2 | 3]++;
-          } else if (period.period_outcome === 'LOSS') {
+          } else if (outcome === 'LOSS') {
             h2hStats.teamA.periodsLost++;
           } else {
             h2hStats.teamA.periodsTied++;
@@ -137,10 +184,11 @@ export const compareTeamsTool = new DynamicStructuredTool({
         }
 
         for (const period of teamBPeriods.filter(pr => pr.period_number <= 3)) {
-          if (period.period_outcome === 'WIN') {
+          const outcome = outcomeOf(period);
+          if (outcome === 'WIN') {
             h2hStats.teamB.periodsWon++;
             h2hStats.teamB.periodWinsByPeriod[period.period_number as 1 | 2 | 3]++;
-          } else if (period.period_outcome === 'LOSS') {
+          } else if (outcome === 'LOSS') {
             h2hStats.teamB.periodsLost++;
           } else {
             h2hStats.teamB.periodsTied++;
@@ -148,16 +196,11 @@ export const compareTeamsTool = new DynamicStructuredTool({
         }
 
         // Determine game winner
-        const teamAGoals = teamAPeriods.reduce((sum, pr) => sum + pr.goals_for, 0);
-        const teamBGoals = teamBPeriods.reduce((sum, pr) => sum + pr.goals_for, 0);
-        const teamAWonTwoPlus = teamAPeriods.some(pr => pr.won_two_plus_reg_periods);
-        const teamBWonTwoPlus = teamBPeriods.some(pr => pr.won_two_plus_reg_periods);
-
         let winner: string;
-        if (teamAGoals > teamBGoals) {
-          winner = teamACode;
+        if (teamAResult.result === 'WIN') {
+          winner = gameACode;
           h2hStats.teamA.wins++;
-          if (teamAWonTwoPlus) {
+          if (teamAResult.win_quality === 'GOOD') {
             h2hStats.teamA.goodWins++;
           } else {
             h2hStats.teamA.badWins++;
@@ -168,9 +211,9 @@ export const compareTeamsTool = new DynamicStructuredTool({
             h2hStats.teamB.losses++;
           }
         } else {
-          winner = teamBCode;
+          winner = gameBCode;
           h2hStats.teamB.wins++;
-          if (teamBWonTwoPlus) {
+          if (teamBResult.win_quality === 'GOOD') {
             h2hStats.teamB.goodWins++;
           } else {
             h2hStats.teamB.badWins++;
@@ -206,11 +249,14 @@ export const compareTeamsTool = new DynamicStructuredTool({
       return JSON.stringify({
         success: true,
         season: season || 'all',
+        rule_set: applied.ruleSet,
+        group_by: groupBy,
         games_played: h2hGames.length,
         teams: {
           teamA: h2hStats.teamA,
           teamB: h2hStats.teamB,
         },
+        alignment,
         period_dominance: periodDominance,
         game_details: gameDetails,
         analysis: {
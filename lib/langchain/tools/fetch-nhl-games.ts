@@ -3,10 +3,15 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { nhlApi } from '@/lib/nhl-api/client';
-import { transformGameLanding, validateGameData } from '@/lib/nhl-api/transformers';
-import { gameQueries, periodResultQueries, teamQueries } from '@/lib/supabase/queries';
-import type { NewNHLLandingResponse } from '@/lib/nhl-api/types';
+import { ingestGame } from '@/lib/ingestion';
+import {
+  INLINE_IMPORT_BUDGET_MS,
+  createImportJob,
+  runImportJob,
+  type ImportJobProgress,
+} from '@/lib/jobs/import-jobs';
+import { toolAuditContext } from '@/lib/langchain/audit';
+import { reportToolProgress } from '@/lib/langchain/progress';
 
 export const fetchNhlGamesTool = new DynamicStructuredTool({
   name: 'fetch_nhl_games',
@@ -29,12 +34,18 @@ export const fetchNhlGamesTool = new DynamicStructuredTool({
     startDate: z.string().optional().describe('Start date in YYYY-MM-DD format'),
     endDate: z.string().optional().describe('End date in YYYY-MM-DD format'),
     skipExisting: z.boolean().default(true).describe('Skip games already in the database'),
+    policy: z.enum(['skip', 'overwrite', 'merge']).optional()
+      .describe('What to do with stored games (overrides skipExisting): skip, overwrite, or merge (keep the game, replace its periods and goals)'),
   }),
-  func: async ({ gameId, startDate, endDate, skipExisting }) => {
+  func: async ({ gameId, startDate, endDate, skipExisting, policy }, _runManager, config) => {
+    const upsertPolicy = policy ?? (skipExisting ? 'skip' : 'overwrite');
+    const audit = toolAuditContext('fetch_nhl_games', config);
+
     try {
       const results = {
         games_processed: 0,
         games_inserted: 0,
+        games_updated: 0,
         games_skipped: 0,
         games_failed: 0,
         failures: [] as Array<{ game_id: string; error: string }>,
@@ -42,16 +53,12 @@ export const fetchNhlGamesTool = new DynamicStructuredTool({
 
       // If a specific game ID is provided, fetch just that game
       if (gameId) {
-        const result = await fetchAndStoreGame(gameId, skipExisting);
-        if (result.success) {
-          if (result.skipped) {
-            results.games_skipped = 1;
-          } else {
-            results.games_inserted = 1;
-          }
-        } else {
+        const result = await ingestGame(gameId, { policy: upsertPolicy, audit });
+        if (result.status === 'failed') {
           results.games_failed = 1;
-          results.failures.push({ game_id: gameId, error: result.error || 'Unknown error' });
+          results.failures.push({ game_id: gameId, error: result.reason || 'Unknown error' });
+        } else {
+          results[`games_${result.status}`] = 1;
         }
         results.games_processed = 1;
 
@@ -78,46 +85,16 @@ export const fetchNhlGamesTool = new DynamicStructuredTool({
           });
         }
 
-        // Fetch schedule
-        const scheduleResponse = await nhlApi.getSchedule(startDate, endDate);
-        const gameIds: string[] = [];
-
-        for (const date of scheduleResponse.dates) {
-          for (const game of date.games) {
-            gameIds.push(game.gamePk.toString());
-          }
-        }
-
-        if (gameIds.length === 0) {
-          return JSON.stringify({
-            success: true,
-            message: 'No games found in the specified date range.',
-            results,
-          });
-        }
+        // Import as a background job: games left when the time budget runs out stay queued for the worker
+        const job = await createImportJob({ startDate, endDate, skipExisting, policy: upsertPolicy, audit });
+        await reportToolProgress('Fetching schedule…', config);
 
-        // Process each game
-        for (const id of gameIds) {
-          results.games_processed++;
-          const result = await fetchAndStoreGame(id, skipExisting);
-
-          if (result.success) {
-            if (result.skipped) {
-              results.games_skipped++;
-            } else {
-              results.games_inserted++;
-            }
-          } else {
-            results.games_failed++;
-            results.failures.push({ game_id: id, error: result.error || 'Unknown error' });
-          }
-        }
-
-        return JSON.stringify({
-          success: true,
-          message: `Processed ${results.games_processed} games from ${startDate} to ${endDate}`,
-          results,
+        const progress = await runImportJob(job.id, {
+          deadline: Date.now() + INLINE_IMPORT_BUDGET_MS,
+          onProgress: (p) => reportToolProgress(`Imported ${p.games_processed} of ${p.games_total} games`, config),
         });
+
+        return importJobOutput(job.id, progress, `from ${startDate} to ${endDate}`);
       }
 
       return JSON.stringify({
@@ -136,75 +113,30 @@ export const fetchNhlGamesTool = new DynamicStructuredTool({
 });
 
 /**
- * Helper function to fetch and store a single game
+ * Tool output for an import job run inside a chat request
+ * @param progress Null when another worker already holds the job
  */
-async function fetchAndStoreGame(
-  gameId: string,
-  skipExisting: boolean
-): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
-  try {
-    // Check if game already exists
-    const exists = await gameQueries.exists(gameId);
-    if (exists && skipExisting) {
-      console.log(`[fetchAndStoreGame] Game ${gameId} already exists, skipping`);
-      return { success: true, skipped: true };
-    }
-
-    // Fetch game from NHL API
-    console.log(`[fetchAndStoreGame] Fetching game ${gameId} from NHL API`);
-    const landingData: NewNHLLandingResponse = await nhlApi.getGameLanding(gameId);
-
-    // Check if game is final
-    if (landingData.gameState !== 'OFF') {
-      console.log(`[fetchAndStoreGame] Game ${gameId} not final (state: ${landingData.gameState}), skipping`);
-      return { success: true, skipped: true }; // Skip non-final games
-    }
-
-    // Transform data
-    const { game, periodResults } = transformGameLanding(landingData);
-    console.log(`[fetchAndStoreGame] Transformed game ${gameId}: ${periodResults.length} period results generated`);
-
-    // Validate team codes exist
-    const homeExists = await teamQueries.exists(game.home_team_code);
-    const awayExists = await teamQueries.exists(game.away_team_code);
-
-    if (!homeExists || !awayExists) {
-      console.error(`[fetchAndStoreGame] Team not found for game ${gameId}: home=${game.home_team_code}(${homeExists}), away=${game.away_team_code}(${awayExists})`);
-      return {
-        success: false,
-        error: `Team not found: ${!homeExists ? game.home_team_code : game.away_team_code}`,
-      };
-    }
-
-    // Validate game data
-    const validation = validateGameData(game, periodResults);
-    if (!validation.valid) {
-      console.error(`[fetchAndStoreGame] Validation failed for game ${gameId}: ${validation.errors.join('; ')}`);
-      return {
-        success: false,
-        error: `Validation failed: ${validation.errors.join('; ')}`,
-      };
-    }
-
-    // Insert game
-    console.log(`[fetchAndStoreGame] Inserting game ${gameId}`);
-    await gameQueries.insert(game);
-
-    // Insert period results
-    if (periodResults.length > 0) {
-      console.log(`[fetchAndStoreGame] Inserting ${periodResults.length} period results for game ${gameId}`);
-      const insertedResults = await periodResultQueries.insertMany(periodResults);
-      console.log(`[fetchAndStoreGame] Inserted ${insertedResults.length} period results for game ${gameId}`);
-    } else {
-      console.warn(`[fetchAndStoreGame] No period results to insert for game ${gameId}`);
-    }
-
-    return { success: true, skipped: false };
-  } catch (error) {
-    console.error(`[fetchAndStoreGame] Error processing game ${gameId}:`, error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+export function importJobOutput(jobId: string, progress: ImportJobProgress | null, range: string): string {
+  if (!progress) {
+    return JSON.stringify({ success: true, message: `Import queued as job ${jobId}`, job_id: jobId });
   }
+
+  return JSON.stringify({
+    success: progress.status !== 'failed',
+    message: progress.status === 'completed'
+      ? `Processed ${progress.games_processed} games ${range}`
+      : `Processed ${progress.games_processed} of ${progress.games_total ?? '?'} games ${range}; the rest continue in the background (job ${jobId}).`,
+    job_id: jobId,
+    job_status: progress.status,
+    ...(progress.error && { error: progress.error }),
+    results: {
+      games_processed: progress.games_processed,
+      games_inserted: progress.games_inserted,
+      games_updated: progress.games_updated,
+      games_skipped: progress.games_skipped,
+      games_failed: progress.games_failed,
+      games_pending: progress.games_pending,
+      failures: progress.failures.map(f => ({ game_id: f.game_id, error: f.error })),
+    },
+  });
 }
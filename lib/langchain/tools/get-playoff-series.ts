@@ -0,0 +1,72 @@
+// Tool: Get Playoff Series
+// Best-of-seven series built from playoff games, with each team's period dominance in the series
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { getRepository } from '@/lib/db';
+import { listPlayoffSeries } from '@/lib/analytics/playoff-series';
+import { DEFAULT_RULE_SET, RULE_SETS } from '@/lib/analytics/period-rules';
+
+export const getPlayoffSeriesTool = new DynamicStructuredTool({
+  name: 'get_playoff_series',
+  description: `Get playoff series (the same two teams meeting 4-7 times) with the winner, length and,
+    for each team, series wins, regulation periods won/lost/tied, period-win share and good/bad wins.
+    Use this tool to:
+    - See who won a series and in how many games
+    - Check whether the team that dominated periods also won the series
+    - List a team's playoff path in a season
+
+    Series are grouped from playoff game IDs (round, series and game digits); only imported games are counted.`,
+  schema: z.object({
+    season: z.string().optional().describe('Season (e.g., "2023-2024"); omit for every imported season'),
+    teamCode: z.string().optional().describe('3-letter team code to list only that team\'s series'),
+    round: z.number().min(1).max(4).optional().describe('Playoff round (1-4, where 4 is the Final)'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+    includeGames: z.boolean().default(false).describe('Include the game-by-game log of each series'),
+  }),
+  func: async ({ season, teamCode, round, ruleSet = DEFAULT_RULE_SET, includeGames = false }) => {
+    try {
+      const code = teamCode?.toUpperCase();
+
+      if (code && !(await getRepository().teams.exists(code))) {
+        return JSON.stringify({
+          success: false,
+          error: `Team ${code} not found. Use lookup_team to find the correct code.`,
+        });
+      }
+
+      const result = await listPlayoffSeries({ season, teamCode: code, round }, ruleSet);
+
+      if (result.series.length === 0) {
+        return JSON.stringify({
+          success: false,
+          error: 'No playoff series found. Import playoff games (game type 03) for the season first.',
+        });
+      }
+
+      const completed = result.series.filter(s => s.winner_code);
+      // Series won by the team with the higher period-win share (equal shares excluded)
+      const decided = completed.filter(s => s.top_seed.period_win_share !== s.bottom_seed.period_win_share);
+      const periodLeaderWon = decided.filter(s => {
+        const leader = s.top_seed.period_win_share > s.bottom_seed.period_win_share ? s.top_seed : s.bottom_seed;
+        return leader.team_code === s.winner_code;
+      }).length;
+
+      return JSON.stringify({
+        success: true,
+        rule_set: result.ruleSet,
+        series_count: result.series.length,
+        completed_series: completed.length,
+        period_leader_won_series: decided.length > 0 ? `${periodLeaderWon} of ${decided.length}` : 'n/a',
+        series: result.series.map(({ games, ...series }) => (includeGames ? { ...series, games } : series)),
+        ...(result.missingGoalData.length > 0 && { games_missing_goal_data: result.missingGoalData.length }),
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+});
@@ -1,33 +1,13 @@
 // Tool: Get Standings
-// Fetch current NHL standings from the NHL API
+// Fetch current or historical NHL standings from the NHL API, grouped by that season's divisions
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-
-const NHL_API_BASE_URL = 'https://api-web.nhle.com';
-
-interface StandingsTeam {
-  teamAbbrev: { default: string };
-  teamName: { default: string };
-  conferenceName: string;
-  divisionName: string;
-  gamesPlayed: number;
-  wins: number;
-  losses: number;
-  otLosses: number;
-  points: number;
-  pointPctg: number;
-  regulationWins: number;
-  goalFor: number;
-  goalAgainst: number;
-  goalDifferential: number;
-  streakCode: string;
-  streakCount: number;
-  wildcardSequence: number;
-  conferenceSequence: number;
-  divisionSequence: number;
-  leagueSequence: number;
-}
+import { isDatabaseConfigured } from '@/lib/db';
+import { getSeasonAlignment, seasonForDate, type TeamAlignment } from '@/lib/analytics/alignment';
+import { getSeasonStandingsDate } from '@/lib/jobs/sync-alignment';
+import { nhlApi } from '@/lib/nhl-api/client';
+import type { NewNHLStandingsTeam } from '@/lib/nhl-api/types';
 
 export const getStandingsTool = new DynamicStructuredTool({
   name: 'get_standings',
@@ -37,6 +17,7 @@ export const getStandingsTool = new DynamicStructuredTool({
     - See conference and division rankings
     - Compare official standings to period-based metrics
     - Check playoff positioning
+    - Look up a past season's final standings (pass season), with the divisions of that season
 
     Returns live data from the NHL API, not stored database data.`,
   schema: z.object({
@@ -44,26 +25,20 @@ export const getStandingsTool = new DynamicStructuredTool({
       .describe('How to group the standings (default: division)'),
     date: z.string().optional()
       .describe('Get standings as of a specific date (YYYY-MM-DD). Defaults to current.'),
+    season: z.string().optional()
+      .describe('Season (e.g., "2012-2013"): standings at the end of its regular season. Ignored when date is set.'),
   }),
-  func: async ({ groupBy = 'division', date }) => {
+  func: async ({ groupBy = 'division', date, season }) => {
     try {
-      // Fetch standings from NHL API
-      const url = date
-        ? `${NHL_API_BASE_URL}/v1/standings/${date}`
-        : `${NHL_API_BASE_URL}/v1/standings/now`;
-
-      console.log(`[get_standings] Fetching: ${url}`);
-
-      const response = await fetch(url, {
-        headers: { 'Accept': 'application/json' },
-      });
+      const asOf = date || (season ? await getSeasonStandingsDate(season) : undefined);
 
-      if (!response.ok) {
-        throw new Error(`NHL API error: ${response.status} ${response.statusText}`);
-      }
+      // Fetch standings from NHL API
+      console.log(`[get_standings] Fetching standings as of ${asOf || 'now'}`);
 
-      const data = await response.json();
-      const standings = data.standings as StandingsTeam[];
+      const data = asOf
+        ? await nhlApi.getStandingsByDate(asOf)
+        : await nhlApi.getStandings();
+      const standings = data.standings;
 
       if (!standings || standings.length === 0) {
         return JSON.stringify({
@@ -72,12 +47,19 @@ export const getStandingsTool = new DynamicStructuredTool({
         });
       }
 
+      // Use the stored alignment of the season when it has been synced, else the names the API returned
+      const alignmentSeason = season && !date ? season : seasonForDate(asOf || new Date().toISOString().split('T')[0]);
+      const alignment = isDatabaseConfigured() ? await getSeasonAlignment(alignmentSeason) : null;
+      const alignmentOf = (team: NewNHLStandingsTeam): TeamAlignment =>
+        (alignment?.source === 'season' ? alignment.teams.get(team.teamAbbrev.default) : undefined) ??
+        { conference: team.conferenceName || null, division: team.divisionName || null };
+
       // Process standings based on grouping
-      const processTeam = (team: StandingsTeam) => ({
+      const processTeam = (team: NewNHLStandingsTeam) => ({
         code: team.teamAbbrev.default,
         name: team.teamName.default,
-        conference: team.conferenceName,
-        division: team.divisionName,
+        conference: alignmentOf(team).conference,
+        division: alignmentOf(team).division,
         gamesPlayed: team.gamesPlayed,
         record: `${team.wins}-${team.losses}-${team.otLosses}`,
         points: team.points,
@@ -91,7 +73,7 @@ export const getStandingsTool = new DynamicStructuredTool({
         wildcardRank: team.wildcardSequence,
       });
 
-      let result: any;
+      let result: Record<string, unknown>;
 
       if (groupBy === 'league') {
         // Sort by league rank
@@ -104,28 +86,34 @@ export const getStandingsTool = new DynamicStructuredTool({
           teams: sorted,
         };
       } else if (groupBy === 'conference') {
-        // Group by conference
-        const eastern = standings
-          .filter(t => t.conferenceName === 'Eastern')
-          .sort((a, b) => a.conferenceSequence - b.conferenceSequence)
-          .map(processTeam);
+        // Group by conference (the 2020-21 season had none, so its teams fall under "League")
+        const conferences: Record<string, NewNHLStandingsTeam[]> = {};
 
-        const western = standings
-          .filter(t => t.conferenceName === 'Western')
-          .sort((a, b) => a.conferenceSequence - b.conferenceSequence)
-          .map(processTeam);
+        for (const team of standings) {
+          const confName = alignmentOf(team).conference || 'League';
+          if (!conferences[confName]) {
+            conferences[confName] = [];
+          }
+          conferences[confName].push(team);
+        }
+
+        const sortedConferences: Record<string, ReturnType<typeof processTeam>[]> = {};
+        for (const conf of Object.keys(conferences)) {
+          sortedConferences[conf] = conferences[conf]
+            .sort((a, b) => a.conferenceSequence - b.conferenceSequence || a.leagueSequence - b.leagueSequence)
+            .map(processTeam);
+        }
 
         result = {
           grouping: 'conference',
-          Eastern: eastern,
-          Western: western,
+          ...sortedConferences,
         };
       } else {
         // Group by division
-        const divisions: Record<string, any[]> = {};
+        const divisions: Record<string, NewNHLStandingsTeam[]> = {};
 
         for (const team of standings) {
-          const divName = team.divisionName;
+          const divName = alignmentOf(team).division || 'Unassigned';
           if (!divisions[divName]) {
             divisions[divName] = [];
           }
@@ -133,15 +121,16 @@ export const getStandingsTool = new DynamicStructuredTool({
         }
 
         // Sort each division
+        const sortedDivisions: Record<string, ReturnType<typeof processTeam>[]> = {};
         for (const div of Object.keys(divisions)) {
-          divisions[div] = divisions[div]
+          sortedDivisions[div] = divisions[div]
             .sort((a, b) => a.divisionSequence - b.divisionSequence)
             .map(processTeam);
         }
 
         result = {
           grouping: 'division',
-          ...divisions,
+          ...sortedDivisions,
         };
       }
 
@@ -156,7 +145,8 @@ export const getStandingsTool = new DynamicStructuredTool({
 
       return JSON.stringify({
         success: true,
-        as_of: date || 'current',
+        as_of: asOf || 'current',
+        season: alignmentSeason,
         standings: result,
         playoff_picture: {
           in_playoff_position: playoffTeams,
@@ -3,7 +3,8 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository, type GameFilter } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, applyRuleSet } from '@/lib/analytics/period-rules';
 
 export const getTeamScheduleTool = new DynamicStructuredTool({
   name: 'get_team_schedule',
@@ -23,17 +24,17 @@ export const getTeamScheduleTool = new DynamicStructuredTool({
       .describe('For "month" range: month in YYYY-MM format (e.g., "2024-12")'),
     season: z.string().optional()
       .describe('Season filter (e.g., "2024-2025")'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
   }),
-  func: async ({ teamCode, range = 'last10', month, season }) => {
+  func: async ({ teamCode, range = 'last10', month, season, ruleSet = DEFAULT_RULE_SET }) => {
     try {
       const code = teamCode.toUpperCase();
 
+      const repo = getRepository();
+
       // Validate team exists
-      const { data: team } = await supabase
-        .from('teams')
-        .select('*')
-        .eq('team_code', code)
-        .single();
+      const team = await repo.teams.getByCode(code);
 
       if (!team) {
         return JSON.stringify({
@@ -42,48 +43,29 @@ export const getTeamScheduleTool = new DynamicStructuredTool({
         });
       }
 
-      // Build query based on range
-      let query = supabase
-        .from('games')
-        .select('*')
-        .or(`home_team_code.eq.${code},away_team_code.eq.${code}`);
-
-      if (season) {
-        query = query.eq('season', season);
-      }
+      // Build filter based on range
+      const filter: GameFilter = { teamCode: code, season };
 
       const today = new Date().toISOString().split('T')[0];
 
       if (range === 'last10' || range === 'last20') {
-        const limit = range === 'last10' ? 10 : 20;
-        query = query
-          .lte('game_date', today)
-          .order('game_date', { ascending: false })
-          .limit(limit);
+        filter.endDate = today;
+        filter.ascending = false;
+        filter.limit = range === 'last10' ? 10 : 20;
       } else if (range === 'next10') {
-        query = query
-          .gt('game_date', today)
-          .order('game_date', { ascending: true })
-          .limit(10);
+        const tomorrow = new Date();
+        tomorrow.setDate(tomorrow.getDate() + 1);
+        filter.startDate = tomorrow.toISOString().split('T')[0];
+        filter.limit = 10;
       } else if (range === 'month' && month) {
         const [year, mon] = month.split('-');
-        const startDate = `${year}-${mon}-01`;
-        const endDate = new Date(parseInt(year), parseInt(mon), 0).toISOString().split('T')[0];
-        query = query
-          .gte('game_date', startDate)
-          .lte('game_date', endDate)
-          .order('game_date', { ascending: true });
-      } else if (range === 'season') {
-        query = query.order('game_date', { ascending: true });
+        filter.startDate = `${year}-${mon}-01`;
+        filter.endDate = new Date(parseInt(year), parseInt(mon), 0).toISOString().split('T')[0];
       }
 
-      const { data: games, error: gamesError } = await query;
-
-      if (gamesError) {
-        throw new Error(`Failed to fetch games: ${gamesError.message}`);
-      }
+      const games = await repo.games.list(filter);
 
-      if (!games || games.length === 0) {
+      if (games.length === 0) {
         return JSON.stringify({
           success: true,
           team: { code: team.team_code, name: team.team_name },
@@ -94,31 +76,27 @@ export const getTeamScheduleTool = new DynamicStructuredTool({
 
       // Get period results for these games
       const gameIds = games.map(g => g.game_id);
-      const { data: periodResults } = await supabase
-        .from('period_results')
-        .select('*')
-        .in('game_id', gameIds)
-        .eq('team_code', code);
+      const applied = await applyRuleSet(await repo.gameTeamResults.list({ gameIds, teamCode: code }), ruleSet);
+      const resultByGame = new Map(applied.results.map(r => [r.game_id, r]));
 
       // Process each game
       const processedGames = games.map(game => {
         const isHome = game.home_team_code === code;
         const opponent = isHome ? game.away_team_code : game.home_team_code;
-        const gamePeriods = periodResults?.filter(pr => pr.game_id === game.game_id) || [];
+        const gameResult = resultByGame.get(game.game_id);
 
-        // Calculate totals
-        const regulationPeriods = gamePeriods.filter(pr => pr.period_number <= 3);
-        const goalsFor = gamePeriods.reduce((sum, pr) => sum + pr.goals_for, 0);
-        const goalsAgainst = gamePeriods.reduce((sum, pr) => sum + pr.goals_against, 0);
-        const periodsWon = regulationPeriods.filter(pr => pr.period_outcome === 'WIN').length;
-        const wonTwoPlus = gamePeriods.some(pr => pr.won_two_plus_reg_periods);
-        const wentToOT = gamePeriods.some(pr => pr.period_number > 3);
+        // Final score and period totals (unplayed games have no result yet)
+        const goalsFor = gameResult?.goals_for ?? 0;
+        const goalsAgainst = gameResult?.goals_against ?? 0;
+        const periodsWon = gameResult?.regulation_periods_won ?? 0;
+        const wonTwoPlus = gameResult?.won_two_plus_reg_periods ?? false;
+        const wentToOT = gameResult ? gameResult.result_type !== 'REG' : false;
 
         // Determine result
         let result: string;
-        if (goalsFor > goalsAgainst) {
+        if (gameResult?.result === 'WIN') {
           result = wentToOT ? 'OTW' : 'W';
-        } else if (goalsFor < goalsAgainst) {
+        } else if (gameResult?.result === 'LOSS') {
           result = wentToOT ? 'OTL' : 'L';
         } else {
           result = 'T'; // Shouldn't happen in NHL
@@ -172,6 +150,7 @@ export const getTeamScheduleTool = new DynamicStructuredTool({
         success: true,
         team: { code: team.team_code, name: team.team_name },
         range,
+        rule_set: applied.ruleSet,
         summary,
         games: processedGames,
       });
@@ -14,3 +14,8 @@ export { getStandingsTool } from './get-standings';
 export { checkDataHealthTool } from './check-data-health';
 export { getTeamScheduleTool } from './get-team-schedule';
 export { analyzeTrendsTool } from './analyze-trends';
+export { analyzeGoalsTool } from './analyze-goals';
+export { analyzePeriodPlayTool } from './analyze-period-play';
+export { testHypothesisTool } from './test-hypothesis';
+export { getPlayoffSeriesTool } from './get-playoff-series';
+export { reconcileGamesTool } from './reconcile-games';
@@ -3,14 +3,17 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository, type Team } from '@/lib/db';
+import { getTeamGrouping, type TeamGrouping } from '@/lib/analytics/franchises';
 
 // Common team aliases and nicknames
 const TEAM_ALIASES: Record<string, string> = {
   // Anaheim Ducks
   'ducks': 'ANA', 'anaheim': 'ANA', 'mighty ducks': 'ANA',
-  // Arizona Coyotes (now Utah)
-  'coyotes': 'ARI', 'arizona': 'ARI', 'yotes': 'ARI',
+  // Arizona Coyotes (2014-2024, now Utah)
+  'coyotes': 'ARI', 'arizona': 'ARI', 'yotes': 'ARI', 'arizona coyotes': 'ARI',
+  // Atlanta Thrashers (until 2011, now Winnipeg)
+  'thrashers': 'ATL', 'atlanta': 'ATL', 'atlanta thrashers': 'ATL',
   // Boston Bruins
   'bruins': 'BOS', 'boston': 'BOS', 'bs': 'BOS',
   // Buffalo Sabres
@@ -49,6 +52,8 @@ const TEAM_ALIASES: Record<string, string> = {
   'rangers': 'NYR', 'new york rangers': 'NYR', 'ny rangers': 'NYR', 'blueshirts': 'NYR',
   // Ottawa Senators
   'senators': 'OTT', 'ottawa': 'OTT', 'sens': 'OTT',
+  // Phoenix Coyotes (until 2014, then Arizona)
+  'phoenix': 'PHX', 'phoenix coyotes': 'PHX',
   // Philadelphia Flyers
   'flyers': 'PHI', 'philadelphia': 'PHI', 'philly': 'PHI',
   // Pittsburgh Penguins
@@ -64,7 +69,7 @@ const TEAM_ALIASES: Record<string, string> = {
   // Toronto Maple Leafs
   'maple leafs': 'TOR', 'toronto': 'TOR', 'leafs': 'TOR',
   // Utah Hockey Club
-  'utah': 'UTA', 'utah hockey club': 'UTA', 'uhc': 'UTA',
+  'utah': 'UTA', 'utah hockey club': 'UTA', 'uhc': 'UTA', 'mammoth': 'UTA', 'utah mammoth': 'UTA',
   // Vancouver Canucks
   'canucks': 'VAN', 'vancouver': 'VAN', 'nucks': 'VAN',
   // Vegas Golden Knights
@@ -75,6 +80,28 @@ const TEAM_ALIASES: Record<string, string> = {
   'jets': 'WPG', 'winnipeg': 'WPG',
 };
 
+/**
+ * Team info, with the franchise's other codes for relocated or relocating teams
+ */
+function describeTeam(team: Team, grouping: TeamGrouping) {
+  const franchiseId = grouping.keyOf(team.team_code);
+  const teamCodes = grouping.codesFor(team.team_code);
+
+  return {
+    code: team.team_code,
+    name: team.team_name,
+    division: team.division,
+    conference: team.conference,
+    ...(teamCodes.length > 1 ? {
+      franchise: {
+        franchise_id: franchiseId,
+        team_codes: teamCodes,
+        relocated: franchiseId !== team.team_code,
+      },
+    } : {}),
+  };
+}
+
 export const lookupTeamTool = new DynamicStructuredTool({
   name: 'lookup_team',
   description: `Resolve a team name, nickname, city, or abbreviation to the official team data.
@@ -83,33 +110,27 @@ export const lookupTeamTool = new DynamicStructuredTool({
     - Get team info from city names (e.g., "Carolina" -> Carolina Hurricanes)
     - Validate team codes
     - Get team's division and conference
+    - Map relocated teams to their franchise (e.g., "Thrashers" -> ATL, now WPG)
 
-    Supports common nicknames and abbreviations for all 32 NHL teams.`,
+    Supports common nicknames and abbreviations for all 32 NHL teams and former ones (ATL, PHX, ARI).`,
   schema: z.object({
     query: z.string().describe('Team name, nickname, city, or abbreviation to look up'),
   }),
   func: async ({ query }) => {
     try {
       const normalizedQuery = query.toLowerCase().trim();
+      const repo = getRepository();
+      const grouping = await getTeamGrouping('franchise');
 
       // First, check if it's a direct team code (3 letters)
       if (normalizedQuery.length === 3) {
-        const { data: team, error } = await supabase
-          .from('teams')
-          .select('*')
-          .eq('team_code', normalizedQuery.toUpperCase())
-          .single();
+        const team = await repo.teams.getByCode(normalizedQuery.toUpperCase());
 
-        if (team && !error) {
+        if (team) {
           return JSON.stringify({
             success: true,
             found: true,
-            team: {
-              code: team.team_code,
-              name: team.team_name,
-              division: team.division,
-              conference: team.conference,
-            },
+            team: describeTeam(team, grouping),
             matched_by: 'team_code',
           });
         }
@@ -118,22 +139,13 @@ export const lookupTeamTool = new DynamicStructuredTool({
       // Check aliases
       const aliasCode = TEAM_ALIASES[normalizedQuery];
       if (aliasCode) {
-        const { data: team, error } = await supabase
-          .from('teams')
-          .select('*')
-          .eq('team_code', aliasCode)
-          .single();
+        const team = await repo.teams.getByCode(aliasCode);
 
-        if (team && !error) {
+        if (team) {
           return JSON.stringify({
             success: true,
             found: true,
-            team: {
-              code: team.team_code,
-              name: team.team_name,
-              division: team.division,
-              conference: team.conference,
-            },
+            team: describeTeam(team, grouping),
             matched_by: 'alias',
             alias_used: normalizedQuery,
           });
@@ -141,11 +153,9 @@ export const lookupTeamTool = new DynamicStructuredTool({
       }
 
       // Try fuzzy matching on team name
-      const { data: teams } = await supabase
-        .from('teams')
-        .select('*');
+      const teams = await repo.teams.list();
 
-      if (teams) {
+      if (teams.length > 0) {
         // Search in team names
         const match = teams.find(t =>
           t.team_name.toLowerCase().includes(normalizedQuery) ||
@@ -156,12 +166,7 @@ export const lookupTeamTool = new DynamicStructuredTool({
           return JSON.stringify({
             success: true,
             found: true,
-            team: {
-              code: match.team_code,
-              name: match.team_name,
-              division: match.division,
-              conference: match.conference,
-            },
+            team: describeTeam(match, grouping),
             matched_by: 'name_search',
           });
         }
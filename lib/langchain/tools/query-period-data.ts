@@ -1,9 +1,11 @@
-// Tool 1: Query Period Data from Supabase (Unique Dataset)
+// Tool 1: Query Period Data (Unique Dataset)
 // Queries the period_results and games tables for NHL period analysis
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
+import { getRepository } from '@/lib/db';
+import { DEFAULT_RULE_SET, RULE_SETS, applyRuleSet, requiresGoalData } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY, getTeamGrouping } from '@/lib/analytics/franchises';
 
 export const queryPeriodDataTool = new DynamicStructuredTool({
   name: 'query_period_data',
@@ -12,80 +14,81 @@ export const queryPeriodDataTool = new DynamicStructuredTool({
     - Analyze period win/loss/tie patterns
     - Find games within date ranges
     - Calculate period outcomes
-    This tool queries the unique dataset stored in Supabase containing detailed period-by-period game data.`,
+    This tool queries the unique dataset stored in the database containing detailed period-by-period game data.`,
   schema: z.object({
     teamCode: z.string().optional().describe('3-letter NHL team code (e.g., CAR, TBL, COL)'),
     startDate: z.string().optional().describe('Start date in YYYY-MM-DD format'),
     endDate: z.string().optional().describe('End date in YYYY-MM-DD format'),
-    periodOutcome: z.enum(['WIN', 'LOSS', 'TIE']).optional().describe('Filter by period outcome'),
+    periodOutcome: z.enum(['WIN', 'LOSS', 'TIE']).optional().describe('Filter by period outcome (under the rule set)'),
     periodNumber: z.number().min(1).max(5).optional().describe('Filter by period number (1-3 regulation, 4 OT, 5 SO)'),
     limit: z.number().min(1).max(100).default(50).describe('Maximum number of results to return'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('franchise also returns periods played under the team\'s earlier codes (e.g. ATL for WPG)'),
   }),
-  func: async ({ teamCode, startDate, endDate, periodOutcome, periodNumber, limit }) => {
+  func: async ({ teamCode, startDate, endDate, periodOutcome, periodNumber, limit, ruleSet = DEFAULT_RULE_SET, groupBy = 'team_code' }) => {
     try {
-      // Build the query
-      let query = supabase
-        .from('period_results')
-        .select(`
-          *,
-          games (
-            game_id,
-            game_date,
-            season,
-            home_team_code,
-            away_team_code,
-            game_type
-          )
-        `)
-        .limit(limit);
+      const repo = getRepository();
+      const code = teamCode?.toUpperCase();
+      const codes: Array<string | undefined> = code ? (await getTeamGrouping(groupBy)).codesFor(code) : [undefined];
+      // Recomputed outcomes can only be filtered once they are known
+      const recompute = requiresGoalData(ruleSet);
 
-      // Apply filters
-      if (teamCode) {
-        query = query.eq('team_code', teamCode.toUpperCase());
-      }
-
-      if (periodOutcome) {
-        query = query.eq('period_outcome', periodOutcome);
-      }
-
-      if (periodNumber) {
-        query = query.eq('period_number', periodNumber);
-      }
-
-      // Execute query
-      const { data, error } = await query;
-
-      if (error) {
+      // Query period results joined with their games (most recent first, across every code of the franchise)
+      let periodData;
+      try {
+        periodData = (await Promise.all(codes.map(c => repo.periodResults.listWithGames({
+          teamCode: c,
+          periodOutcome: recompute ? undefined : periodOutcome,
+          periodNumber,
+          startDate,
+          endDate,
+          ascending: false,
+          limit: recompute && periodOutcome ? undefined : limit,
+        })))).flat().sort((a, b) =>
+          b.game.game_date.localeCompare(a.game.game_date) ||
+          a.game_id.localeCompare(b.game_id) ||
+          a.period_number - b.period_number ||
+          a.team_code.localeCompare(b.team_code)
+        );
+      } catch (error) {
         return JSON.stringify({
           success: false,
-          error: error.message,
+          error: error instanceof Error ? error.message : String(error),
           suggestion: 'Check if the database tables exist and have data.',
         });
       }
 
-      // Filter by date range if provided (requires join with games table)
-      let filteredData = data || [];
-      if (startDate || endDate) {
-        filteredData = filteredData.filter((row: any) => {
-          const gameDate = row.games?.game_date;
-          if (!gameDate) return false;
-          if (startDate && gameDate < startDate) return false;
-          if (endDate && gameDate > endDate) return false;
-          return true;
-        });
-      }
+      const gameIds = [...new Set(periodData.map(r => r.game_id))];
+      const applied = await applyRuleSet(gameIds.length > 0 ? await repo.gameTeamResults.list({ gameIds }) : [], ruleSet);
+      const resultByGameTeam = new Map(applied.results.map(r => [`${r.game_id}:${r.team_code}`, r]));
+
+      // Overtime and shootout periods keep their stored outcome
+      const filteredData = periodData
+        .map(pr => ({
+          ...pr,
+          period_outcome: applied.periodOutcomes.get(`${pr.game_id}:${pr.team_code}:${pr.period_number}`) ?? pr.period_outcome,
+          won_two_plus_reg_periods:
+            resultByGameTeam.get(`${pr.game_id}:${pr.team_code}`)?.won_two_plus_reg_periods ?? pr.won_two_plus_reg_periods,
+        }))
+        .filter(pr => !periodOutcome || pr.period_outcome === periodOutcome)
+        .slice(0, limit);
 
       // Calculate summary statistics
       const summary = {
         total_records: filteredData.length,
-        period_wins: filteredData.filter((r: any) => r.period_outcome === 'WIN').length,
-        period_losses: filteredData.filter((r: any) => r.period_outcome === 'LOSS').length,
-        period_ties: filteredData.filter((r: any) => r.period_outcome === 'TIE').length,
-        games_with_two_plus_wins: filteredData.filter((r: any) => r.won_two_plus_reg_periods).length,
+        period_wins: filteredData.filter(r => r.period_outcome === 'WIN').length,
+        period_losses: filteredData.filter(r => r.period_outcome === 'LOSS').length,
+        period_ties: filteredData.filter(r => r.period_outcome === 'TIE').length,
+        games_with_two_plus_wins: filteredData.filter(r => r.won_two_plus_reg_periods).length,
       };
 
       return JSON.stringify({
         success: true,
+        rule_set: applied.ruleSet,
+        ...(code && { team_codes: codes }),
+        ...(applied.missingGoalData.length > 0 && { games_missing_goal_data: applied.missingGoalData.length }),
         summary,
         data: filteredData.slice(0, 20), // Return first 20 for readability
         total_available: filteredData.length,
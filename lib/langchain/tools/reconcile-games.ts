@@ -0,0 +1,68 @@
+// Tool: Reconcile Games
+// Re-fetch stored games from the NHL API and report (or correct) period results the NHL has since revised
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { INLINE_IMPORT_BUDGET_MS } from '@/lib/jobs/import-jobs';
+import { reconcileGames } from '@/lib/jobs/reconcile';
+import { toolAuditContext } from '@/lib/langchain/audit';
+import { reportToolProgress } from '@/lib/langchain/progress';
+
+export const reconcileGamesTool = new DynamicStructuredTool({
+  name: 'reconcile_games',
+  description: `Check stored games against the NHL API for scoring revisions.
+    Use this tool to:
+    - Find games whose period goals, empty-net goals or period outcomes no longer match the NHL
+    - Verify data after the NHL corrects scoring (goal moved to another period, empty-net reclassified)
+    - Correct mismatched games (apply: true), with each correction recorded in the audit log
+
+    Provide a season or a date range. By default it only reports discrepancies.
+    Large ranges may not finish in one call; the remaining count says how many games were not checked.`,
+  schema: z.object({
+    startDate: z.string().optional().describe('Start date in YYYY-MM-DD format'),
+    endDate: z.string().optional().describe('End date in YYYY-MM-DD format'),
+    season: z.string().optional().describe('Season to check (e.g., "2024-2025")'),
+    apply: z.boolean().default(false).describe('Rewrite mismatched games from the NHL data (default: report only)'),
+  }),
+  func: async ({ startDate, endDate, season, apply = false }, _runManager, config) => {
+    try {
+      if (!season && !(startDate && endDate)) {
+        return JSON.stringify({
+          success: false,
+          error: 'Provide a season or both startDate and endDate',
+        });
+      }
+
+      const range = season ?? `${startDate} to ${endDate}`;
+      console.log(`[reconcile_games] Reconciling ${range}${apply ? ' (applying corrections)' : ''}`);
+
+      const report = await reconcileGames({
+        season,
+        startDate,
+        endDate,
+        apply,
+        audit: toolAuditContext('reconcile_games', config),
+        deadline: Date.now() + INLINE_IMPORT_BUDGET_MS,
+        onProgress: (checked, total) => reportToolProgress(`Checked ${checked} of ${total} games`, config),
+      });
+
+      let message = `Checked ${report.games_checked} of ${report.games_total} stored games for ${range}: ` +
+        `${report.games_matching} match, ${report.games_mismatched} have discrepancies`;
+      if (apply) message += `, ${report.games_corrected} corrected`;
+      if (report.games_remaining > 0) {
+        message += `. ${report.games_remaining} games were not checked in time; use a smaller date range or run "npm run reconcile" for the rest`;
+      }
+
+      return JSON.stringify({
+        success: true,
+        ...report,
+        message,
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+});
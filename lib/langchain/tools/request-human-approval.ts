@@ -1,222 +1,75 @@
 // Tool 4: Request Human Approval (Human-in-the-Loop)
-// Requests user confirmation for significant operations like bulk imports
+// Queues a significant operation for the user to approve or reject in the chat UI
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-
-// Store for pending approvals (in production, this would be in a database or Redis)
-const pendingApprovals = new Map<string, {
-  operationType: string;
-  description: string;
-  details: any;
-  createdAt: Date;
-  status: 'pending' | 'approved' | 'rejected';
-}>();
+import { APPROVABLE_TOOL_NAMES, createApproval } from '@/lib/langchain/approvals';
+import { TOOL_ROLES, canUseTool } from '@/lib/langchain/tool-roles';
 
 export const requestHumanApprovalTool = new DynamicStructuredTool({
   name: 'request_human_approval',
   description: `Request human approval for significant operations that could have large impacts.
-    Use this tool BEFORE performing:
+    Use this tool INSTEAD OF calling the tool directly for:
     - Bulk data imports (more than 7 days of games)
     - Operations that modify large amounts of data
     - Any operation the user should confirm first
 
-    This implements human-in-the-loop pattern for safety. The tool will return an approval ID
-    that the user must confirm before proceeding.
-
-    After requesting approval, wait for user confirmation before calling fetch_nhl_games
-    or other tools for large operations.`,
+    This implements human-in-the-loop pattern for safety. Pass the exact tool call to run
+    (toolName and toolArgs). The user approves or rejects it with buttons in the chat, and an
+    approved call runs exactly as given, so do NOT call that tool yourself afterwards.`,
   schema: z.object({
     operationType: z.enum(['bulk_import', 'data_modification', 'large_query']).describe('Type of operation requiring approval'),
     description: z.string().describe('Human-readable description of what will happen'),
     estimatedImpact: z.string().describe('Description of the estimated impact (e.g., "Import ~150 games")'),
-    details: z.object({
-      startDate: z.string().optional(),
-      endDate: z.string().optional(),
-      gameCount: z.number().optional(),
-      affectedTeams: z.array(z.string()).optional(),
-    }).optional().describe('Additional details about the operation'),
+    toolName: z.enum(APPROVABLE_TOOL_NAMES).describe('Tool to run once approved'),
+    toolArgs: z.record(z.unknown()).describe('Arguments for that tool, e.g. { "startDate": "2024-10-01", "endDate": "2024-10-31" }'),
   }),
-  func: async ({ operationType, description, estimatedImpact, details }) => {
-    // Generate a unique approval ID
-    const approvalId = `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    // Store the pending approval
-    pendingApprovals.set(approvalId, {
-      operationType,
-      description,
-      details,
-      createdAt: new Date(),
-      status: 'pending',
-    });
-
-    // Clean up old approvals (older than 1 hour)
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    for (const [id, approval] of pendingApprovals) {
-      if (approval.createdAt < oneHourAgo) {
-        pendingApprovals.delete(id);
-      }
+  func: async ({ operationType, description, estimatedImpact, toolName, toolArgs }, _runManager, config) => {
+    const sessionId = config?.configurable?.thread_id;
+    if (!sessionId) {
+      return JSON.stringify({
+        success: false,
+        error: 'Approvals can only be requested from a chat session.',
+      });
     }
 
-    return JSON.stringify({
-      success: true,
-      approval_required: true,
-      approval_id: approvalId,
-      operation_type: operationType,
-      description,
-      estimated_impact: estimatedImpact,
-      details,
-      message: `This operation requires your approval before proceeding.
-
-**Operation:** ${description}
-**Estimated Impact:** ${estimatedImpact}
-
-To approve, please respond with: "approve ${approvalId}" or "yes, proceed"
-To reject, please respond with: "reject" or "no, cancel"
-
-The approval will expire in 1 hour.`,
-      instructions_for_user: [
-        `Say "approve" or "yes" to proceed with: ${description}`,
-        `Say "reject" or "no" to cancel the operation`,
-      ],
-    });
-  },
-});
-
-/**
- * Check if an operation has been approved
- * This is called by other tools to verify approval status
- */
-export function checkApproval(approvalId: string): { approved: boolean; reason?: string } {
-  const approval = pendingApprovals.get(approvalId);
-
-  if (!approval) {
-    return { approved: false, reason: 'Approval not found or expired' };
-  }
-
-  if (approval.status === 'approved') {
-    return { approved: true };
-  }
-
-  if (approval.status === 'rejected') {
-    return { approved: false, reason: 'Operation was rejected by user' };
-  }
-
-  return { approved: false, reason: 'Approval is still pending' };
-}
-
-/**
- * Mark an approval as approved
- */
-export function approveOperation(approvalId: string): boolean {
-  const approval = pendingApprovals.get(approvalId);
-  if (approval && approval.status === 'pending') {
-    approval.status = 'approved';
-    return true;
-  }
-  return false;
-}
-
-/**
- * Mark an approval as rejected
- */
-export function rejectOperation(approvalId: string): boolean {
-  const approval = pendingApprovals.get(approvalId);
-  if (approval && approval.status === 'pending') {
-    approval.status = 'rejected';
-    return true;
-  }
-  return false;
-}
-
-/**
- * Get all pending approvals
- */
-export function getPendingApprovals(): Array<{
-  id: string;
-  operationType: string;
-  description: string;
-  createdAt: Date;
-}> {
-  const pending = [];
-  for (const [id, approval] of pendingApprovals) {
-    if (approval.status === 'pending') {
-      pending.push({
-        id,
-        operationType: approval.operationType,
-        description: approval.description,
-        createdAt: approval.createdAt,
+    // Don't queue a call the user could never approve
+    const role = config?.configurable?.role;
+    if (role && !canUseTool(role, toolName)) {
+      return JSON.stringify({
+        success: false,
+        error: `${toolName} requires the ${TOOL_ROLES[toolName]} role; the user is a ${role}.`,
       });
     }
-  }
-  return pending;
-}
-
-/**
- * Find a pending approval ID from user message
- * Looks for approval IDs or approval keywords
- * Only triggers if there are pending approvals AND message looks like an approval response
- */
-export function findApprovalInMessage(message: string): string | null {
-  // First check if there are any pending approvals
-  const hasPending = Array.from(pendingApprovals.values()).some(a => a.status === 'pending');
-  if (!hasPending) {
-    return null;
-  }
-
-  // Check for explicit approval ID
-  const idMatch = message.match(/approval_\d+_[a-z0-9]+/i);
-  if (idMatch) {
-    return idMatch[0];
-  }
 
-  const lowerMessage = message.toLowerCase().trim();
-
-  // Check for explicit approval phrases (more restrictive)
-  const approvePatterns = [
-    /^(yes|yep|yeah|yup|sure|ok|okay|approve|proceed|confirm|go ahead|do it)[\s,.!]*$/i,
-    /^(yes|approve|proceed),?\s*(please)?$/i,
-    /approve\s*(the\s*)?(operation|import|request)/i,
-    /^let'?s?\s*(do|go|proceed)/i,
-  ];
+    try {
+      const approval = await createApproval({
+        sessionId,
+        operationType,
+        description,
+        estimatedImpact,
+        toolName,
+        toolArgs,
+      });
 
-  if (approvePatterns.some(pattern => pattern.test(lowerMessage))) {
-    // Get most recent pending approval
-    let mostRecent: { id: string; createdAt: Date } | null = null;
-    for (const [id, approval] of pendingApprovals) {
-      if (approval.status === 'pending') {
-        if (!mostRecent || approval.createdAt > mostRecent.createdAt) {
-          mostRecent = { id, createdAt: approval.createdAt };
-        }
-      }
+      return JSON.stringify({
+        success: true,
+        approval_required: true,
+        approval_id: approval.id,
+        operation_type: operationType,
+        description,
+        estimated_impact: estimatedImpact,
+        tool_name: approval.tool_name,
+        tool_args: approval.tool_args,
+        expires_at: approval.expires_at,
+        message: `This operation is waiting for the user's approval. Tell them what it will do; they will approve or reject it with the buttons shown below your answer. The approval expires at ${approval.expires_at}.`,
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        suggestion: `Check that toolArgs are valid arguments for ${toolName}.`,
+      });
     }
-    return mostRecent?.id || null;
-  }
-
-  return null;
-}
-
-/**
- * Check if message is a rejection
- * Only returns true for explicit rejection responses, not incidental use of keywords
- */
-export function isRejectionMessage(message: string): boolean {
-  // First check if there are any pending approvals
-  const hasPending = Array.from(pendingApprovals.values()).some(a => a.status === 'pending');
-  if (!hasPending) {
-    return false;
-  }
-
-  const lowerMessage = message.toLowerCase().trim();
-
-  // Check for explicit rejection phrases (more restrictive)
-  const rejectPatterns = [
-    /^(no|nope|nah|cancel|reject|abort|stop|nevermind|never\s*mind)[\s,.!]*$/i,
-    /^(no|cancel),?\s*(thanks?|please)?$/i,
-    /cancel\s*(the\s*)?(operation|import|request)/i,
-    /don'?t\s*(do|proceed|import|continue)/i,
-    /^reject\s*(it|this)?$/i,
-  ];
-
-  return rejectPatterns.some(pattern => pattern.test(lowerMessage));
-}
+  },
+});
@@ -3,11 +3,10 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { supabase } from '@/lib/supabase/client';
-import { nhlApi } from '@/lib/nhl-api/client';
-import { transformGameLanding } from '@/lib/nhl-api/transformers';
-import { gameQueries, periodResultQueries, teamQueries } from '@/lib/supabase/queries';
-import type { NewNHLLandingResponse } from '@/lib/nhl-api/types';
+import { INLINE_IMPORT_BUDGET_MS, createImportJob, runImportJob } from '@/lib/jobs/import-jobs';
+import { toolAuditContext } from '@/lib/langchain/audit';
+import { reportToolProgress } from '@/lib/langchain/progress';
+import { importJobOutput } from './fetch-nhl-games';
 
 export const syncRecentGamesTool = new DynamicStructuredTool({
   name: 'sync_recent_games',
@@ -27,7 +26,7 @@ export const syncRecentGamesTool = new DynamicStructuredTool({
     days: z.number().min(1).max(30).default(7).describe('Number of days to look back (default: 7, max: 30)'),
     season: z.string().optional().describe('Season to sync (e.g., "2024-2025"). Defaults to current season.'),
   }),
-  func: async ({ days = 7, season }) => {
+  func: async ({ days = 7, season }, _runManager, config) => {
     try {
       // Calculate date range
       const endDate = new Date();
@@ -39,107 +38,23 @@ export const syncRecentGamesTool = new DynamicStructuredTool({
 
       console.log(`[sync_recent_games] Syncing games from ${startDateStr} to ${endDateStr}`);
 
-      // Fetch schedule from NHL API
-      const scheduleResponse = await nhlApi.getSchedule(startDateStr, endDateStr);
-
-      // Get all game IDs from the schedule
-      const scheduledGames: Array<{ gameId: string; gameDate: string }> = [];
-      for (const date of scheduleResponse.dates) {
-        for (const game of date.games) {
-          // Filter by season if specified
-          if (season) {
-            const gameSeason = game.season.length === 8
-              ? `${game.season.slice(0, 4)}-${game.season.slice(4)}`
-              : game.season;
-            if (gameSeason !== season) continue;
-          }
-          scheduledGames.push({
-            gameId: game.gamePk.toString(),
-            gameDate: date.date,
-          });
-        }
-      }
-
-      if (scheduledGames.length === 0) {
-        return JSON.stringify({
-          success: true,
-          message: 'No games found in the specified date range.',
-          results: { games_found: 0, games_added: 0, games_skipped: 0, games_failed: 0 },
-        });
-      }
-
-      // Check which games are already in the database
-      const gameIds = scheduledGames.map(g => g.gameId);
-      const { data: existingGames } = await supabase
-        .from('games')
-        .select('game_id')
-        .in('game_id', gameIds);
-
-      const existingGameIds = new Set(existingGames?.map(g => g.game_id) || []);
-      const missingGames = scheduledGames.filter(g => !existingGameIds.has(g.gameId));
-
-      console.log(`[sync_recent_games] Found ${scheduledGames.length} games, ${missingGames.length} missing from database`);
-
-      const results = {
-        games_found: scheduledGames.length,
-        games_already_synced: existingGameIds.size,
-        games_added: 0,
-        games_skipped: 0,
-        games_failed: 0,
-        failures: [] as Array<{ game_id: string; error: string }>,
-      };
-
-      // Process missing games
-      for (const game of missingGames) {
-        try {
-          // Fetch game landing data
-          const landingData: NewNHLLandingResponse = await nhlApi.getGameLanding(game.gameId);
-
-          // Skip non-final games
-          if (landingData.gameState !== 'OFF') {
-            results.games_skipped++;
-            continue;
-          }
-
-          // Transform data
-          const { game: gameData, periodResults } = transformGameLanding(landingData);
-
-          // Validate teams exist
-          const homeExists = await teamQueries.exists(gameData.home_team_code);
-          const awayExists = await teamQueries.exists(gameData.away_team_code);
-
-          if (!homeExists || !awayExists) {
-            results.games_failed++;
-            results.failures.push({
-              game_id: game.gameId,
-              error: `Team not found: ${!homeExists ? gameData.home_team_code : gameData.away_team_code}`,
-            });
-            continue;
-          }
-
-          // Insert game and period results
-          await gameQueries.insert(gameData);
-          if (periodResults.length > 0) {
-            await periodResultQueries.insertMany(periodResults);
-          }
-
-          results.games_added++;
-          console.log(`[sync_recent_games] Added game ${game.gameId}`);
-        } catch (error) {
-          results.games_failed++;
-          results.failures.push({
-            game_id: game.gameId,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
-      }
+      // Import as a background job: games already stored are skipped, and games left when the
+      // time budget runs out stay queued for the worker
+      const job = await createImportJob({
+        startDate: startDateStr,
+        endDate: endDateStr,
+        season,
+        skipExisting: true,
+        audit: toolAuditContext('sync_recent_games', config),
+      });
+      await reportToolProgress('Fetching schedule…', config);
 
-      return JSON.stringify({
-        success: true,
-        message: `Synced games from ${startDateStr} to ${endDateStr}`,
-        date_range: { start: startDateStr, end: endDateStr },
-        results,
+      const progress = await runImportJob(job.id, {
+        deadline: Date.now() + INLINE_IMPORT_BUDGET_MS,
+        onProgress: (p) => reportToolProgress(`Synced ${p.games_processed} of ${p.games_total} games`, config),
       });
+
+      return importJobOutput(job.id, progress, `from ${startDateStr} to ${endDateStr}`);
     } catch (error) {
       return JSON.stringify({
         success: false,
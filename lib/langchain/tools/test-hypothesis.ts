@@ -0,0 +1,49 @@
+// Tool: Test Hypothesis
+// Quantify whether winning 2+ regulation periods in the regular season predicts playoff success
+
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { testPeriodHypothesis } from '@/lib/analytics/hypothesis';
+import { DEFAULT_RULE_SET, RULE_SETS } from '@/lib/analytics/period-rules';
+import { TEAM_GROUP_BY } from '@/lib/analytics/franchises';
+
+export const testHypothesisTool = new DynamicStructuredTool({
+  name: 'test_hypothesis',
+  description: `Statistically test the core hypothesis: do teams with more good wins than bad wins in the
+    regular season win more playoff series?
+    Uses every season that has playoff games (game type 03) and reports:
+    - Pearson correlation between good-win/bad-win differential and playoff series wins, with a 95% CI
+    - A permutation-test p-value for that correlation
+    - Logistic regression of "won at least one series" on the differential (coefficient, CI, odds ratio)
+
+    Use this when the user asks whether the hypothesis holds, how strong the evidence is, or
+    whether it survives a different period rule set.`,
+  schema: z.object({
+    seasons: z.array(z.string()).optional()
+      .describe('Seasons to include (e.g., ["2022-2023", "2023-2024"]). Default: all with playoff data'),
+    ruleSet: z.string().default(DEFAULT_RULE_SET)
+      .describe(`Period outcome rule set: ${RULE_SETS.map(r => r.name).join(', ')}`),
+    permutations: z.number().min(0).max(20000).default(5000)
+      .describe('Number of shuffles for the permutation test'),
+    groupBy: z.enum(TEAM_GROUP_BY).default('team_code')
+      .describe('Label observations by team code, or by franchise so relocated teams share one ID'),
+  }),
+  func: async ({ seasons, ruleSet = DEFAULT_RULE_SET, permutations = 5000, groupBy = 'team_code' }) => {
+    try {
+      const result = await testPeriodHypothesis({ seasons, ruleSet, permutations, groupBy });
+
+      return JSON.stringify({
+        success: true,
+        ...result,
+        // Observations can run to hundreds of rows; the route returns them all
+        observations: result.observations.slice(0, 20),
+        observations_total: result.observations.length,
+      });
+    } catch (error) {
+      return JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  },
+});
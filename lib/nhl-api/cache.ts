@@ -0,0 +1,163 @@
+// On-disk cache of NHL API responses
+// Each endpoint is stored as one JSON file under NHL_API_CACHE_DIR, together with the ETag and
+// Last-Modified the API sent. Fresh entries skip the network; stale ones are revalidated with a
+// conditional request, so an unchanged payload costs a 304 instead of a full download.
+// Final games are kept for good (reconciliation revalidates them to pick up stat corrections);
+// schedules, standings and live games expire quickly, and scoreboards (polled by the live tracker)
+// barely get cached at all.
+// Set NHL_API_CACHE=off to disable it (the cache is only used in live mode).
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { getUrlFilePath } from './fixtures';
+
+const DEFAULT_CACHE_DIR = '.data/nhl-api-cache';
+
+const MINUTE = 60 * 1000;
+const GAME_IN_PROGRESS_TTL_MS = 30 * 1000;
+const SCOREBOARD_TTL_MS = 10 * 1000;
+const SCHEDULE_TTL_MS = 10 * MINUTE;
+const STANDINGS_TTL_MS = 15 * MINUTE;
+const DEFAULT_TTL_MS = 5 * MINUTE;
+
+export interface CacheEntry<T = unknown> {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  stored_at: string;
+  /** Null for responses that never change (final games) */
+  expires_at: string | null;
+  data: T;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  dir: string;
+  /** Served from disk without a request */
+  hits: number;
+  /** Stale entries the API confirmed unchanged (304) */
+  revalidated: number;
+  /** Fetched in full: nothing cached, or the entry had changed */
+  misses: number;
+  writes: number;
+  hit_rate: number;
+}
+
+let enabled = (process.env.NHL_API_CACHE || 'on').toLowerCase() !== 'off';
+const stats = { hits: 0, revalidated: 0, misses: 0, writes: 0 };
+
+function getCacheDir(): string {
+  return resolve(process.cwd(), process.env.NHL_API_CACHE_DIR || DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Turn the cache on or off for this process (e.g. a script's --no-cache flag)
+ */
+export function setCacheEnabled(value: boolean): void {
+  enabled = value;
+}
+
+export function isCacheEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * How long a response stays fresh, or null when it is final and can be kept forever
+ */
+export function getCacheTtl(url: string, data: unknown): number | null {
+  const { pathname } = new URL(url);
+
+  if (/\/gamecenter\/\d+\//.test(pathname)) {
+    const gameState = (data as { gameState?: string } | null)?.gameState;
+    return gameState === 'OFF' ? null : GAME_IN_PROGRESS_TTL_MS;
+  }
+  if (pathname.includes('/score/')) return SCOREBOARD_TTL_MS;
+  if (pathname.includes('/schedule/')) return SCHEDULE_TTL_MS;
+  if (pathname.includes('/standings/')) return STANDINGS_TTL_MS;
+  return DEFAULT_TTL_MS;
+}
+
+/**
+ * Load the cached entry for a URL, fresh or not
+ * Unreadable files are treated as missing and get overwritten by the next response
+ */
+export function readCacheEntry<T>(url: string): CacheEntry<T> | null {
+  if (!enabled) return null;
+
+  const path = getUrlFilePath(getCacheDir(), url);
+  if (!existsSync(path)) return null;
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as CacheEntry<T>;
+  } catch {
+    return null;
+  }
+}
+
+export function isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.expires_at === null || new Date(entry.expires_at).getTime() > now;
+}
+
+/**
+ * Headers that ask the API to answer 304 when the cached entry is still current
+ */
+export function getConditionalHeaders(entry: CacheEntry | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.etag) headers['If-None-Match'] = entry.etag;
+  if (entry?.last_modified) headers['If-Modified-Since'] = entry.last_modified;
+  return headers;
+}
+
+/**
+ * Store a response with the validators the API sent (a 304 may omit them, so the previous entry's are kept)
+ * Written to a temporary file first so concurrent requests never read half an entry
+ */
+export function writeCacheEntry<T>(url: string, data: T, headers: Headers, previous?: CacheEntry<T>): CacheEntry<T> {
+  const now = Date.now();
+  const ttl = getCacheTtl(url, data);
+  const entry: CacheEntry<T> = {
+    url,
+    etag: headers.get('etag') ?? previous?.etag ?? null,
+    last_modified: headers.get('last-modified') ?? previous?.last_modified ?? null,
+    stored_at: new Date(now).toISOString(),
+    expires_at: ttl === null ? null : new Date(now + ttl).toISOString(),
+    data,
+  };
+
+  if (!enabled) return entry;
+
+  // A read-only filesystem (e.g. serverless) only costs the cache, never the request
+  const path = getUrlFilePath(getCacheDir(), url);
+  const tempPath = `${path}.${process.pid}.tmp`;
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tempPath, JSON.stringify(entry));
+    renameSync(tempPath, path);
+    stats.writes++;
+  } catch (error) {
+    console.warn(`[NHL API] Could not cache ${url}:`, error instanceof Error ? error.message : error);
+  }
+  return entry;
+}
+
+export function recordCacheHit(): void {
+  stats.hits++;
+}
+
+export function recordCacheRevalidated(): void {
+  stats.revalidated++;
+}
+
+export function recordCacheMiss(): void {
+  if (enabled) stats.misses++;
+}
+
+export function getCacheStats(): CacheStats {
+  const lookups = stats.hits + stats.revalidated + stats.misses;
+  return {
+    enabled,
+    dir: getCacheDir(),
+    ...stats,
+    hit_rate: lookups > 0 ? Math.round(((stats.hits + stats.revalidated) / lookups) * 100) / 100 : 0,
+  };
+}
@@ -6,16 +6,34 @@ import type {
   NHLGameFeed,
   NewNHLScheduleResponse,
   NewNHLPlayByPlayResponse,
-  NewNHLLandingResponse
+  NewNHLLandingResponse,
+  NewNHLStandingsResponse,
+  NewNHLScoreResponse,
+  NHLSeasonDates,
+  NewNHLGame,
+  NHLPlay
 } from './types';
+import { getNHLApiMode, readFixture, writeFixture } from './fixtures';
+import {
+  getCacheStats,
+  getConditionalHeaders,
+  isFresh,
+  readCacheEntry,
+  recordCacheHit,
+  recordCacheMiss,
+  recordCacheRevalidated,
+  setCacheEnabled,
+  writeCacheEntry,
+  type CacheStats,
+} from './cache';
+import { createRateLimiter, getRateLimiterConfig, parseRetryAfter, type RateLimiterMetrics } from './rate-limiter';
 
 // Normalize base URL - remove trailing /v1 or /v1/ if present since we add it in paths
 const rawBaseUrl = process.env.NHL_API_BASE_URL || 'https://api-web.nhle.com';
 const NHL_API_BASE_URL = rawBaseUrl.replace(/\/v1\/?$/, '');
 
-// Rate limiting configuration (FR-016: 2 requests per second)
-const RATE_LIMIT_MS = 500; // 500ms between requests = 2 req/sec
-let lastRequestTime = 0;
+// Rate limiting (FR-016): one token bucket per process, shared by every caller
+const rateLimiter = createRateLimiter(getRateLimiterConfig());
 
 // Retry configuration
 const MAX_RETRIES = 3;
@@ -25,6 +43,8 @@ interface FetchOptions {
   method?: string;
   headers?: Record<string, string>;
   retries?: number;
+  /** Ask the API even when the cached entry is fresh (a conditional request, so unchanged data costs a 304) */
+  revalidate?: boolean;
 }
 
 /**
@@ -34,42 +54,47 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Enforce rate limiting before making requests
- */
-async function enforceRateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-
-  if (timeSinceLastRequest < RATE_LIMIT_MS) {
-    await sleep(RATE_LIMIT_MS - timeSinceLastRequest);
-  }
-
-  lastRequestTime = Date.now();
-}
-
 /**
  * Fetch with exponential backoff retry logic
+ * In replay mode responses come from recorded fixtures; in record mode successful responses are saved
+ * In live mode responses go through the on-disk cache: fresh entries skip the request, stale ones are revalidated
  */
 async function fetchWithRetry<T>(
   url: string,
   options: FetchOptions = {}
 ): Promise<T> {
-  const { retries = MAX_RETRIES, ...fetchOptions } = options;
+  const mode = getNHLApiMode();
+  if (mode === 'replay') {
+    return readFixture<T>(url);
+  }
+
+  const cached = mode === 'live' ? readCacheEntry<T>(url) : null;
+  if (cached && isFresh(cached) && !options.revalidate) {
+    recordCacheHit();
+    return cached.data;
+  }
+
+  const { retries = MAX_RETRIES, revalidate: _revalidate, ...fetchOptions } = options;
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      // Enforce rate limiting
-      await enforceRateLimit();
+    if (attempt > 0) rateLimiter.recordRetry();
 
-      const response = await fetch(url, {
+    try {
+      const response = await rateLimiter.schedule(() => fetch(url, {
         ...fetchOptions,
         headers: {
           'Accept': 'application/json',
+          ...getConditionalHeaders(cached),
           ...fetchOptions.headers,
         },
-      });
+      }));
+
+      // Cached entry is still current - keep it for another TTL
+      if (response.status === 304 && cached) {
+        recordCacheRevalidated();
+        return writeCacheEntry(url, cached.data, response.headers, cached).data;
+      }
 
       // Handle specific HTTP status codes
       if (response.status === 404) {
@@ -77,17 +102,20 @@ async function fetchWithRetry<T>(
       }
 
       if (response.status === 429) {
-        // Rate limited - use exponential backoff
-        const retryDelay = INITIAL_RETRY_DELAY * Math.pow(2, attempt);
+        if (attempt === retries) {
+          throw new Error(`Rate limited (429) after ${retries + 1} attempts: ${url}`);
+        }
+        // Rate limited - hold back every request until Retry-After (or exponential backoff)
+        const retryDelay = parseRetryAfter(response.headers.get('retry-after')) ?? INITIAL_RETRY_DELAY * Math.pow(2, attempt);
         console.warn(`Rate limited (429). Retrying in ${retryDelay}ms...`);
-        await sleep(retryDelay);
+        rateLimiter.pauseUntil(Date.now() + retryDelay);
         continue;
       }
 
       if (response.status >= 500) {
-        // Server error - retry after delay
+        // Server error - retry after delay (503s may say how long)
         if (attempt < retries) {
-          const retryDelay = INITIAL_RETRY_DELAY * Math.pow(2, attempt);
+          const retryDelay = parseRetryAfter(response.headers.get('retry-after')) ?? INITIAL_RETRY_DELAY * Math.pow(2, attempt);
           console.warn(`Server error (${response.status}). Retrying in ${retryDelay}ms...`);
           await sleep(retryDelay);
           continue;
@@ -106,14 +134,20 @@ async function fetchWithRetry<T>(
       }
 
       const data = await response.json();
+      if (mode === 'record') {
+        writeFixture(url, data);
+      } else {
+        recordCacheMiss();
+        writeCacheEntry(url, data, response.headers);
+      }
       return data as T;
 
     } catch (error) {
       lastError = error as Error;
 
-      // Don't retry on 404 or JSON parse errors
+      // Don't retry on 404, JSON parse errors or exhausted 429s
       if (error instanceof Error &&
-          (error.message.includes('not found') || error.message.includes('JSON'))) {
+          (error.message.includes('not found') || error.message.includes('JSON') || error.message.includes('Rate limited'))) {
         throw error;
       }
 
@@ -153,6 +187,27 @@ function getDateRange(startDate: string, endDate: string): string[] {
  * NHL API Client
  */
 export const nhlApi = {
+  /**
+   * Request counts, latency and throttling seen by the shared rate limiter
+   */
+  getMetrics(): RateLimiterMetrics {
+    return rateLimiter.metrics();
+  },
+
+  /**
+   * Hits, revalidations and misses of the on-disk response cache
+   */
+  getCacheStats(): CacheStats {
+    return getCacheStats();
+  },
+
+  /**
+   * Turn the response cache on or off for this process
+   */
+  setCacheEnabled(enabled: boolean): void {
+    setCacheEnabled(enabled);
+  },
+
   /**
    * Get schedule for a date range
    * Note: New API returns weekly schedules, so we fetch by week and filter
@@ -161,8 +216,8 @@ export const nhlApi = {
    */
   async getSchedule(startDate: string, endDate: string): Promise<NHLScheduleResponse> {
     const dates = getDateRange(startDate, endDate);
-    const allGames: Map<string, any> = new Map(); // Use Map to dedupe by game ID
-    const gamesByDate: Map<string, any[]> = new Map();
+    const allGames: Map<string, NewNHLGame> = new Map(); // Use Map to dedupe by game ID
+    const gamesByDate: Map<string, NewNHLGame[]> = new Map();
 
     // Initialize gamesByDate for all requested dates
     for (const date of dates) {
@@ -192,9 +247,9 @@ export const nhlApi = {
               for (const game of daySchedule.games) {
                 // Only include if within our date range and not already added
                 if (dates.includes(gameDate) && !allGames.has(game.id.toString())) {
-                  allGames.set(game.id.toString(), { ...game, _gameDate: gameDate });
+                  allGames.set(game.id.toString(), game);
                   const gamesForDate = gamesByDate.get(gameDate) || [];
-                  gamesForDate.push({ ...game, _gameDate: gameDate });
+                  gamesForDate.push(game);
                   gamesByDate.set(gameDate, gamesForDate);
                 }
               }
@@ -274,14 +329,42 @@ export const nhlApi = {
     };
   },
 
+  /**
+   * Get the key dates of a season (preseason start, regular season start/end, playoff end)
+   * Read from the schedule of March 1st, which falls in the regular season of every season
+   * @param season YYYY-YYYY format (e.g., "2010-2011")
+   */
+  async getSeasonDates(season: string): Promise<NHLSeasonDates> {
+    const endYear = season.split('-')[1];
+    const url = `${NHL_API_BASE_URL}/v1/schedule/${endYear}-03-01`;
+    const response = await fetchWithRetry<NewNHLScheduleResponse>(url);
+
+    return {
+      preSeasonStartDate: response.preSeasonStartDate,
+      regularSeasonStartDate: response.regularSeasonStartDate,
+      regularSeasonEndDate: response.regularSeasonEndDate,
+      playoffEndDate: response.playoffEndDate,
+    };
+  },
+
   /**
    * Get game landing data with summary scoring
    * This is the preferred endpoint for parsing period-by-period game data
    * @param gameId NHL game ID (e.g., "2024020003")
+   * @param options.revalidate Check a cached landing with the API even while it is fresh
    */
-  async getGameLanding(gameId: string): Promise<NewNHLLandingResponse> {
+  async getGameLanding(gameId: string, options: { revalidate?: boolean } = {}): Promise<NewNHLLandingResponse> {
     const url = `${NHL_API_BASE_URL}/v1/gamecenter/${gameId}/landing`;
-    return fetchWithRetry<NewNHLLandingResponse>(url);
+    return fetchWithRetry<NewNHLLandingResponse>(url, { revalidate: options.revalidate });
+  },
+
+  /**
+   * Get raw play-by-play events (shots, hits, faceoffs, penalties, ...)
+   * @param gameId NHL game ID (e.g., "2024020705")
+   */
+  async getPlayByPlay(gameId: string): Promise<NewNHLPlayByPlayResponse> {
+    const url = `${NHL_API_BASE_URL}/v1/gamecenter/${gameId}/play-by-play`;
+    return fetchWithRetry<NewNHLPlayByPlayResponse>(url);
   },
 
   /**
@@ -289,8 +372,7 @@ export const nhlApi = {
    * @param gameId NHL game ID (e.g., "2024020705")
    */
   async getGameFeed(gameId: string): Promise<NHLGameFeed> {
-    const url = `${NHL_API_BASE_URL}/v1/gamecenter/${gameId}/play-by-play`;
-    const response = await fetchWithRetry<NewNHLPlayByPlayResponse>(url);
+    const response = await this.getPlayByPlay(gameId);
 
     // Transform new API response to legacy format for backward compatibility
     // This allows existing transformers to continue working
@@ -386,7 +468,7 @@ export const nhlApi = {
             .filter(p => p.typeCode === 509) // Penalty type code
             .map(p => p.eventId),
           playsByPeriod: [],
-          currentPlay: {} as any,
+          currentPlay: {} as NHLPlay,
         },
         linescore: {
           currentPeriod: response.periodDescriptor.number,
@@ -447,17 +529,26 @@ export const nhlApi = {
   /**
    * Get current standings
    */
-  async getStandings() {
-    const url = `${NHL_API_BASE_URL}/standings`;
-    return fetchWithRetry(url);
+  async getStandings(): Promise<NewNHLStandingsResponse> {
+    const url = `${NHL_API_BASE_URL}/v1/standings/now`;
+    return fetchWithRetry<NewNHLStandingsResponse>(url);
   },
 
   /**
    * Get standings for a specific date
    * @param date YYYY-MM-DD format
    */
-  async getStandingsByDate(date: string) {
-    const url = `${NHL_API_BASE_URL}/standings?date=${date}`;
-    return fetchWithRetry(url);
+  async getStandingsByDate(date: string): Promise<NewNHLStandingsResponse> {
+    const url = `${NHL_API_BASE_URL}/v1/standings/${date}`;
+    return fetchWithRetry<NewNHLStandingsResponse>(url);
+  },
+
+  /**
+   * Get the scoreboard (game states, scores and clocks) for a day
+   * @param date YYYY-MM-DD format; omit for the current NHL day (currentDate in the response)
+   */
+  async getScoreboard(date?: string): Promise<NewNHLScoreResponse> {
+    const url = `${NHL_API_BASE_URL}/v1/score/${date || 'now'}`;
+    return fetchWithRetry<NewNHLScoreResponse>(url);
   },
 };
@@ -0,0 +1,67 @@
+// Recorded NHL API responses for offline development and tests
+// NHL_API_MODE selects how the client talks to the API:
+//   live   - always hit NHL_API_BASE_URL (default)
+//   record - hit the API and save every successful response to NHL_API_FIXTURES_DIR
+//   replay - serve responses from NHL_API_FIXTURES_DIR only, never touching the network
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+export type NHLApiMode = 'live' | 'record' | 'replay';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/nhl-api';
+
+/**
+ * Get the configured API mode
+ */
+export function getNHLApiMode(): NHLApiMode {
+  const mode = (process.env.NHL_API_MODE || 'live').toLowerCase();
+  if (mode !== 'live' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown NHL_API_MODE "${mode}". Use "live", "record" or "replay".`);
+  }
+  return mode;
+}
+
+function getFixturesDir(): string {
+  return resolve(process.cwd(), process.env.NHL_API_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+/**
+ * Map a request URL to its fixture file
+ * e.g. https://api-web.nhle.com/v1/gamecenter/2024020001/landing -> <dir>/v1/gamecenter/2024020001/landing.json
+ * Query strings become part of the file name so different parameters never share a fixture
+ */
+export function getFixturePath(url: string): string {
+  return getUrlFilePath(getFixturesDir(), url);
+}
+
+/**
+ * Map a request URL to a JSON file under a directory, mirroring the URL path
+ */
+export function getUrlFilePath(dir: string, url: string): string {
+  const { pathname, search } = new URL(url);
+  const segments = pathname.split('/').filter(Boolean);
+  const query = search ? '__' + search.slice(1).replace(/[^A-Za-z0-9=_-]/g, '_') : '';
+  return join(dir, ...segments) + query + '.json';
+}
+
+/**
+ * Read a recorded response
+ * Throws a "not found" error when nothing was recorded, which the client treats like an HTTP 404
+ */
+export function readFixture<T>(url: string): T {
+  const path = getFixturePath(url);
+  if (!existsSync(path)) {
+    throw new Error(`Resource not found: ${url} (no recorded fixture at ${path})`);
+  }
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+/**
+ * Save a response so it can be replayed later
+ */
+export function writeFixture(url: string, data: unknown): void {
+  const path = getFixturePath(url);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(data, null, 2) + '\n');
+}
@@ -0,0 +1,186 @@
+// NHL API rate limiter
+// Token bucket (sustained rate plus burst) with a cap on requests in flight, shared by every
+// caller in the process; a 429 pauses the whole bucket until the server's Retry-After has passed
+
+export interface RateLimiterOptions {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Requests that may start back to back after an idle period */
+  burst: number;
+  /** Requests in flight at once */
+  concurrency: number;
+}
+
+export interface RateLimiterMetrics extends RateLimiterOptions {
+  requests: number;
+  failures: number;
+  retries: number;
+  /** 429 responses received */
+  rate_limited: number;
+  active: number;
+  queued: number;
+  average_wait_ms: number;
+  average_latency_ms: number;
+  /** Set while requests are held back by a Retry-After */
+  paused_until: string | null;
+}
+
+export interface RateLimiter {
+  readonly options: RateLimiterOptions;
+  /** Run a request once a token and a concurrency slot are free */
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+  /** Hold back every request until the given time (epoch ms), e.g. after a 429 */
+  pauseUntil(time: number): void;
+  recordRetry(): void;
+  metrics(): RateLimiterMetrics;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Limiter settings from the environment
+ * NHL_API_REQUESTS_PER_SECOND (5), NHL_API_BURST (10), NHL_API_CONCURRENCY (5)
+ */
+export function getRateLimiterConfig(): RateLimiterOptions {
+  return {
+    requestsPerSecond: readNumber('NHL_API_REQUESTS_PER_SECOND', 5),
+    burst: Math.max(1, Math.floor(readNumber('NHL_API_BURST', 10))),
+    concurrency: Math.max(1, Math.floor(readNumber('NHL_API_CONCURRENCY', 5))),
+  };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const waiting: Array<() => void> = [];
+
+  const totals = { requests: 0, failures: 0, retries: 0, rateLimited: 0, waitMs: 0, latencyMs: 0 };
+
+  function refill(now: number): void {
+    tokens = Math.min(options.burst, tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond);
+    lastRefill = now;
+  }
+
+  function wakeIn(ms: number): void {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      drain();
+    }, Math.ceil(ms));
+  }
+
+  // Start as many waiting requests as tokens and free slots allow
+  function drain(): void {
+    while (waiting.length > 0 && active < options.concurrency) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeIn(pausedUntil - now);
+        return;
+      }
+
+      refill(now);
+      if (tokens < 1) {
+        wakeIn(((1 - tokens) / options.requestsPerSecond) * 1000);
+        return;
+      }
+
+      tokens -= 1;
+      active++;
+      waiting.shift()!();
+    }
+  }
+
+  return {
+    options,
+
+    async schedule<T>(task: () => Promise<T>): Promise<T> {
+      const queuedAt = Date.now();
+      await new Promise<void>(resolve => {
+        waiting.push(resolve);
+        drain();
+      });
+
+      const startedAt = Date.now();
+      totals.waitMs += startedAt - queuedAt;
+      try {
+        return await task();
+      } catch (error) {
+        totals.failures++;
+        throw error;
+      } finally {
+        totals.requests++;
+        totals.latencyMs += Date.now() - startedAt;
+        active--;
+        drain();
+      }
+    },
+
+    pauseUntil(time: number): void {
+      totals.rateLimited++;
+      if (time > pausedUntil) {
+        pausedUntil = time;
+        // Spend the burst only after the pause, not as soon as it ends: one token at the end,
+        // and no refill for the time spent paused
+        tokens = Math.min(tokens, 1);
+        lastRefill = time;
+      }
+    },
+
+    recordRetry(): void {
+      totals.retries++;
+    },
+
+    metrics(): RateLimiterMetrics {
+      return {
+        ...options,
+        requests: totals.requests,
+        failures: totals.failures,
+        retries: totals.retries,
+        rate_limited: totals.rateLimited,
+        active,
+        queued: waiting.length,
+        average_wait_ms: totals.requests > 0 ? Math.round(totals.waitMs / totals.requests) : 0,
+        average_latency_ms: totals.requests > 0 ? Math.round(totals.latencyMs / totals.requests) : 0,
+        paused_until: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null,
+      };
+    },
+  };
+}
+
+/**
+ * Run a task for every item with at most `concurrency` running at once
+ * Pair with the client's limiter concurrency so callers keep it busy without piling up work
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+}
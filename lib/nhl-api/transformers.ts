@@ -7,10 +7,21 @@ import type {
   NHLPlay,
   NHLScheduleGame,
   NHLPeriod,
+  NewNHLGoal,
   NewNHLLandingResponse,
   NewNHLPeriodScoring,
+  NewNHLPlayByPlayResponse,
 } from './types';
-import type { Game, PeriodResult } from '../supabase/queries';
+import type {
+  Game,
+  GameResultType,
+  GameTeamResult,
+  Goal,
+  GoalStrength,
+  NewGoal,
+  PeriodPlayStats,
+  PeriodResult,
+} from '../db/types';
 
 /**
  * Calculate period outcome (WIN/LOSS/TIE)
@@ -20,15 +31,19 @@ export function calculatePeriodOutcome(
   periodNumber: number,
   goalsFor: number,
   goalsAgainst: number,
-  emptyNetGoals: number
+  emptyNetGoalsFor: number,
+  emptyNetGoalsAgainst: number
 ): 'WIN' | 'LOSS' | 'TIE' {
-  // Special case: Exclude empty net goals from 3rd period (FR-008)
+  // Special case: Exclude both teams' empty net goals from 3rd period (FR-008)
   const adjustedGoalsFor = periodNumber === 3
-    ? goalsFor - emptyNetGoals
+    ? goalsFor - emptyNetGoalsFor
     : goalsFor;
+  const adjustedGoalsAgainst = periodNumber === 3
+    ? goalsAgainst - emptyNetGoalsAgainst
+    : goalsAgainst;
 
-  if (adjustedGoalsFor > goalsAgainst) return 'WIN';
-  if (adjustedGoalsFor < goalsAgainst) return 'LOSS';
+  if (adjustedGoalsFor > adjustedGoalsAgainst) return 'WIN';
+  if (adjustedGoalsFor < adjustedGoalsAgainst) return 'LOSS';
   return 'TIE';
 }
 
@@ -47,6 +62,348 @@ export function calculateWonTwoPlusRegPeriods(
   return regulationWins >= 2;
 }
 
+/**
+ * Parse an NHL situation code (e.g. "1551")
+ * Digits are: away goalie in net, away skaters, home skaters, home goalie in net
+ */
+export function parseSituationCode(situationCode: string | number | undefined): {
+  awayGoalie: number;
+  awaySkaters: number;
+  homeSkaters: number;
+  homeGoalie: number;
+} | null {
+  const code = situationCode?.toString();
+  if (!code || !/^\d{4}$/.test(code)) return null;
+
+  return {
+    awayGoalie: Number(code[0]),
+    awaySkaters: Number(code[1]),
+    homeSkaters: Number(code[2]),
+    homeGoalie: Number(code[3]),
+  };
+}
+
+/**
+ * Check if a goal went into an empty net
+ * The situation code's goalie digit for the conceding team is 0 when its net was empty
+ */
+export function isEmptyNetGoal(goal: NewNHLGoal, homeTeamCode: string): boolean {
+  if (goal.goalModifier === 'empty-net') return true;
+
+  const situation = parseSituationCode(goal.situationCode);
+  if (!situation) return false;
+
+  const opponentGoalie = goal.teamAbbrev.default === homeTeamCode ? situation.awayGoalie : situation.homeGoalie;
+  return opponentGoalie === 0;
+}
+
+/**
+ * Check if a goal was scored at 5v5 with both goalies in net
+ */
+export function isFiveOnFiveGoal(situationCode: string | number | undefined): boolean {
+  const situation = parseSituationCode(situationCode);
+  if (!situation) return false;
+
+  return situation.awayGoalie === 1 &&
+    situation.awaySkaters === 5 &&
+    situation.homeSkaters === 5 &&
+    situation.homeGoalie === 1;
+}
+
+/**
+ * Goals scored by one team in one period, split by strength state
+ */
+interface PeriodGoalCounts {
+  total: number;
+  emptyNet: number;
+  ev: number;
+  pp: number;
+  sh: number;
+  fiveOnFive: number;
+}
+
+function emptyGoalCounts(): PeriodGoalCounts {
+  return { total: 0, emptyNet: 0, ev: 0, pp: 0, sh: 0, fiveOnFive: 0 };
+}
+
+/**
+ * Build one team's period result row from both teams' goal counts
+ */
+function buildPeriodResult(
+  gameId: string,
+  teamCode: string,
+  periodNumber: number,
+  goalsFor: PeriodGoalCounts,
+  goalsAgainst: PeriodGoalCounts
+): Omit<PeriodResult, 'id'> {
+  const periodType = periodNumber <= 3 ? 'REGULATION' : periodNumber === 4 ? 'OT' : 'SO';
+
+  return {
+    game_id: gameId,
+    team_code: teamCode,
+    period_number: periodNumber,
+    period_type: periodType,
+    goals_for: goalsFor.total,
+    goals_against: goalsAgainst.total,
+    empty_net_goals: goalsFor.emptyNet,
+    period_outcome: calculatePeriodOutcome(periodNumber, goalsFor.total, goalsAgainst.total, goalsFor.emptyNet, goalsAgainst.emptyNet),
+    won_two_plus_reg_periods: false, // Calculated after all periods processed
+    goals_for_ev: goalsFor.ev,
+    goals_for_pp: goalsFor.pp,
+    goals_for_sh: goalsFor.sh,
+    goals_against_ev: goalsAgainst.ev,
+    goals_against_pp: goalsAgainst.pp,
+    goals_against_sh: goalsAgainst.sh,
+    goals_for_5v5: goalsFor.fiveOnFive,
+    goals_against_5v5: goalsAgainst.fiveOnFive,
+    // 5v5 goals never include empty-net goals, so no adjustment is needed
+    period_outcome_5v5: calculatePeriodOutcome(periodNumber, goalsFor.fiveOnFive, goalsAgainst.fiveOnFive, 0, 0),
+  };
+}
+
+/**
+ * Derive each team's final game result from its period results
+ * Regular-season shootouts credit the winner one goal (NHL scoring convention);
+ * playoff games never go to a shootout, so every extra period is overtime
+ */
+export function buildGameTeamResults(
+  game: Game,
+  periodResults: Array<Omit<PeriodResult, 'id'>>
+): GameTeamResult[] {
+  const isPlayoffs = game.game_type === 'Playoffs';
+  const teams = [
+    { teamCode: game.home_team_code, opponentCode: game.away_team_code, isHome: true },
+    { teamCode: game.away_team_code, opponentCode: game.home_team_code, isHome: false },
+  ];
+
+  const wentPastRegulation = periodResults.some(p => p.period_number > 3);
+  const shootout = !isPlayoffs && periodResults.some(p => p.period_type === 'SO');
+  const resultType: GameResultType = shootout ? 'SO' : wentPastRegulation ? 'OT' : 'REG';
+
+  // Goals scored by each team, with shootout goals collapsed into a single deciding goal
+  const scoreFor = (teamCode: string) => {
+    const periods = periodResults.filter(p => p.team_code === teamCode);
+    const scored = periods
+      .filter(p => !shootout || p.period_type !== 'SO')
+      .reduce((sum, p) => sum + p.goals_for, 0);
+    const shootoutPeriod = shootout ? periods.find(p => p.period_type === 'SO') : undefined;
+    const wonShootout = shootoutPeriod ? shootoutPeriod.goals_for > shootoutPeriod.goals_against : false;
+    return scored + (wonShootout ? 1 : 0);
+  };
+
+  return teams.map(({ teamCode, opponentCode, isHome }) => {
+    const goalsFor = scoreFor(teamCode);
+    const goalsAgainst = scoreFor(opponentCode);
+    const result = goalsFor > goalsAgainst ? 'WIN' : goalsFor < goalsAgainst ? 'LOSS' : 'TIE';
+
+    const regulationPeriods = periodResults.filter(p => p.team_code === teamCode && p.period_number <= 3);
+    const regulationPeriodsWon = regulationPeriods.filter(p => p.period_outcome === 'WIN').length;
+    const wonTwoPlus = regulationPeriodsWon >= 2;
+    const regulationPeriodsWon5v5 = regulationPeriods.filter(p => p.period_outcome_5v5 === 'WIN').length;
+    const wonTwoPlus5v5 = regulationPeriodsWon5v5 >= 2;
+
+    return {
+      game_id: game.game_id,
+      team_code: teamCode,
+      opponent_code: opponentCode,
+      is_home: isHome,
+      goals_for: goalsFor,
+      goals_against: goalsAgainst,
+      result,
+      result_type: resultType,
+      regulation_periods_won: regulationPeriodsWon,
+      regulation_periods_lost: regulationPeriods.filter(p => p.period_outcome === 'LOSS').length,
+      regulation_periods_tied: regulationPeriods.filter(p => p.period_outcome === 'TIE').length,
+      won_two_plus_reg_periods: wonTwoPlus,
+      win_quality: result === 'WIN' ? (wonTwoPlus ? 'GOOD' : 'BAD') : null,
+      regulation_periods_won_5v5: regulationPeriodsWon5v5,
+      regulation_periods_lost_5v5: regulationPeriods.filter(p => p.period_outcome_5v5 === 'LOSS').length,
+      regulation_periods_tied_5v5: regulationPeriods.filter(p => p.period_outcome_5v5 === 'TIE').length,
+      won_two_plus_reg_periods_5v5: wonTwoPlus5v5,
+      win_quality_5v5: result === 'WIN' ? (wonTwoPlus5v5 ? 'GOOD' : 'BAD') : null,
+    };
+  });
+}
+
+/**
+ * Recompute stored period results' empty-net counts and outcomes from the game's stored goals
+ * Rows written before empty-net goals were detected by the conceding team's goalie can be wrong;
+ * only pass games whose goals add up to their period scores
+ */
+export function rescorePeriodResults(
+  periodResults: Array<Omit<PeriodResult, 'id'>>,
+  goals: Array<Pick<Goal, 'team_code' | 'period_number' | 'is_empty_net'>>
+): Array<Omit<PeriodResult, 'id'>> {
+  const emptyNetGoals = (teamCode: string, periodNumber: number) =>
+    goals.filter(g => g.is_empty_net && g.team_code === teamCode && g.period_number === periodNumber).length;
+
+  const rescored = periodResults.map(result => {
+    const opponent = periodResults.find(o => o.period_number === result.period_number && o.team_code !== result.team_code);
+    const emptyNetFor = emptyNetGoals(result.team_code, result.period_number);
+    const emptyNetAgainst = opponent ? emptyNetGoals(opponent.team_code, result.period_number) : 0;
+
+    return {
+      ...result,
+      empty_net_goals: emptyNetFor,
+      period_outcome: calculatePeriodOutcome(
+        result.period_number, result.goals_for, result.goals_against, emptyNetFor, emptyNetAgainst
+      ),
+    };
+  });
+
+  for (const result of rescored) {
+    result.won_two_plus_reg_periods = calculateWonTwoPlusRegPeriods(
+      rescored
+        .filter(p => p.team_code === result.team_code)
+        .map(p => ({ periodNumber: p.period_number, periodOutcome: p.period_outcome }))
+    );
+  }
+
+  return rescored;
+}
+
+/**
+ * Convert an elapsed period clock (MM:SS) to seconds
+ */
+export function parseTimeInPeriod(timeInPeriod: string): number {
+  const [minutes, seconds] = timeInPeriod.split(':').map(Number);
+  return (minutes || 0) * 60 + (seconds || 0);
+}
+
+/**
+ * Build goal rows from the landing summary, numbered in scoring order
+ * Shootout attempts are skipped; they are not goals
+ */
+export function buildGoals(
+  gameId: string,
+  homeTeamCode: string,
+  scoringPeriods: NewNHLPeriodScoring[]
+): NewGoal[] {
+  const goals: NewGoal[] = [];
+
+  for (const periodScoring of scoringPeriods) {
+    if (periodScoring.periodDescriptor.periodType === 'SO') continue;
+
+    for (const goal of periodScoring.goals) {
+      const teamCode = goal.teamAbbrev.default;
+      const [assist1, assist2] = goal.assists || [];
+      const strength = ['ev', 'pp', 'sh'].includes(goal.strength) ? goal.strength as GoalStrength : null;
+
+      goals.push({
+        game_id: gameId,
+        period_number: periodScoring.periodDescriptor.number,
+        goal_number: goals.length + 1,
+        team_code: teamCode,
+        scorer_id: goal.playerId,
+        scorer_name: `${goal.firstName.default} ${goal.lastName.default}`,
+        assist1_id: assist1?.playerId ?? null,
+        assist1_name: assist1 ? `${assist1.firstName.default} ${assist1.lastName.default}` : null,
+        assist2_id: assist2?.playerId ?? null,
+        assist2_name: assist2 ? `${assist2.firstName.default} ${assist2.lastName.default}` : null,
+        time_in_period: goal.timeInPeriod,
+        seconds_in_period: parseTimeInPeriod(goal.timeInPeriod),
+        shot_type: goal.shotType || null,
+        strength,
+        situation_code: goal.situationCode?.toString() || null,
+        is_empty_net: isEmptyNetGoal(goal, homeTeamCode),
+        home_score: goal.homeScore,
+        away_score: goal.awayScore,
+      });
+    }
+  }
+
+  return goals;
+}
+
+/**
+ * Aggregate play-by-play events into per-team, per-period totals
+ * Shootout events are skipped; every period that was played gets a row for both teams
+ */
+export function buildPeriodPlayStats(playByPlay: NewNHLPlayByPlayResponse): PeriodPlayStats[] {
+  const gameId = playByPlay.id.toString();
+  const teamCodes = new Map([
+    [playByPlay.homeTeam.id, playByPlay.homeTeam.abbrev],
+    [playByPlay.awayTeam.id, playByPlay.awayTeam.abbrev],
+  ]);
+  const opponentOf = new Map([
+    [playByPlay.homeTeam.abbrev, playByPlay.awayTeam.abbrev],
+    [playByPlay.awayTeam.abbrev, playByPlay.homeTeam.abbrev],
+  ]);
+
+  const stats = new Map<string, PeriodPlayStats>();
+  const statsFor = (teamCode: string, periodNumber: number): PeriodPlayStats => {
+    const key = `${teamCode}:${periodNumber}`;
+    if (!stats.has(key)) {
+      stats.set(key, {
+        game_id: gameId,
+        team_code: teamCode,
+        period_number: periodNumber,
+        shots_on_goal: 0,
+        shots_against: 0,
+        shot_attempts: 0,
+        shot_attempts_against: 0,
+        faceoffs_won: 0,
+        faceoffs_lost: 0,
+        hits: 0,
+        penalty_minutes: 0,
+      });
+    }
+    return stats.get(key)!;
+  };
+
+  let lastPeriod = 3;
+  for (const play of playByPlay.plays) {
+    const { number: periodNumber, periodType } = play.periodDescriptor;
+    if (periodType === 'SO') continue;
+    lastPeriod = Math.max(lastPeriod, periodNumber);
+
+    const owner = teamCodes.get(play.details?.eventOwnerTeamId ?? -1);
+    if (!owner) continue;
+    const opponent = opponentOf.get(owner)!;
+    const own = statsFor(owner, periodNumber);
+    const other = statsFor(opponent, periodNumber);
+
+    switch (play.typeDescKey) {
+      case 'goal':
+      case 'shot-on-goal':
+        own.shots_on_goal++;
+        own.shot_attempts++;
+        other.shots_against++;
+        other.shot_attempts_against++;
+        break;
+      case 'missed-shot':
+        own.shot_attempts++;
+        other.shot_attempts_against++;
+        break;
+      case 'blocked-shot':
+        // Owned by the blocking team, so the attempt belongs to the opponent
+        other.shot_attempts++;
+        own.shot_attempts_against++;
+        break;
+      case 'faceoff':
+        own.faceoffs_won++;
+        other.faceoffs_lost++;
+        break;
+      case 'hit':
+        own.hits++;
+        break;
+      case 'penalty':
+        own.penalty_minutes += play.details?.duration ?? 0;
+        break;
+    }
+  }
+
+  // Quiet periods still get rows so period counts line up with period_results
+  for (let periodNumber = 1; periodNumber <= lastPeriod; periodNumber++) {
+    statsFor(playByPlay.homeTeam.abbrev, periodNumber);
+    statsFor(playByPlay.awayTeam.abbrev, periodNumber);
+  }
+
+  return [...stats.values()].sort((a, b) =>
+    a.period_number - b.period_number || a.team_code.localeCompare(b.team_code)
+  );
+}
+
 /**
  * Extract empty net goals from play-by-play data
  * Returns count of EN goals by period for each team
@@ -209,6 +566,8 @@ export function transformGameFeed(
 ): {
   game: Game;
   periodResults: Array<Omit<PeriodResult, 'id'>>;
+  gameTeamResults: GameTeamResult[];
+  goals: NewGoal[];
 } {
   const { gameData, liveData } = gameFeed;
   const { linescore, plays } = liveData;
@@ -244,51 +603,13 @@ export function transformGameFeed(
 
   for (const period of periods) {
     const periodNumber = period.num;
-    const periodType = period.num <= 3 ? 'REGULATION' : period.num === 4 ? 'OT' : 'SO';
-
-    // Get empty net goals for this period
-    const homeEnGoals = enGoals.get(homeTeamId.toString())?.get(periodNumber) || 0;
-    const awayEnGoals = enGoals.get(awayTeamId.toString())?.get(periodNumber) || 0;
-
-    // Home team period result
-    const homeOutcome = calculatePeriodOutcome(
-      periodNumber,
-      period.home.goals,
-      period.away.goals,
-      homeEnGoals
-    );
 
-    periodResults.push({
-      game_id: game.game_id,
-      team_code: homeTeamCode,
-      period_number: periodNumber,
-      period_type: periodType as 'REGULATION' | 'OT' | 'SO',
-      goals_for: period.home.goals,
-      goals_against: period.away.goals,
-      empty_net_goals: homeEnGoals,
-      period_outcome: homeOutcome,
-      won_two_plus_reg_periods: false, // Calculated after all periods processed
-    });
+    // The legacy feed has no strength information; only totals and empty-net goals are known
+    const homeGoals = { ...emptyGoalCounts(), total: period.home.goals, emptyNet: enGoals.get(homeTeamId.toString())?.get(periodNumber) || 0 };
+    const awayGoals = { ...emptyGoalCounts(), total: period.away.goals, emptyNet: enGoals.get(awayTeamId.toString())?.get(periodNumber) || 0 };
 
-    // Away team period result
-    const awayOutcome = calculatePeriodOutcome(
-      periodNumber,
-      period.away.goals,
-      period.home.goals,
-      awayEnGoals
-    );
-
-    periodResults.push({
-      game_id: game.game_id,
-      team_code: awayTeamCode,
-      period_number: periodNumber,
-      period_type: periodType as 'REGULATION' | 'OT' | 'SO',
-      goals_for: period.away.goals,
-      goals_against: period.home.goals,
-      empty_net_goals: awayEnGoals,
-      period_outcome: awayOutcome,
-      won_two_plus_reg_periods: false, // Calculated after all periods processed
-    });
+    periodResults.push(buildPeriodResult(game.game_id, homeTeamCode, periodNumber, homeGoals, awayGoals));
+    periodResults.push(buildPeriodResult(game.game_id, awayTeamCode, periodNumber, awayGoals, homeGoals));
   }
 
   // Calculate won_two_plus_reg_periods for both teams
@@ -312,7 +633,8 @@ export function transformGameFeed(
     }
   }
 
-  return { game, periodResults };
+  // The legacy feed carries no scorer details, so no goal rows are produced
+  return { game, periodResults, gameTeamResults: buildGameTeamResults(game, periodResults), goals: [] };
 }
 
 /**
@@ -327,6 +649,8 @@ export function transformGameLanding(
 ): {
   game: Game;
   periodResults: Array<Omit<PeriodResult, 'id'>>;
+  gameTeamResults: GameTeamResult[];
+  goals: NewGoal[];
 } {
   // Extract team information
   const homeTeamCode = landingData.homeTeam.abbrev;
@@ -356,58 +680,27 @@ export function transformGameLanding(
   // Process each period from summary.scoring (if available)
   for (const periodScoring of (scoringPeriods || [])) {
     const periodNumber = periodScoring.periodDescriptor.number;
-    const periodType = periodNumber <= 3 ? 'REGULATION' : periodNumber === 4 ? 'OT' : 'SO';
 
-    // Count goals for each team in this period
-    let homeGoals = 0;
-    let awayGoals = 0;
-    let homeEnGoals = 0;
-    let awayEnGoals = 0;
+    // Count goals for each team in this period, by strength state
+    const homeGoals = emptyGoalCounts();
+    const awayGoals = emptyGoalCounts();
 
     for (const goal of periodScoring.goals) {
-      const isEmptyNet = goal.goalModifier === 'empty-net' ||
-                        (goal.situationCode && goal.situationCode.toString().slice(-1) === '1'); // Last digit 1 = EN
-
       const goalTeamAbbrev = goal.teamAbbrev.default;
-
-      if (goalTeamAbbrev === homeTeamCode) {
-        homeGoals++;
-        if (isEmptyNet) homeEnGoals++;
-      } else if (goalTeamAbbrev === awayTeamCode) {
-        awayGoals++;
-        if (isEmptyNet) awayEnGoals++;
-      }
+      const counts = goalTeamAbbrev === homeTeamCode ? homeGoals :
+                     goalTeamAbbrev === awayTeamCode ? awayGoals : null;
+      if (!counts) continue;
+
+      counts.total++;
+      if (isEmptyNetGoal(goal, homeTeamCode)) counts.emptyNet++;
+      if (goal.strength === 'ev') counts.ev++;
+      else if (goal.strength === 'pp') counts.pp++;
+      else if (goal.strength === 'sh') counts.sh++;
+      if (isFiveOnFiveGoal(goal.situationCode)) counts.fiveOnFive++;
     }
 
-    // Calculate outcomes for both teams
-    const homeOutcome = calculatePeriodOutcome(periodNumber, homeGoals, awayGoals, homeEnGoals);
-    const awayOutcome = calculatePeriodOutcome(periodNumber, awayGoals, homeGoals, awayEnGoals);
-
-    // Add home team period result
-    periodResults.push({
-      game_id: game.game_id,
-      team_code: homeTeamCode,
-      period_number: periodNumber,
-      period_type: periodType as 'REGULATION' | 'OT' | 'SO',
-      goals_for: homeGoals,
-      goals_against: awayGoals,
-      empty_net_goals: homeEnGoals,
-      period_outcome: homeOutcome,
-      won_two_plus_reg_periods: false, // Calculated after all periods processed
-    });
-
-    // Add away team period result
-    periodResults.push({
-      game_id: game.game_id,
-      team_code: awayTeamCode,
-      period_number: periodNumber,
-      period_type: periodType as 'REGULATION' | 'OT' | 'SO',
-      goals_for: awayGoals,
-      goals_against: homeGoals,
-      empty_net_goals: awayEnGoals,
-      period_outcome: awayOutcome,
-      won_two_plus_reg_periods: false, // Calculated after all periods processed
-    });
+    periodResults.push(buildPeriodResult(game.game_id, homeTeamCode, periodNumber, homeGoals, awayGoals));
+    periodResults.push(buildPeriodResult(game.game_id, awayTeamCode, periodNumber, awayGoals, homeGoals));
   }
 
   // Ensure we have all regulation periods (even if scoreless)
@@ -415,29 +708,8 @@ export function transformGameLanding(
   for (let i = 1; i <= 3; i++) {
     if (!existingPeriods.has(i)) {
       // Add scoreless period for both teams
-      periodResults.push({
-        game_id: game.game_id,
-        team_code: homeTeamCode,
-        period_number: i,
-        period_type: 'REGULATION',
-        goals_for: 0,
-        goals_against: 0,
-        empty_net_goals: 0,
-        period_outcome: 'TIE',
-        won_two_plus_reg_periods: false,
-      });
-
-      periodResults.push({
-        game_id: game.game_id,
-        team_code: awayTeamCode,
-        period_number: i,
-        period_type: 'REGULATION',
-        goals_for: 0,
-        goals_against: 0,
-        empty_net_goals: 0,
-        period_outcome: 'TIE',
-        won_two_plus_reg_periods: false,
-      });
+      periodResults.push(buildPeriodResult(game.game_id, homeTeamCode, i, emptyGoalCounts(), emptyGoalCounts()));
+      periodResults.push(buildPeriodResult(game.game_id, awayTeamCode, i, emptyGoalCounts(), emptyGoalCounts()));
     }
   }
 
@@ -468,7 +740,12 @@ export function transformGameLanding(
     }
   }
 
-  return { game, periodResults };
+  return {
+    game,
+    periodResults,
+    gameTeamResults: buildGameTeamResults(game, periodResults),
+    goals: buildGoals(game.game_id, homeTeamCode, scoringPeriods || []),
+  };
 }
 
 /**
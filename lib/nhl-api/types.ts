@@ -54,7 +54,7 @@ export interface NewNHLScheduleResponse {
     numberOfGames: number;
     games: NewNHLGame[];
   }>;
-  oddsPartners: any[];
+  oddsPartners: unknown[];
   preSeasonStartDate: string;
   regularSeasonStartDate: string;
   regularSeasonEndDate: string;
@@ -62,6 +62,40 @@ export interface NewNHLScheduleResponse {
   numberOfGames: number;
 }
 
+export type NHLSeasonDates = Pick<
+  NewNHLScheduleResponse,
+  'preSeasonStartDate' | 'regularSeasonStartDate' | 'regularSeasonEndDate' | 'playoffEndDate'
+>;
+
+export interface NewNHLGameClock {
+  timeRemaining: string; // "12:34"
+  secondsRemaining: number;
+  running: boolean;
+  inIntermission: boolean;
+}
+
+// Scoreboard endpoint (/v1/score/{date}): every game of a day with live state, score and clock
+export interface NewNHLScoreGame {
+  id: number;
+  season: number;
+  gameType: number;
+  gameDate: string;
+  startTimeUTC: string;
+  gameState: string; // "FUT", "PRE", "LIVE", "CRIT", "FINAL", "OFF"
+  gameScheduleState: string;
+  awayTeam: { id: number; abbrev: string; score?: number };
+  homeTeam: { id: number; abbrev: string; score?: number };
+  periodDescriptor?: NewNHLPeriodDescriptor;
+  clock?: NewNHLGameClock;
+}
+
+export interface NewNHLScoreResponse {
+  prevDate: string;
+  currentDate: string;
+  nextDate: string;
+  games: NewNHLScoreGame[];
+}
+
 export interface NewNHLPlay {
   eventId: number;
   periodDescriptor: NewNHLPeriodDescriptor;
@@ -85,6 +119,20 @@ export interface NewNHLPlay {
     goalieInNetId?: number;
     shotType?: string;
     reason?: string;
+    // Faceoffs (eventOwnerTeamId is the team that won the draw)
+    winningPlayerId?: number;
+    losingPlayerId?: number;
+    // Hits (eventOwnerTeamId is the hitting team)
+    hittingPlayerId?: number;
+    hitteePlayerId?: number;
+    // Shots (eventOwnerTeamId is the shooting team, except blocked shots where it is the blocking team)
+    shootingPlayerId?: number;
+    blockingPlayerId?: number;
+    // Penalties (eventOwnerTeamId is the penalized team)
+    typeCode?: string; // "MIN", "MAJ", "MIS", ...
+    descKey?: string;
+    duration?: number; // minutes
+    committedByPlayerId?: number;
   };
 }
 
@@ -131,6 +179,8 @@ export interface NewNHLLandingResponse {
   awayTeam: NewNHLTeam & { score: number };
   homeTeam: NewNHLTeam & { score: number };
   periodDescriptor: NewNHLPeriodDescriptor;
+  /** Only present while the game is in progress */
+  clock?: NewNHLGameClock;
   summary: {
     scoring: NewNHLPeriodScoring[];
   };
@@ -155,6 +205,34 @@ export interface NewNHLPlayByPlayResponse {
   // ... other fields we may not need
 }
 
+export interface NewNHLStandingsTeam {
+  teamAbbrev: { default: string };
+  teamName: { default: string };
+  conferenceName: string;
+  divisionName: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  otLosses: number;
+  points: number;
+  pointPctg: number;
+  regulationWins: number;
+  goalFor: number;
+  goalAgainst: number;
+  goalDifferential: number;
+  streakCode: string;
+  streakCount: number;
+  wildcardSequence: number;
+  conferenceSequence: number;
+  divisionSequence: number;
+  leagueSequence: number;
+}
+
+export interface NewNHLStandingsResponse {
+  wildCardIndicator: boolean;
+  standings: NewNHLStandingsTeam[];
+}
+
 // ============================================================================
 // LEGACY API TYPES (statsapi.web.nhl.com) - for backward compatibility
 // ============================================================================
@@ -316,13 +394,13 @@ export interface NHLGameFeed {
       currentPlay: NHLPlay;
     };
     linescore: NHLLinescore;
-    boxscore: any; // Complex nested structure, can be expanded if needed
+    boxscore: Record<string, unknown>; // Complex nested structure, can be expanded if needed
     decisions: {
-      winner?: any;
-      loser?: any;
-      firstStar?: any;
-      secondStar?: any;
-      thirdStar?: any;
+      winner?: unknown;
+      loser?: unknown;
+      firstStar?: unknown;
+      secondStar?: unknown;
+      thirdStar?: unknown;
     };
   };
 }
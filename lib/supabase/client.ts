@@ -22,7 +22,7 @@ export const supabase: SupabaseClient = new Proxy({} as SupabaseClient, {
         'Supabase is not configured. Please set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY environment variables.'
       );
     }
-    return (supabaseInstance as any)[prop];
+    return Reflect.get(supabaseInstance, prop);
   },
 });
 
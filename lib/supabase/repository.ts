@@ -0,0 +1,1193 @@
+// Supabase implementation of the data access layer
+// Reads use the anon client (public RLS policies), writes use the service role client
+// Chat conversations, agent checkpoints and approvals are private, so they use the service role client throughout
+
+import { supabase, supabaseAdmin } from './client';
+import type {
+  AgentCheckpoint,
+  AgentCheckpointFilter,
+  AgentCheckpointRepository,
+  AgentCheckpointWrite,
+  Approval,
+  ApprovalRepository,
+  ApprovalStatus,
+  AuditEvent,
+  AuditEventFilter,
+  AuditEventRepository,
+  Conversation,
+  ConversationMessage,
+  ConversationMessageFilter,
+  ConversationMessageRepository,
+  ConversationRepository,
+  DataRepository,
+  FranchiseRepository,
+  FranchiseTeam,
+  Game,
+  GameFilter,
+  GameRepository,
+  GameTeamResult,
+  GameTeamResultFilter,
+  GameTeamResultRepository,
+  GameWithPeriods,
+  GameWriteAudit,
+  GameWriteStatus,
+  Goal,
+  GoalFilter,
+  GoalRepository,
+  GoalWithGame,
+  ImportJob,
+  ImportJobFilter,
+  ImportJobGame,
+  ImportJobGameRepository,
+  ImportJobRepository,
+  ImportJobUpdate,
+  LiveGame,
+  LiveGameFilter,
+  LiveGameRepository,
+  LivePeriodResult,
+  LivePeriodResultRepository,
+  NewApproval,
+  NewAuditEvent,
+  NewConversationMessage,
+  NewGoal,
+  NewImportJob,
+  NewImportJobGame,
+  NewLiveGame,
+  NewPeriodResult,
+  NewTeamSeasonAlignment,
+  PeriodResult,
+  PeriodResultFilter,
+  PeriodResultRepository,
+  PeriodResultWithGame,
+  PeriodPlayStats,
+  PeriodPlayStatsFilter,
+  PeriodPlayStatsRepository,
+  Team,
+  TeamFilter,
+  TeamRepository,
+  TeamSeasonAlignment,
+  TeamSeasonAlignmentFilter,
+  TeamSeasonAlignmentRepository,
+  TeamSeasonSummary,
+  TeamSeasonSummaryFilter,
+  TeamSeasonSummaryRepository,
+  UpsertPolicy,
+} from '../db/types';
+
+// PGRST116 = no rows returned by .single()
+const NOT_FOUND_CODE = 'PGRST116';
+
+// PostgREST returns at most max-rows rows per request (1000 by default) and drops the rest silently
+const PAGE_SIZE = 1000;
+
+interface RangeQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: unknown }>;
+}
+
+/**
+ * Every row of a select, read a page at a time until a short page
+ * The query's order must be total (end on a unique column), or rows can shift between pages
+ * @param limit Stop after this many rows
+ */
+async function selectAll<T>(query: RangeQuery<T>, limit?: number): Promise<T[]> {
+  const rows: T[] = [];
+  while (limit === undefined || rows.length < limit) {
+    const size = limit === undefined ? PAGE_SIZE : Math.min(PAGE_SIZE, limit - rows.length);
+    const { data, error } = await query.range(rows.length, rows.length + size - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < size) break;
+  }
+  return rows;
+}
+
+// Game IDs per IN filter: PostgREST takes filters in the URL and rejects long ones (a season is ~1,400 games)
+const IN_CHUNK_SIZE = 200;
+
+type SortKey<T> = [key: (row: T) => string | number, ascending?: boolean];
+
+/** Compares rows the way a chain of .order() calls sorts them */
+function compareBy<T>(...keys: SortKey<T>[]): (a: T, b: T) => number {
+  return (a, b) => {
+    for (const [key, ascending = true] of keys) {
+      const x = key(a);
+      const y = key(b);
+      if (x !== y) return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+    }
+    return 0;
+  };
+}
+
+/**
+ * selectAll with a game_id IN filter, run a chunk of IDs at a time
+ * Chunks are merged back into the query's order before the limit applies
+ * @param build The query for one chunk (no chunk when there is no game ID filter)
+ * @param compare The query's order; leave out when the caller doesn't depend on it
+ */
+async function selectByGameIds<T>(
+  gameIds: string[] | undefined,
+  build: (chunk?: string[]) => RangeQuery<T>,
+  compare?: (a: T, b: T) => number,
+  limit?: number
+): Promise<T[]> {
+  if (!gameIds || gameIds.length <= IN_CHUNK_SIZE) {
+    return selectAll(build(gameIds), limit);
+  }
+
+  const rows: T[] = [];
+  for (let i = 0; i < gameIds.length; i += IN_CHUNK_SIZE) {
+    rows.push(...await selectAll(build(gameIds.slice(i, i + IN_CHUNK_SIZE)), limit));
+  }
+  if (compare) rows.sort(compare);
+  return limit === undefined ? rows : rows.slice(0, limit);
+}
+
+const teams: TeamRepository = {
+  async list(filter: TeamFilter = {}): Promise<Team[]> {
+    let query = supabase.from('teams').select('*');
+
+    if (filter.teamCodes) {
+      query = query.in('team_code', filter.teamCodes);
+    }
+    if (filter.conference) {
+      query = query.eq('conference', filter.conference);
+    }
+    if (filter.division) {
+      query = query.eq('division', filter.division);
+    }
+
+    const { data, error } = await query.order(filter.orderBy || 'team_code');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getByCode(teamCode: string): Promise<Team | null> {
+    const { data, error } = await supabase
+      .from('teams')
+      .select('*')
+      .eq('team_code', teamCode)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async exists(teamCode: string): Promise<boolean> {
+    const team = await this.getByCode(teamCode);
+    return team !== null;
+  },
+};
+
+const franchises: FranchiseRepository = {
+  async list(): Promise<FranchiseTeam[]> {
+    const { data, error } = await supabase
+      .from('franchises')
+      .select('franchise_id, team_code, active_from, active_to')
+      .order('franchise_id')
+      .order('active_from', { nullsFirst: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+};
+
+const teamSeasonAlignment: TeamSeasonAlignmentRepository = {
+  async list(filter: TeamSeasonAlignmentFilter = {}): Promise<TeamSeasonAlignment[]> {
+    let query = supabase.from('team_season_alignment').select('*');
+
+    if (filter.season) {
+      query = query.eq('season', filter.season);
+    }
+    if (filter.teamCodes) {
+      query = query.in('team_code', filter.teamCodes);
+    }
+
+    const { data, error } = await query.order('season').order('team_code');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async upsertMany(rows: NewTeamSeasonAlignment[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabaseAdmin()
+      .from('team_season_alignment')
+      .upsert(rows.map(row => ({ ...row, updated_at: updatedAt })), { onConflict: 'season,team_code' });
+
+    if (error) throw error;
+  },
+};
+
+const games: GameRepository = {
+  async list(filter: GameFilter = {}): Promise<Game[]> {
+    const ascending = filter.ascending ?? true;
+    const build = (gameIds?: string[]) => {
+      let query = supabase.from('games').select('*');
+
+      if (gameIds) {
+        query = query.in('game_id', gameIds);
+      }
+      if (filter.season) {
+        query = query.eq('season', filter.season);
+      }
+      if (filter.gameType) {
+        query = query.eq('game_type', filter.gameType);
+      }
+      if (filter.startDate) {
+        query = query.gte('game_date', filter.startDate);
+      }
+      if (filter.endDate) {
+        query = query.lte('game_date', filter.endDate);
+      }
+      if (filter.teamCode && filter.opponentCode) {
+        const a = filter.teamCode;
+        const b = filter.opponentCode;
+        query = query.or(
+          `and(home_team_code.eq.${a},away_team_code.eq.${b}),and(home_team_code.eq.${b},away_team_code.eq.${a})`
+        );
+      } else if (filter.teamCode) {
+        query = query.or(`home_team_code.eq.${filter.teamCode},away_team_code.eq.${filter.teamCode}`);
+      }
+
+      return query
+        .order('game_date', { ascending })
+        .order('game_id', { ascending: true });
+    };
+
+    return selectByGameIds<Game>(
+      filter.gameIds,
+      build,
+      compareBy<Game>([game => game.game_date, ascending], [game => game.game_id]),
+      filter.limit
+    );
+  },
+
+  async getById(gameId: string): Promise<Game | null> {
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .eq('game_id', gameId)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async exists(gameId: string): Promise<boolean> {
+    const game = await this.getById(gameId);
+    return game !== null;
+  },
+
+  async getSeasons(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('game_seasons')
+      .select('season')
+      .order('season', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => row.season as string);
+  },
+
+  async insert(game: Game): Promise<Game> {
+    console.log(`[games.insert] Inserting game ${game.game_id}`);
+    const admin = supabaseAdmin();
+    const { data, error } = await admin
+      .from('games')
+      .insert(game)
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`[games.insert] Database error for game ${game.game_id}:`, error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  async upsertWithPeriods(data: GameWithPeriods, policy: UpsertPolicy, audit?: GameWriteAudit): Promise<GameWriteStatus> {
+    const { data: status, error } = await supabaseAdmin().rpc('upsert_game_with_periods', {
+      p_game: data.game,
+      p_period_results: data.periodResults,
+      p_game_team_results: data.gameTeamResults,
+      p_goals: data.goals,
+      p_policy: policy,
+      p_audit: audit ?? null,
+    });
+
+    if (error) {
+      console.error(`[games.upsertWithPeriods] Database error for game ${data.game.game_id}:`, error);
+      throw error;
+    }
+    return status as GameWriteStatus;
+  },
+};
+
+const periodResults: PeriodResultRepository = {
+  async list(filter: PeriodResultFilter = {}): Promise<PeriodResult[]> {
+    const rows = await this.listWithGames(filter);
+    return rows.map(({ game: _game, ...periodResult }) => periodResult);
+  },
+
+  async listWithGames(filter: PeriodResultFilter = {}): Promise<PeriodResultWithGame[]> {
+    const ascending = filter.ascending ?? true;
+    const build = (gameIds?: string[]) => {
+      let query = supabase
+        .from('period_results')
+        .select('*, games!inner(*)');
+
+      if (gameIds) {
+        query = query.in('game_id', gameIds);
+      }
+      if (filter.teamCode) {
+        query = query.eq('team_code', filter.teamCode);
+      }
+      if (filter.periodNumber) {
+        query = query.eq('period_number', filter.periodNumber);
+      }
+      if (filter.maxPeriodNumber) {
+        query = query.lte('period_number', filter.maxPeriodNumber);
+      }
+      if (filter.periodOutcome) {
+        query = query.eq('period_outcome', filter.periodOutcome);
+      }
+      if (filter.wonTwoPlusRegPeriods !== undefined) {
+        query = query.eq('won_two_plus_reg_periods', filter.wonTwoPlusRegPeriods);
+      }
+      if (filter.season) {
+        query = query.eq('games.season', filter.season);
+      }
+      if (filter.gameType) {
+        query = query.eq('games.game_type', filter.gameType);
+      }
+      if (filter.startDate) {
+        query = query.gte('games.game_date', filter.startDate);
+      }
+      if (filter.endDate) {
+        query = query.lte('games.game_date', filter.endDate);
+      }
+
+      return query
+        .order('games(game_date)', { ascending })
+        .order('game_id', { ascending: true })
+        .order('period_number', { ascending: true })
+        .order('team_code', { ascending: true });
+    };
+
+    const data = await selectByGameIds<PeriodResult & { games: Game }>(
+      filter.gameIds,
+      build,
+      compareBy(
+        [row => row.games.game_date, ascending],
+        [row => row.game_id],
+        [row => row.period_number],
+        [row => row.team_code]
+      ),
+      filter.limit
+    );
+
+    return data.map(({ games: game, ...periodResult }) => ({
+      ...periodResult,
+      game,
+    }));
+  },
+
+  async countByGame(gameIds?: string[]): Promise<Map<string, number>> {
+    const data = await selectByGameIds<{ game_id: string }>(gameIds, chunk => {
+      const query = supabase.from('period_results').select('game_id');
+      return (chunk ? query.in('game_id', chunk) : query).order('id');
+    });
+
+    const counts = new Map<string, number>();
+    for (const row of data) {
+      counts.set(row.game_id, (counts.get(row.game_id) || 0) + 1);
+    }
+    return counts;
+  },
+
+  async insertMany(rows: NewPeriodResult[]): Promise<PeriodResult[]> {
+    if (!rows || rows.length === 0) {
+      console.warn('[periodResults.insertMany] No period results to insert');
+      return [];
+    }
+
+    const admin = supabaseAdmin();
+    const { data, error } = await admin
+      .from('period_results')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('[periodResults.insertMany] Database error:', {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        hint: error.hint,
+      });
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async deleteByGame(gameId: string): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error } = await admin
+      .from('period_results')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (error) throw error;
+  },
+};
+
+const gameTeamResults: GameTeamResultRepository = {
+  async list(filter: GameTeamResultFilter = {}): Promise<GameTeamResult[]> {
+    const build = (gameIds?: string[]) => {
+      let query = supabase.from('game_team_results').select('*, games!inner(season)');
+
+      if (gameIds) {
+        query = query.in('game_id', gameIds);
+      }
+      if (filter.teamCode) {
+        query = query.eq('team_code', filter.teamCode);
+      }
+      if (filter.season) {
+        query = query.eq('games.season', filter.season);
+      }
+
+      return query.order('game_id').order('team_code');
+    };
+
+    const data = await selectByGameIds<GameTeamResult & { games: unknown }>(
+      filter.gameIds,
+      build,
+      compareBy([row => row.game_id], [row => row.team_code])
+    );
+    return data.map(({ games: _game, ...result }) => result);
+  },
+
+  async insertMany(rows: GameTeamResult[]): Promise<GameTeamResult[]> {
+    if (!rows || rows.length === 0) {
+      return [];
+    }
+
+    const admin = supabaseAdmin();
+    const { data, error } = await admin
+      .from('game_team_results')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('[gameTeamResults.insertMany] Database error:', error);
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async deleteByGame(gameId: string): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error } = await admin
+      .from('game_team_results')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (error) throw error;
+  },
+};
+
+const goals: GoalRepository = {
+  async list(filter: GoalFilter = {}): Promise<Goal[]> {
+    const rows = await this.listWithGames(filter);
+    return rows.map(({ game: _game, ...goal }) => goal);
+  },
+
+  async listWithGames(filter: GoalFilter = {}): Promise<GoalWithGame[]> {
+    const ascending = filter.ascending ?? true;
+    const build = (gameIds?: string[]) => {
+      let query = supabase
+        .from('goals')
+        .select('*, games!inner(*)');
+
+      if (gameIds) {
+        query = query.in('game_id', gameIds);
+      }
+      if (filter.teamCode) {
+        query = query.eq('team_code', filter.teamCode);
+      }
+      if (filter.periodNumber) {
+        query = query.eq('period_number', filter.periodNumber);
+      }
+      if (filter.scorerId) {
+        query = query.eq('scorer_id', filter.scorerId);
+      }
+      if (filter.season) {
+        query = query.eq('games.season', filter.season);
+      }
+      if (filter.gameType) {
+        query = query.eq('games.game_type', filter.gameType);
+      }
+      if (filter.startDate) {
+        query = query.gte('games.game_date', filter.startDate);
+      }
+      if (filter.endDate) {
+        query = query.lte('games.game_date', filter.endDate);
+      }
+
+      return query
+        .order('games(game_date)', { ascending })
+        .order('game_id', { ascending: true })
+        .order('goal_number', { ascending: true });
+    };
+
+    const data = await selectByGameIds<Goal & { games: Game }>(
+      filter.gameIds,
+      build,
+      compareBy([row => row.games.game_date, ascending], [row => row.game_id], [row => row.goal_number]),
+      filter.limit
+    );
+
+    return data.map(({ games: game, ...goal }) => ({
+      ...goal,
+      game,
+    }));
+  },
+
+  async insertMany(rows: NewGoal[]): Promise<Goal[]> {
+    if (!rows || rows.length === 0) {
+      return [];
+    }
+
+    const admin = supabaseAdmin();
+    const { data, error } = await admin
+      .from('goals')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('[goals.insertMany] Database error:', error);
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async deleteByGame(gameId: string): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error } = await admin
+      .from('goals')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (error) throw error;
+  },
+};
+
+const periodPlayStats: PeriodPlayStatsRepository = {
+  async list(filter: PeriodPlayStatsFilter = {}): Promise<PeriodPlayStats[]> {
+    const build = (gameIds?: string[]) => {
+      let query = supabase
+        .from('period_play_stats')
+        .select('*, games!inner(game_date)');
+
+      if (gameIds) {
+        query = query.in('game_id', gameIds);
+      }
+      if (filter.teamCode) {
+        query = query.eq('team_code', filter.teamCode);
+      }
+      if (filter.season) {
+        query = query.eq('games.season', filter.season);
+      }
+      if (filter.gameType) {
+        query = query.eq('games.game_type', filter.gameType);
+      }
+      if (filter.startDate) {
+        query = query.gte('games.game_date', filter.startDate);
+      }
+      if (filter.endDate) {
+        query = query.lte('games.game_date', filter.endDate);
+      }
+
+      return query
+        .order('games(game_date)', { ascending: true })
+        .order('game_id', { ascending: true })
+        .order('period_number', { ascending: true })
+        .order('team_code', { ascending: true });
+    };
+
+    const data = await selectByGameIds<PeriodPlayStats & { games: { game_date: string } }>(
+      filter.gameIds,
+      build,
+      compareBy(
+        [row => row.games.game_date],
+        [row => row.game_id],
+        [row => row.period_number],
+        [row => row.team_code]
+      )
+    );
+
+    return data.map(({ games: _game, ...stats }) => stats);
+  },
+
+  async listGameIds(gameIds?: string[]): Promise<Set<string>> {
+    const data = await selectByGameIds<{ game_id: string }>(gameIds, chunk => {
+      const query = supabase.from('period_play_stats').select('game_id');
+      return (chunk ? query.in('game_id', chunk) : query).order('game_id').order('period_number').order('team_code');
+    });
+    return new Set(data.map(row => row.game_id));
+  },
+
+  async insertMany(rows: PeriodPlayStats[]): Promise<PeriodPlayStats[]> {
+    if (!rows || rows.length === 0) {
+      return [];
+    }
+
+    const admin = supabaseAdmin();
+    const { data, error } = await admin
+      .from('period_play_stats')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      console.error('[periodPlayStats.insertMany] Database error:', error);
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  async deleteByGame(gameId: string): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error } = await admin
+      .from('period_play_stats')
+      .delete()
+      .eq('game_id', gameId);
+
+    if (error) throw error;
+  },
+};
+
+const teamSeasonSummaries: TeamSeasonSummaryRepository = {
+  async list(filter: TeamSeasonSummaryFilter = {}): Promise<TeamSeasonSummary[]> {
+    let query = supabase.from('team_season_summary').select('*');
+
+    if (filter.season) {
+      query = query.eq('season', filter.season);
+    }
+    if (filter.teamCodes) {
+      query = query.in('team_code', filter.teamCodes);
+    }
+
+    return selectAll<TeamSeasonSummary>(query
+      .order('season', { ascending: false })
+      .order('team_code'));
+  },
+};
+
+const conversations: ConversationRepository = {
+  async get(sessionId: string): Promise<Conversation | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('conversations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async touch(sessionId: string, owner?: string): Promise<Conversation> {
+    const { data, error } = await supabaseAdmin()
+      .from('conversations')
+      .upsert({ session_id: sessionId, updated_at: new Date().toISOString() }, { onConflict: 'session_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!owner || data.owner) return data;
+
+    // Only claim a conversation nobody owns, so two first requests can't both take it
+    const { error: claimError } = await supabaseAdmin()
+      .from('conversations')
+      .update({ owner })
+      .eq('session_id', sessionId)
+      .is('owner', null);
+
+    if (claimError) throw claimError;
+    return (await this.get(sessionId))!;
+  },
+
+  async updateSummary(sessionId: string, summary: string, summarizedTurns: number): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('conversations')
+      .update({ summary, summarized_turns: summarizedTurns })
+      .eq('session_id', sessionId);
+
+    if (error) throw error;
+  },
+
+  async delete(sessionId: string): Promise<void> {
+    // Messages and checkpoints cascade
+    const { error } = await supabaseAdmin()
+      .from('conversations')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (error) throw error;
+  },
+
+  async deleteInactiveSince(cutoff: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin()
+      .from('conversations')
+      .delete()
+      .lt('updated_at', cutoff)
+      .select('session_id');
+
+    if (error) throw error;
+    return (data || []).map(row => row.session_id);
+  },
+};
+
+const conversationMessages: ConversationMessageRepository = {
+  async list(sessionId: string, filter: ConversationMessageFilter = {}): Promise<ConversationMessage[]> {
+    let query = supabaseAdmin()
+      .from('conversation_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: !filter.limit });
+
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    // A limit fetches the newest rows first; return them oldest first like the unlimited list
+    return filter.limit ? (data || []).reverse() : data || [];
+  },
+
+  async insert(message: NewConversationMessage): Promise<ConversationMessage> {
+    const { data, error } = await supabaseAdmin()
+      .from('conversation_messages')
+      .insert(message)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[conversationMessages.insert] Database error:', error);
+      throw error;
+    }
+
+    return data;
+  },
+};
+
+const checkpoints: AgentCheckpointRepository = {
+  async get(threadId: string, checkpointNs: string, checkpointId?: string): Promise<AgentCheckpoint | null> {
+    let query = supabaseAdmin()
+      .from('agent_checkpoints')
+      .select('*')
+      .eq('thread_id', threadId)
+      .eq('checkpoint_ns', checkpointNs);
+
+    query = checkpointId
+      ? query.eq('checkpoint_id', checkpointId)
+      : query.order('checkpoint_id', { ascending: false }).limit(1);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+
+  async list(filter: AgentCheckpointFilter = {}): Promise<AgentCheckpoint[]> {
+    let query = supabaseAdmin().from('agent_checkpoints').select('*');
+
+    if (filter.threadId) {
+      query = query.eq('thread_id', filter.threadId);
+    }
+    if (filter.checkpointNs !== undefined) {
+      query = query.eq('checkpoint_ns', filter.checkpointNs);
+    }
+    if (filter.before) {
+      query = query.lt('checkpoint_id', filter.before);
+    }
+
+    // Checkpoint IDs are time-ordered
+    query = query.order('checkpoint_id', { ascending: false });
+
+    if (filter.limit) {
+      query = query.limit(filter.limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async put(checkpoint: AgentCheckpoint): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('agent_checkpoints')
+      .upsert(checkpoint, { onConflict: 'thread_id,checkpoint_ns,checkpoint_id' });
+
+    if (error) throw error;
+  },
+
+  async listWrites(threadId: string, checkpointNs: string, checkpointId: string): Promise<AgentCheckpointWrite[]> {
+    const { data, error } = await supabaseAdmin()
+      .from('agent_checkpoint_writes')
+      .select('*')
+      .eq('thread_id', threadId)
+      .eq('checkpoint_ns', checkpointNs)
+      .eq('checkpoint_id', checkpointId)
+      .order('task_id')
+      .order('idx');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async putWrites(writes: AgentCheckpointWrite[]): Promise<void> {
+    const onConflict = 'thread_id,checkpoint_ns,checkpoint_id,task_id,idx';
+    const special = writes.filter(w => w.idx < 0);
+    const regular = writes.filter(w => w.idx >= 0);
+    const admin = supabaseAdmin();
+
+    if (special.length > 0) {
+      const { error } = await admin.from('agent_checkpoint_writes').upsert(special, { onConflict });
+      if (error) throw error;
+    }
+    if (regular.length > 0) {
+      const { error } = await admin
+        .from('agent_checkpoint_writes')
+        .upsert(regular, { onConflict, ignoreDuplicates: true });
+      if (error) throw error;
+    }
+  },
+
+  async deleteThread(threadId: string): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error: writesError } = await admin.from('agent_checkpoint_writes').delete().eq('thread_id', threadId);
+    if (writesError) throw writesError;
+
+    const { error } = await admin.from('agent_checkpoints').delete().eq('thread_id', threadId);
+    if (error) throw error;
+  },
+};
+
+const approvals: ApprovalRepository = {
+  async get(id: string): Promise<Approval | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('approvals')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async listPending(sessionId: string): Promise<Approval[]> {
+    const { data, error } = await supabaseAdmin()
+      .from('approvals')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async insert(approval: NewApproval): Promise<Approval> {
+    const { data, error } = await supabaseAdmin()
+      .from('approvals')
+      .insert(approval)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[approvals.insert] Database error:', error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  async transition(
+    id: string,
+    from: ApprovalStatus,
+    update: { status: ApprovalStatus; result?: string | null; decided_at?: string }
+  ): Promise<Approval | null> {
+    // Conditional update: only one request can move an approval out of a given status
+    const { data, error } = await supabaseAdmin()
+      .from('approvals')
+      .update(update)
+      .eq('id', id)
+      .eq('status', from)
+      .select();
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+};
+
+// Import jobs are written by workers with the service role, and like chat data aren't public
+const importJobs: ImportJobRepository = {
+  async get(id: string): Promise<ImportJob | null> {
+    const { data, error } = await supabaseAdmin()
+      .from('import_jobs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async list(filter: ImportJobFilter = {}): Promise<ImportJob[]> {
+    let query = supabaseAdmin()
+      .from('import_jobs')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (filter.status) {
+      query = query.in('status', filter.status);
+    }
+
+    return selectAll<ImportJob>(query, filter.limit);
+  },
+
+  async insert(job: NewImportJob): Promise<ImportJob> {
+    const { data, error } = await supabaseAdmin()
+      .from('import_jobs')
+      .insert(job)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[importJobs.insert] Database error:', error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  async update(id: string, update: ImportJobUpdate): Promise<ImportJob> {
+    const { data, error } = await supabaseAdmin()
+      .from('import_jobs')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async claim(id: string, workerId: string, lockedUntil: string): Promise<ImportJob | null> {
+    const now = new Date().toISOString();
+
+    // Conditional update: the lease goes to whichever worker matches first
+    const { data, error } = await supabaseAdmin()
+      .from('import_jobs')
+      .update({ status: 'running', locked_by: workerId, locked_until: lockedUntil, updated_at: now })
+      .eq('id', id)
+      .in('status', ['queued', 'running'])
+      .or(`locked_until.is.null,locked_until.lt.${now}`)
+      .select();
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  },
+};
+
+const importJobGames: ImportJobGameRepository = {
+  async list(jobId: string): Promise<ImportJobGame[]> {
+    // A season-long job has more games than fit in one response
+    return selectAll<ImportJobGame>(supabaseAdmin()
+      .from('import_job_games')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('game_date', { ascending: true })
+      .order('game_id', { ascending: true }));
+  },
+
+  async insertMany(games: NewImportJobGame[]): Promise<void> {
+    if (games.length === 0) return;
+
+    const { error } = await supabaseAdmin()
+      .from('import_job_games')
+      .upsert(games, { onConflict: 'job_id,game_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('[importJobGames.insertMany] Database error:', error);
+      throw error;
+    }
+  },
+
+  async update(
+    jobId: string,
+    gameId: string,
+    update: Partial<Pick<ImportJobGame, 'status' | 'attempts' | 'error'>>
+  ): Promise<void> {
+    const { error } = await supabaseAdmin()
+      .from('import_job_games')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('job_id', jobId)
+      .eq('game_id', gameId);
+
+    if (error) throw error;
+  },
+};
+
+const liveGames: LiveGameRepository = {
+  async get(gameId: string): Promise<LiveGame | null> {
+    const { data, error } = await supabase
+      .from('live_games')
+      .select('*')
+      .eq('game_id', gameId)
+      .single();
+
+    if (error && error.code !== NOT_FOUND_CODE) throw error;
+    return data;
+  },
+
+  async list(filter: LiveGameFilter = {}): Promise<LiveGame[]> {
+    let query = supabase.from('live_games').select('*');
+
+    if (filter.gameDate) {
+      query = query.eq('game_date', filter.gameDate);
+    }
+    if (filter.gameIds) {
+      query = query.in('game_id', filter.gameIds);
+    }
+    if (filter.status) {
+      query = query.in('status', filter.status);
+    }
+
+    const { data, error } = await query.order('game_date').order('game_id');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async upsert(game: NewLiveGame): Promise<LiveGame> {
+    const { data, error } = await supabaseAdmin()
+      .from('live_games')
+      .upsert({ ...game, updated_at: new Date().toISOString() }, { onConflict: 'game_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
+const livePeriodResults: LivePeriodResultRepository = {
+  async list(gameIds: string[]): Promise<LivePeriodResult[]> {
+    if (gameIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('live_period_results')
+      .select('*')
+      .in('game_id', gameIds)
+      .order('game_id')
+      .order('period_number')
+      .order('team_code');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async replace(gameId: string, periods: LivePeriodResult[]): Promise<void> {
+    const admin = supabaseAdmin();
+    const { error: deleteError } = await admin.from('live_period_results').delete().eq('game_id', gameId);
+    if (deleteError) throw deleteError;
+
+    if (periods.length === 0) return;
+    const { error } = await admin.from('live_period_results').insert(periods);
+    if (error) throw error;
+  },
+};
+
+const auditEvents: AuditEventRepository = {
+  async list(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    let query = supabaseAdmin()
+      .from('audit_events')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (filter.source) {
+      query = query.eq('source', filter.source);
+    }
+    if (filter.action) {
+      query = query.eq('action', filter.action);
+    }
+    if (filter.gameId) {
+      query = query.eq('game_id', filter.gameId);
+    }
+    if (filter.sessionId) {
+      query = query.eq('session_id', filter.sessionId);
+    }
+    if (filter.since) {
+      query = query.gte('created_at', filter.since);
+    }
+    if (filter.limit) {
+      const offset = filter.offset ?? 0;
+      query = query.range(offset, offset + filter.limit - 1);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  async insert(event: NewAuditEvent): Promise<AuditEvent> {
+    const { data, error } = await supabaseAdmin()
+      .from('audit_events')
+      .insert(event)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
+/**
+ * Create the Supabase-backed repository
+ */
+export function createSupabaseRepository(): DataRepository {
+  return {
+    backend: 'supabase',
+    teams,
+    franchises,
+    teamSeasonAlignment,
+    games,
+    periodResults,
+    gameTeamResults,
+    goals,
+    periodPlayStats,
+    teamSeasonSummaries,
+    conversations,
+    conversationMessages,
+    checkpoints,
+    approvals,
+    importJobs,
+    importJobGames,
+    liveGames,
+    livePeriodResults,
+    auditEvents,
+  };
+}
@@ -23,6 +23,46 @@ CREATE INDEX idx_teams_name ON teams(team_name);
 COMMENT ON TABLE teams IS 'NHL teams with official 3-letter codes';
 COMMENT ON COLUMN teams.team_code IS 'Official NHL 3-letter code (e.g., CAR, TBL, DAL)';
 
+-- =============================================================================
+-- FRANCHISES TABLE
+-- =============================================================================
+-- Maps team codes to franchises so relocated teams (ATL -> WPG, PHX -> ARI -> UTA)
+-- can be analyzed as one club across seasons (seeded from seeds/franchises.sql)
+CREATE TABLE franchises (
+  franchise_id VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  active_from DATE,
+  active_to DATE,
+  PRIMARY KEY (franchise_id, team_code),
+  CONSTRAINT valid_active_range CHECK (active_from IS NULL OR active_to IS NULL OR active_from < active_to)
+);
+
+CREATE INDEX idx_franchises_team ON franchises(team_code);
+
+COMMENT ON TABLE franchises IS 'Team codes used by each franchise, with the dates they were in use';
+COMMENT ON COLUMN franchises.franchise_id IS 'Code the franchise plays under today';
+COMMENT ON COLUMN franchises.active_from IS 'First day under this code (NULL: since the franchise began)';
+COMMENT ON COLUMN franchises.active_to IS 'Day the franchise stopped using this code (NULL: still in use)';
+
+-- =============================================================================
+-- TEAM SEASON ALIGNMENT TABLE
+-- =============================================================================
+-- Each team's conference and division in a given season, taken from the NHL standings
+-- (teams.division/conference only hold the current alignment; see npm run sync:alignment)
+CREATE TABLE team_season_alignment (
+  season VARCHAR(9) NOT NULL CHECK (season ~ '^\d{4}-\d{4}$'),
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  conference VARCHAR(50),
+  division VARCHAR(50),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (season, team_code)
+);
+
+CREATE INDEX idx_team_season_alignment_team ON team_season_alignment(team_code);
+
+COMMENT ON TABLE team_season_alignment IS 'Conference and division of each team per season (realignments, 2020-21 temporary divisions)';
+COMMENT ON COLUMN team_season_alignment.conference IS 'NULL in seasons played without conferences (2020-21)';
+
 -- =============================================================================
 -- GAMES TABLE
 -- =============================================================================
@@ -68,11 +108,25 @@ CREATE TABLE period_results (
   empty_net_goals INTEGER NOT NULL DEFAULT 0 CHECK (empty_net_goals >= 0),
   period_outcome VARCHAR(4) NOT NULL CHECK (period_outcome IN ('WIN', 'LOSS', 'TIE')),
   won_two_plus_reg_periods BOOLEAN NOT NULL DEFAULT FALSE,
+  goals_for_ev INTEGER NOT NULL DEFAULT 0 CHECK (goals_for_ev >= 0),
+  goals_for_pp INTEGER NOT NULL DEFAULT 0 CHECK (goals_for_pp >= 0),
+  goals_for_sh INTEGER NOT NULL DEFAULT 0 CHECK (goals_for_sh >= 0),
+  goals_against_ev INTEGER NOT NULL DEFAULT 0 CHECK (goals_against_ev >= 0),
+  goals_against_pp INTEGER NOT NULL DEFAULT 0 CHECK (goals_against_pp >= 0),
+  goals_against_sh INTEGER NOT NULL DEFAULT 0 CHECK (goals_against_sh >= 0),
+  goals_for_5v5 INTEGER NOT NULL DEFAULT 0 CHECK (goals_for_5v5 >= 0),
+  goals_against_5v5 INTEGER NOT NULL DEFAULT 0 CHECK (goals_against_5v5 >= 0),
+  period_outcome_5v5 VARCHAR(4) NOT NULL DEFAULT 'TIE' CHECK (period_outcome_5v5 IN ('WIN', 'LOSS', 'TIE')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
 
   -- Ensure empty net goals don't exceed total goals
   CONSTRAINT en_goals_valid CHECK (empty_net_goals <= goals_for),
 
+  -- Strength breakdowns are subsets of the period total (goals without a strength are left out)
+  CONSTRAINT strength_goals_valid CHECK (
+    goals_for_ev + goals_for_pp + goals_for_sh <= goals_for AND goals_for_5v5 <= goals_for
+  ),
+
   -- Prevent duplicate period entries for same team in same game
   CONSTRAINT unique_team_period UNIQUE (game_id, team_code, period_number)
 );
@@ -88,32 +142,368 @@ COMMENT ON COLUMN period_results.period_number IS '1=1st, 2=2nd, 3=3rd, 4=OT, 5=
 COMMENT ON COLUMN period_results.empty_net_goals IS 'EN goals scored by this team (tracked separately per Constitution Principle IV)';
 COMMENT ON COLUMN period_results.period_outcome IS 'WIN/LOSS/TIE calculated with EN goals excluded from period 3';
 COMMENT ON COLUMN period_results.won_two_plus_reg_periods IS 'True if team won 2+ regulation periods in this game (core hypothesis)';
+COMMENT ON COLUMN period_results.goals_for_pp IS 'Goals scored by this team on the power play (goals_for_ev/_sh likewise by strength)';
+COMMENT ON COLUMN period_results.goals_for_5v5 IS 'Goals scored at 5-on-5 with both goalies in net (situation code 1551)';
+COMMENT ON COLUMN period_results.period_outcome_5v5 IS 'WIN/LOSS/TIE counting 5v5 goals only';
+
+-- =============================================================================
+-- GAME_TEAM_RESULTS TABLE
+-- =============================================================================
+-- Final result of a game for each participating team, derived from period_results at ingest
+-- Each game generates TWO rows: one for each team
+CREATE TABLE game_team_results (
+  game_id VARCHAR(20) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE,
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  opponent_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  is_home BOOLEAN NOT NULL,
+  goals_for INTEGER NOT NULL CHECK (goals_for >= 0),
+  goals_against INTEGER NOT NULL CHECK (goals_against >= 0),
+  result VARCHAR(4) NOT NULL CHECK (result IN ('WIN', 'LOSS', 'TIE')),
+  result_type VARCHAR(3) NOT NULL CHECK (result_type IN ('REG', 'OT', 'SO')),
+  regulation_periods_won INTEGER NOT NULL CHECK (regulation_periods_won BETWEEN 0 AND 3),
+  regulation_periods_lost INTEGER NOT NULL CHECK (regulation_periods_lost BETWEEN 0 AND 3),
+  regulation_periods_tied INTEGER NOT NULL CHECK (regulation_periods_tied BETWEEN 0 AND 3),
+  won_two_plus_reg_periods BOOLEAN NOT NULL,
+  win_quality VARCHAR(4) CHECK (win_quality IN ('GOOD', 'BAD')),
+  regulation_periods_won_5v5 INTEGER NOT NULL DEFAULT 0 CHECK (regulation_periods_won_5v5 BETWEEN 0 AND 3),
+  regulation_periods_lost_5v5 INTEGER NOT NULL DEFAULT 0 CHECK (regulation_periods_lost_5v5 BETWEEN 0 AND 3),
+  regulation_periods_tied_5v5 INTEGER NOT NULL DEFAULT 0 CHECK (regulation_periods_tied_5v5 BETWEEN 0 AND 3),
+  won_two_plus_reg_periods_5v5 BOOLEAN NOT NULL DEFAULT FALSE,
+  win_quality_5v5 VARCHAR(4) CHECK (win_quality_5v5 IN ('GOOD', 'BAD')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (game_id, team_code),
+
+  -- Only wins are classified as good or bad
+  CONSTRAINT win_quality_valid CHECK ((result = 'WIN') = (win_quality IS NOT NULL)),
+  CONSTRAINT win_quality_5v5_valid CHECK ((result = 'WIN') = (win_quality_5v5 IS NOT NULL))
+);
+
+CREATE INDEX idx_game_team_results_team ON game_team_results(team_code);
+
+COMMENT ON TABLE game_team_results IS 'Per-team final game results; single source of truth for W/L/OTL and good/bad wins';
+COMMENT ON COLUMN game_team_results.goals_for IS 'Final score (shootout winner credited one goal)';
+COMMENT ON COLUMN game_team_results.result_type IS 'REG, OT or SO - how the game was decided';
+COMMENT ON COLUMN game_team_results.win_quality IS 'GOOD = won game and 2+ regulation periods, BAD = won otherwise, NULL for non-wins';
+COMMENT ON COLUMN game_team_results.win_quality_5v5 IS 'Same as win_quality with regulation periods decided by 5v5 goals only';
+
+-- =============================================================================
+-- GOALS TABLE
+-- =============================================================================
+-- Every goal from the game landing summary, with scorer, assists, time and shot type
+-- Shootout attempts are not goals and are not stored
+CREATE TABLE goals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  game_id VARCHAR(20) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE,
+  period_number INTEGER NOT NULL CHECK (period_number BETWEEN 1 AND 10),
+  goal_number INTEGER NOT NULL CHECK (goal_number >= 1),
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  scorer_id INTEGER NOT NULL,
+  scorer_name VARCHAR(100) NOT NULL,
+  assist1_id INTEGER,
+  assist1_name VARCHAR(100),
+  assist2_id INTEGER,
+  assist2_name VARCHAR(100),
+  time_in_period VARCHAR(5) NOT NULL CHECK (time_in_period ~ '^[0-9]{2}:[0-9]{2}$'),
+  seconds_in_period INTEGER NOT NULL CHECK (seconds_in_period >= 0),
+  shot_type VARCHAR(20),
+  strength VARCHAR(2) CHECK (strength IN ('ev', 'pp', 'sh')),
+  situation_code VARCHAR(4),
+  is_empty_net BOOLEAN NOT NULL DEFAULT FALSE,
+  home_score INTEGER NOT NULL CHECK (home_score >= 0),
+  away_score INTEGER NOT NULL CHECK (away_score >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Goals are numbered in scoring order within a game
+  CONSTRAINT unique_game_goal UNIQUE (game_id, goal_number)
+);
+
+CREATE INDEX idx_goals_game ON goals(game_id);
+CREATE INDEX idx_goals_team_period ON goals(team_code, period_number);
+CREATE INDEX idx_goals_scorer ON goals(scorer_id);
+
+COMMENT ON TABLE goals IS 'Goal-level events (scorer, assists, time, shot type) for each game';
+COMMENT ON COLUMN goals.period_number IS '1-3 regulation, 4+ overtime (playoff games can have several)';
+COMMENT ON COLUMN goals.time_in_period IS 'Elapsed time in the period when the goal was scored (MM:SS)';
+COMMENT ON COLUMN goals.home_score IS 'Running game score after this goal (away_score likewise)';
+
+-- =============================================================================
+-- PERIOD_PLAY_STATS TABLE
+-- =============================================================================
+-- Shots, shot attempts, faceoffs, hits and penalty minutes per team per period,
+-- aggregated from the play-by-play endpoint (ingested separately from period_results)
+CREATE TABLE period_play_stats (
+  game_id VARCHAR(20) NOT NULL REFERENCES games(game_id) ON DELETE CASCADE,
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  period_number INTEGER NOT NULL CHECK (period_number BETWEEN 1 AND 10),
+  shots_on_goal INTEGER NOT NULL DEFAULT 0 CHECK (shots_on_goal >= 0),
+  shots_against INTEGER NOT NULL DEFAULT 0 CHECK (shots_against >= 0),
+  shot_attempts INTEGER NOT NULL DEFAULT 0 CHECK (shot_attempts >= 0),
+  shot_attempts_against INTEGER NOT NULL DEFAULT 0 CHECK (shot_attempts_against >= 0),
+  faceoffs_won INTEGER NOT NULL DEFAULT 0 CHECK (faceoffs_won >= 0),
+  faceoffs_lost INTEGER NOT NULL DEFAULT 0 CHECK (faceoffs_lost >= 0),
+  hits INTEGER NOT NULL DEFAULT 0 CHECK (hits >= 0),
+  penalty_minutes INTEGER NOT NULL DEFAULT 0 CHECK (penalty_minutes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (game_id, team_code, period_number),
+
+  -- Shots on goal are a subset of shot attempts
+  CONSTRAINT shots_within_attempts CHECK (
+    shots_on_goal <= shot_attempts AND shots_against <= shot_attempts_against
+  )
+);
+
+CREATE INDEX idx_period_play_stats_team ON period_play_stats(team_code);
+
+COMMENT ON TABLE period_play_stats IS 'Per-team, per-period play-by-play totals (shots, Corsi, faceoffs, hits, PIM)';
+COMMENT ON COLUMN period_play_stats.shots_on_goal IS 'Shots on goal including goals';
+COMMENT ON COLUMN period_play_stats.shot_attempts IS 'Corsi for: shots on goal + missed shots + shots blocked by the opponent';
+
+-- =============================================================================
+-- CONVERSATIONS TABLE
+-- =============================================================================
+-- Chat sessions with the analytics agent, keyed by the client's session ID
+-- Older turns are folded into summary once they leave the window sent to the model
+CREATE TABLE conversations (
+  session_id VARCHAR(100) PRIMARY KEY,
+  owner VARCHAR(100),
+  summary TEXT,
+  summarized_turns INTEGER NOT NULL DEFAULT 0 CHECK (summarized_turns >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Retention sweeps delete conversations idle since a cutoff
+CREATE INDEX idx_conversations_updated ON conversations(updated_at);
+
+COMMENT ON TABLE conversations IS 'Agent chat sessions (history, rolling summary and retention)';
+COMMENT ON COLUMN conversations.owner IS 'Subject of the caller who started it (key:<fingerprint> or visitor:<id>); only they can read or continue it';
+COMMENT ON COLUMN conversations.summarized_turns IS 'Number of user turns already folded into summary';
+
+-- =============================================================================
+-- CONVERSATION_MESSAGES TABLE
+-- =============================================================================
+-- User-visible chat history returned by GET /api/chat
+CREATE TABLE conversation_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id VARCHAR(100) NOT NULL REFERENCES conversations(session_id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  tools_used TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_conversation_messages_session ON conversation_messages(session_id, created_at);
+
+COMMENT ON TABLE conversation_messages IS 'User and assistant messages per conversation (tool calls are in agent_checkpoints)';
+
+-- =============================================================================
+-- AGENT CHECKPOINT TABLES
+-- =============================================================================
+-- LangGraph checkpointer storage: full agent state after each step, including
+-- tool calls and tool results, so a conversation resumes after a restart
+CREATE TABLE agent_checkpoints (
+  thread_id VARCHAR(100) NOT NULL REFERENCES conversations(session_id) ON DELETE CASCADE,
+  checkpoint_ns VARCHAR(255) NOT NULL DEFAULT '',
+  checkpoint_id VARCHAR(64) NOT NULL,
+  parent_checkpoint_id VARCHAR(64),
+  type VARCHAR(20) NOT NULL,
+  checkpoint TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+CREATE TABLE agent_checkpoint_writes (
+  thread_id VARCHAR(100) NOT NULL REFERENCES conversations(session_id) ON DELETE CASCADE,
+  checkpoint_ns VARCHAR(255) NOT NULL DEFAULT '',
+  checkpoint_id VARCHAR(64) NOT NULL,
+  task_id VARCHAR(64) NOT NULL,
+  idx INTEGER NOT NULL,
+  channel VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  value TEXT NOT NULL,
+
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+COMMENT ON TABLE agent_checkpoints IS 'Serialized LangGraph checkpoints, one thread per conversation';
+COMMENT ON COLUMN agent_checkpoints.checkpoint IS 'Serializer output: UTF-8 JSON when type is json, base64 otherwise (metadata likewise)';
+COMMENT ON TABLE agent_checkpoint_writes IS 'Pending task writes recorded against a checkpoint';
+
+-- =============================================================================
+-- APPROVALS TABLE
+-- =============================================================================
+-- Human-in-the-loop approvals requested by the agent, scoped to one conversation
+-- tool_name/tool_args hold the exact call that runs once the user approves
+CREATE TABLE approvals (
+  id VARCHAR(64) PRIMARY KEY,
+  session_id VARCHAR(100) NOT NULL REFERENCES conversations(session_id) ON DELETE CASCADE,
+  operation_type VARCHAR(30) NOT NULL,
+  description TEXT NOT NULL,
+  estimated_impact TEXT NOT NULL,
+  tool_name VARCHAR(100) NOT NULL,
+  tool_args JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  result TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  decided_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_approvals_session_status ON approvals(session_id, status);
+
+COMMENT ON TABLE approvals IS 'Operations awaiting (or given) user approval, per conversation';
+COMMENT ON COLUMN approvals.status IS 'pending -> approved -> executed/failed, or pending -> rejected';
+COMMENT ON COLUMN approvals.result IS 'Tool output after execution, or the error message when it failed';
+
+-- =============================================================================
+-- IMPORT JOBS TABLES
+-- =============================================================================
+-- Bulk imports run by background workers; each game is tracked so a job can
+-- retry failures and resume after a crash
+CREATE TABLE import_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status VARCHAR(10) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  params JSONB NOT NULL,
+  total_games INTEGER CHECK (total_games >= 0),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_by VARCHAR(100),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_import_jobs_status ON import_jobs(status, created_at);
+
+COMMENT ON TABLE import_jobs IS 'Background bulk imports of scheduled games';
+COMMENT ON COLUMN import_jobs.params IS 'startDate, endDate, optional season and gameTypes, skipExisting, optional policy';
+COMMENT ON COLUMN import_jobs.locked_until IS 'Worker lease; a running job whose lease has expired can be resumed';
+
+CREATE TABLE import_job_games (
+  job_id UUID NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+  game_id VARCHAR(20) NOT NULL,
+  game_date DATE NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'inserted', 'updated', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job_id, game_id)
+);
+
+COMMENT ON TABLE import_job_games IS 'Per-game status of an import job';
+
+-- =============================================================================
+-- LIVE GAME TABLES
+-- =============================================================================
+-- Games tracked while in progress, with provisional outcomes of the periods played so far.
+-- Kept apart from games/period_results; once a game is over it is imported as usual
+-- and its live row is marked final.
+CREATE TABLE live_games (
+  game_id VARCHAR(20) PRIMARY KEY,
+  game_date DATE NOT NULL,
+  season VARCHAR(9) NOT NULL CHECK (season ~ '^\d{4}-\d{4}$'),
+  game_type VARCHAR(20) NOT NULL,
+  home_team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  away_team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  game_state VARCHAR(10) NOT NULL,
+  home_score INTEGER NOT NULL DEFAULT 0 CHECK (home_score >= 0),
+  away_score INTEGER NOT NULL DEFAULT 0 CHECK (away_score >= 0),
+  period_number INTEGER CHECK (period_number >= 1),
+  period_type VARCHAR(3),
+  clock VARCHAR(5),
+  in_intermission BOOLEAN NOT NULL DEFAULT FALSE,
+  status VARCHAR(11) NOT NULL DEFAULT 'provisional' CHECK (status IN ('provisional', 'final')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finalized_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_live_games_date ON live_games(game_date);
+
+COMMENT ON TABLE live_games IS 'Games in progress polled by the live tracker';
+COMMENT ON COLUMN live_games.status IS 'final once the finished game has been imported into games/period_results';
+
+CREATE TABLE live_period_results (
+  game_id VARCHAR(20) NOT NULL REFERENCES live_games(game_id) ON DELETE CASCADE,
+  team_code VARCHAR(3) NOT NULL REFERENCES teams(team_code),
+  period_number INTEGER NOT NULL CHECK (period_number >= 1),
+  period_type VARCHAR(20) NOT NULL CHECK (period_type IN ('REGULATION', 'OT', 'SO')),
+  goals_for INTEGER NOT NULL CHECK (goals_for >= 0),
+  goals_against INTEGER NOT NULL CHECK (goals_against >= 0),
+  empty_net_goals INTEGER NOT NULL DEFAULT 0 CHECK (empty_net_goals >= 0),
+  period_outcome VARCHAR(4) NOT NULL CHECK (period_outcome IN ('WIN', 'LOSS', 'TIE')),
+  PRIMARY KEY (game_id, team_code, period_number)
+);
+
+COMMENT ON TABLE live_period_results IS 'Provisional outcomes of the periods that have ended in a tracked game';
+
+-- =============================================================================
+-- AUDIT_EVENTS TABLE
+-- =============================================================================
+-- Record of changes made to stored game data, with the affected rows before and after
+CREATE TABLE audit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source VARCHAR(100) NOT NULL,
+  session_id VARCHAR(100),
+  approval_id VARCHAR(64),
+  action VARCHAR(30) NOT NULL,
+  game_id VARCHAR(20),
+  row_counts JSONB NOT NULL DEFAULT '{}',
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_events_created ON audit_events(created_at DESC);
+CREATE INDEX idx_audit_events_game ON audit_events(game_id);
+CREATE INDEX idx_audit_events_source ON audit_events(source, created_at DESC);
+CREATE INDEX idx_audit_events_session ON audit_events(session_id);
+
+COMMENT ON TABLE audit_events IS 'Changes made to stored game data and what made them';
+COMMENT ON COLUMN audit_events.source IS 'What made the change, e.g. script:reconcile or tool:reconcile_games';
+COMMENT ON COLUMN audit_events.session_id IS 'Chat session the change was made from';
+COMMENT ON COLUMN audit_events.approval_id IS 'Approval the change ran under';
+COMMENT ON COLUMN audit_events.action IS 'insert, update, derive or reconcile';
+COMMENT ON COLUMN audit_events.row_counts IS 'Rows written per table, e.g. {"period_results": 6, "goals": 5}';
 
 -- =============================================================================
 -- HELPER FUNCTIONS
 -- =============================================================================
 
--- Function to calculate period outcome (excluding empty net goals from period 3)
+-- Function to calculate period outcome (excluding both teams' empty net goals from period 3)
 -- Constitution Principle IV: Period Analysis Accuracy
+DROP FUNCTION IF EXISTS calculate_period_outcome(INTEGER, INTEGER, INTEGER, INTEGER);
 CREATE OR REPLACE FUNCTION calculate_period_outcome(
   p_period_number INTEGER,
   p_goals_for INTEGER,
   p_goals_against INTEGER,
-  p_empty_net_goals INTEGER
+  p_empty_net_goals_for INTEGER,
+  p_empty_net_goals_against INTEGER
 ) RETURNS VARCHAR(4) AS $$
 DECLARE
   adjusted_goals_for INTEGER;
+  adjusted_goals_against INTEGER;
 BEGIN
-  -- Special case: Exclude empty net goals from 3rd period (FR-008)
+  -- Special case: Exclude both teams' empty net goals from 3rd period (FR-008)
   IF p_period_number = 3 THEN
-    adjusted_goals_for := p_goals_for - p_empty_net_goals;
+    adjusted_goals_for := p_goals_for - p_empty_net_goals_for;
+    adjusted_goals_against := p_goals_against - p_empty_net_goals_against;
   ELSE
     adjusted_goals_for := p_goals_for;
+    adjusted_goals_against := p_goals_against;
   END IF;
 
-  IF adjusted_goals_for > p_goals_against THEN
+  IF adjusted_goals_for > adjusted_goals_against THEN
     RETURN 'WIN';
-  ELSIF adjusted_goals_for < p_goals_against THEN
+  ELSIF adjusted_goals_for < adjusted_goals_against THEN
     RETURN 'LOSS';
   ELSE
     RETURN 'TIE';
@@ -123,23 +513,220 @@ $$ LANGUAGE plpgsql IMMUTABLE;
 
 COMMENT ON FUNCTION calculate_period_outcome IS 'Calculate period outcome with EN goal exclusion for period 3';
 
+-- Write a game with its period results, game results and goals in one transaction (FR-024)
+-- Called by the ingestion service; any error rolls back every row, so a game is never stored
+-- without its periods. p_policy says what to do when the game is already stored:
+--   skip      leave it ('skipped'), which makes retries and concurrent imports idempotent
+--   overwrite replace the game row and its derived rows ('updated')
+--   merge     keep the game row and replace its derived rows ('updated')
+-- p_audit (source, session_id, approval_id, action, before, after) is recorded in audit_events in the
+-- same transaction; action defaults to insert/update, and before is dropped for a new game
+DROP FUNCTION IF EXISTS upsert_game_with_periods(JSONB, JSONB, JSONB, JSONB, TEXT);
+CREATE OR REPLACE FUNCTION upsert_game_with_periods(
+  p_game JSONB,
+  p_period_results JSONB,
+  p_game_team_results JSONB,
+  p_goals JSONB,
+  p_policy TEXT DEFAULT 'skip',
+  p_audit JSONB DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_game_id VARCHAR(20) := p_game->>'game_id';
+  v_exists BOOLEAN;
+  v_game_written BOOLEAN;
+BEGIN
+  IF p_policy NOT IN ('skip', 'overwrite', 'merge') THEN
+    RAISE EXCEPTION 'Unknown upsert policy "%"', p_policy USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialize writers of the same game until this transaction ends
+  PERFORM pg_advisory_xact_lock(hashtext('upsert_game_with_periods:' || v_game_id));
+
+  SELECT EXISTS (SELECT 1 FROM games WHERE game_id = v_game_id) INTO v_exists;
+  IF v_exists AND p_policy = 'skip' THEN
+    RETURN 'skipped';
+  END IF;
+
+  IF NOT v_exists THEN
+    INSERT INTO games (game_id, game_date, season, home_team_code, away_team_code, game_type,
+                       home_team_standing, away_team_standing)
+    SELECT game_id, game_date, season, home_team_code, away_team_code, game_type,
+           home_team_standing, away_team_standing
+    FROM jsonb_populate_record(NULL::games, p_game);
+  ELSIF p_policy = 'overwrite' THEN
+    UPDATE games SET
+      game_date = g.game_date,
+      season = g.season,
+      home_team_code = g.home_team_code,
+      away_team_code = g.away_team_code,
+      game_type = g.game_type,
+      home_team_standing = g.home_team_standing,
+      away_team_standing = g.away_team_standing
+    FROM jsonb_populate_record(NULL::games, p_game) g
+    WHERE games.game_id = v_game_id;
+  END IF;
+
+  DELETE FROM goals WHERE game_id = v_game_id;
+  DELETE FROM game_team_results WHERE game_id = v_game_id;
+  DELETE FROM period_results WHERE game_id = v_game_id;
+
+  INSERT INTO period_results (game_id, team_code, period_number, period_type, goals_for, goals_against,
+                              empty_net_goals, period_outcome, won_two_plus_reg_periods,
+                              goals_for_ev, goals_for_pp, goals_for_sh,
+                              goals_against_ev, goals_against_pp, goals_against_sh,
+                              goals_for_5v5, goals_against_5v5, period_outcome_5v5)
+  SELECT v_game_id, team_code, period_number, period_type, goals_for, goals_against,
+         empty_net_goals, period_outcome, won_two_plus_reg_periods,
+         goals_for_ev, goals_for_pp, goals_for_sh,
+         goals_against_ev, goals_against_pp, goals_against_sh,
+         goals_for_5v5, goals_against_5v5, period_outcome_5v5
+  FROM jsonb_populate_recordset(NULL::period_results, p_period_results);
+
+  INSERT INTO game_team_results (game_id, team_code, opponent_code, is_home, goals_for, goals_against,
+                                 result, result_type, regulation_periods_won, regulation_periods_lost,
+                                 regulation_periods_tied, won_two_plus_reg_periods, win_quality,
+                                 regulation_periods_won_5v5, regulation_periods_lost_5v5,
+                                 regulation_periods_tied_5v5, won_two_plus_reg_periods_5v5, win_quality_5v5)
+  SELECT v_game_id, team_code, opponent_code, is_home, goals_for, goals_against,
+         result, result_type, regulation_periods_won, regulation_periods_lost,
+         regulation_periods_tied, won_two_plus_reg_periods, win_quality,
+         regulation_periods_won_5v5, regulation_periods_lost_5v5,
+         regulation_periods_tied_5v5, won_two_plus_reg_periods_5v5, win_quality_5v5
+  FROM jsonb_populate_recordset(NULL::game_team_results, p_game_team_results);
+
+  INSERT INTO goals (game_id, period_number, goal_number, team_code, scorer_id, scorer_name,
+                     assist1_id, assist1_name, assist2_id, assist2_name, time_in_period,
+                     seconds_in_period, shot_type, strength, situation_code, is_empty_net,
+                     home_score, away_score)
+  SELECT v_game_id, period_number, goal_number, team_code, scorer_id, scorer_name,
+         assist1_id, assist1_name, assist2_id, assist2_name, time_in_period,
+         seconds_in_period, shot_type, strength, situation_code, is_empty_net,
+         home_score, away_score
+  FROM jsonb_populate_recordset(NULL::goals, p_goals);
+
+  IF p_audit IS NOT NULL THEN
+    -- Merging keeps the stored game row
+    v_game_written := NOT v_exists OR p_policy <> 'merge';
+    INSERT INTO audit_events (source, session_id, approval_id, action, game_id, row_counts, before, after)
+    VALUES (
+      p_audit->>'source',
+      p_audit->>'session_id',
+      p_audit->>'approval_id',
+      COALESCE(p_audit->>'action', CASE WHEN v_exists THEN 'update' ELSE 'insert' END),
+      v_game_id,
+      jsonb_build_object(
+        'games', CASE WHEN v_game_written THEN 1 ELSE 0 END,
+        'period_results', jsonb_array_length(p_period_results),
+        'game_team_results', jsonb_array_length(p_game_team_results),
+        'goals', jsonb_array_length(p_goals)
+      ),
+      CASE WHEN v_exists THEN NULLIF(p_audit->'before', 'null'::jsonb) END,
+      CASE WHEN v_game_written THEN p_audit->'after' ELSE (p_audit->'after') - 'game' END
+    );
+  END IF;
+
+  RETURN CASE WHEN v_exists THEN 'updated' ELSE 'inserted' END;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION upsert_game_with_periods IS 'Atomically write a game with its period results, game results, goals and audit event; returns inserted, updated or skipped';
+
+-- Writes go through the service role only
+REVOKE EXECUTE ON FUNCTION upsert_game_with_periods(JSONB, JSONB, JSONB, JSONB, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- AGGREGATE VIEWS
+-- =============================================================================
+-- security_invoker keeps the public read policies below in force when querying views
+
+-- Distinct seasons with stored games (for season pickers)
+CREATE OR REPLACE VIEW game_seasons WITH (security_invoker = true) AS
+SELECT DISTINCT season FROM games;
+
+COMMENT ON VIEW game_seasons IS 'Seasons that have at least one stored game';
+
+-- Per-team, per-season record and period totals (backs /api/team-stats)
+CREATE OR REPLACE VIEW team_season_summary WITH (security_invoker = true) AS
+SELECT
+  r.team_code,
+  g.season,
+  COUNT(*)::INTEGER AS games_played,
+  COUNT(*) FILTER (WHERE r.result = 'WIN')::INTEGER AS wins,
+  COUNT(*) FILTER (WHERE r.result = 'LOSS' AND r.result_type = 'REG')::INTEGER AS losses,
+  COUNT(*) FILTER (WHERE r.result = 'LOSS' AND r.result_type <> 'REG')::INTEGER AS ot_losses,
+  (2 * COUNT(*) FILTER (WHERE r.result = 'WIN')
+    + COUNT(*) FILTER (WHERE r.result = 'LOSS' AND r.result_type <> 'REG'))::INTEGER AS points,
+  SUM(r.regulation_periods_won)::INTEGER AS periods_won,
+  SUM(r.regulation_periods_lost)::INTEGER AS periods_lost,
+  SUM(r.regulation_periods_tied)::INTEGER AS periods_tied,
+  COUNT(*) FILTER (WHERE r.win_quality = 'GOOD')::INTEGER AS good_wins,
+  COUNT(*) FILTER (WHERE r.win_quality = 'BAD')::INTEGER AS bad_wins,
+  SUM(r.regulation_periods_won_5v5)::INTEGER AS periods_won_5v5,
+  SUM(r.regulation_periods_lost_5v5)::INTEGER AS periods_lost_5v5,
+  SUM(r.regulation_periods_tied_5v5)::INTEGER AS periods_tied_5v5,
+  COUNT(*) FILTER (WHERE r.win_quality_5v5 = 'GOOD')::INTEGER AS good_wins_5v5,
+  COUNT(*) FILTER (WHERE r.win_quality_5v5 = 'BAD')::INTEGER AS bad_wins_5v5
+FROM game_team_results r
+JOIN games g ON g.game_id = r.game_id
+GROUP BY r.team_code, g.season;
+
+COMMENT ON VIEW team_season_summary IS 'Record, points, regulation period totals and good/bad wins per team and season';
+
 -- =============================================================================
 -- ROW LEVEL SECURITY (RLS)
 -- =============================================================================
 -- Enable RLS for all tables (Supabase best practice)
 ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE franchises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_season_alignment ENABLE ROW LEVEL SECURITY;
 ALTER TABLE games ENABLE ROW LEVEL SECURITY;
 ALTER TABLE period_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_team_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE period_play_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_checkpoint_writes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_job_games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE live_games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE live_period_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
 
 -- Public read access policies (data is public NHL information)
 CREATE POLICY "Enable read access for all users" ON teams FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON franchises FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON team_season_alignment FOR SELECT USING (true);
 CREATE POLICY "Enable read access for all users" ON games FOR SELECT USING (true);
 CREATE POLICY "Enable read access for all users" ON period_results FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON game_team_results FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON goals FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON period_play_stats FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON live_games FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON live_period_results FOR SELECT USING (true);
+-- Conversations, checkpoints, approvals, import jobs and audit events are private: no read policy, only the service role can access them
 
 -- Write access requires service role (only server-side tools can insert)
 CREATE POLICY "Enable insert for service role only" ON teams FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON franchises FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON team_season_alignment FOR INSERT WITH CHECK (false);
 CREATE POLICY "Enable insert for service role only" ON games FOR INSERT WITH CHECK (false);
 CREATE POLICY "Enable insert for service role only" ON period_results FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON game_team_results FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON goals FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON period_play_stats FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON conversations FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON conversation_messages FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON agent_checkpoints FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON agent_checkpoint_writes FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON approvals FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON import_jobs FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON import_job_games FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON live_games FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON live_period_results FOR INSERT WITH CHECK (false);
+CREATE POLICY "Enable insert for service role only" ON audit_events FOR INSERT WITH CHECK (false);
 
 COMMENT ON POLICY "Enable read access for all users" ON teams IS 'NHL team data is public';
 COMMENT ON POLICY "Enable insert for service role only" ON teams IS 'Only add_games_from_api tool can insert';
@@ -0,0 +1,49 @@
+-- NHL Franchises Seed Data
+-- Maps every team code to the franchise it belongs to, with the dates it was in use
+-- franchise_id is the code the franchise plays under today; relocated codes point to it
+-- Run after teams.sql (both columns reference teams)
+
+INSERT INTO franchises (franchise_id, team_code, active_from, active_to) VALUES
+  -- Relocations and renames
+  ('WPG', 'ATL', NULL, '2011-06-21'),
+  ('WPG', 'WPG', '2011-06-21', NULL),
+  ('UTA', 'PHX', NULL, '2014-06-27'),
+  ('UTA', 'ARI', '2014-06-27', '2024-04-18'),
+  ('UTA', 'UTA', '2024-04-18', NULL),
+
+  -- Teams that have kept their code
+  ('ANA', 'ANA', NULL, NULL),
+  ('BOS', 'BOS', NULL, NULL),
+  ('BUF', 'BUF', NULL, NULL),
+  ('CAR', 'CAR', NULL, NULL),
+  ('CBJ', 'CBJ', NULL, NULL),
+  ('CGY', 'CGY', NULL, NULL),
+  ('CHI', 'CHI', NULL, NULL),
+  ('COL', 'COL', NULL, NULL),
+  ('DAL', 'DAL', NULL, NULL),
+  ('DET', 'DET', NULL, NULL),
+  ('EDM', 'EDM', NULL, NULL),
+  ('FLA', 'FLA', NULL, NULL),
+  ('LAK', 'LAK', NULL, NULL),
+  ('MIN', 'MIN', NULL, NULL),
+  ('MTL', 'MTL', NULL, NULL),
+  ('NJD', 'NJD', NULL, NULL),
+  ('NSH', 'NSH', NULL, NULL),
+  ('NYI', 'NYI', NULL, NULL),
+  ('NYR', 'NYR', NULL, NULL),
+  ('OTT', 'OTT', NULL, NULL),
+  ('PHI', 'PHI', NULL, NULL),
+  ('PIT', 'PIT', NULL, NULL),
+  ('SEA', 'SEA', NULL, NULL),
+  ('SJS', 'SJS', NULL, NULL),
+  ('STL', 'STL', NULL, NULL),
+  ('TBL', 'TBL', NULL, NULL),
+  ('TOR', 'TOR', NULL, NULL),
+  ('VAN', 'VAN', NULL, NULL),
+  ('VGK', 'VGK', NULL, NULL),
+  ('WSH', 'WSH', NULL, NULL)
+
+ON CONFLICT (franchise_id, team_code) DO NOTHING;
+
+-- Verify insertion
+SELECT franchise_id, COUNT(*) as team_codes FROM franchises GROUP BY franchise_id ORDER BY franchise_id;
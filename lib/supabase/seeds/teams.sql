@@ -1,6 +1,7 @@
 -- NHL Teams Seed Data
 -- All 32 NHL teams with official 3-letter codes, divisions, and conferences
 -- Data source: NHL Official Team Information (2024-2025 season)
+-- Relocated teams are kept so historical seasons can be imported; they have no current division
 
 INSERT INTO teams (team_code, team_name, division, conference) VALUES
   -- Atlantic Division (Eastern Conference)
@@ -41,7 +42,12 @@ INSERT INTO teams (team_code, team_name, division, conference) VALUES
   ('SEA', 'Seattle Kraken', 'Pacific', 'Western'),
   ('SJS', 'San Jose Sharks', 'Pacific', 'Western'),
   ('VAN', 'Vancouver Canucks', 'Pacific', 'Western'),
-  ('VGK', 'Vegas Golden Knights', 'Pacific', 'Western')
+  ('VGK', 'Vegas Golden Knights', 'Pacific', 'Western'),
+
+  -- Relocated teams (historical seasons only)
+  ('ATL', 'Atlanta Thrashers', NULL, NULL),
+  ('PHX', 'Phoenix Coyotes', NULL, NULL),
+  ('ARI', 'Arizona Coyotes', NULL, NULL)
 
 ON CONFLICT (team_code) DO NOTHING;
 
@@ -4,13 +4,8 @@
 
 import { z } from 'zod';
 import { nhlApi } from '../nhl-api/client';
-import type { NHLScheduleResponse, NewNHLLandingResponse } from '../nhl-api/types';
-import {
-  transformGameLanding,
-  transformScheduleGame,
-  validateGameData,
-} from '../nhl-api/transformers';
-import { gameQueries, periodResultQueries, teamQueries } from '../supabase/queries';
+import type { NHLScheduleResponse } from '../nhl-api/types';
+import { ingestGames } from '../ingestion';
 
 // Tool parameter schema with validation
 export const addGamesToolSchema = z.object({
@@ -18,6 +13,8 @@ export const addGamesToolSchema = z.object({
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
   season: z.string().regex(/^\d{4}-\d{4}$/, 'Season must be in YYYY-YYYY format').optional(),
   skipExisting: z.boolean().default(true),
+  // Overrides skipExisting: skip, overwrite, or merge (keep the game row, replace its periods and goals)
+  policy: z.enum(['skip', 'overwrite', 'merge']).optional(),
 });
 
 export type AddGamesToolParams = z.infer<typeof addGamesToolSchema>;
@@ -94,97 +91,6 @@ function validateParams(params: AddGamesToolParams): { valid: boolean; error?: s
   return { valid: true };
 }
 
-/**
- * Check if all team codes exist in the database
- */
-async function validateTeamCodes(homeTeamCode: string, awayTeamCode: string): Promise<boolean> {
-  const homeExists = await teamQueries.exists(homeTeamCode);
-  const awayExists = await teamQueries.exists(awayTeamCode);
-
-  if (!homeExists) {
-    console.error(`Team not found in database: ${homeTeamCode}`);
-    return false;
-  }
-
-  if (!awayExists) {
-    console.error(`Team not found in database: ${awayTeamCode}`);
-    return false;
-  }
-
-  return true;
-}
-
-/**
- * Insert a single game with its period results
- * Uses database transaction for consistency (FR-024)
- */
-async function insertGameWithPeriods(
-  landingData: NewNHLLandingResponse,
-  skipExisting: boolean
-): Promise<{ success: boolean; skipped: boolean; error?: string }> {
-  try {
-    // Transform NHL API data to database format using landing endpoint
-    const { game, periodResults } = transformGameLanding(landingData);
-
-    // Check if game already exists
-    const existingGame = await gameQueries.exists(game.game_id);
-
-    if (existingGame && skipExisting) {
-      return { success: true, skipped: true };
-    }
-
-    // Validate team codes exist in database
-    const teamsValid = await validateTeamCodes(game.home_team_code, game.away_team_code);
-    if (!teamsValid) {
-      return {
-        success: false,
-        skipped: false,
-        error: `Invalid team codes: ${game.home_team_code}, ${game.away_team_code}`,
-      };
-    }
-
-    // Validate game data (FR-015)
-    const validation = validateGameData(game, periodResults);
-    if (!validation.valid) {
-      return {
-        success: false,
-        skipped: false,
-        error: `Validation failed: ${validation.errors.join('; ')}`,
-      };
-    }
-
-    // Insert game (transaction handled by Supabase client)
-    // If game exists and skipExisting=false, this will fail on unique constraint
-    try {
-      await gameQueries.insert(game);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('duplicate key')) {
-        if (!skipExisting) {
-          // Could implement update logic here if needed
-          return {
-            success: false,
-            skipped: false,
-            error: 'Game already exists and update not implemented',
-          };
-        }
-        return { success: true, skipped: true };
-      }
-      throw error;
-    }
-
-    // Insert period results
-    await periodResultQueries.insertMany(periodResults);
-
-    return { success: true, skipped: false };
-  } catch (error) {
-    return {
-      success: false,
-      skipped: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-}
-
 /**
  * Main tool implementation: Add games from NHL API
  */
@@ -251,61 +157,23 @@ export async function addGamesFromApi(params: AddGamesToolParams): Promise<AddGa
 
     console.log(`Found ${gameIds.length} games to process`);
 
-    // Process each game (T022-T026)
+    // Fetch, validate and store each game (T022-T026); failures don't stop the other games
+    const report = await ingestGames(gameIds, {
+      policy: params.policy ?? (params.skipExisting ? 'skip' : 'overwrite'),
+      audit: { source: 'tool:add_games_from_api' },
+    });
     const results = {
-      games_processed: gameIds.length,
-      games_inserted: 0,
-      games_updated: 0,
-      games_skipped: 0,
-      games_failed: 0,
-      failures: [] as GameFailure[],
+      games_processed: report.games_processed,
+      games_inserted: report.games_inserted,
+      games_updated: report.games_updated,
+      games_skipped: report.games_skipped,
+      games_failed: report.games_failed,
+      failures: report.failures,
     };
 
-    for (const gameId of gameIds) {
-      try {
-        // Fetch game landing data with summary scoring (T022)
-        console.log(`Fetching game ${gameId}...`);
-        const landingData: NewNHLLandingResponse = await nhlApi.getGameLanding(gameId);
-
-        // Check if game is final (don't insert in-progress games)
-        if (landingData.gameState !== 'OFF') {
-          console.log(`Skipping game ${gameId}: not final (${landingData.gameState})`);
-          results.games_skipped++;
-          continue;
-        }
-
-        // Insert game with period results (T023-T025)
-        const insertResult = await insertGameWithPeriods(landingData, params.skipExisting);
-
-        if (insertResult.success) {
-          if (insertResult.skipped) {
-            results.games_skipped++;
-          } else {
-            results.games_inserted++;
-          }
-        } else {
-          results.games_failed++;
-          results.failures.push({
-            game_id: gameId,
-            date: landingData.gameDate,
-            error: insertResult.error || 'Unknown error',
-          });
-        }
-      } catch (error) {
-        results.games_failed++;
-        results.failures.push({
-          game_id: gameId,
-          date: 'unknown',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        console.error(`Error processing game ${gameId}:`, error);
-        // Continue processing other games (partial success - T026)
-      }
-    }
-
     const processingTime = Date.now() - startTime;
     console.log(`Processing complete in ${processingTime}ms`);
-    console.log(`Inserted: ${results.games_inserted}, Skipped: ${results.games_skipped}, Failed: ${results.games_failed}`);
+    console.log(`Inserted: ${results.games_inserted}, Updated: ${results.games_updated}, Skipped: ${results.games_skipped}, Failed: ${results.games_failed}`);
 
     return {
       success: true,
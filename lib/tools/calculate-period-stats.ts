@@ -3,7 +3,7 @@
 // Tool Contract: specs/001-period-analyzer/contracts/stats-tool.md
 
 import { z } from 'zod';
-import { supabase } from '../supabase/client';
+import { getRepository, type StrengthFilter } from '../db';
 
 // Tool parameter schema with validation
 export const calculatePeriodStatsToolSchema = z.object({
@@ -21,6 +21,8 @@ export const calculatePeriodStatsToolSchema = z.object({
     .regex(/^\d{4}-\d{4}$/, 'Season must be in YYYY-YYYY format')
     .optional(),
   includePlayoffs: z.boolean().default(false),
+  // '5v5' decides periods by 5-on-5 goals only, stripping special-teams and empty-net goals
+  strength: z.enum(['all', '5v5']).default('all'),
 });
 
 export type CalculatePeriodStatsToolParams = z.infer<typeof calculatePeriodStatsToolSchema>;
@@ -77,41 +79,17 @@ async function calculatePeriodByPeriodStats(
   teamCode?: string,
   startDate?: string,
   endDate?: string,
-  includePlayoffs: boolean = false
+  includePlayoffs: boolean = false,
+  strength: StrengthFilter = 'all'
 ): Promise<PeriodStats[]> {
-  let query = supabase
-    .from('period_results')
-    .select(`
-      period_number,
-      period_outcome,
-      goals_for,
-      goals_against,
-      games!inner(game_date, game_type)
-    `);
-
-  // Apply filters
-  if (teamCode) {
-    query = query.eq('team_code', teamCode);
-  }
-
-  if (startDate) {
-    query = query.gte('games.game_date', startDate);
-  }
-
-  if (endDate) {
-    query = query.lte('games.game_date', endDate);
-  }
-
-  if (!includePlayoffs) {
-    query = query.eq('games.game_type', 'Regular Season');
-  }
-
-  // Only regulation periods (1, 2, 3)
-  query = query.lte('period_number', 3);
-
-  const { data, error } = await query;
-
-  if (error) throw error;
+  const data = await getRepository().periodResults.list({
+    teamCode,
+    startDate,
+    endDate,
+    gameType: includePlayoffs ? undefined : 'Regular Season',
+    // Only regulation periods (1, 2, 3)
+    maxPeriodNumber: 3,
+  });
 
   // Group by period number and calculate stats
   const periodMap = new Map<number, {
@@ -136,17 +114,19 @@ async function calculatePeriodByPeriodStats(
   });
 
   // Aggregate data
-  for (const row of data || []) {
+  for (const row of data) {
     const period = row.period_number;
     const stats = periodMap.get(period);
 
     if (stats) {
-      stats.total_goals_for += row.goals_for;
-      stats.total_goals_against += row.goals_against;
-
-      if (row.period_outcome === 'WIN') stats.wins++;
-      else if (row.period_outcome === 'LOSS') stats.losses++;
-      else if (row.period_outcome === 'TIE') stats.ties++;
+      const fiveOnFive = strength === '5v5';
+      const outcome = fiveOnFive ? row.period_outcome_5v5 : row.period_outcome;
+      stats.total_goals_for += fiveOnFive ? row.goals_for_5v5 : row.goals_for;
+      stats.total_goals_against += fiveOnFive ? row.goals_against_5v5 : row.goals_against;
+
+      if (outcome === 'WIN') stats.wins++;
+      else if (outcome === 'LOSS') stats.losses++;
+      else if (outcome === 'TIE') stats.ties++;
     }
   }
 
@@ -180,44 +160,27 @@ async function calculateTwoPlusRegCorrelation(
   teamCode?: string,
   startDate?: string,
   endDate?: string,
-  includePlayoffs: boolean = false
+  includePlayoffs: boolean = false,
+  strength: StrengthFilter = 'all'
 ): Promise<{ count: number; percentage: number }> {
-  let query = supabase
-    .from('period_results')
-    .select(`
-      game_id,
-      won_two_plus_reg_periods,
-      games!inner(game_date, game_type)
-    `);
-
-  if (teamCode) {
-    query = query.eq('team_code', teamCode);
-  }
-
-  if (startDate) {
-    query = query.gte('games.game_date', startDate);
-  }
-
-  if (endDate) {
-    query = query.lte('games.game_date', endDate);
-  }
-
-  if (!includePlayoffs) {
-    query = query.eq('games.game_type', 'Regular Season');
-  }
-
-  const { data, error } = await query;
-
-  if (error) throw error;
+  const data = await getRepository().periodResults.list({
+    teamCode,
+    startDate,
+    endDate,
+    gameType: includePlayoffs ? undefined : 'Regular Season',
+    maxPeriodNumber: 3,
+  });
 
-  // Group by game_id to get unique games
-  const gameMap = new Map<string, boolean>();
-  for (const row of data || []) {
-    gameMap.set(row.game_id, row.won_two_plus_reg_periods);
+  // Count regulation period wins per team per game
+  const gameMap = new Map<string, number>();
+  for (const row of data) {
+    const key = `${row.game_id}:${row.team_code}`;
+    const outcome = strength === '5v5' ? row.period_outcome_5v5 : row.period_outcome;
+    gameMap.set(key, (gameMap.get(key) || 0) + (outcome === 'WIN' ? 1 : 0));
   }
 
   const totalGames = gameMap.size;
-  const gamesWithTwoPlus = Array.from(gameMap.values()).filter(v => v).length;
+  const gamesWithTwoPlus = Array.from(gameMap.values()).filter(wins => wins >= 2).length;
 
   return {
     count: gamesWithTwoPlus,
@@ -239,7 +202,8 @@ export async function calculatePeriodStats(
       params.teamCode || undefined,
       params.startDate,
       params.endDate,
-      params.includePlayoffs
+      params.includePlayoffs,
+      params.strength
     );
 
     // Calculate total games and periods
@@ -251,7 +215,8 @@ export async function calculatePeriodStats(
       params.teamCode || undefined,
       params.startDate,
       params.endDate,
-      params.includePlayoffs
+      params.includePlayoffs,
+      params.strength
     );
 
     // Calculate first period performance
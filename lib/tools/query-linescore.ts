@@ -3,15 +3,15 @@
 // Tool Contract: specs/001-period-analyzer/contracts/query-tool.md
 
 import { z } from 'zod';
+import { getRepository } from '../db';
 import {
-  teamQueries,
   queryTeamPeriodPerformance,
   queryPeriodWinRankings,
   queryTwoPlusRegPeriods,
   type TeamPeriodPerformanceRow,
   type PeriodWinRankingRow,
   type TwoPlusRegPeriodsRow,
-} from '../supabase/queries';
+} from '../db/queries';
 
 // Tool parameter schema with validation
 export const queryLinescoreToolSchema = z.object({
@@ -51,7 +51,7 @@ interface QueryLinescoreToolResult {
   error?: {
     type: 'QUERY_ERROR' | 'VALIDATION_ERROR' | 'DATABASE_ERROR';
     message: string;
-    details?: any;
+    details?: unknown;
     suggestion: string;
   };
 }
@@ -63,10 +63,11 @@ interface QueryLinescoreToolResult {
 async function validateParams(params: QueryLinescoreToolParams): Promise<{ valid: boolean; error?: string; suggestion?: string }> {
   // Validate team code if provided
   if (params.teamCode) {
-    const teamExists = await teamQueries.exists(params.teamCode);
+    const teams = getRepository().teams;
+    const teamExists = await teams.exists(params.teamCode);
     if (!teamExists) {
       // Get all valid team codes for suggestion
-      const allTeams = await teamQueries.getAll();
+      const allTeams = await teams.list();
       const validCodes = allTeams.map(t => t.team_code).sort().join(', ');
 
       return {
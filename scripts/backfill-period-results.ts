@@ -2,7 +2,12 @@
  * Backfill Period Results Migration
  *
  * This script populates the period_results table for games that exist in the
- * games table but don't have corresponding period results.
+ * games table but don't have corresponding period results, along with the
+ * game_team_results rows derived from them. Games that already have complete
+ * period results but no game_team_results are derived without calling the API.
+ * Games fetched from the API also get their goals rows rewritten; goals cannot be
+ * derived from stored period results, so use --force to fill them for older games.
+ * Every game written is recorded in audit_events.
  *
  * Usage: npx tsx scripts/backfill-period-results.ts
  *
@@ -10,18 +15,27 @@
  *   --dry-run    Show what would be done without making changes
  *   --limit N    Process only N games (for testing)
  *   --season S   Filter to specific season (e.g., "2024-2025")
+ *   --force      Refetch every game in the season, not just incomplete ones
+ *   --concurrency N  Games fetched at once (default NHL_API_CONCURRENCY)
+ *   --no-cache   Always download games instead of reusing cached API responses
+ *   --rescore    Recompute stored period outcomes from stored goals instead (no API calls).
+ *                Fixes games written before empty-net goals were detected by the conceding
+ *                team's goalie; games whose goals are incomplete are listed for --force
+ *
+ * Set NHL_API_MODE=replay to run against recorded fixtures instead of the live API.
  */
 
-import 'dotenv/config';
-import { config } from 'dotenv';
-import { resolve } from 'path';
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
 
-// Load .env.local file
-config({ path: resolve(process.cwd(), '.env.local') });
+import { getDataBackend, getRepository, isDatabaseConfigured, type DataRepository, type Game } from '../lib/db';
+import { ingestGames, type IngestGameResult } from '../lib/ingestion';
+import { nhlApi } from '../lib/nhl-api/client';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+import { getRateLimiterConfig } from '../lib/nhl-api/rate-limiter';
+import { buildGameTeamResults, rescorePeriodResults } from '../lib/nhl-api/transformers';
 
-import { createClient } from '@supabase/supabase-js';
-import { transformGameLanding } from '../lib/nhl-api/transformers';
-import type { NewNHLLandingResponse } from '../lib/nhl-api/types';
+const AUDIT_SOURCE = 'script:backfill-period-results';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
@@ -31,62 +45,127 @@ const limitIndex = args.indexOf('--limit');
 const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1], 10) : undefined;
 const seasonIndex = args.indexOf('--season');
 const season = seasonIndex !== -1 ? args[seasonIndex + 1] : '2024-2025';
+const concurrencyIndex = args.indexOf('--concurrency');
+const noCache = args.includes('--no-cache');
+const rescore = args.includes('--rescore');
+const concurrency = concurrencyIndex !== -1 ? parseInt(args[concurrencyIndex + 1], 10) : getRateLimiterConfig().concurrency;
 
-// Environment variables
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!supabaseUrl || !serviceRoleKey) {
-  console.error('Missing required environment variables:');
-  console.error('  NEXT_PUBLIC_SUPABASE_URL');
-  console.error('  SUPABASE_SERVICE_ROLE_KEY');
-  process.exit(1);
+/**
+ * One line of output for a game
+ */
+function describeResult(result: IngestGameResult): string {
+  if (result.status === 'failed') return `FAILED: ${result.reason}`;
+  if (result.status === 'skipped') return `SKIPPED (${result.reason})`;
+  return dryRun
+    ? `OK (would upsert ${result.period_results} period results)`
+    : `OK (upserted ${result.period_results} period results, ${result.goals} goals)`;
 }
 
-const supabase = createClient(supabaseUrl, serviceRoleKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false,
-  },
-});
+/**
+ * Rewrite period and game results whose empty-net counts or outcomes disagree with the stored goals
+ */
+async function rescoreStoredOutcomes(repo: DataRepository, games: Game[]): Promise<void> {
+  console.log('Rescoring stored period outcomes from stored goals...');
 
-// NHL API configuration
-const NHL_API_BASE_URL = 'https://api-web.nhle.com';
-const RATE_LIMIT_MS = 500; // 500ms between requests
+  const [periodResults, goals] = await Promise.all([
+    repo.periodResults.list({ season }),
+    repo.goals.list({ season }),
+  ]);
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
+  let changed = 0;
+  let unchanged = 0;
+  let failed = 0;
+  const incomplete: string[] = [];
+
+  for (const game of games) {
+    const gamePeriods = periodResults.filter(pr => pr.game_id === game.game_id);
+    const gameGoals = goals.filter(g => g.game_id === game.game_id);
+
+    // Shootout attempts have no goal rows
+    const expectedGoals = gamePeriods
+      .filter(pr => pr.period_type !== 'SO')
+      .reduce((sum, pr) => sum + pr.goals_for, 0);
+    if (gamePeriods.length === 0 || gameGoals.length !== expectedGoals) {
+      incomplete.push(game.game_id);
+      continue;
+    }
 
-async function fetchGameLanding(gameId: string): Promise<NewNHLLandingResponse | null> {
-  try {
-    const url = `${NHL_API_BASE_URL}/v1/gamecenter/${gameId}/landing`;
-    const response = await fetch(url, {
-      headers: { 'Accept': 'application/json' },
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        console.warn(`  Game ${gameId} not found in NHL API`);
-        return null;
-      }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const stored = gamePeriods.map(({ id: _id, ...pr }) => pr);
+    const rescored = rescorePeriodResults(stored, gameGoals);
+    const differs = rescored.some((pr, i) =>
+      pr.period_outcome !== stored[i].period_outcome ||
+      pr.empty_net_goals !== stored[i].empty_net_goals ||
+      pr.won_two_plus_reg_periods !== stored[i].won_two_plus_reg_periods
+    );
+    if (!differs) {
+      unchanged++;
+      continue;
+    }
+
+    process.stdout.write(`  Game ${game.game_id}... `);
+    if (dryRun) {
+      console.log('OK (would rescore)');
+      changed++;
+      continue;
+    }
+
+    try {
+      const before = await repo.gameTeamResults.list({ gameIds: [game.game_id] });
+      const gameTeamResults = buildGameTeamResults(game, rescored);
+      await repo.games.upsertWithPeriods({
+        game,
+        periodResults: rescored,
+        gameTeamResults,
+        goals: gameGoals.map(({ id: _id, ...goal }) => goal),
+      }, 'merge', {
+        source: AUDIT_SOURCE,
+        action: 'derive',
+        before: { period_results: stored, game_team_results: before },
+        after: { period_results: rescored, game_team_results: gameTeamResults },
+      });
+      console.log('OK (rescored)');
+      changed++;
+    } catch (error) {
+      console.log(`FAILED: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      failed++;
     }
+  }
 
-    return await response.json();
-  } catch (error) {
-    console.error(`  Error fetching game ${gameId}:`, error);
-    return null;
+  console.log('');
+  console.log(`  Rescored: ${changed}`);
+  console.log(`  Already correct: ${unchanged}`);
+  console.log(`  Failed: ${failed}`);
+  if (incomplete.length > 0) {
+    console.log(`  Incomplete goals (rerun with --force to refetch): ${incomplete.length}`);
+    console.log(`    ${incomplete.slice(0, 20).join(', ')}${incomplete.length > 20 ? ', ...' : ''}`);
   }
 }
 
 async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  const repo = getRepository();
+  if (noCache) nhlApi.setCacheEnabled(false);
+
   console.log('='.repeat(60));
   console.log('Period Results Backfill Migration');
   console.log('='.repeat(60));
   console.log(`Mode: ${dryRun ? 'DRY RUN' : 'LIVE'}`);
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
   console.log(`Season: ${season}`);
   console.log(`Force: ${force ? 'YES (will reprocess all games)' : 'NO'}`);
+  if (rescore) console.log('Rescore: YES (from stored goals, no API calls)');
+  console.log(`Concurrency: ${concurrency}`);
+  const cacheStats = nhlApi.getCacheStats();
+  console.log(`API cache: ${cacheStats.enabled ? cacheStats.dir : 'OFF'}`);
   if (limit) console.log(`Limit: ${limit} games`);
   console.log('');
 
@@ -94,42 +173,43 @@ async function main() {
   console.log('Step 1: Finding games to process...');
 
   // Get all games for the season
-  const { data: games, error: gamesError } = await supabase
-    .from('games')
-    .select('game_id')
-    .eq('season', season)
-    .order('game_date', { ascending: true });
-
-  if (gamesError) {
+  let games;
+  try {
+    games = await repo.games.list({ season, ascending: true });
+  } catch (gamesError) {
     console.error('Error fetching games:', gamesError);
     process.exit(1);
   }
 
-  console.log(`  Found ${games?.length || 0} games in season ${season}`);
+  console.log(`  Found ${games.length} games in season ${season}`);
+
+  if (rescore) {
+    console.log('');
+    await rescoreStoredOutcomes(repo, games.slice(0, limit));
+    if (dryRun) {
+      console.log('');
+      console.log('This was a DRY RUN. No changes were made.');
+    }
+    return;
+  }
 
   let gamesToProcess: typeof games;
+  let gamesToDerive: typeof games = [];
 
   if (force) {
     // Process all games when force flag is set
-    gamesToProcess = (games || []).slice(0, limit);
+    gamesToProcess = games.slice(0, limit);
     console.log(`  Force mode: will process all ${gamesToProcess.length} games`);
   } else {
     // Get game IDs that have complete period results (6+ records per game)
-    const { data: existingResults, error: resultsError } = await supabase
-      .from('period_results')
-      .select('game_id');
-
-    if (resultsError) {
+    let resultCountByGame: Map<string, number>;
+    try {
+      resultCountByGame = await repo.periodResults.countByGame();
+    } catch (resultsError) {
       console.error('Error fetching existing period results:', resultsError);
       process.exit(1);
     }
 
-    // Count period results per game
-    const resultCountByGame = new Map<string, number>();
-    for (const r of existingResults || []) {
-      resultCountByGame.set(r.game_id, (resultCountByGame.get(r.game_id) || 0) + 1);
-    }
-
     // Games with 6+ period results are considered complete
     const completeGames = new Set(
       Array.from(resultCountByGame.entries())
@@ -140,100 +220,96 @@ async function main() {
     console.log(`  Found ${completeGames.size} games with complete period results`);
 
     // Find games that need backfilling (incomplete or missing)
-    gamesToProcess = (games || [])
+    gamesToProcess = games
       .filter(g => !completeGames.has(g.game_id))
       .slice(0, limit);
 
     console.log(`  Need to backfill: ${gamesToProcess.length} games`);
+
+    // Complete games without game_team_results only need those rows derived
+    let gamesWithTeamResults: Set<string>;
+    try {
+      const teamResults = await repo.gameTeamResults.list({ gameIds: [...completeGames] });
+      gamesWithTeamResults = new Set(teamResults.map(r => r.game_id));
+    } catch (resultsError) {
+      console.error('Error fetching existing game team results:', resultsError);
+      process.exit(1);
+    }
+
+    gamesToDerive = games.filter(g => completeGames.has(g.game_id) && !gamesWithTeamResults.has(g.game_id));
+    console.log(`  Need game results derived from stored periods: ${gamesToDerive.length} games`);
   }
 
   console.log('');
 
-  if (gamesToProcess.length === 0) {
+  if (gamesToProcess.length === 0 && gamesToDerive.length === 0) {
     console.log('No games to process. Exiting.');
     return;
   }
 
-  // Step 2: Process each game
-  console.log('Step 2: Processing games...');
-
   let processed = 0;
   let successful = 0;
   let failed = 0;
   let skipped = 0;
 
-  for (const game of gamesToProcess) {
-    processed++;
-    const gameId = game.game_id;
-
-    process.stdout.write(`  [${processed}/${gamesToProcess.length}] Game ${gameId}... `);
-
-    // Rate limiting
-    await sleep(RATE_LIMIT_MS);
-
-    // Fetch game data from NHL API
-    const landingData = await fetchGameLanding(gameId);
-
-    if (!landingData) {
-      console.log('SKIPPED (not found)');
-      skipped++;
-      continue;
-    }
-
-    // Check if game is final
-    if (landingData.gameState !== 'OFF') {
-      console.log(`SKIPPED (state: ${landingData.gameState})`);
-      skipped++;
-      continue;
-    }
-
-    // Transform data
-    try {
-      const { periodResults } = transformGameLanding(landingData);
-
-      if (periodResults.length === 0) {
-        console.log('SKIPPED (no period data)');
-        skipped++;
-        continue;
-      }
-
-      if (dryRun) {
-        console.log(`OK (would upsert ${periodResults.length} period results)`);
+  // Step 2: Derive game results for games whose period results are already complete
+  if (gamesToDerive.length > 0) {
+    console.log('Step 2: Deriving game results from stored period results...');
+
+    for (const game of gamesToDerive) {
+      processed++;
+      process.stdout.write(`  [derive] Game ${game.game_id}... `);
+
+      try {
+        const periodResults = await repo.periodResults.list({ gameIds: [game.game_id] });
+        const gameTeamResults = buildGameTeamResults(game, periodResults);
+
+        if (dryRun) {
+          console.log(`OK (would insert ${gameTeamResults.length} game results)`);
+          successful++;
+          continue;
+        }
+
+        await repo.gameTeamResults.insertMany(gameTeamResults);
+        await repo.auditEvents.insert({
+          source: AUDIT_SOURCE,
+          session_id: null,
+          approval_id: null,
+          action: 'derive',
+          game_id: game.game_id,
+          row_counts: { game_team_results: gameTeamResults.length },
+          before: null,
+          after: { game_team_results: gameTeamResults },
+        });
+        console.log(`OK (inserted ${gameTeamResults.length} game results)`);
         successful++;
-        continue;
-      }
-
-      // Delete existing period results for this game first (clean slate)
-      const { error: deleteError } = await supabase
-        .from('period_results')
-        .delete()
-        .eq('game_id', gameId);
-
-      if (deleteError) {
-        console.log(`FAILED (delete): ${deleteError.message}`);
-        failed++;
-        continue;
-      }
-
-      // Insert period results
-      const { error: insertError } = await supabase
-        .from('period_results')
-        .insert(periodResults);
-
-      if (insertError) {
-        console.log(`FAILED (insert): ${insertError.message}`);
+      } catch (error) {
+        console.log(`FAILED: ${error instanceof Error ? error.message : 'Unknown error'}`);
         failed++;
-        continue;
       }
-
-      console.log(`OK (upserted ${periodResults.length} period results)`);
-      successful++;
-    } catch (error) {
-      console.log(`FAILED: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      failed++;
     }
+
+    console.log('');
   }
 
+  // Step 3: Refetch each game and replace its goals, period and game results (the game rows are kept)
+  console.log(`Step 3: Processing games (concurrency ${concurrency})...`);
+
+  const report = await ingestGames(gamesToProcess.map(g => g.game_id), {
+    policy: 'merge',
+    dryRun,
+    concurrency,
+    audit: { source: AUDIT_SOURCE },
+    // One line per game so concurrent games don't interleave their output
+    onResult: (result, completed) => {
+      console.log(`  [${completed}/${gamesToProcess.length}] Game ${result.game_id}... ${describeResult(result)}`);
+    },
+  });
+  processed += report.games_processed;
+  successful += report.games_inserted + report.games_updated;
+  skipped += report.games_skipped;
+  failed += report.games_failed;
+
   // Summary
   console.log('');
   console.log('='.repeat(60));
@@ -244,6 +320,15 @@ async function main() {
   console.log(`  Failed: ${failed}`);
   console.log(`  Skipped: ${skipped}`);
 
+  const metrics = nhlApi.getMetrics();
+  console.log(`  NHL API requests: ${metrics.requests} (${metrics.retries} retries, ${metrics.rate_limited} rate limited)`);
+  console.log(`  NHL API average wait: ${metrics.average_wait_ms}ms, latency: ${metrics.average_latency_ms}ms`);
+
+  const cache = nhlApi.getCacheStats();
+  if (cache.enabled) {
+    console.log(`  API cache: ${cache.hits} hits, ${cache.revalidated} revalidated, ${cache.misses} misses (hit rate ${Math.round(cache.hit_rate * 100)}%)`);
+  }
+
   if (dryRun) {
     console.log('');
     console.log('This was a DRY RUN. No changes were made.');
@@ -0,0 +1,385 @@
+/**
+ * Season Backfill
+ *
+ * This script imports every game of one or more full seasons. Each season's date range
+ * comes from the NHL schedule (regularSeasonStartDate .. playoffEndDate) and is imported
+ * as an import job, so every finished game is checkpointed: re-running the same command
+ * after a crash or Ctrl+C resumes each season where it stopped, and seasons that already
+ * completed are skipped. Each imported season's conferences and divisions are synced
+ * from its standings as well (see scripts/sync-alignment.ts).
+ *
+ * Usage: npx tsx scripts/backfill-seasons.ts --from-season 2010-2011 --to-season 2024-2025
+ *
+ * Options:
+ *   --from-season S       First season to import (e.g., "2010-2011")
+ *   --to-season S         Last season to import (default: same as --from-season)
+ *   --types T             Comma-separated game types: regular, playoff, preseason (default regular,playoff)
+ *   --concurrency N       Games fetched at once (default NHL_API_CONCURRENCY)
+ *   --restart             Start completed seasons over instead of skipping them
+ *   --dry-run             Show each season's date range and game count without importing
+ *   --report FILE         Also write the summary report as JSON
+ *
+ * Set NHL_API_MODE=replay to run against recorded fixtures instead of the live API.
+ */
+
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
+
+import { writeFileSync } from 'fs';
+import { getDataBackend, getRepository, isDatabaseConfigured } from '../lib/db';
+import type { ImportJob, ImportJobParams } from '../lib/db/types';
+import {
+  createImportJob,
+  defaultWorkerId,
+  getImportJobProgress,
+  runImportJob,
+  type ImportJobProgress,
+} from '../lib/jobs/import-jobs';
+import { syncSeasonAlignment } from '../lib/jobs/sync-alignment';
+import { nhlApi } from '../lib/nhl-api/client';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+import { getRateLimiterConfig } from '../lib/nhl-api/rate-limiter';
+
+const GAME_TYPE_CODES: Record<string, string> = {
+  regular: 'R',
+  playoff: 'P',
+  preseason: 'PR',
+};
+
+const SEASON_PATTERN = /^(\d{4})-(\d{4})$/;
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const restart = args.includes('--restart');
+const fromIndex = args.indexOf('--from-season');
+const fromSeason = fromIndex !== -1 ? args[fromIndex + 1] : undefined;
+const toIndex = args.indexOf('--to-season');
+const toSeason = toIndex !== -1 ? args[toIndex + 1] : fromSeason;
+const typesIndex = args.indexOf('--types');
+const types = (typesIndex !== -1 ? args[typesIndex + 1] : 'regular,playoff').split(',').map(t => t.trim());
+const concurrencyIndex = args.indexOf('--concurrency');
+const concurrency = concurrencyIndex !== -1 ? parseInt(args[concurrencyIndex + 1], 10) : getRateLimiterConfig().concurrency;
+const reportIndex = args.indexOf('--report');
+const reportPath = reportIndex !== -1 ? args[reportIndex + 1] : undefined;
+
+const shutdown = new AbortController();
+
+interface SeasonReport {
+  season: string;
+  status: 'completed' | 'skipped' | 'paused' | 'failed' | 'dry-run';
+  job_id: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  games_total: number | null;
+  games_inserted: number;
+  games_skipped: number;
+  games_failed: number;
+  processing_time_ms: number;
+  failures: ImportJobProgress['failures'];
+  error: string | null;
+}
+
+/**
+ * Seasons from..to inclusive, e.g. 2022-2023..2024-2025 -> three seasons
+ */
+function listSeasons(from: string, to: string): string[] {
+  const first = SEASON_PATTERN.exec(from);
+  const last = SEASON_PATTERN.exec(to);
+  if (!first || !last || Number(first[2]) !== Number(first[1]) + 1 || Number(last[2]) !== Number(last[1]) + 1) {
+    throw new Error('Seasons must be in YYYY-YYYY format where the second year is the first year + 1 (e.g., 2010-2011)');
+  }
+
+  const seasons: string[] = [];
+  for (let year = Number(first[1]); year <= Number(last[1]); year++) {
+    seasons.push(`${year}-${year + 1}`);
+  }
+  if (seasons.length === 0) {
+    throw new Error('--to-season must not be before --from-season');
+  }
+  return seasons;
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Date range covering the requested game types, never past today
+ */
+async function getSeasonRange(season: string): Promise<{ startDate: string; endDate: string }> {
+  const dates = await nhlApi.getSeasonDates(season);
+  const preSeasonStart = dates.preSeasonStartDate.slice(0, 10);
+  const regularStart = dates.regularSeasonStartDate.slice(0, 10);
+  const regularEnd = dates.regularSeasonEndDate.slice(0, 10);
+  const playoffEnd = dates.playoffEndDate.slice(0, 10);
+
+  const ranges: Array<[string, string]> = [];
+  if (types.includes('preseason')) ranges.push([preSeasonStart, addDays(regularStart, -1)]);
+  if (types.includes('regular')) ranges.push([regularStart, regularEnd]);
+  if (types.includes('playoff')) ranges.push([addDays(regularEnd, 1), playoffEnd]);
+
+  const today = new Date().toISOString().split('T')[0];
+  const startDate = ranges.map(([start]) => start).sort()[0];
+  const endDate = ranges.map(([, end]) => end).sort().reverse()[0];
+  return { startDate, endDate: endDate < today ? endDate : today };
+}
+
+/**
+ * The latest job an earlier run created for the same season and game types, if any
+ * (a season still in progress ends on a later date each day, so the end date isn't compared)
+ */
+async function findSeasonJob(params: ImportJobParams): Promise<ImportJob | null> {
+  const jobs = await getRepository().importJobs.list();
+  const matches = jobs.filter(job =>
+    job.params.season === params.season &&
+    job.params.startDate === params.startDate &&
+    (job.params.gameTypes || []).join(',') === (params.gameTypes || []).join(',')
+  );
+  return matches[matches.length - 1] ?? null;
+}
+
+/**
+ * Every game in the job's schedule has a final status
+ */
+function processedAllGames(progress: ImportJobProgress): boolean {
+  return progress.games_total !== null && progress.games_processed === progress.games_total;
+}
+
+function reportFromProgress(season: string, status: SeasonReport['status'], progress: ImportJobProgress): SeasonReport {
+  return {
+    season,
+    status,
+    job_id: progress.job_id,
+    start_date: progress.date_range.start,
+    end_date: progress.date_range.end,
+    games_total: progress.games_total,
+    games_inserted: progress.games_inserted,
+    games_skipped: progress.games_skipped,
+    games_failed: progress.games_failed,
+    processing_time_ms: progress.processing_time_ms,
+    failures: progress.failures,
+    error: progress.error,
+  };
+}
+
+function emptyReport(season: string, status: SeasonReport['status'], error: string | null = null): SeasonReport {
+  return {
+    season,
+    status,
+    job_id: null,
+    start_date: null,
+    end_date: null,
+    games_total: null,
+    games_inserted: 0,
+    games_skipped: 0,
+    games_failed: 0,
+    processing_time_ms: 0,
+    failures: [],
+    error,
+  };
+}
+
+async function backfillSeason(season: string, gameTypes: string[]): Promise<SeasonReport> {
+  let range: { startDate: string; endDate: string };
+  try {
+    range = await getSeasonRange(season);
+  } catch (error) {
+    return emptyReport(season, 'failed', `Season dates unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const params: ImportJobParams = { ...range, season, gameTypes, skipExisting: true, audit: { source: 'script:backfill-seasons' } };
+  console.log(`  Range: ${range.startDate} to ${range.endDate}`);
+
+  if (dryRun) {
+    const schedule = await nhlApi.getSchedule(range.startDate, range.endDate);
+    const games = schedule.dates
+      .flatMap(date => date.games)
+      .filter(game => game.season === season.replace('-', '') && gameTypes.includes(game.gameType));
+    console.log(`  Would import ${games.length} games`);
+    return { ...emptyReport(season, 'dry-run'), start_date: range.startDate, end_date: range.endDate, games_total: games.length };
+  }
+
+  let job = await findSeasonJob(params);
+  if (job?.status === 'completed' && job.params.endDate === params.endDate && !restart) {
+    const previous = (await getImportJobProgress(job.id))!;
+    if (processedAllGames(previous)) {
+      console.log(`  Already imported by job ${job.id}; skipping (use --restart to run it again)`);
+      await syncAlignment(season);
+      return reportFromProgress(season, 'skipped', previous);
+    }
+    console.log(`  Job ${job.id} completed with ${previous.games_processed}/${previous.games_total ?? '?'} games processed; importing again`);
+  }
+  if (!job || job.status === 'completed' || job.status === 'failed') {
+    job = await createImportJob(params);
+    console.log(`  Created job ${job.id}`);
+  } else {
+    console.log(`  Resuming job ${job.id}`);
+  }
+
+  // Log roughly every 100 games rather than every batch
+  let lastLogged = 0;
+  const progress = await runImportJob(job.id, {
+    workerId: defaultWorkerId(),
+    concurrency,
+    signal: shutdown.signal,
+    onProgress: p => {
+      if (p.games_processed - lastLogged >= 100 || p.games_pending === 0) {
+        lastLogged = p.games_processed;
+        console.log(`  ${p.games_processed}/${p.games_total ?? '?'} processed (${p.games_inserted} inserted, ${p.games_failed} failed)`);
+      }
+    },
+  });
+
+  if (!progress) {
+    return { ...emptyReport(season, 'failed', `Job ${job.id} is held by another worker`), job_id: job.id };
+  }
+  // A job that stopped short of its schedule isn't a finished season, whatever its status says
+  if (progress.status === 'completed' && !processedAllGames(progress)) {
+    return {
+      ...reportFromProgress(season, 'failed', progress),
+      error: `Job ${job.id} completed with ${progress.games_processed} of ${progress.games_total ?? '?'} games processed`,
+    };
+  }
+
+  const status = progress.status === 'completed' ? 'completed' : progress.status === 'failed' ? 'failed' : 'paused';
+  if (status === 'completed') await syncAlignment(season);
+  return reportFromProgress(season, status, progress);
+}
+
+/**
+ * Store the season's divisions; a failure here leaves the import itself intact
+ */
+async function syncAlignment(season: string): Promise<void> {
+  try {
+    const result = await syncSeasonAlignment(season);
+    console.log(`  Alignment: ${result.teams} teams (standings of ${result.standings_date})`);
+  } catch (error) {
+    console.log(`  Alignment sync failed: ${error instanceof Error ? error.message : 'Unknown error'} (run npm run sync:alignment later)`);
+  }
+}
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  if (!fromSeason) {
+    console.error('Missing --from-season (e.g., --from-season 2010-2011 --to-season 2024-2025)');
+    process.exit(1);
+  }
+
+  const unknownTypes = types.filter(t => !GAME_TYPE_CODES[t]);
+  if (unknownTypes.length > 0) {
+    console.error(`Unknown game types: ${unknownTypes.join(', ')}. Use ${Object.keys(GAME_TYPE_CODES).join(', ')}.`);
+    process.exit(1);
+  }
+  const gameTypes = types.map(t => GAME_TYPE_CODES[t]);
+
+  let seasons: string[];
+  try {
+    seasons = listSeasons(fromSeason, toSeason!);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      console.log(`\n${signal} received, pausing after the current games...`);
+      shutdown.abort();
+    });
+  }
+
+  console.log('='.repeat(60));
+  console.log('Season Backfill');
+  console.log('='.repeat(60));
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'LIVE'}`);
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
+  console.log(`Seasons: ${seasons[0]} to ${seasons[seasons.length - 1]} (${seasons.length})`);
+  console.log(`Game types: ${types.join(', ')}`);
+  console.log(`Concurrency: ${concurrency}`);
+  console.log('');
+
+  const reports: SeasonReport[] = [];
+  for (const season of seasons) {
+    if (shutdown.signal.aborted) break;
+
+    console.log(`Season ${season}`);
+    const report = await backfillSeason(season, gameTypes);
+    reports.push(report);
+    if (report.error) console.log(`  Error: ${report.error}`);
+    console.log(`  ${report.status.toUpperCase()}`);
+    console.log('');
+  }
+
+  // Summary
+  console.log('='.repeat(60));
+  console.log('Summary');
+  console.log('='.repeat(60));
+  console.log(`  ${'Season'.padEnd(11)} ${'Status'.padEnd(10)} ${'Games'.padStart(6)} ${'Inserted'.padStart(9)} ${'Skipped'.padStart(8)} ${'Failed'.padStart(7)}`);
+  for (const report of reports) {
+    console.log(
+      `  ${report.season.padEnd(11)} ${report.status.padEnd(10)} ${String(report.games_total ?? '-').padStart(6)} ` +
+      `${String(report.games_inserted).padStart(9)} ${String(report.games_skipped).padStart(8)} ${String(report.games_failed).padStart(7)}`
+    );
+  }
+
+  const total = (key: 'games_inserted' | 'games_skipped' | 'games_failed') => reports.reduce((sum, r) => sum + r[key], 0);
+  const gamesTotal = reports.reduce((sum, r) => sum + (r.games_total ?? 0), 0);
+  console.log(
+    `  ${'Total'.padEnd(11)} ${''.padEnd(10)} ${String(gamesTotal).padStart(6)} ` +
+    `${String(total('games_inserted')).padStart(9)} ${String(total('games_skipped')).padStart(8)} ${String(total('games_failed')).padStart(7)}`
+  );
+
+  const failures = reports.flatMap(r => r.failures.map(f => ({ season: r.season, ...f })));
+  if (failures.length > 0) {
+    console.log('');
+    console.log(`Failed games (${failures.length}):`);
+    for (const failure of failures.slice(0, 20)) {
+      console.log(`  ${failure.season} ${failure.game_id} (${failure.date}): ${failure.error}`);
+    }
+    if (failures.length > 20) console.log(`  ... and ${failures.length - 20} more (see --report)`);
+  }
+
+  const metrics = nhlApi.getMetrics();
+  const cache = nhlApi.getCacheStats();
+  console.log('');
+  console.log(`  NHL API requests: ${metrics.requests} (${metrics.retries} retries, ${metrics.rate_limited} rate limited)`);
+  if (cache.enabled) {
+    console.log(`  API cache: ${cache.hits} hits, ${cache.revalidated} revalidated, ${cache.misses} misses`);
+  }
+
+  if (reportPath) {
+    writeFileSync(reportPath, JSON.stringify({
+      generated_at: new Date().toISOString(),
+      seasons: reports,
+      nhl_api: metrics,
+      cache,
+    }, null, 2) + '\n');
+    console.log(`  Report written to ${reportPath}`);
+  }
+
+  const unfinished = reports.filter(r => r.status === 'paused' || r.status === 'failed').length;
+  if (unfinished > 0 || reports.length < seasons.length) {
+    console.log('');
+    console.log('Some seasons did not finish. Run the same command again to resume them.');
+  }
+  if (dryRun) {
+    console.log('');
+    console.log('This was a DRY RUN. No changes were made.');
+  }
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
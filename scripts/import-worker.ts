@@ -0,0 +1,152 @@
+/**
+ * Import Job Worker
+ *
+ * This script processes queued import jobs (created by /api/seed, fetch_nhl_games and
+ * sync_recent_games) game by game. Jobs whose worker crashed or timed out are resumed
+ * once their lease expires; games that already finished are not fetched again.
+ *
+ * Usage: npx tsx scripts/import-worker.ts
+ *
+ * Options:
+ *   --once                Exit when no jobs are left instead of polling
+ *   --job ID              Run only this job
+ *   --queue START END     Queue an import of START..END (YYYY-MM-DD) before starting
+ *   --concurrency N       Games fetched at once (default NHL_API_CONCURRENCY)
+ *   --poll SECONDS        Seconds between checks for new jobs (default 10)
+ *
+ * Ctrl+C finishes the games in flight, then hands the job back to the queue.
+ * Set NHL_API_MODE=replay to run against recorded fixtures instead of the live API.
+ */
+
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
+
+import { getDataBackend, isDatabaseConfigured } from '../lib/db';
+import { nhlApi } from '../lib/nhl-api/client';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+import { getRateLimiterConfig } from '../lib/nhl-api/rate-limiter';
+import {
+  createImportJob,
+  defaultWorkerId,
+  runImportJob,
+  runNextImportJob,
+  type ImportJobProgress,
+} from '../lib/jobs/import-jobs';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const once = args.includes('--once');
+const jobIndex = args.indexOf('--job');
+const jobId = jobIndex !== -1 ? args[jobIndex + 1] : undefined;
+const queueIndex = args.indexOf('--queue');
+const queueRange = queueIndex !== -1 ? [args[queueIndex + 1], args[queueIndex + 2]] : undefined;
+const concurrencyIndex = args.indexOf('--concurrency');
+const concurrency = concurrencyIndex !== -1 ? parseInt(args[concurrencyIndex + 1], 10) : getRateLimiterConfig().concurrency;
+const pollIndex = args.indexOf('--poll');
+const pollSeconds = pollIndex !== -1 ? parseInt(args[pollIndex + 1], 10) : 10;
+
+const workerId = defaultWorkerId();
+const shutdown = new AbortController();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    shutdown.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function logProgress(progress: ImportJobProgress): void {
+  console.log(
+    `  [${progress.job_id}] ${progress.games_processed}/${progress.games_total ?? '?'} processed ` +
+    `(${progress.games_inserted} inserted, ${progress.games_skipped} skipped, ${progress.games_failed} failed)`
+  );
+}
+
+function logResult(progress: ImportJobProgress): void {
+  console.log(`Job ${progress.job_id}: ${progress.status.toUpperCase()}`);
+  logProgress(progress);
+  if (progress.error) console.log(`  Error: ${progress.error}`);
+  for (const failure of progress.failures) {
+    console.log(`  FAILED ${failure.game_id} (${failure.date}): ${failure.error}`);
+  }
+
+  const metrics = nhlApi.getMetrics();
+  console.log(
+    `  NHL API: ${metrics.requests} requests, ${metrics.retries} retries, ${metrics.rate_limited} rate limited, ` +
+    `avg wait ${metrics.average_wait_ms}ms, avg latency ${metrics.average_latency_ms}ms`
+  );
+
+  const cache = nhlApi.getCacheStats();
+  if (cache.enabled) {
+    console.log(`  API cache: ${cache.hits} hits, ${cache.revalidated} revalidated, ${cache.misses} misses`);
+  }
+}
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      console.log(`\n${signal} received, pausing after the current games...`);
+      shutdown.abort();
+    });
+  }
+
+  console.log('='.repeat(60));
+  console.log('Import Job Worker');
+  console.log('='.repeat(60));
+  console.log(`Worker: ${workerId}`);
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
+  console.log(`Concurrency: ${concurrency}`);
+  console.log(`Mode: ${jobId ? `job ${jobId}` : once ? 'until queue is empty' : `polling every ${pollSeconds}s`}`);
+  console.log('');
+
+  if (queueRange) {
+    const [startDate, endDate] = queueRange;
+    const job = await createImportJob({ startDate, endDate, skipExisting: true, audit: { source: 'script:import-worker' } });
+    console.log(`Queued job ${job.id} for ${startDate} to ${endDate}`);
+  }
+
+  const options = { workerId, concurrency, signal: shutdown.signal, onProgress: logProgress };
+
+  if (jobId) {
+    const progress = await runImportJob(jobId, options);
+    if (progress) {
+      logResult(progress);
+    } else {
+      console.log(`Job ${jobId} is finished or held by another worker.`);
+    }
+    return;
+  }
+
+  while (!shutdown.signal.aborted) {
+    const progress = await runNextImportJob(options);
+
+    if (progress) {
+      logResult(progress);
+      continue;
+    }
+
+    if (once) {
+      console.log('No jobs left. Exiting.');
+      return;
+    }
+    await sleep(pollSeconds * 1000);
+  }
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,164 @@
+/**
+ * Ingest Play-by-Play Period Stats
+ *
+ * This script fetches the play-by-play feed for games in the games table and
+ * stores per-team, per-period shots, shot attempts (Corsi), faceoffs, hits and
+ * penalty minutes in period_play_stats. Games that already have stats are
+ * skipped unless --force is given.
+ *
+ * Usage: npx tsx scripts/ingest-play-stats.ts
+ *
+ * Options:
+ *   --dry-run    Show what would be done without making changes
+ *   --limit N    Process only N games (for testing)
+ *   --season S   Filter to specific season (e.g., "2024-2025")
+ *   --force      Re-ingest games that already have stats
+ *
+ * Set NHL_API_MODE=replay to run against recorded fixtures instead of the live API.
+ */
+
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
+
+import { getDataBackend, getRepository, isDatabaseConfigured } from '../lib/db';
+import { nhlApi } from '../lib/nhl-api/client';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+import { buildPeriodPlayStats } from '../lib/nhl-api/transformers';
+import type { NewNHLPlayByPlayResponse } from '../lib/nhl-api/types';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const force = args.includes('--force');
+const limitIndex = args.indexOf('--limit');
+const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1], 10) : undefined;
+const seasonIndex = args.indexOf('--season');
+const season = seasonIndex !== -1 ? args[seasonIndex + 1] : '2024-2025';
+
+async function fetchPlayByPlay(gameId: string): Promise<NewNHLPlayByPlayResponse | null> {
+  try {
+    return await nhlApi.getPlayByPlay(gameId);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      console.warn(`  Game ${gameId} not found in NHL API`);
+      return null;
+    }
+    console.error(`  Error fetching game ${gameId}:`, error);
+    return null;
+  }
+}
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  const repo = getRepository();
+
+  console.log('='.repeat(60));
+  console.log('Play-by-Play Period Stats Ingest');
+  console.log('='.repeat(60));
+  console.log(`Mode: ${dryRun ? 'DRY RUN' : 'LIVE'}`);
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
+  console.log(`Season: ${season}`);
+  console.log(`Force: ${force ? 'YES (will re-ingest all games)' : 'NO'}`);
+  if (limit) console.log(`Limit: ${limit} games`);
+  console.log('');
+
+  // Step 1: Find games to process
+  console.log('Step 1: Finding games to process...');
+
+  let games;
+  let ingested: Set<string>;
+  try {
+    games = await repo.games.list({ season, ascending: true });
+    ingested = force ? new Set() : await repo.periodPlayStats.listGameIds();
+  } catch (error) {
+    console.error('Error fetching games:', error);
+    process.exit(1);
+  }
+
+  const gamesToProcess = games
+    .filter(g => !ingested.has(g.game_id))
+    .slice(0, limit);
+
+  console.log(`  Found ${games.length} games in season ${season}`);
+  console.log(`  Need play-by-play stats: ${gamesToProcess.length} games`);
+  console.log('');
+
+  if (gamesToProcess.length === 0) {
+    console.log('No games to process. Exiting.');
+    return;
+  }
+
+  let successful = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  // Step 2: Fetch and store each game
+  console.log('Step 2: Processing games...');
+
+  for (const [index, game] of gamesToProcess.entries()) {
+    const gameId = game.game_id;
+    process.stdout.write(`  [${index + 1}/${gamesToProcess.length}] Game ${gameId}... `);
+
+    const playByPlay = await fetchPlayByPlay(gameId);
+
+    if (!playByPlay) {
+      console.log('SKIPPED (not found)');
+      skipped++;
+      continue;
+    }
+
+    if (playByPlay.gameState !== 'OFF') {
+      console.log(`SKIPPED (state: ${playByPlay.gameState})`);
+      skipped++;
+      continue;
+    }
+
+    try {
+      const stats = buildPeriodPlayStats(playByPlay);
+
+      if (dryRun) {
+        console.log(`OK (would insert ${stats.length} period rows)`);
+        successful++;
+        continue;
+      }
+
+      await repo.periodPlayStats.deleteByGame(gameId);
+      await repo.periodPlayStats.insertMany(stats);
+      console.log(`OK (inserted ${stats.length} period rows)`);
+      successful++;
+    } catch (error) {
+      console.log(`FAILED: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      failed++;
+    }
+  }
+
+  // Summary
+  console.log('');
+  console.log('='.repeat(60));
+  console.log('Summary');
+  console.log('='.repeat(60));
+  console.log(`  Total processed: ${gamesToProcess.length}`);
+  console.log(`  Successful: ${successful}`);
+  console.log(`  Failed: ${failed}`);
+  console.log(`  Skipped: ${skipped}`);
+
+  if (dryRun) {
+    console.log('');
+    console.log('This was a DRY RUN. No changes were made.');
+    console.log('Run without --dry-run to apply changes.');
+  }
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+// Load environment variables for standalone scripts
+// Import this before any module that reads process.env at import time
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// dotenv never overwrites a variable that is already set, so the file loaded first wins:
+// .env.local overrides .env, and both give way to the real environment
+config({ path: resolve(process.cwd(), '.env.local') });
+config({ path: resolve(process.cwd(), '.env') });
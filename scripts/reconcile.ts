@@ -0,0 +1,137 @@
+/**
+ * Linescore Reconciliation
+ *
+ * This script re-fetches stored games from the NHL API and compares period goals,
+ * empty-net goals and period outcomes with the period_results table. The NHL sometimes
+ * revises scoring after a game is stored (a goal credited to another period, an
+ * empty-net reclassification); this finds those games and, with --apply, rewrites their
+ * period results, game results and goals. Each correction is recorded in audit_events.
+ *
+ * Usage: npx tsx scripts/reconcile.ts --season 2024-2025
+ *
+ * Options:
+ *   --season S       Season to check (e.g., "2024-2025")
+ *   --start DATE     First game date (YYYY-MM-DD)
+ *   --end DATE       Last game date (YYYY-MM-DD)
+ *   --apply          Correct mismatched games (default: report only)
+ *   --concurrency N  Games fetched at once (default NHL_API_CONCURRENCY)
+ *   --no-cache       Always download games instead of reusing cached API responses
+ *
+ * A season or both --start and --end are required; they can be combined.
+ * Cached games are always revalidated with the API, so revisions are seen even with the cache on.
+ */
+
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
+
+import { getDataBackend, isDatabaseConfigured } from '../lib/db';
+import { reconcileGames, type GameReconciliation } from '../lib/jobs/reconcile';
+import { nhlApi } from '../lib/nhl-api/client';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+import { getRateLimiterConfig } from '../lib/nhl-api/rate-limiter';
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const apply = args.includes('--apply');
+const noCache = args.includes('--no-cache');
+const seasonIndex = args.indexOf('--season');
+const season = seasonIndex !== -1 ? args[seasonIndex + 1] : undefined;
+const startIndex = args.indexOf('--start');
+const startDate = startIndex !== -1 ? args[startIndex + 1] : undefined;
+const endIndex = args.indexOf('--end');
+const endDate = endIndex !== -1 ? args[endIndex + 1] : undefined;
+const concurrencyIndex = args.indexOf('--concurrency');
+const concurrency = concurrencyIndex !== -1 ? parseInt(args[concurrencyIndex + 1], 10) : getRateLimiterConfig().concurrency;
+
+/**
+ * Output lines for a game that didn't match
+ */
+function describeGame(game: GameReconciliation): string[] {
+  const header = `  ${game.game_date} Game ${game.game_id}`;
+  if (game.status === 'skipped') return [`${header}: SKIPPED (${game.reason})`];
+  if (game.status === 'failed') return [`${header}: FAILED: ${game.reason}`];
+
+  const outcome = game.corrected ? 'CORRECTED' : game.reason ? `NOT CORRECTED: ${game.reason}` : 'MISMATCH';
+  return [
+    `${header}: ${outcome}`,
+    ...game.discrepancies.map(d =>
+      `    P${d.period_number} ${d.team_code.padEnd(3)} ${d.field.padEnd(15)} stored ${String(d.stored ?? '-').padEnd(6)} NHL ${d.api ?? '-'}`
+    ),
+  ];
+}
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  if (!season && !(startDate && endDate)) {
+    console.error('Provide --season or both --start and --end');
+    process.exit(1);
+  }
+
+  if (noCache) nhlApi.setCacheEnabled(false);
+
+  console.log('='.repeat(60));
+  console.log('Linescore Reconciliation');
+  console.log('='.repeat(60));
+  console.log(`Mode: ${apply ? 'APPLY' : 'REPORT ONLY'}`);
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
+  if (season) console.log(`Season: ${season}`);
+  if (startDate && endDate) console.log(`Dates: ${startDate} to ${endDate}`);
+  console.log(`Concurrency: ${concurrency}`);
+  const cacheStats = nhlApi.getCacheStats();
+  console.log(`API cache: ${cacheStats.enabled ? cacheStats.dir : 'OFF'}`);
+  console.log('');
+
+  const report = await reconcileGames({
+    season,
+    startDate,
+    endDate,
+    apply,
+    audit: { source: 'script:reconcile' },
+    concurrency,
+    onProgress: (checked, total) => {
+      if (checked % 100 === 0 || checked === total) console.log(`  Checked ${checked}/${total} games`);
+    },
+  });
+
+  if (report.games.length > 0) {
+    console.log('');
+    console.log('Games that did not match:');
+    for (const game of report.games) {
+      for (const line of describeGame(game)) console.log(line);
+    }
+  }
+
+  // Summary
+  console.log('');
+  console.log('='.repeat(60));
+  console.log('Summary');
+  console.log('='.repeat(60));
+  console.log(`  Games checked: ${report.games_checked}`);
+  console.log(`  Matching: ${report.games_matching}`);
+  console.log(`  Mismatched: ${report.games_mismatched}`);
+  if (apply) console.log(`  Corrected: ${report.games_corrected}`);
+  console.log(`  Skipped: ${report.games_skipped}`);
+  console.log(`  Failed: ${report.games_failed}`);
+
+  const metrics = nhlApi.getMetrics();
+  console.log(`  NHL API requests: ${metrics.requests} (${metrics.retries} retries, ${metrics.rate_limited} rate limited)`);
+
+  if (!apply && report.games_mismatched > 0) {
+    console.log('');
+    console.log('No changes were made. Run with --apply to correct mismatched games.');
+  }
+}
+
+main().catch(error => {
+  console.error('Reconciliation failed:', error);
+  process.exit(1);
+});
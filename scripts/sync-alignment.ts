@@ -0,0 +1,113 @@
+/**
+ * Team Season Alignment Sync
+ *
+ * This script stores each team's conference and division per season, read from the NHL
+ * standings at the end of that regular season. The dashboard, calculate_team_stats,
+ * compare_teams and get_standings use it to show divisions as they were in the season
+ * being viewed (pre-2013 divisions, the 2020-21 temporary divisions) instead of today's.
+ *
+ * Usage: npx tsx scripts/sync-alignment.ts
+ *
+ * Options:
+ *   --season S            Sync one season (e.g., "2012-2013")
+ *   --from-season S       First season to sync
+ *   --to-season S         Last season to sync (default: same as --from-season)
+ *
+ * Without options, every season with stored games is synced. Running it again refreshes
+ * the rows, so a season in progress can be re-synced as the standings change.
+ */
+
+// Must come first: the data layer and NHL client read their configuration at import time
+import './load-env';
+
+import { getDataBackend, getRepository, isDatabaseConfigured } from '../lib/db';
+import { syncSeasonAlignment } from '../lib/jobs/sync-alignment';
+import { getNHLApiMode } from '../lib/nhl-api/fixtures';
+
+const SEASON_PATTERN = /^(\d{4})-(\d{4})$/;
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const seasonIndex = args.indexOf('--season');
+const season = seasonIndex !== -1 ? args[seasonIndex + 1] : undefined;
+const fromIndex = args.indexOf('--from-season');
+const fromSeason = fromIndex !== -1 ? args[fromIndex + 1] : season;
+const toIndex = args.indexOf('--to-season');
+const toSeason = toIndex !== -1 ? args[toIndex + 1] : fromSeason;
+
+/**
+ * Seasons from..to inclusive, e.g. 2022-2023..2024-2025 -> three seasons
+ */
+function listSeasons(from: string, to: string): string[] {
+  const first = SEASON_PATTERN.exec(from);
+  const last = SEASON_PATTERN.exec(to);
+  if (!first || !last) {
+    throw new Error('Seasons must be in YYYY-YYYY format (e.g., 2010-2011)');
+  }
+
+  const seasons: string[] = [];
+  for (let year = Number(first[1]); year <= Number(last[1]); year++) {
+    seasons.push(`${year}-${year + 1}`);
+  }
+  return seasons;
+}
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    console.error('Missing required environment variables:');
+    console.error('  NEXT_PUBLIC_SUPABASE_URL');
+    console.error('  NEXT_PUBLIC_SUPABASE_ANON_KEY');
+    console.error('  SUPABASE_SERVICE_ROLE_KEY');
+    console.error('Or set DATA_BACKEND=local to use the local store');
+    process.exit(1);
+  }
+
+  let seasons: string[];
+  try {
+    seasons = fromSeason
+      ? listSeasons(fromSeason, toSeason!)
+      : (await getRepository().games.getSeasons()).reverse();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.log('='.repeat(60));
+  console.log('Team Season Alignment Sync');
+  console.log('='.repeat(60));
+  console.log(`Backend: ${getDataBackend()}`);
+  console.log(`NHL API: ${getNHLApiMode()}`);
+  console.log(`Seasons: ${seasons.length > 0 ? `${seasons[0]} to ${seasons[seasons.length - 1]} (${seasons.length})` : 'none'}`);
+  console.log('');
+
+  if (seasons.length === 0) {
+    console.log('No stored games yet. Import a season first, or pass --season.');
+    return;
+  }
+
+  let failed = 0;
+  for (const s of seasons) {
+    try {
+      const result = await syncSeasonAlignment(s);
+      const divisions = new Set(
+        (await getRepository().teamSeasonAlignment.list({ season: s })).map(a => a.division).filter(Boolean)
+      );
+      console.log(`  ${s}: ${result.teams} teams in ${divisions.size} divisions (standings of ${result.standings_date})`);
+      if (result.unknown_teams.length > 0) {
+        console.log(`    Skipped unknown teams: ${result.unknown_teams.join(', ')}`);
+      }
+    } catch (error) {
+      failed++;
+      console.log(`  ${s}: FAILED - ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  console.log('');
+  console.log(`Synced ${seasons.length - failed} of ${seasons.length} seasons`);
+  if (failed > 0) process.exit(1);
+}
+
+main().catch(error => {
+  console.error('Sync failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getRepository, setRepository } from '@/lib/db';
+import { createLocalRepository } from '@/lib/db/local';
+import { claimConversation } from '@/lib/langchain/memory';
+
+describe('claimConversation', () => {
+  beforeAll(() => {
+    setRepository(createLocalRepository(':memory:'));
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('gives a new conversation to the caller who starts it', async () => {
+    expect(await claimConversation('session-a', 'visitor:one')).toBe(true);
+    expect(await claimConversation('session-a', 'visitor:one')).toBe(true);
+    expect(await claimConversation('session-a', 'key:0123456789abcdef')).toBe(false);
+    expect((await getRepository().conversations.get('session-a'))?.owner).toBe('visitor:one');
+  });
+
+  it('lets the next caller claim a conversation recorded without an owner', async () => {
+    await getRepository().conversations.touch('session-b');
+    expect((await getRepository().conversations.get('session-b'))?.owner).toBeNull();
+
+    expect(await claimConversation('session-b', 'visitor:two')).toBe(true);
+    expect(await claimConversation('session-b', 'visitor:one')).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { applyRuleSet } from '@/lib/analytics/period-rules';
+import { getRepository, setRepository } from '@/lib/db';
+import { createLocalRepository } from '@/lib/db/local';
+import { ingestGame } from '@/lib/ingestion';
+import { queryPeriodDataTool } from '@/lib/langchain/tools/query-period-data';
+
+// BOS 3-2 FLA: FLA wins P1, BOS wins P2, and in P3 BOS scores at 5v5 and into FLA's empty net
+// (flagged only by the situation code), then FLA scores with its extra attacker
+const GAME_ID = '2023020100';
+
+describe('empty-net goals under the standard and no-empty-net rule sets', () => {
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    process.env.NHL_API_MODE = 'replay';
+    delete process.env.NHL_API_FIXTURES_DIR;
+    setRepository(createLocalRepository(':memory:'));
+
+    const result = await ingestGame(GAME_ID, { audit: { source: 'test' } });
+    expect(result.status).toBe('inserted');
+  });
+
+  afterAll(() => {
+    process.env = env;
+    setRepository(null);
+  });
+
+  it('flags the goal into the empty net by the conceding goalie', async () => {
+    const goals = await getRepository().goals.list({ gameIds: [GAME_ID] });
+    expect(goals.map(g => g.is_empty_net)).toEqual([false, false, false, true, false]);
+  });
+
+  it('excludes both teams\' empty-net goals from the stored period 3 outcome', async () => {
+    const periods = await getRepository().periodResults.list({ gameIds: [GAME_ID], periodNumber: 3 });
+    expect(periods.map(p => [p.team_code, p.empty_net_goals, p.period_outcome])).toEqual([
+      ['BOS', 1, 'TIE'],
+      ['FLA', 0, 'TIE'],
+    ]);
+  });
+
+  it('classifies the game the same way when empty-net goals only occur in period 3', async () => {
+    const results = await getRepository().gameTeamResults.list({ gameIds: [GAME_ID] });
+    const standard = await applyRuleSet(results, 'standard');
+    const noEmptyNet = await applyRuleSet(results, 'no-empty-net');
+
+    expect(noEmptyNet.missingGoalData).toEqual([]);
+    expect(noEmptyNet.results).toEqual(standard.results);
+    expect(standard.results.find(r => r.team_code === 'BOS')).toMatchObject({
+      result: 'WIN',
+      regulation_periods_won: 1,
+      regulation_periods_lost: 1,
+      regulation_periods_tied: 1,
+      win_quality: 'BAD',
+    });
+  });
+
+  it('filters query_period_data on the outcomes of the requested rule set', async () => {
+    const query = async (ruleSet: string) =>
+      JSON.parse(await queryPeriodDataTool.invoke({ teamCode: 'BOS', periodOutcome: 'WIN', ruleSet }));
+
+    const standard = await query('standard');
+    expect(standard.rule_set).toBe('standard@1');
+    expect(standard.data.map((p: { period_number: number }) => p.period_number)).toEqual([2]);
+
+    // Only BOS's 5v5 goal counts in period 3 once special-teams and empty-net goals are dropped
+    const fiveOnFive = await query('five-on-five');
+    expect(fiveOnFive.rule_set).toBe('five-on-five@1');
+    expect(fiveOnFive.data.map((p: { period_number: number }) => p.period_number)).toEqual([2, 3]);
+    expect(fiveOnFive.summary).toMatchObject({ period_wins: 2, games_with_two_plus_wins: 2 });
+  });
+});
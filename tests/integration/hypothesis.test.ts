@@ -0,0 +1,26 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { testPeriodHypothesis } from '@/lib/analytics/hypothesis';
+import { setRepository } from '@/lib/db';
+import { createLocalRepository } from '@/lib/db/local';
+
+describe('testPeriodHypothesis', () => {
+  beforeAll(() => {
+    setRepository(createLocalRepository(':memory:'));
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('reports insufficient data instead of testing without playoff games', async () => {
+    const result = await testPeriodHypothesis({ ruleSet: 'no-empty-net' });
+    expect(result).toMatchObject({
+      rule_set: 'no-empty-net@1',
+      sample_size: 0,
+      insufficient_data: true,
+      correlation: null,
+      logistic_regression: null,
+    });
+    expect(result.interpretation).toMatch(/Need at least 8 playoff team-seasons/);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getRepository, setRepository } from '@/lib/db';
+import { createLocalRepository } from '@/lib/db/local';
+import { nhlApi } from '@/lib/nhl-api/client';
+import { buildPeriodPlayStats } from '@/lib/nhl-api/transformers';
+import { addGamesFromApi } from '@/lib/tools/add-games';
+
+// The recorded fixtures in fixtures/nhl-api (the default NHL_API_FIXTURES_DIR) cover one night:
+// BOS 3-2 FLA on 2023-10-30, with its schedule week, landing, play-by-play and that day's standings
+const DATE = '2023-10-30';
+const GAME_ID = '2023020100';
+
+describe('replaying the recorded NHL API fixtures', () => {
+  const env = { ...process.env };
+
+  beforeAll(() => {
+    process.env.NHL_API_MODE = 'replay';
+    delete process.env.NHL_API_FIXTURES_DIR;
+    setRepository(createLocalRepository(':memory:'));
+  });
+
+  afterAll(() => {
+    process.env = env;
+    setRepository(null);
+  });
+
+  it('imports the night\'s games from the schedule, then skips them on a second run', async () => {
+    const first = await addGamesFromApi({ startDate: DATE, endDate: DATE, skipExisting: true });
+    expect(first.success).toBe(true);
+    expect(first.data).toMatchObject({ games_processed: 1, games_inserted: 1, games_failed: 0 });
+
+    const game = await getRepository().games.getById(GAME_ID);
+    expect(game).toMatchObject({ game_date: DATE, home_team_code: 'BOS', away_team_code: 'FLA' });
+    expect(await getRepository().goals.list({ gameIds: [GAME_ID] })).toHaveLength(5);
+
+    const second = await addGamesFromApi({ startDate: DATE, endDate: DATE, skipExisting: true });
+    expect(second.data).toMatchObject({ games_processed: 1, games_inserted: 0, games_skipped: 1 });
+  });
+
+  it('builds per-period play stats from the play-by-play', async () => {
+    const stats = buildPeriodPlayStats(await nhlApi.getPlayByPlay(GAME_ID));
+    const firstPeriod = stats.filter(s => s.period_number === 1);
+
+    expect(firstPeriod.find(s => s.team_code === 'BOS')).toMatchObject({
+      shots_on_goal: 1,
+      shots_against: 1,
+      faceoffs_won: 1,
+      hits: 0,
+      penalty_minutes: 0,
+    });
+    expect(firstPeriod.find(s => s.team_code === 'FLA')).toMatchObject({
+      shots_on_goal: 1,
+      faceoffs_lost: 1,
+      hits: 1,
+      penalty_minutes: 2,
+    });
+  });
+
+  it('reads the standings as of the game date', async () => {
+    const { standings } = await nhlApi.getStandingsByDate(DATE);
+    expect(standings.map(s => [s.teamAbbrev.default, s.divisionName])).toEqual([
+      ['BOS', 'Atlantic'],
+      ['FLA', 'Atlantic'],
+    ]);
+  });
+
+  it('fails like a 404 for anything that was not recorded', async () => {
+    await expect(nhlApi.getStandingsByDate('2023-10-31')).rejects.toThrow(/not found/);
+  });
+});
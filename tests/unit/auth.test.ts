@@ -0,0 +1,146 @@
+import { createHash, createHmac } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  VISITOR_COOKIE,
+  apiKeySubject,
+  authenticate,
+  createSessionToken,
+  createVisitorToken,
+  hasRole,
+  requireRole,
+  setVisitorCookie,
+  verifySessionToken,
+  verifyVisitorToken,
+} from '@/lib/auth';
+
+const KEYS = 'admin:admin-key,analyst:analyst-key';
+const SECRET = 'test-secret-0123456789abcdef0123456789';
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/test', { headers });
+}
+
+describe('auth', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.AUTH_API_KEYS = KEYS;
+    process.env.AUTH_SECRET = SECRET;
+    delete process.env.AUTH_DEFAULT_ROLE;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('session tokens', () => {
+    const subject = apiKeySubject('analyst-key');
+
+    it('round-trips the role and subject', () => {
+      const token = createSessionToken('analyst', subject);
+      expect(verifySessionToken(token)).toEqual({ role: 'analyst', subject });
+    });
+
+    it('rejects a token whose payload was changed', () => {
+      const [, signature] = createSessionToken('analyst', subject).split('.');
+      const forged = Buffer.from(JSON.stringify({ role: 'admin', sub: subject, exp: Date.now() + 1000 })).toString('base64url');
+      expect(verifySessionToken(`${forged}.${signature}`)).toBeNull();
+    });
+
+    it('rejects a token signed with another secret', () => {
+      const token = createSessionToken('analyst', subject);
+      process.env.AUTH_SECRET = 'rotated-secret-0123456789abcdef01234';
+      expect(verifySessionToken(token)).toBeNull();
+    });
+
+    it('rejects a token signed with the secret the keys used to derive', () => {
+      const derived = createHash('sha256').update(`session:${KEYS}`).digest('hex');
+      const payload = Buffer.from(JSON.stringify({ role: 'admin', sub: subject, exp: Date.now() + 1000 })).toString('base64url');
+      const signature = createHmac('sha256', derived).update(payload).digest('base64url');
+      expect(verifySessionToken(`${payload}.${signature}`)).toBeNull();
+    });
+
+    it('refuses to sign without a strong AUTH_SECRET', () => {
+      delete process.env.AUTH_SECRET;
+      expect(() => createSessionToken('analyst', subject)).toThrow(/AUTH_SECRET/);
+      process.env.AUTH_SECRET = 'short';
+      expect(() => createSessionToken('analyst', subject)).toThrow(/AUTH_SECRET/);
+    });
+
+    it('expires after the session TTL', () => {
+      const issuedAt = Date.now();
+      const token = createSessionToken('analyst', subject, issuedAt);
+      expect(verifySessionToken(token, issuedAt + SESSION_TTL_MS - 1)).not.toBeNull();
+      expect(verifySessionToken(token, issuedAt + SESSION_TTL_MS)).toBeNull();
+    });
+
+    it('rejects malformed tokens', () => {
+      expect(verifySessionToken('')).toBeNull();
+      expect(verifySessionToken('no-signature')).toBeNull();
+    });
+  });
+
+  describe('visitor tokens', () => {
+    it('round-trips the subject and rejects forgeries', () => {
+      const token = createVisitorToken('visitor:abc123');
+      expect(verifyVisitorToken(token)).toBe('visitor:abc123');
+      expect(verifyVisitorToken(token.replace('abc123', 'abc124'))).toBeNull();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('identifies API key callers by a fingerprint of the key', () => {
+      expect(authenticate(request({ authorization: 'Bearer admin-key' }))).toEqual({
+        role: 'admin',
+        method: 'api_key',
+        subject: apiKeySubject('admin-key'),
+      });
+      expect(authenticate(request({ 'x-api-key': 'analyst-key' }))?.role).toBe('analyst');
+    });
+
+    it('rejects an unknown API key instead of treating it as anonymous', () => {
+      expect(authenticate(request({ 'x-api-key': 'wrong' }))).toBeNull();
+    });
+
+    it('gives a signed-in session the subject of the key it was created with', () => {
+      const token = createSessionToken('analyst', apiKeySubject('analyst-key'));
+      expect(authenticate(request({ cookie: `${SESSION_COOKIE}=${token}` }))).toEqual({
+        role: 'analyst',
+        method: 'session',
+        subject: apiKeySubject('analyst-key'),
+      });
+    });
+
+    it('keeps an anonymous caller\'s subject across requests through the visitor cookie', () => {
+      const first = authenticate(request())!;
+      expect(first).toMatchObject({ role: 'viewer', method: 'default' });
+      expect(first.subject).toMatch(/^visitor:/);
+
+      const cookie = setVisitorCookie(NextResponse.json({}), first).cookies.get(VISITOR_COOKIE)!.value;
+      expect(authenticate(request({ cookie: `${VISITOR_COOKIE}=${cookie}` }))!.subject).toBe(first.subject);
+      expect(authenticate(request())!.subject).not.toBe(first.subject);
+    });
+  });
+
+  describe('requireRole', () => {
+    it('returns the caller when their role is high enough', () => {
+      expect(requireRole(request({ 'x-api-key': 'admin-key' }), 'analyst')).toMatchObject({ role: 'admin' });
+      expect(hasRole('analyst', 'viewer')).toBe(true);
+      expect(hasRole('viewer', 'analyst')).toBe(false);
+    });
+
+    it('answers 401 to anonymous callers and 403 to signed-in callers without the role', () => {
+      const anonymous = requireRole(request(), 'analyst');
+      const analyst = requireRole(request({ 'x-api-key': 'analyst-key' }), 'admin');
+      const invalid = requireRole(request({ 'x-api-key': 'wrong' }), 'viewer');
+
+      expect(anonymous).toBeInstanceOf(NextResponse);
+      expect((anonymous as NextResponse).status).toBe(401);
+      expect((analyst as NextResponse).status).toBe(403);
+      expect((invalid as NextResponse).status).toBe(401);
+    });
+  });
+});
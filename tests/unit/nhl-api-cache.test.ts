@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  getCacheTtl,
+  getConditionalHeaders,
+  isFresh,
+  readCacheEntry,
+  setCacheEnabled,
+  writeCacheEntry,
+} from '@/lib/nhl-api/cache';
+
+const LANDING_URL = 'https://api-web.nhle.com/v1/gamecenter/2023020100/landing';
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+describe('NHL API cache', () => {
+  const env = { ...process.env };
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'nhl-api-cache-'));
+    process.env.NHL_API_CACHE_DIR = dir;
+    setCacheEnabled(true);
+  });
+
+  afterAll(() => {
+    process.env = env;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps final games for good and expires everything else', () => {
+    expect(getCacheTtl(LANDING_URL, { gameState: 'OFF' })).toBeNull();
+    expect(getCacheTtl(LANDING_URL, { gameState: 'LIVE' })).toBeGreaterThan(0);
+    expect(getCacheTtl('https://api-web.nhle.com/v1/schedule/2023-10-30', {})).toBeGreaterThan(0);
+    expect(getCacheTtl('https://api-web.nhle.com/v1/standings/2023-10-30', {})).toBeGreaterThan(0);
+  });
+
+  it('serves a stored final game without revalidating it, however old', () => {
+    const headers = new Headers({ etag: '"v1"', 'last-modified': 'Mon, 30 Oct 2023 23:00:00 GMT' });
+    writeCacheEntry(LANDING_URL, { gameState: 'OFF' }, headers);
+
+    const entry = readCacheEntry<{ gameState: string }>(LANDING_URL);
+    expect(entry).toMatchObject({ expires_at: null, etag: '"v1"', data: { gameState: 'OFF' } });
+    expect(isFresh(entry!, Date.now() + YEAR_MS)).toBe(true);
+    expect(getConditionalHeaders(entry)).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 30 Oct 2023 23:00:00 GMT',
+    });
+  });
+
+  it('goes stale once a game in progress passes its TTL', () => {
+    const entry = writeCacheEntry(LANDING_URL, { gameState: 'LIVE' }, new Headers());
+    expect(isFresh(entry)).toBe(true);
+    expect(isFresh(entry, new Date(entry.expires_at!).getTime())).toBe(false);
+  });
+});
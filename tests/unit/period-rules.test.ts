@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { applyRuleSet, countsGoal, getRuleSet, requiresGoalData } from '@/lib/analytics/period-rules';
+import type { GameTeamResult, Goal } from '@/lib/db/types';
+
+function goal(overrides: Partial<Goal>): Goal {
+  return {
+    id: `goal-${overrides.goal_number ?? 1}`,
+    game_id: 'g1',
+    period_number: 1,
+    goal_number: 1,
+    team_code: 'BOS',
+    scorer_id: 1,
+    scorer_name: 'Scorer',
+    assist1_id: null,
+    assist1_name: null,
+    assist2_id: null,
+    assist2_name: null,
+    time_in_period: '10:00',
+    seconds_in_period: 600,
+    shot_type: null,
+    strength: 'ev',
+    situation_code: '1551',
+    is_empty_net: false,
+    home_score: 1,
+    away_score: 0,
+    ...overrides,
+  };
+}
+
+function result(overrides: Partial<GameTeamResult>): GameTeamResult {
+  return {
+    game_id: 'g1',
+    team_code: 'BOS',
+    opponent_code: 'FLA',
+    is_home: true,
+    goals_for: 0,
+    goals_against: 0,
+    result: 'WIN',
+    result_type: 'REG',
+    regulation_periods_won: 0,
+    regulation_periods_lost: 0,
+    regulation_periods_tied: 0,
+    won_two_plus_reg_periods: false,
+    win_quality: null,
+    regulation_periods_won_5v5: 0,
+    regulation_periods_lost_5v5: 0,
+    regulation_periods_tied_5v5: 0,
+    won_two_plus_reg_periods_5v5: false,
+    win_quality_5v5: null,
+    ...overrides,
+  };
+}
+
+describe('getRuleSet', () => {
+  it('resolves a name to its latest version and accepts name@version', () => {
+    expect(getRuleSet('standard').name).toBe('standard');
+    expect(getRuleSet('five-on-five@1').fiveOnFiveOnly).toBe(true);
+  });
+
+  it('rejects unknown rule sets and versions', () => {
+    expect(() => getRuleSet('made-up')).toThrow(/Unknown rule set "made-up"/);
+    expect(() => getRuleSet('standard@99')).toThrow(/Available: standard@1/);
+  });
+
+  it('reads goal data for every rule set except the stored outcomes', () => {
+    expect(requiresGoalData('standard')).toBe(false);
+    expect(requiresGoalData('ties-half-win')).toBe(false);
+    expect(requiresGoalData('no-empty-net')).toBe(true);
+  });
+});
+
+describe('countsGoal', () => {
+  const emptyNet = (period: number) => goal({ period_number: period, is_empty_net: true, situation_code: '0651' });
+
+  it('drops empty-net goals in period 3 only under the standard rules', () => {
+    expect(countsGoal(emptyNet(2), 'BOS', getRuleSet('standard'))).toBe(true);
+    expect(countsGoal(emptyNet(3), 'BOS', getRuleSet('standard'))).toBe(false);
+    expect(countsGoal(emptyNet(2), 'BOS', getRuleSet('no-empty-net'))).toBe(false);
+  });
+
+  it('keeps only 5-on-5 goals under five-on-five', () => {
+    const ruleSet = getRuleSet('five-on-five');
+    expect(countsGoal(goal({ situation_code: '1551' }), 'BOS', ruleSet)).toBe(true);
+    expect(countsGoal(goal({ situation_code: '1451', strength: 'pp' }), 'BOS', ruleSet)).toBe(false);
+  });
+
+  it('ignores late period 3 goals by the team already leading', () => {
+    const ruleSet = getRuleSet('no-late-insurance');
+    const late = { period_number: 3, seconds_in_period: 19 * 60 };
+    // BOS (home) goes 3-1 up from 2-1: insurance
+    expect(countsGoal(goal({ ...late, home_score: 3, away_score: 1 }), 'BOS', ruleSet)).toBe(false);
+    // BOS ties the game 2-2: not insurance
+    expect(countsGoal(goal({ ...late, home_score: 2, away_score: 2 }), 'BOS', ruleSet)).toBe(true);
+    // The same lead before the final two minutes still counts
+    expect(countsGoal(goal({ period_number: 3, seconds_in_period: 600, home_score: 3, away_score: 1 }), 'BOS', ruleSet)).toBe(true);
+  });
+});
+
+describe('applyRuleSet', () => {
+  // BOS 2-1 FLA: each team wins a period at 5v5, BOS's period 2 goal comes on the power play
+  const goals = [
+    goal({ goal_number: 1, period_number: 1, team_code: 'FLA', home_score: 0, away_score: 1 }),
+    goal({ goal_number: 2, period_number: 2, team_code: 'BOS', situation_code: '1451', strength: 'pp', home_score: 1, away_score: 1 }),
+    goal({ goal_number: 3, period_number: 3, team_code: 'BOS', home_score: 2, away_score: 1 }),
+  ];
+  const bos = result({
+    goals_for: 2,
+    goals_against: 1,
+    regulation_periods_won: 2,
+    regulation_periods_lost: 1,
+    won_two_plus_reg_periods: true,
+    win_quality: 'GOOD',
+  });
+
+  it('keeps stored outcomes under the standard rule set', async () => {
+    const applied = await applyRuleSet([bos], 'standard', goals);
+    expect(applied.ruleSet).toBe('standard@1');
+    expect(applied.results).toEqual([bos]);
+  });
+
+  it('rescores periods from the goals', async () => {
+    const applied = await applyRuleSet([bos], 'five-on-five', goals);
+    expect(applied.results[0]).toMatchObject({
+      regulation_periods_won: 1,
+      regulation_periods_lost: 1,
+      regulation_periods_tied: 1,
+      won_two_plus_reg_periods: false,
+      win_quality: 'BAD',
+    });
+    expect(applied.periodOutcomes.get('g1:BOS:2')).toBe('TIE');
+  });
+
+  it('counts a tied period as half a win under ties-half-win', async () => {
+    const oneWinTwoTies = result({ goals_for: 1, regulation_periods_won: 1, regulation_periods_tied: 2, win_quality: 'BAD' });
+    const applied = await applyRuleSet([oneWinTwoTies], 'ties-half-win');
+    expect(applied.results[0]).toMatchObject({ won_two_plus_reg_periods: true, win_quality: 'GOOD' });
+  });
+
+  it('keeps the stored classification of games whose goals are incomplete', async () => {
+    const applied = await applyRuleSet([bos], 'no-empty-net', goals.slice(1));
+    expect(applied.missingGoalData).toEqual(['g1']);
+    expect(applied.results).toEqual([bos]);
+  });
+});
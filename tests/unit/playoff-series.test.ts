@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlayoffSeries, parsePlayoffGameId } from '@/lib/analytics/playoff-series';
+import type { Game, GameTeamResult } from '@/lib/db/types';
+
+describe('parsePlayoffGameId', () => {
+  it('decodes round, series and game from a playoff game ID', () => {
+    expect(parsePlayoffGameId('2023030412')).toEqual({ round: 4, series_number: 1, game_number: 2 });
+    expect(parsePlayoffGameId('2022030187')).toEqual({ round: 1, series_number: 8, game_number: 7 });
+  });
+
+  it('rejects regular-season IDs and malformed playoff IDs', () => {
+    expect(parsePlayoffGameId('2023020412')).toBeNull();
+    expect(parsePlayoffGameId('2023031412')).toBeNull();
+    expect(parsePlayoffGameId('2023030012')).toBeNull();
+    expect(parsePlayoffGameId('202303041')).toBeNull();
+  });
+});
+
+describe('buildPlayoffSeries', () => {
+  function game(gameId: string, home: string, away: string): Game {
+    return {
+      game_id: gameId,
+      game_date: `2024-04-${gameId.slice(-2)}`,
+      season: '20232024',
+      home_team_code: home,
+      away_team_code: away,
+      game_type: 'Playoffs',
+      home_team_standing: null,
+      away_team_standing: null,
+    };
+  }
+
+  // One row per team; the winner won `won` regulation periods and lost the rest
+  function results(gameId: string, winner: string, loser: string, won: number): GameTeamResult[] {
+    const side = (team: string, opponent: string, isWinner: boolean): GameTeamResult => ({
+      game_id: gameId,
+      team_code: team,
+      opponent_code: opponent,
+      is_home: false,
+      goals_for: isWinner ? 3 : 1,
+      goals_against: isWinner ? 1 : 3,
+      result: isWinner ? 'WIN' : 'LOSS',
+      result_type: 'REG',
+      regulation_periods_won: isWinner ? won : 3 - won,
+      regulation_periods_lost: isWinner ? 3 - won : won,
+      regulation_periods_tied: 0,
+      won_two_plus_reg_periods: isWinner ? won >= 2 : 3 - won >= 2,
+      win_quality: isWinner ? (won >= 2 ? 'GOOD' : 'BAD') : null,
+      regulation_periods_won_5v5: 0,
+      regulation_periods_lost_5v5: 0,
+      regulation_periods_tied_5v5: 0,
+      won_two_plus_reg_periods_5v5: false,
+      win_quality_5v5: null,
+    });
+    return [side(winner, loser, true), side(loser, winner, false)];
+  }
+
+  // FLA sweeps BOS in round 2, series 3; FLA has home ice
+  const games = ['2023030234', '2023030231', '2023030233', '2023030232'].map(id =>
+    ['1', '2'].includes(id.slice(-1)) ? game(id, 'FLA', 'BOS') : game(id, 'BOS', 'FLA')
+  );
+  const gameResults = [
+    ...results('2023030231', 'FLA', 'BOS', 2),
+    ...results('2023030232', 'FLA', 'BOS', 1),
+    ...results('2023030233', 'FLA', 'BOS', 3),
+    ...results('2023030234', 'FLA', 'BOS', 2),
+  ];
+
+  it('groups games into a series in game order with the game 1 home team as top seed', () => {
+    const [series] = buildPlayoffSeries(games, gameResults);
+    expect(series).toMatchObject({
+      series_id: '202303023',
+      round: 2,
+      series_number: 3,
+      winner_code: 'FLA',
+      length: 4,
+      status: 'complete',
+    });
+    expect(series.games.map(g => g.game_number)).toEqual([1, 2, 3, 4]);
+    expect(series.top_seed).toMatchObject({ team_code: 'FLA', wins: 4, good_wins: 3, bad_wins: 1 });
+    expect(series.top_seed.period_win_share).toBe(0.667);
+    expect(series.bottom_seed).toMatchObject({ team_code: 'BOS', wins: 0, periods_won: 4 });
+  });
+
+  it('leaves a series in progress until a team wins four games', () => {
+    const [series] = buildPlayoffSeries(games, gameResults.slice(0, 6));
+    expect(series).toMatchObject({ winner_code: null, length: 3, status: 'in_progress' });
+    expect(series.games[3].winner_code).toBeNull();
+  });
+
+  it('ignores games that are not numbered as playoff games', () => {
+    expect(buildPlayoffSeries([game('2023020001', 'FLA', 'BOS')], [])).toEqual([]);
+  });
+});
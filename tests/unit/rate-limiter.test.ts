@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, parseRetryAfter } from '@/lib/nhl-api/rate-limiter';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('0.5', now)).toBe(500);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Start times (ms since the test began) of tasks that finish immediately
+  function trackStarts(limiter: ReturnType<typeof createRateLimiter>, count: number): number[] {
+    const startedAt: number[] = [];
+    const start = Date.now();
+    for (let i = 0; i < count; i++) {
+      void limiter.schedule(async () => {
+        startedAt.push(Date.now() - start);
+      });
+    }
+    return startedAt;
+  }
+
+  it('lets a burst through, then holds the sustained rate', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, burst: 3, concurrency: 10 });
+    const startedAt = trackStarts(limiter, 5);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(startedAt).toEqual([0, 0, 0]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(startedAt).toEqual([0, 0, 0, 500, 1000]);
+  });
+
+  it('caps requests in flight', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 100, burst: 100, concurrency: 2 });
+    const finish: Array<() => void> = [];
+    const tasks = Array.from({ length: 3 }, () =>
+      limiter.schedule(() => new Promise<void>(resolve => finish.push(resolve)))
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.metrics()).toMatchObject({ active: 2, queued: 1 });
+
+    finish[0]();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.metrics()).toMatchObject({ active: 2, queued: 0 });
+
+    finish[1]();
+    finish[2]();
+    await Promise.all(tasks);
+    expect(limiter.metrics()).toMatchObject({ active: 0, requests: 3 });
+  });
+
+  it('holds every request until a pause ends, then spends the burst gradually', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1, burst: 5, concurrency: 10 });
+    limiter.pauseUntil(Date.now() + 2000);
+    const startedAt = trackStarts(limiter, 2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(startedAt).toEqual([]);
+    expect(limiter.metrics().rate_limited).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(startedAt).toEqual([2000]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(startedAt).toEqual([2000, 3000]);
+  });
+
+  it('counts failed tasks and still frees their slot', async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 10, burst: 1, concurrency: 1 });
+    await expect(limiter.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(limiter.metrics()).toMatchObject({ failures: 1, requests: 1, active: 0 });
+  });
+});
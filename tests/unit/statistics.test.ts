@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  correlationConfidenceInterval,
+  createRandom,
+  logisticRegression,
+  pearson,
+  permutationTest,
+} from '@/lib/analytics/statistics';
+
+describe('pearson', () => {
+  it('is 1 or -1 for perfectly linear series', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 12);
+    expect(pearson([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 12);
+  });
+
+  it('is 0 when a series has no variance', () => {
+    expect(pearson([1, 2, 3], [5, 5, 5])).toBe(0);
+  });
+});
+
+describe('correlationConfidenceInterval', () => {
+  it('applies the Fisher z-transform with a standard error of 1 / sqrt(n - 3)', () => {
+    const [low, high] = correlationConfidenceInterval(0.5, 28)!;
+    expect(low).toBeCloseTo(0.156028, 6);
+    expect(high).toBeCloseTo(0.735818, 6);
+  });
+
+  it('is symmetric around zero for r = 0', () => {
+    const [low, high] = correlationConfidenceInterval(0, 50)!;
+    expect(low).toBeCloseTo(-high, 12);
+  });
+
+  it('is undefined for tiny samples and perfect correlations', () => {
+    expect(correlationConfidenceInterval(0.5, 3)).toBeNull();
+    expect(correlationConfidenceInterval(1, 100)).toBeNull();
+  });
+});
+
+describe('permutationTest', () => {
+  const x = [1, 2, 3, 4, 5, 6, 7, 8];
+
+  it('finds a perfect correlation significant', () => {
+    // Only the identity ordering (1 in 8!) is as extreme
+    expect(permutationTest(x, x.map(v => v * 2), 999)).toBeLessThan(0.01);
+  });
+
+  it('finds an arbitrary ordering unremarkable', () => {
+    expect(permutationTest(x, [3, 8, 1, 6, 2, 7, 5, 4], 999)).toBeGreaterThan(0.2);
+  });
+
+  it('is reproducible for a seed and never exactly zero', () => {
+    const y = [2, 1, 4, 3, 6, 5, 8, 7];
+    expect(permutationTest(x, y, 500, 42)).toBe(permutationTest(x, y, 500, 42));
+    expect(permutationTest(x, y, 10)).toBeGreaterThanOrEqual(1 / 11);
+  });
+
+  it('draws from a seeded generator', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const draws = Array.from({ length: 5 }, () => a());
+    expect(draws).toEqual(Array.from({ length: 5 }, () => b()));
+    expect(draws.every(d => d >= 0 && d < 1)).toBe(true);
+  });
+});
+
+describe('logisticRegression', () => {
+  const x = [-3, -2, -1, 0, 0, 1, 2, 3, 4, -4, 1, -1];
+  const y = [0, 0, 1, 0, 1, 1, 0, 1, 1, 0, 1, 0];
+
+  it('converges to the maximum-likelihood estimate', () => {
+    const fit = logisticRegression(x, y);
+    expect(fit.converged).toBe(true);
+
+    // The score equations are zero at the MLE
+    const p = x.map(v => 1 / (1 + Math.exp(-(fit.intercept + fit.coefficient * v))));
+    const residuals = y.map((v, i) => v - p[i]);
+    expect(residuals.reduce((sum, r) => sum + r, 0)).toBeCloseTo(0, 8);
+    expect(residuals.reduce((sum, r, i) => sum + r * x[i], 0)).toBeCloseTo(0, 8);
+
+    expect(fit.coefficient).toBeGreaterThan(0);
+    expect(fit.odds_ratio).toBeCloseTo(Math.exp(fit.coefficient), 12);
+  });
+
+  it('puts a 95% interval of ±1.96 standard errors around the coefficient', () => {
+    const fit = logisticRegression(x, y);
+    const [low, high] = fit.ci95!;
+    expect((low + high) / 2).toBeCloseTo(fit.coefficient, 12);
+    expect(high - low).toBeCloseTo(2 * 1.959963984540054 * fit.std_error!, 10);
+    expect(fit.odds_ratio_ci95![0]).toBeCloseTo(Math.exp(low), 12);
+  });
+
+  it('reports no standard error when the outcome is perfectly separated', () => {
+    const fit = logisticRegression([1, 2, 3, 4, 5, 6], [0, 0, 0, 1, 1, 1]);
+    expect(fit.converged).toBe(false);
+    expect(fit.std_error).toBeNull();
+    expect(fit.ci95).toBeNull();
+  });
+});